@@ -1,67 +1,212 @@
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint8, euint32, euint64, ebool, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { FheType } from "@fhevm/solidity/lib/FheType.sol";
+import { IFHEVMExecutor, Impl } from "@fhevm/solidity/lib/Impl.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
-
-contract AIEscapeFHE is SepoliaConfig {
+import { EscapeRoles } from "./EscapeRoles.sol";
+import { StatusDecryptions } from "./StatusDecryptions.sol";
+
+// Players need no role: every session, guess and action is tied to msg.sender,
+// or, on calls a game master relays through the trusted forwarder, to the
+// player who signed them.
+// Puzzle authors, game masters, pausers and oracle relayers are managed in EscapeRoles.
+contract AIEscapeFHE is SepoliaConfig, EscapeRoles {
+    using FHE for euint8;
     using FHE for euint32;
+    using FHE for euint64;
     using FHE for ebool;
 
-    address public owner;
-    mapping(address => bool) public isProvider;
     mapping(address => uint256) public lastSubmissionTime;
     mapping(address => uint256) public lastDecryptionRequestTime;
     uint256 public cooldownSeconds = 30;
+    uint256 public constant HINT_STUCK_SECONDS = 15 minutes;
+    uint32 public constant INITIAL_PERFORMANCE_SCORE = 50;
+    // Session scoring: points per correct guess, penalties per wrong guess and hint,
+    // and one bonus point per 10 seconds left on the clock
+    uint32 public constant SOLVE_POINTS = 100;
+    uint32 public constant WRONG_GUESS_PENALTY = 20;
+    uint32 public constant HINT_PENALTY = 30;
+    // Sessions without a time limit earn their time bonus against this par
+    uint64 public constant UNTIMED_PAR_SECONDS = 1 hours;
     bool public paused = false;
-    uint256 public currentBatchId = 0;
-    bool public batchOpen = false;
+    // EscapeLeaderboard that finished sessions share their encrypted score with
+    address public leaderboard;
+    // PlayerActionForwarder relaying signed player actions on behalf of players
+    address public trustedForwarder;
+    // Requests, tracks and delivers game status decryptions; deployed with the game
+    StatusDecryptions public immutable statusDecryptions;
+
+    // Encrypted game state, kept separately for every player so that
+    // concurrent players cannot corrupt each other's progress.
+    // For simplicity, we'll use a few euint32s to represent game state elements.
+    // In a real game, this would be more complex.
+    // The inventory is a bitmap of held items: an item with action target id `t`
+    // occupies bit `t % 64`. It is only ever user-decrypted by its owner.
+    struct PlayerState {
+        euint32 progress;
+        euint32 puzzleState1;
+        euint32 puzzleState2;
+        ebool hintEligibility;
+        euint64 inventory;
+    }
+    mapping(address => PlayerState) internal playerStates;
+
+    // A session is one run through the game. Starting one resets the player's
+    // encrypted state; actions, guesses and status requests are only accepted
+    // while it is active. Finishing seals the final stats, which stay readable by
+    // the player after the live state moves on. In a timed room the session
+    // stops accepting moves once its play time reaches the room's limit.
+    enum SessionStatus { None, Active, Paused, Abandoned, Finished }
+
+    struct SessionStats {
+        euint32 progress;
+        euint32 correctGuesses;
+        euint32 wrongGuesses;
+        euint64 inventory;
+        // Only computed when the session finishes, so no interim score ever exists
+        euint32 score;
+        // Hints that resolved to a non-zero tier; tier 0 gives no hint and costs nothing
+        euint32 hintsCharged;
+    }
 
-    struct DecryptionContext {
-        uint256 batchId;
-        bytes32 stateHash;
+    struct Session {
+        address player;
+        uint256 roomId;
+        SessionStatus status;
+        uint64 startedAt;
+        uint64 pausedAt;
+        // Time spent paused, excluded from the play time
+        uint64 pausedSeconds;
+        uint64 endedAt;
+        // Copied from the room when the session starts; 0 means untimed
+        uint64 timeLimit;
+        SessionStats stats;
+    }
+    uint256 public sessionCount = 0;
+    mapping(uint256 => Session) internal sessions;
+    // Latest session of each player, whatever its status
+    mapping(address => uint256) public currentSession;
+
+    // Puzzle registry. Solutions never leave their encrypted form; a guess is
+    // compared homomorphically and only the boolean outcome is ever decrypted.
+    struct Puzzle {
+        address creator;
+        uint8 difficulty;
+        euint32 solution;
+        uint256 createdAt;
+        uint64 requiredItems;
+    }
+    uint256 public puzzleCount = 0;
+    mapping(uint256 => Puzzle) internal puzzles;
+    // Guess results, solved puzzles, hint state, unlocked rooms and escapes
+    // belong to a run: they are keyed by session id, so every new session
+    // starts with all locks closed and no hint history.
+    mapping(uint256 => mapping(uint256 => ebool)) internal guessResults;
+    mapping(uint256 => mapping(uint256 => bool)) public puzzleSolved;
+    // Encrypted solved flags accumulate every matching guess, so room
+    // prerequisites can be evaluated without revealing individual puzzles.
+    mapping(uint256 => mapping(uint256 => ebool)) internal solvedFlags;
+
+    struct GuessVerification {
+        uint256 puzzleId;
+        address player;
+        uint256 sessionId;
+        bool processed;
+    }
+    mapping(uint256 => GuessVerification) public guessVerifications;
+
+    // Hint engine inputs and output per puzzle and session. Wrong guesses are
+    // counted homomorphically; only the resulting tier is released to the player.
+    mapping(uint256 => mapping(uint256 => euint32)) internal failedAttempts;
+    mapping(uint256 => mapping(uint256 => uint256)) public firstAttemptAt;
+    // Hint requests are public, whether they earned a hint is not
+    mapping(uint256 => mapping(uint256 => uint256)) public hintRequests;
+    mapping(uint256 => mapping(uint256 => euint8)) internal hintTiers;
+
+    // Adaptive difficulty. The performance score (0-100) is a moving average of
+    // solve speed and wrong guesses; it is only readable by this contract. The
+    // puzzle it selects is revealed, the score itself never is.
+    mapping(address => euint32) internal performanceScores;
+    mapping(address => uint256) public servedPuzzle;
+    // Puzzle ids per difficulty, oldest first, so serving only walks one difficulty
+    mapping(uint8 => uint256[]) internal puzzlesByDifficulty;
+
+    struct ServeRequest {
+        address player;
+        uint256 sessionId;
         bool processed;
     }
-    mapping(uint256 => DecryptionContext) public decryptionContexts;
+    mapping(uint256 => ServeRequest) public serveRequests;
+
+    // Rooms group puzzles (locks). A room opens once all of its prerequisite
+    // puzzles are solved and the player escapes when the room's exit lock opens.
+    struct Room {
+        address creator;
+        uint256[] puzzleIds;
+        uint256[] prerequisites;
+        uint256 exitPuzzleId;
+        // Seconds of play allowed per session in this room; 0 means untimed
+        uint64 timeLimit;
+    }
+    uint256 public roomCount = 0;
+    mapping(uint256 => Room) internal rooms;
+    mapping(uint256 => uint256) public puzzleRoom;
+    mapping(uint256 => mapping(uint256 => bool)) public roomUnlocked;
+    mapping(uint256 => mapping(uint256 => bool)) public hasEscaped;
+
+    struct RoomUnlockRequest {
+        uint256 roomId;
+        address player;
+        uint256 sessionId;
+        bool processed;
+    }
+    mapping(uint256 => RoomUnlockRequest) public roomUnlockRequests;
 
-    // Encrypted state for the game
-    // For simplicity, we'll use a few euint32s to represent game state elements.
-    // In a real game, this would be more complex.
-    euint32 internal encryptedPlayerProgress;
-    euint32 internal encryptedPuzzleState1;
-    euint32 internal encryptedPuzzleState2;
-    ebool internal encryptedHintEligibility;
-
-    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
-    event ProviderAdded(address indexed provider);
-    event ProviderRemoved(address indexed provider);
     event CooldownSet(uint256 oldCooldown, uint256 newCooldown);
     event Paused(address account);
     event Unpaused(address account);
-    event BatchOpened(uint256 batchId);
-    event BatchClosed(uint256 batchId);
-    event PlayerActionSubmitted(address indexed player, uint256 batchId, bytes32 indexed actionHash);
-    event DecryptionRequested(uint256 indexed requestId, uint256 batchId, bytes32 stateHash);
-    event DecryptionCompleted(uint256 indexed requestId, uint256 batchId, uint256 playerProgress, uint256 puzzleState1, uint256 puzzleState2, bool hintEligibility);
-
-    error NotOwner();
-    error NotProvider();
+    event SessionStarted(uint256 indexed sessionId, address indexed player, uint256 indexed roomId);
+    event SessionPaused(uint256 indexed sessionId, address indexed player);
+    event SessionResumed(uint256 indexed sessionId, address indexed player, uint256 pausedSeconds);
+    event SessionAbandoned(uint256 indexed sessionId, address indexed player, uint256 playSeconds);
+    event SessionFinished(uint256 indexed sessionId, address indexed player, uint256 playSeconds);
+    event PlayerActionSubmitted(address indexed player, uint256 sessionId, bytes32 indexed actionHash);
+    event PlayerStateInitialized(address indexed player);
+    event LeaderboardSet(address indexed previousLeaderboard, address indexed newLeaderboard);
+    event TrustedForwarderSet(address indexed previousForwarder, address indexed newForwarder);
+    // Carries every puzzle field so indexers need no getPuzzle call per event
+    event PuzzleCreated(uint256 indexed puzzleId, address indexed creator, uint8 difficulty, euint32 solution, uint64 requiredItems, uint256 createdAt);
+    event GuessSubmitted(uint256 indexed puzzleId, address indexed player, uint256 indexed requestId);
+    event GuessVerified(uint256 indexed requestId, uint256 indexed puzzleId, address indexed player, bool solved);
+    event HintTierComputed(uint256 indexed puzzleId, address indexed player, uint256 hintRequests);
+    event PuzzleServeRequested(uint256 indexed requestId, address indexed player);
+    event PuzzleServed(address indexed player, uint256 indexed puzzleId);
+    event RoomCreated(uint256 indexed roomId, address indexed creator, uint256 exitPuzzleId, uint64 timeLimit);
+    event RoomUnlockRequested(uint256 indexed requestId, uint256 indexed roomId, address indexed player);
+    event RoomUnlocked(uint256 indexed roomId, address indexed player);
+    event Escaped(uint256 indexed roomId, address indexed player);
+
+    error UnknownRequest();
     error PausedError();
     error CooldownActive();
-    error BatchClosedError();
+    error NoActiveSession();
+    error TimeUp();
+    error SessionInProgress();
+    error InvalidSessionState();
     error ReplayAttempt();
-    error StateMismatch();
-    error InvalidBatchState();
     error InvalidCooldown();
-
-    modifier onlyOwner() {
-        if (msg.sender != owner) revert NotOwner();
-        _;
-    }
-
-    modifier onlyProvider() {
-        if (!isProvider[msg.sender]) revert NotProvider();
-        _;
-    }
+    error InvalidDifficulty();
+    error PuzzleNotFound();
+    error PuzzleAlreadySolved();
+    error RoomNotFound();
+    error RoomLocked();
+    error NotInSessionRoom();
+    error RoomAlreadyUnlocked();
+    error InvalidRoom();
+    error PrerequisitesNotMet();
+    error NoPuzzleAvailable();
+    error PuzzleIdTooLarge();
 
     modifier whenNotPaused() {
         if (paused) revert PausedError();
@@ -75,213 +220,717 @@ contract AIEscapeFHE is SepoliaConfig {
         _;
     }
 
+    // The deployer can run the game on its own until the roles are handed out;
+    // the oracle role is granted separately since it belongs to the relayer.
     constructor() {
-        owner = msg.sender;
-        isProvider[owner] = true;
-        emit ProviderAdded(owner);
-        emit OwnershipTransferred(address(0), owner);
+        _grantRole(GAME_MASTER_ROLE, msg.sender);
+        _grantRole(PUZZLE_AUTHOR_ROLE, msg.sender);
+        _grantRole(PAUSER_ROLE, msg.sender);
+        statusDecryptions = new StatusDecryptions();
     }
 
-    function transferOwnership(address newOwner) public onlyOwner {
-        emit OwnershipTransferred(owner, newOwner);
-        owner = newOwner;
+    function setLeaderboard(address newLeaderboard) public onlyRole(ADMIN_ROLE) {
+        emit LeaderboardSet(leaderboard, newLeaderboard);
+        leaderboard = newLeaderboard;
     }
 
-    function addProvider(address provider) public onlyOwner {
-        if (!isProvider[provider]) {
-            isProvider[provider] = true;
-            emit ProviderAdded(provider);
-        }
+    function setTrustedForwarder(address newForwarder) public onlyRole(ADMIN_ROLE) {
+        emit TrustedForwarderSet(trustedForwarder, newForwarder);
+        trustedForwarder = newForwarder;
     }
 
-    function removeProvider(address provider) public onlyOwner {
-        if (isProvider[provider]) {
-            isProvider[provider] = false;
-            emit ProviderRemoved(provider);
-        }
-    }
-
-    function setCooldown(uint256 newCooldownSeconds) public onlyOwner {
+    function setCooldown(uint256 newCooldownSeconds) public onlyRole(ADMIN_ROLE) {
         if (newCooldownSeconds == 0) revert InvalidCooldown();
         uint256 oldCooldown = cooldownSeconds;
         cooldownSeconds = newCooldownSeconds;
         emit CooldownSet(oldCooldown, newCooldownSeconds);
     }
 
-    function pause() public onlyOwner whenNotPaused {
+    function pause() public onlyRole(PAUSER_ROLE) whenNotPaused {
         paused = true;
         emit Paused(msg.sender);
     }
 
-    function unpause() public onlyOwner {
+    function unpause() public onlyRole(PAUSER_ROLE) {
         paused = false;
         emit Unpaused(msg.sender);
     }
 
-    function openBatch() public onlyOwner whenNotPaused {
-        if (batchOpen) revert InvalidBatchState();
-        currentBatchId++;
-        batchOpen = true;
-        emit BatchOpened(currentBatchId);
+    function startSession(uint256 roomId) external whenNotPaused returns (uint256 sessionId) {
+        address player = _actionSender();
+        if (roomId != 0 && rooms[roomId].creator == address(0)) revert RoomNotFound();
+        SessionStatus previous = sessions[currentSession[player]].status;
+        if (previous == SessionStatus.Active || previous == SessionStatus.Paused) revert SessionInProgress();
+
+        sessionId = ++sessionCount;
+        Session storage session = sessions[sessionId];
+        session.player = player;
+        session.roomId = roomId;
+        session.status = SessionStatus.Active;
+        session.startedAt = uint64(block.timestamp);
+        session.timeLimit = rooms[roomId].timeLimit;
+        session.stats.correctGuesses = FHE.asEuint32(0);
+        session.stats.wrongGuesses = FHE.asEuint32(0);
+        session.stats.hintsCharged = FHE.asEuint32(0);
+        FHE.allowThis(session.stats.correctGuesses);
+        FHE.allowThis(session.stats.wrongGuesses);
+        FHE.allowThis(session.stats.hintsCharged);
+        currentSession[player] = sessionId;
+
+        _resetPlayerState(player);
+        emit SessionStarted(sessionId, player, roomId);
     }
 
-    function closeBatch() public onlyOwner whenNotPaused {
-        if (!batchOpen) revert InvalidBatchState();
-        batchOpen = false;
-        emit BatchClosed(currentBatchId);
+    function pauseSession() external whenNotPaused {
+        (uint256 sessionId, Session storage session) = _ownSession(SessionStatus.Active);
+        session.status = SessionStatus.Paused;
+        session.pausedAt = uint64(block.timestamp);
+        emit SessionPaused(sessionId, session.player);
     }
 
-    function _initIfNeeded() internal {
-        if (!encryptedPlayerProgress.isInitialized()) {
-            encryptedPlayerProgress = FHE.asEuint32(0);
-        }
-        if (!encryptedPuzzleState1.isInitialized()) {
-            encryptedPuzzleState1 = FHE.asEuint32(0);
-        }
-        if (!encryptedPuzzleState2.isInitialized()) {
-            encryptedPuzzleState2 = FHE.asEuint32(0);
-        }
-        if (!encryptedHintEligibility.isInitialized()) {
-            encryptedHintEligibility = FHE.asEbool(false);
-        }
+    function resumeSession() external whenNotPaused {
+        (uint256 sessionId, Session storage session) = _ownSession(SessionStatus.Paused);
+        uint64 pauseLength = uint64(block.timestamp) - session.pausedAt;
+        session.pausedSeconds += pauseLength;
+        session.pausedAt = 0;
+        session.status = SessionStatus.Active;
+        emit SessionResumed(sessionId, session.player, pauseLength);
+    }
+
+    // Leaving is always possible, even while the contract is paused
+    function abandonSession() external {
+        (uint256 sessionId, Session storage session) = _endSession(SessionStatus.Abandoned);
+        emit SessionAbandoned(sessionId, session.player, sessionPlayTime(sessionId));
+    }
+
+    function finishSession() external whenNotPaused {
+        (uint256 sessionId, Session storage session) = _endSession(SessionStatus.Finished);
+
+        // Security: the stats are sealed by copying the current handles; later
+        // sessions replace the live state but never these ciphertexts.
+        PlayerState storage state = playerStates[session.player];
+        uint256 playSeconds = sessionPlayTime(sessionId);
+        SessionStats storage stats = session.stats;
+        stats.progress = state.progress;
+        stats.inventory = state.inventory;
+        stats.score = _sessionScore(session, playSeconds);
+        FHE.allowThis(stats.score);
+        FHE.allow(stats.progress, session.player);
+        FHE.allow(stats.correctGuesses, session.player);
+        FHE.allow(stats.wrongGuesses, session.player);
+        FHE.allow(stats.inventory, session.player);
+        FHE.allow(stats.score, session.player);
+        // Only the score is shared, and it stays off the board until the player posts it
+        if (leaderboard != address(0)) FHE.allow(stats.score, leaderboard);
+        emit SessionFinished(sessionId, session.player, playSeconds);
+    }
+
+    // Time is public, guess outcomes and charged hints are not: the time bonus is
+    // folded into the encrypted tallies and the total is clamped at zero.
+    function _sessionScore(Session storage session, uint256 playSeconds) internal returns (euint32) {
+        uint256 par = session.timeLimit != 0 ? session.timeLimit : UNTIMED_PAR_SECONDS;
+        uint32 timeBonus = playSeconds < par ? uint32((par - playSeconds) / 10) : 0;
+        SessionStats storage stats = session.stats;
+        euint32 earned = stats.correctGuesses.mul(SOLVE_POINTS).add(timeBonus);
+        euint32 penalty = stats.wrongGuesses.mul(WRONG_GUESS_PENALTY).add(stats.hintsCharged.mul(HINT_PENALTY));
+        return FHE.select(earned.gt(penalty), earned.sub(penalty), FHE.asEuint32(0));
+    }
+
+    function _ownSession(SessionStatus expected) internal view returns (uint256 sessionId, Session storage session) {
+        sessionId = currentSession[_actionSender()];
+        session = sessions[sessionId];
+        if (session.status != expected) revert InvalidSessionState();
     }
 
-    function _requireInitialized() internal view {
-        if (!encryptedPlayerProgress.isInitialized() ||
-            !encryptedPuzzleState1.isInitialized() ||
-            !encryptedPuzzleState2.isInitialized() ||
-            !encryptedHintEligibility.isInitialized()) {
-            revert("Contract state not initialized. Call a state-updating function first.");
+    function _endSession(SessionStatus outcome) internal returns (uint256 sessionId, Session storage session) {
+        sessionId = currentSession[_actionSender()];
+        session = sessions[sessionId];
+        if (session.status == SessionStatus.Paused) {
+            session.pausedSeconds += uint64(block.timestamp) - session.pausedAt;
+            session.pausedAt = 0;
+        } else if (session.status != SessionStatus.Active) {
+            revert InvalidSessionState();
         }
+        session.status = outcome;
+        session.endedAt = uint64(block.timestamp);
     }
 
-    function _hashCiphertexts(
-        euint32 _encryptedPlayerProgress,
-        euint32 _encryptedPuzzleState1,
-        euint32 _encryptedPuzzleState2,
-        ebool _encryptedHintEligibility
-    ) internal pure returns (bytes32) {
-        bytes32[4] memory cts = [
-            _encryptedPlayerProgress.toBytes32(),
-            _encryptedPuzzleState1.toBytes32(),
-            _encryptedPuzzleState2.toBytes32(),
-            _encryptedHintEligibility.toBytes32()
-        ];
-        return keccak256(abi.encode(cts, address(this)));
+    function _activeSession(address player) internal view returns (uint256 sessionId) {
+        sessionId = currentSession[player];
+        Session storage session = sessions[sessionId];
+        if (session.status != SessionStatus.Active) revert NoActiveSession();
+        if (session.timeLimit != 0 && sessionPlayTime(sessionId) >= session.timeLimit) revert TimeUp();
+    }
+
+    // Seconds actually played: paused time is not counted, and the clock stops when the session ends
+    function sessionPlayTime(uint256 sessionId) public view returns (uint256) {
+        Session storage session = sessions[sessionId];
+        if (session.status == SessionStatus.None) return 0;
+        uint256 end = session.endedAt != 0 ? session.endedAt
+            : session.status == SessionStatus.Paused ? session.pausedAt
+            : block.timestamp;
+        return end - session.startedAt - session.pausedSeconds;
+    }
+
+    function getSession(uint256 sessionId) external view returns (
+        address player,
+        uint256 roomId,
+        SessionStatus status,
+        uint256 startedAt,
+        uint256 endedAt,
+        uint256 playSeconds,
+        uint256 timeLimit
+    ) {
+        Session storage session = sessions[sessionId];
+        return (
+            session.player,
+            session.roomId,
+            session.status,
+            session.startedAt,
+            session.endedAt,
+            sessionPlayTime(sessionId),
+            session.timeLimit
+        );
+    }
+
+    // Sealed when the session finishes; empty handles until then
+    function getSessionStats(uint256 sessionId) external view returns (
+        euint32 progress,
+        euint32 correctGuesses,
+        euint32 wrongGuesses,
+        euint64 inventory,
+        euint32 score
+    ) {
+        Session storage session = sessions[sessionId];
+        if (session.status != SessionStatus.Finished) return (progress, correctGuesses, wrongGuesses, inventory, score);
+        SessionStats storage stats = session.stats;
+        return (stats.progress, stats.correctGuesses, stats.wrongGuesses, stats.inventory, stats.score);
+    }
+
+    function _resetPlayerState(address player) internal {
+        PlayerState storage state = playerStates[player];
+        state.progress = FHE.asEuint32(0);
+        state.puzzleState1 = FHE.asEuint32(0);
+        state.puzzleState2 = FHE.asEuint32(0);
+        state.hintEligibility = FHE.asEbool(false);
+        state.inventory = FHE.asEuint64(0);
+        _grantStateAccess(player);
+        emit PlayerStateInitialized(player);
+    }
+
+    // Every new ciphertext handle must be re-authorized: the contract needs access
+    // to keep computing on it and the player needs access to user-decrypt it.
+    function _grantStateAccess(address player) internal {
+        PlayerState storage state = playerStates[player];
+        FHE.allowThis(state.progress);
+        FHE.allowThis(state.puzzleState1);
+        FHE.allowThis(state.puzzleState2);
+        FHE.allowThis(state.hintEligibility);
+        FHE.allowThis(state.inventory);
+        FHE.allow(state.progress, player);
+        FHE.allow(state.puzzleState1, player);
+        FHE.allow(state.puzzleState2, player);
+        FHE.allow(state.hintEligibility, player);
+        FHE.allow(state.inventory, player);
+    }
+
+    function getPlayerState(address player) external view returns (
+        euint32 progress,
+        euint32 puzzleState1,
+        euint32 puzzleState2,
+        ebool hintEligibility
+    ) {
+        PlayerState storage state = playerStates[player];
+        return (state.progress, state.puzzleState1, state.puzzleState2, state.hintEligibility);
+    }
+
+    function getInventory(address player) external view returns (euint64) {
+        return playerStates[player].inventory;
+    }
+
+    function isPlayerInitialized(address player) external view returns (bool) {
+        return playerStates[player].progress.isInitialized();
     }
 
     function submitPlayerAction(
-        euint32 encryptedActionType, // e.g., 1 for "examine object", 2 for "use item"
-        euint32 encryptedActionTarget // e.g., 101 for "blue key", 205 for "strange painting"
-    ) external onlyProvider whenNotPaused checkCooldown(msg.sender) {
-        if (!batchOpen) revert BatchClosedError();
+        externalEuint32 encryptedActionType, // e.g., 1 for "examine object", 2 for "use item", 3 for "pick up"
+        externalEuint32 encryptedActionTarget, // e.g., 101 for "blue key", 205 for "strange painting"
+        bytes calldata inputProof
+    ) external whenNotPaused checkCooldown(_actionSender()) {
+        address player = _actionSender();
+        uint256 sessionId = _activeSession(player);
+
+        euint32 actionType = _fromExternal(encryptedActionType, inputProof, player);
+        euint32 actionTarget = _fromExternal(encryptedActionTarget, inputProof, player);
 
-        _initIfNeeded();
+        PlayerState storage state = playerStates[player];
 
         // Simulate AI processing based on action and current state
         // This is a placeholder for more complex FHE logic
-        euint32 _encryptedPlayerProgress = encryptedPlayerProgress;
-        euint32 _encryptedPuzzleState1 = encryptedPuzzleState1;
-        euint32 _encryptedPuzzleState2 = encryptedPuzzleState2;
-        ebool _encryptedHintEligibility = encryptedHintEligibility;
+        euint32 _encryptedPlayerProgress = state.progress;
+        euint32 _encryptedPuzzleState1 = state.puzzleState1;
+        euint32 _encryptedPuzzleState2 = state.puzzleState2;
+        ebool _encryptedHintEligibility = state.hintEligibility;
 
         // Example FHE operations:
         // 1. Update player progress based on action type and target
-        euint32 progressUpdate = encryptedActionType.add(encryptedActionTarget);
+        euint32 progressUpdate = actionType.add(actionTarget);
         _encryptedPlayerProgress = _encryptedPlayerProgress.add(progressUpdate);
 
         // 2. Update puzzle states (simplified example)
-        ebool isAction1 = encryptedActionType.eq(FHE.asEuint32(1));
-        euint32 puzzleUpdate1 = FHE.select(FHE.asEuint32(10), FHE.asEuint32(0), isAction1);
+        ebool isAction1 = actionType.eq(FHE.asEuint32(1));
+        euint32 puzzleUpdate1 = FHE.select(isAction1, FHE.asEuint32(10), FHE.asEuint32(0));
         _encryptedPuzzleState1 = _encryptedPuzzleState1.add(puzzleUpdate1);
 
-        // 3. Determine hint eligibility (e.g., if progress > 50)
+        // 3. Update the inventory. The item bit is derived from the encrypted target,
+        // so an observer cannot tell which item was picked up or used.
+        euint64 itemMask = FHE.shl(FHE.asEuint64(1), FHE.asEuint8(actionTarget.rem(64)));
+        ebool isPickUp = actionType.eq(FHE.asEuint32(3));
+        ebool isUseItem = actionType.eq(FHE.asEuint32(2));
+        euint64 inventory = FHE.select(isPickUp, state.inventory.or(itemMask), state.inventory);
+        state.inventory = FHE.select(isUseItem, inventory.and(itemMask.not()), inventory);
+
+        // 4. Determine hint eligibility (e.g., if progress > 50)
         ebool progressGt50 = _encryptedPlayerProgress.ge(FHE.asEuint32(50));
         _encryptedHintEligibility = progressGt50;
 
         // Update state
-        encryptedPlayerProgress = _encryptedPlayerProgress;
-        encryptedPuzzleState1 = _encryptedPuzzleState1;
-        encryptedPuzzleState2 = _encryptedPuzzleState2; // Not updated in this example
-        encryptedHintEligibility = _encryptedHintEligibility;
-
-        lastSubmissionTime[msg.sender] = block.timestamp;
-        bytes32 actionHash = keccak256(abi.encodePacked(encryptedActionType.toBytes32(), encryptedActionTarget.toBytes32()));
-        emit PlayerActionSubmitted(msg.sender, currentBatchId, actionHash);
-    }
-
-    function requestGameStatusDecryption() external onlyProvider whenNotPaused checkCooldown(msg.sender) {
-        if (!batchOpen) revert BatchClosedError();
-        _requireInitialized();
-
-        euint32 _encryptedPlayerProgress = encryptedPlayerProgress;
-        euint32 _encryptedPuzzleState1 = encryptedPuzzleState1;
-        euint32 _encryptedPuzzleState2 = encryptedPuzzleState2;
-        ebool _encryptedHintEligibility = encryptedHintEligibility;
-
-        bytes32[4] memory cts = [
-            _encryptedPlayerProgress.toBytes32(),
-            _encryptedPuzzleState1.toBytes32(),
-            _encryptedPuzzleState2.toBytes32(),
-            _encryptedHintEligibility.toBytes32()
-        ];
-
-        bytes32 stateHash = _hashCiphertexts(
-            _encryptedPlayerProgress,
-            _encryptedPuzzleState1,
-            _encryptedPuzzleState2,
-            _encryptedHintEligibility
-        );
+        state.progress = _encryptedPlayerProgress;
+        state.puzzleState1 = _encryptedPuzzleState1;
+        state.puzzleState2 = _encryptedPuzzleState2; // Not updated in this example
+        state.hintEligibility = _encryptedHintEligibility;
+        _grantStateAccess(player);
+
+        lastSubmissionTime[player] = block.timestamp;
+        bytes32 actionHash = keccak256(abi.encodePacked(actionType.toBytes32(), actionTarget.toBytes32()));
+        emit PlayerActionSubmitted(player, sessionId, actionHash);
+    }
+
+    // Security: FHE.fromExternal checks the input proof against msg.sender, which
+    // is the forwarder on relayed calls. Inputs are verified against the player
+    // instead, so handles and a proof copied from another player's transaction
+    // are rejected when someone else signs them.
+    function _fromExternal(externalEuint32 input, bytes calldata inputProof, address player) internal returns (euint32) {
+        IFHEVMExecutor executor = IFHEVMExecutor(Impl.getCoprocessorConfig().CoprocessorAddress);
+        return euint32.wrap(executor.verifyCiphertext(externalEuint32.unwrap(input), player, inputProof, FheType.Uint32));
+    }
+
+    // Security: the forwarder appends the player whose signature it verified to
+    // the calldata (ERC-2771). The suffix is only trusted from the forwarder;
+    // anyone else always acts as themselves.
+    function _actionSender() internal view returns (address) {
+        if (msg.sender == trustedForwarder && msg.data.length >= 20) {
+            return address(bytes20(msg.data[msg.data.length - 20:]));
+        }
+        return msg.sender;
+    }
+
+    // The request itself is made, tracked and answered by statusDecryptions,
+    // which reads the state handles it is granted here for this transaction
+    function requestGameStatusDecryption() external whenNotPaused checkCooldown(_actionSender()) returns (uint256 requestId) {
+        address player = _actionSender();
+        // Starting the session initialized the state
+        uint256 sessionId = _activeSession(player);
+        PlayerState storage state = playerStates[player];
+        FHE.allowTransient(state.progress, address(statusDecryptions));
+        FHE.allowTransient(state.puzzleState1, address(statusDecryptions));
+        FHE.allowTransient(state.puzzleState2, address(statusDecryptions));
+        FHE.allowTransient(state.hintEligibility, address(statusDecryptions));
+
+        lastDecryptionRequestTime[player] = block.timestamp;
+        return statusDecryptions.request(player, sessionId);
+    }
 
-        uint256 requestId = FHE.requestDecryption(cts, this.myCallback.selector);
-        decryptionContexts[requestId] = DecryptionContext({
-            batchId: currentBatchId,
-            stateHash: stateHash,
+    function createPuzzle(
+        externalEuint32 encryptedSolution,
+        bytes calldata inputProof,
+        uint8 difficulty,
+        uint64 requiredItems
+    ) external onlyRole(PUZZLE_AUTHOR_ROLE) whenNotPaused returns (uint256 puzzleId) {
+        if (difficulty < 1 || difficulty > 3) revert InvalidDifficulty();
+
+        euint32 solution = FHE.fromExternal(encryptedSolution, inputProof);
+        FHE.allowThis(solution);
+        FHE.allow(solution, msg.sender);
+
+        puzzleId = ++puzzleCount;
+        puzzles[puzzleId] = Puzzle({
+            creator: msg.sender,
+            difficulty: difficulty,
+            solution: solution,
+            createdAt: block.timestamp,
+            requiredItems: requiredItems
+        });
+        puzzlesByDifficulty[difficulty].push(puzzleId);
+        emit PuzzleCreated(puzzleId, msg.sender, difficulty, solution, requiredItems, block.timestamp);
+    }
+
+    function getPuzzle(uint256 puzzleId) external view returns (
+        address creator,
+        uint8 difficulty,
+        uint256 createdAt,
+        euint32 solution,
+        uint64 requiredItems
+    ) {
+        Puzzle storage puzzle = puzzles[puzzleId];
+        if (puzzle.creator == address(0)) revert PuzzleNotFound();
+        return (puzzle.creator, puzzle.difficulty, puzzle.createdAt, puzzle.solution, puzzle.requiredItems);
+    }
+
+    function getGuessResult(uint256 puzzleId, uint256 sessionId) external view returns (ebool) {
+        return guessResults[puzzleId][sessionId];
+    }
+
+    // Solved flags and hint counts of every puzzle for one session, indexed by puzzleId - 1
+    function getSessionPuzzles(uint256 sessionId) external view returns (bool[] memory solved, uint256[] memory hints) {
+        uint256 count = puzzleCount;
+        solved = new bool[](count);
+        hints = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            solved[i] = puzzleSolved[i + 1][sessionId];
+            hints[i] = hintRequests[i + 1][sessionId];
+        }
+    }
+
+    function submitGuess(
+        uint256 puzzleId,
+        externalEuint32 encryptedGuess,
+        bytes calldata inputProof
+    ) external whenNotPaused checkCooldown(_actionSender()) returns (uint256 requestId) {
+        address player = _actionSender();
+        uint256 sessionId = _activeSession(player);
+        Puzzle storage puzzle = puzzles[puzzleId];
+        if (puzzle.creator == address(0)) revert PuzzleNotFound();
+        if (puzzleSolved[puzzleId][sessionId]) revert PuzzleAlreadySolved();
+        (bool inRoom, bool open) = _canPlay(sessionId, puzzleId);
+        if (!inRoom) revert NotInSessionRoom();
+        if (!open) revert RoomLocked();
+
+        euint32 guess = _fromExternal(encryptedGuess, inputProof, player);
+        ebool isMatch = guess.eq(puzzle.solution);
+        if (puzzle.requiredItems != 0) {
+            // A correct answer only counts if the player holds every required item.
+            euint64 required = FHE.asEuint64(puzzle.requiredItems);
+            ebool hasItems = playerStates[player].inventory.and(required).eq(required);
+            isMatch = isMatch.and(hasItems);
+        }
+        FHE.allowThis(isMatch);
+        FHE.allow(isMatch, player);
+        guessResults[puzzleId][sessionId] = isMatch;
+
+        _updatePerformance(puzzleId, sessionId, player, isMatch);
+
+        euint32 failed = failedAttempts[puzzleId][sessionId];
+        euint32 miss = FHE.select(isMatch, FHE.asEuint32(0), FHE.asEuint32(1));
+        failed = failed.isInitialized() ? failed.add(miss) : miss;
+        FHE.allowThis(failed);
+        failedAttempts[puzzleId][sessionId] = failed;
+        if (firstAttemptAt[puzzleId][sessionId] == 0) {
+            firstAttemptAt[puzzleId][sessionId] = block.timestamp;
+        }
+
+        ebool solvedFlag = solvedFlags[puzzleId][sessionId];
+        solvedFlag = solvedFlag.isInitialized() ? solvedFlag.or(isMatch) : isMatch;
+        FHE.allowThis(solvedFlag);
+        FHE.allow(solvedFlag, player);
+        solvedFlags[puzzleId][sessionId] = solvedFlag;
+
+        SessionStats storage stats = sessions[sessionId].stats;
+        stats.correctGuesses = stats.correctGuesses.add(FHE.select(isMatch, FHE.asEuint32(1), FHE.asEuint32(0)));
+        stats.wrongGuesses = stats.wrongGuesses.add(miss);
+        FHE.allowThis(stats.correctGuesses);
+        FHE.allowThis(stats.wrongGuesses);
+
+        // Only the match flag is sent to the oracle, never the guess or the solution.
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = isMatch.toBytes32();
+        requestId = FHE.requestDecryption(cts, this.guessCallback.selector);
+        guessVerifications[requestId] = GuessVerification({
+            puzzleId: puzzleId,
+            player: player,
+            sessionId: sessionId,
             processed: false
         });
 
-        lastDecryptionRequestTime[msg.sender] = block.timestamp;
-        emit DecryptionRequested(requestId, currentBatchId, stateHash);
+        lastSubmissionTime[player] = block.timestamp;
+        emit GuessSubmitted(puzzleId, player, requestId);
     }
 
-    function myCallback(
+    function guessCallback(
         uint256 requestId,
         bytes memory cleartexts,
         bytes memory proof
-    ) public {
-        if (decryptionContexts[requestId].processed) {
+    ) public onlyRole(ORACLE_ROLE) {
+        GuessVerification storage verification = guessVerifications[requestId];
+        if (verification.processed) {
             revert ReplayAttempt();
         }
-        // Security: Replay protection ensures a decryption result is processed only once.
-
-        _requireInitialized();
-        euint32 _encryptedPlayerProgress = encryptedPlayerProgress;
-        euint32 _encryptedPuzzleState1 = encryptedPuzzleState1;
-        euint32 _encryptedPuzzleState2 = encryptedPuzzleState2;
-        ebool _encryptedHintEligibility = encryptedHintEligibility;
-
-        bytes32 currentStateHash = _hashCiphertexts(
-            _encryptedPlayerProgress,
-            _encryptedPuzzleState1,
-            _encryptedPuzzleState2,
-            _encryptedHintEligibility
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        bool solved = abi.decode(cleartexts, (bool));
+        verification.processed = true;
+        if (solved) {
+            puzzleSolved[verification.puzzleId][verification.sessionId] = true;
+        }
+        emit GuessVerified(requestId, verification.puzzleId, verification.player, solved);
+
+        uint256 roomId = puzzleRoom[verification.puzzleId];
+        if (solved && roomId != 0 && rooms[roomId].exitPuzzleId == verification.puzzleId) {
+            hasEscaped[roomId][verification.sessionId] = true;
+            emit Escaped(roomId, verification.player);
+        }
+    }
+
+    function getHintTier(uint256 puzzleId, uint256 sessionId) external view returns (euint8) {
+        return hintTiers[puzzleId][sessionId];
+    }
+
+    function requestHint(uint256 puzzleId) external whenNotPaused returns (euint8 tier) {
+        address player = _actionSender();
+        uint256 sessionId = _activeSession(player);
+        if (puzzles[puzzleId].creator == address(0)) revert PuzzleNotFound();
+
+        euint32 failed = failedAttempts[puzzleId][sessionId];
+        if (!failed.isInitialized()) {
+            failed = FHE.asEuint32(0);
+        }
+        if (firstAttemptAt[puzzleId][sessionId] == 0) {
+            firstAttemptAt[puzzleId][sessionId] = block.timestamp;
+        }
+        bool stuckLong = block.timestamp - firstAttemptAt[puzzleId][sessionId] >= HINT_STUCK_SECONDS;
+
+        // Base tier from wrong guesses: 0-2 -> 0, 3-5 -> 1, 6+ -> 2
+        tier = FHE.select(
+            failed.ge(FHE.asEuint32(6)),
+            FHE.asEuint8(2),
+            FHE.select(failed.ge(FHE.asEuint32(3)), FHE.asEuint8(1), FHE.asEuint8(0))
         );
+        // Players stuck for a long time or with little overall progress get one tier more
+        ebool lowProgress = playerStates[player].progress.lt(FHE.asEuint32(50));
+        tier = tier.add(FHE.select(lowProgress, FHE.asEuint8(1), FHE.asEuint8(0)));
+        if (stuckLong) {
+            tier = tier.add(FHE.asEuint8(1));
+        }
+        tier = tier.min(FHE.asEuint8(3));
+
+        FHE.allowThis(tier);
+        FHE.allow(tier, player);
+        hintTiers[puzzleId][sessionId] = tier;
+        hintRequests[puzzleId][sessionId]++;
+        SessionStats storage stats = sessions[sessionId].stats;
+        stats.hintsCharged = stats.hintsCharged.add(FHE.select(tier.ne(FHE.asEuint8(0)), FHE.asEuint32(1), FHE.asEuint32(0)));
+        FHE.allowThis(stats.hintsCharged);
+        emit HintTierComputed(puzzleId, player, hintRequests[puzzleId][sessionId]);
+    }
+
+    function _performanceScore(address player) internal returns (euint32 score) {
+        score = performanceScores[player];
+        if (!score.isInitialized()) {
+            score = FHE.asEuint32(INITIAL_PERFORMANCE_SCORE);
+        }
+    }
+
+    // Every guess feeds one sample into the moving average: a correct guess
+    // scores by speed (100 down to 20 after 16 minutes), a wrong guess scores 0.
+    function _updatePerformance(uint256 puzzleId, uint256 sessionId, address player, ebool isMatch) internal {
+        uint256 startedAt = firstAttemptAt[puzzleId][sessionId];
+        uint256 elapsed = startedAt == 0 ? 0 : block.timestamp - startedAt;
+        uint32 speedSample = elapsed >= 16 minutes ? 20 : uint32(100 - (elapsed / 2 minutes) * 10);
+
+        euint32 sample = FHE.select(isMatch, FHE.asEuint32(speedSample), FHE.asEuint32(0));
+        euint32 score = _performanceScore(player).mul(3).add(sample).div(4);
+        FHE.allowThis(score);
+        performanceScores[player] = score;
+    }
+
+    // Picks the newest puzzle of the given difficulty the session can still play.
+    function _candidatePuzzle(uint256 sessionId, uint8 difficulty) internal view returns (uint256) {
+        uint256[] storage ids = puzzlesByDifficulty[difficulty];
+        for (uint256 i = ids.length; i > 0; i--) {
+            uint256 id = ids[i - 1];
+            if (puzzleSolved[id][sessionId]) continue;
+            (bool inRoom, bool open) = _canPlay(sessionId, id);
+            if (inRoom && open) return id;
+        }
+        return 0;
+    }
 
-        // Security: State verification ensures that the contract's encrypted state
-        // has not changed since the decryption was requested. This prevents
-        // scenarios where an attacker might try to get a decryption for an old state.
-        if (currentStateHash != decryptionContexts[requestId].stateHash) {
-            revert StateMismatch();
+    function serveNextPuzzle() external whenNotPaused returns (uint256 requestId) {
+        address player = _actionSender();
+        uint256 sessionId = _activeSession(player);
+        uint256[3] memory candidates;
+        uint256 fallbackId = 0;
+        for (uint8 d = 0; d < 3; d++) {
+            candidates[d] = _candidatePuzzle(sessionId, d + 1);
+            if (fallbackId == 0) fallbackId = candidates[d];
+        }
+        if (fallbackId == 0) revert NoPuzzleAvailable();
+        for (uint8 d = 0; d < 3; d++) {
+            if (candidates[d] == 0) candidates[d] = fallbackId;
+            // The chosen id is decrypted as a uint32
+            if (candidates[d] > type(uint32).max) revert PuzzleIdTooLarge();
+        }
+
+        // Score >= 70 -> hard, >= 40 -> medium, otherwise easy
+        euint32 score = _performanceScore(player);
+        euint32 chosen = FHE.select(
+            score.ge(FHE.asEuint32(70)),
+            FHE.asEuint32(uint32(candidates[2])),
+            FHE.select(
+                score.ge(FHE.asEuint32(40)),
+                FHE.asEuint32(uint32(candidates[1])),
+                FHE.asEuint32(uint32(candidates[0]))
+            )
+        );
+        FHE.allowThis(chosen);
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = chosen.toBytes32();
+        requestId = FHE.requestDecryption(cts, this.serveCallback.selector);
+        serveRequests[requestId] = ServeRequest({ player: player, sessionId: sessionId, processed: false });
+        emit PuzzleServeRequested(requestId, player);
+    }
+
+    function serveCallback(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public onlyRole(ORACLE_ROLE) {
+        ServeRequest storage request = serveRequests[requestId];
+        if (request.processed) {
+            revert ReplayAttempt();
         }
 
         FHE.checkSignatures(requestId, cleartexts, proof);
 
-        uint256 playerProgress = abi.decode(cleartexts[0:32], (uint256));
-        uint256 puzzleState1 = abi.decode(cleartexts[32:64], (uint256));
-        uint256 puzzleState2 = abi.decode(cleartexts[64:96], (uint256));
-        bool hintEligibility = abi.decode(cleartexts[96:128], (bool));
+        uint32 puzzleId = abi.decode(cleartexts, (uint32));
+        request.processed = true;
+        servedPuzzle[request.player] = puzzleId;
+        // Solve time for the served puzzle is measured from the moment it was served
+        if (firstAttemptAt[puzzleId][request.sessionId] == 0) {
+            firstAttemptAt[puzzleId][request.sessionId] = block.timestamp;
+        }
+        emit PuzzleServed(request.player, puzzleId);
+    }
+
+    function createRoom(
+        uint256[] calldata puzzleIds,
+        uint256[] calldata prerequisites,
+        uint256 exitPuzzleId,
+        uint64 timeLimit
+    ) external onlyRole(GAME_MASTER_ROLE) whenNotPaused returns (uint256 roomId) {
+        if (puzzleIds.length == 0) revert InvalidRoom();
+        roomId = ++roomCount;
+
+        bool exitInRoom = exitPuzzleId == 0;
+        for (uint256 i = 0; i < puzzleIds.length; i++) {
+            uint256 puzzleId = puzzleIds[i];
+            if (puzzles[puzzleId].creator == address(0)) revert PuzzleNotFound();
+            if (puzzleRoom[puzzleId] != 0) revert InvalidRoom();
+            puzzleRoom[puzzleId] = roomId;
+            if (puzzleId == exitPuzzleId) exitInRoom = true;
+        }
+        if (!exitInRoom) revert InvalidRoom();
+
+        // Prerequisites must already belong to earlier rooms, which keeps the
+        // dependency graph acyclic.
+        for (uint256 i = 0; i < prerequisites.length; i++) {
+            uint256 prerequisiteRoom = puzzleRoom[prerequisites[i]];
+            if (prerequisiteRoom == 0 || prerequisiteRoom == roomId) revert InvalidRoom();
+        }
+
+        Room storage room = rooms[roomId];
+        room.creator = msg.sender;
+        room.puzzleIds = puzzleIds;
+        room.prerequisites = prerequisites;
+        room.exitPuzzleId = exitPuzzleId;
+        room.timeLimit = timeLimit;
+        emit RoomCreated(roomId, msg.sender, exitPuzzleId, timeLimit);
+    }
+
+    function getRoom(uint256 roomId) external view returns (
+        address creator,
+        uint256[] memory puzzleIds,
+        uint256[] memory prerequisites,
+        uint256 exitPuzzleId,
+        uint64 timeLimit
+    ) {
+        Room storage room = rooms[roomId];
+        if (room.creator == address(0)) revert RoomNotFound();
+        return (room.creator, room.puzzleIds, room.prerequisites, room.exitPuzzleId, room.timeLimit);
+    }
+
+    function getSolvedFlag(uint256 puzzleId, uint256 sessionId) external view returns (ebool) {
+        return solvedFlags[puzzleId][sessionId];
+    }
+
+    function isRoomAccessible(uint256 roomId, uint256 sessionId) public view returns (bool) {
+        return rooms[roomId].prerequisites.length == 0 || roomUnlocked[roomId][sessionId];
+    }
 
-        decryptionContexts[requestId].processed = true;
-        emit DecryptionCompleted(requestId, decryptionContexts[requestId].batchId, playerProgress, puzzleState1, puzzleState2, hintEligibility);
+    // A room session plays its own room and the prerequisite locks guarding it;
+    // free play (room 0) plays any room the session has opened.
+    function _canPlay(uint256 sessionId, uint256 puzzleId) internal view returns (bool inRoom, bool open) {
+        uint256 sessionRoom = sessions[sessionId].roomId;
+        uint256 roomId = puzzleRoom[puzzleId];
+        if (sessionRoom != 0 && roomId != sessionRoom) {
+            uint256[] storage prerequisites = rooms[sessionRoom].prerequisites;
+            for (uint256 i = 0; i < prerequisites.length; i++) {
+                if (prerequisites[i] == puzzleId) return (true, true);
+            }
+            return (false, false);
+        }
+        return (true, roomId == 0 || isRoomAccessible(roomId, sessionId));
+    }
+
+    function requestRoomUnlock(uint256 roomId) external whenNotPaused returns (uint256 requestId) {
+        address player = _actionSender();
+        uint256 sessionId = _activeSession(player);
+        Room storage room = rooms[roomId];
+        if (room.creator == address(0)) revert RoomNotFound();
+        uint256 sessionRoom = sessions[sessionId].roomId;
+        if (sessionRoom != 0 && sessionRoom != roomId) revert NotInSessionRoom();
+        if (isRoomAccessible(roomId, sessionId)) revert RoomAlreadyUnlocked();
+
+        // AND together the encrypted solved flags of every prerequisite lock.
+        ebool canUnlock = FHE.asEbool(true);
+        for (uint256 i = 0; i < room.prerequisites.length; i++) {
+            ebool solvedFlag = solvedFlags[room.prerequisites[i]][sessionId];
+            if (!solvedFlag.isInitialized()) revert PrerequisitesNotMet();
+            canUnlock = canUnlock.and(solvedFlag);
+        }
+        FHE.allowThis(canUnlock);
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = canUnlock.toBytes32();
+        requestId = FHE.requestDecryption(cts, this.roomCallback.selector);
+        roomUnlockRequests[requestId] = RoomUnlockRequest({
+            roomId: roomId,
+            player: player,
+            sessionId: sessionId,
+            processed: false
+        });
+        emit RoomUnlockRequested(requestId, roomId, player);
+    }
+
+    function roomCallback(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public onlyRole(ORACLE_ROLE) {
+        RoomUnlockRequest storage request = roomUnlockRequests[requestId];
+        if (request.processed) {
+            revert ReplayAttempt();
+        }
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        bool unlocked = abi.decode(cleartexts, (bool));
+        request.processed = true;
+        if (unlocked) {
+            roomUnlocked[request.roomId][request.sessionId] = true;
+            emit RoomUnlocked(request.roomId, request.player);
+        }
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,255 @@
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { AIEscapeFHE } from "./AI_Escape_FHE.sol";
+
+// Per-room leaderboard over the sealed session scores of AIEscapeFHE.
+// Posting a finished session adds its score to the room's board in encrypted
+// form; the player alone decides whether the oracle reveals it publicly. Ranks
+// are counted homomorphically, so a player learns how many runs by other
+// players they beat without any other score being decrypted. Access control
+// is the game's: its oracle accounts deliver reveals, and ownership moves with
+// the game's two-step transfer.
+contract EscapeLeaderboard is SepoliaConfig {
+    using FHE for euint32;
+
+    // Entries compared per rank update, which keeps a transaction within the
+    // coprocessor's per-transaction budget however large a room's board grows
+    uint256 public constant MAX_RANK_BATCH = 32;
+    // Other players' runs a rank pass must cover beyond the last published
+    // count. Two counts that differ by a single run would reveal how the
+    // player's score compares with that run.
+    uint256 public constant MIN_RANK_MIX = 3;
+
+    AIEscapeFHE public immutable game;
+
+    struct Entry {
+        address player;
+        uint256 sessionId;
+        uint256 roomId;
+        uint64 finishedAt;
+        uint64 playSeconds;
+        euint32 score;
+        bool revealRequested;
+        bool revealed;
+        uint32 revealedScore;
+        // Encrypted number of other players' runs with a lower score, counted
+        // over the room's first rankedThrough entries, of which rankedRivals
+        // belong to other players. A player with several runs on the board is
+        // counted once per run.
+        euint32 beaten;
+        uint256 rankedThrough;
+        uint256 rankedRivals;
+        // Rank pass in progress over the room's first passEnd entries (0 when
+        // idle). Its running count stays private to this contract until the
+        // pass has compared every entry of the snapshot.
+        euint32 passBeaten;
+        uint256 passNext;
+        uint256 passEnd;
+        uint256 passRivals;
+    }
+    uint256 public entryCount = 0;
+    mapping(uint256 => Entry) internal entries;
+    mapping(uint256 => uint256[]) internal roomEntries;
+    mapping(uint256 => uint256) public sessionEntry;
+    // Runs each player posted per room, to tell rivals' entries apart cheaply
+    mapping(uint256 => mapping(address => uint256)) internal playerRuns;
+
+    struct RevealRequest {
+        uint256 entryId;
+        bool processed;
+    }
+    mapping(uint256 => RevealRequest) public revealRequests;
+
+    event ScorePosted(uint256 indexed entryId, uint256 indexed roomId, address indexed player, uint256 sessionId);
+    event ScoreRevealRequested(uint256 indexed requestId, uint256 indexed entryId);
+    event ScoreRevealed(uint256 indexed entryId, uint256 indexed roomId, address indexed player, uint32 score);
+    event RankPassStarted(uint256 indexed entryId, address indexed player, uint256 passEnd);
+    event RankUpdated(uint256 indexed entryId, address indexed player, uint256 rankedThrough);
+
+    error NotOracle();
+    error NotEntryPlayer();
+    error SessionNotFinished();
+    error ScoreNotShared();
+    error AlreadyPosted();
+    error AlreadyRevealed();
+    error EntryNotFound();
+    error UnknownRequest();
+    error ReplayAttempt();
+    error RankBatchTooSmall();
+
+    // Security: only the game's ORACLE_ROLE accounts may deliver decryption
+    // results, on top of the KMS signature check done by FHE.checkSignatures.
+    modifier onlyOracle() {
+        if (!game.hasRole(game.ORACLE_ROLE(), msg.sender)) revert NotOracle();
+        _;
+    }
+
+    constructor(AIEscapeFHE _game) {
+        game = _game;
+    }
+
+    function postScore(uint256 sessionId) external returns (uint256 entryId) {
+        (address player, uint256 roomId, AIEscapeFHE.SessionStatus status, , uint256 endedAt, uint256 playSeconds, ) =
+            game.getSession(sessionId);
+        if (player != msg.sender) revert NotEntryPlayer();
+        if (status != AIEscapeFHE.SessionStatus.Finished) revert SessionNotFinished();
+        if (sessionEntry[sessionId] != 0) revert AlreadyPosted();
+
+        // The game shares each sealed score with the leaderboard it was pointing at
+        // when the session finished; older scores cannot be compared here.
+        (, , , , euint32 score) = game.getSessionStats(sessionId);
+        if (!FHE.isAllowed(score, address(this))) revert ScoreNotShared();
+
+        entryId = ++entryCount;
+        Entry storage entry = entries[entryId];
+        entry.player = msg.sender;
+        entry.sessionId = sessionId;
+        entry.roomId = roomId;
+        entry.finishedAt = uint64(endedAt);
+        entry.playSeconds = uint64(playSeconds);
+        entry.score = score;
+        entry.beaten = FHE.asEuint32(0);
+        FHE.allowThis(entry.beaten);
+        FHE.allow(entry.beaten, msg.sender);
+        sessionEntry[sessionId] = entryId;
+        roomEntries[roomId].push(entryId);
+        playerRuns[roomId][msg.sender]++;
+        emit ScorePosted(entryId, roomId, msg.sender, sessionId);
+    }
+
+    // Opt-in: the score becomes public once the oracle delivers it
+    function revealScore(uint256 entryId) external returns (uint256 requestId) {
+        Entry storage entry = _ownEntry(entryId);
+        if (entry.revealRequested) revert AlreadyRevealed();
+        entry.revealRequested = true;
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = entry.score.toBytes32();
+        requestId = FHE.requestDecryption(cts, this.revealCallback.selector);
+        revealRequests[requestId] = RevealRequest({ entryId: entryId, processed: false });
+        emit ScoreRevealRequested(requestId, entryId);
+    }
+
+    function revealCallback(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public onlyOracle {
+        RevealRequest storage request = revealRequests[requestId];
+        if (request.entryId == 0) revert UnknownRequest();
+        if (request.processed) {
+            revert ReplayAttempt();
+        }
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        uint32 score = abi.decode(cleartexts, (uint32));
+        request.processed = true;
+        Entry storage entry = entries[request.entryId];
+        entry.revealed = true;
+        entry.revealedScore = score;
+        emit ScoreRevealed(request.entryId, entry.roomId, entry.player, score);
+    }
+
+    // Starts a pass over the current board if none is running, then compares
+    // the next MAX_RANK_BATCH entries; the step that completes the pass
+    // publishes the count.
+    // Security: a count is only published for a whole pass over a fixed
+    // snapshot, and a new pass needs MIN_RANK_MIX more rival runs than the last
+    // published one; stepping the board one entry at a time would otherwise
+    // reveal each pairwise comparison. Only the entry's player drives a pass.
+    function updateRank(uint256 entryId) external returns (uint256 rankedThrough) {
+        Entry storage entry = _ownEntry(entryId);
+        uint256[] storage board = roomEntries[entry.roomId];
+        if (entry.passEnd == 0) {
+            uint256 rivals = board.length - playerRuns[entry.roomId][msg.sender];
+            if (rivals < entry.rankedRivals + MIN_RANK_MIX) revert RankBatchTooSmall();
+            entry.passEnd = board.length;
+            entry.passRivals = rivals;
+            entry.passNext = 0;
+            entry.passBeaten = FHE.asEuint32(0);
+            emit RankPassStarted(entryId, msg.sender, board.length);
+        }
+
+        uint256 end = entry.passNext + MAX_RANK_BATCH;
+        if (end > entry.passEnd) end = entry.passEnd;
+        euint32 beaten = entry.passBeaten;
+        for (uint256 i = entry.passNext; i < end; i++) {
+            Entry storage other = entries[board[i]];
+            // A player's own runs do not count, whichever of them scored higher
+            if (other.player == entry.player) continue;
+            ebool isBeaten = other.score.lt(entry.score);
+            beaten = beaten.add(FHE.select(isBeaten, FHE.asEuint32(1), FHE.asEuint32(0)));
+        }
+        FHE.allowThis(beaten);
+        entry.passBeaten = beaten;
+        entry.passNext = end;
+
+        if (end == entry.passEnd) {
+            FHE.allow(beaten, msg.sender);
+            entry.beaten = beaten;
+            entry.rankedThrough = end;
+            entry.rankedRivals = entry.passRivals;
+            entry.passEnd = 0;
+            emit RankUpdated(entryId, msg.sender, end);
+        }
+        return entry.rankedThrough;
+    }
+
+    function _ownEntry(uint256 entryId) internal view returns (Entry storage entry) {
+        entry = entries[entryId];
+        if (entry.player == address(0)) revert EntryNotFound();
+        if (entry.player != msg.sender) revert NotEntryPlayer();
+    }
+
+    function getEntry(uint256 entryId) external view returns (
+        address player,
+        uint256 sessionId,
+        uint256 roomId,
+        uint256 finishedAt,
+        uint256 playSeconds,
+        bool revealRequested,
+        bool revealed,
+        uint32 revealedScore
+    ) {
+        Entry storage entry = entries[entryId];
+        if (entry.player == address(0)) revert EntryNotFound();
+        return (
+            entry.player,
+            entry.sessionId,
+            entry.roomId,
+            entry.finishedAt,
+            entry.playSeconds,
+            entry.revealRequested,
+            entry.revealed,
+            entry.revealedScore
+        );
+    }
+
+    function getEncryptedScore(uint256 entryId) external view returns (euint32) {
+        return entries[entryId].score;
+    }
+
+    // Only the entry's player can decrypt the count. newRivals is the number of
+    // other players' runs posted since it was published; passEnd is non-zero
+    // while a pass is running, passNext being the entries it compared so far.
+    function getRank(uint256 entryId) external view returns (
+        euint32 beaten,
+        uint256 rankedThrough,
+        uint256 boardSize,
+        uint256 newRivals,
+        uint256 passNext,
+        uint256 passEnd
+    ) {
+        Entry storage entry = entries[entryId];
+        boardSize = roomEntries[entry.roomId].length;
+        uint256 rivals = boardSize - playerRuns[entry.roomId][entry.player];
+        return (entry.beaten, entry.rankedThrough, boardSize, rivals - entry.rankedRivals, entry.passNext, entry.passEnd);
+    }
+
+    function getRoomEntries(uint256 roomId) external view returns (uint256[] memory) {
+        return roomEntries[roomId];
+    }
+}
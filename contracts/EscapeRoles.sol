@@ -0,0 +1,129 @@
+pragma solidity ^0.8.24;
+
+// Role-based access control for AIEscapeFHE.
+// The owner is the root of trust: it alone grants and revokes ADMIN_ROLE, and
+// admins manage every other role. Ownership moves in two steps so that a typo
+// cannot hand the contract to an address nobody controls. Role members are
+// enumerable so the admin UI can list them without replaying events.
+abstract contract EscapeRoles {
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    // Designs rooms and, as the AI game master, relays player moves
+    bytes32 public constant GAME_MASTER_ROLE = keccak256("GAME_MASTER_ROLE");
+    bytes32 public constant PUZZLE_AUTHOR_ROLE = keccak256("PUZZLE_AUTHOR_ROLE");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    // Security: only these relayer accounts may deliver oracle decryption results to
+    // the callbacks, on top of the KMS signature check done by FHE.checkSignatures.
+    bytes32 public constant ORACLE_ROLE = keccak256("ORACLE_ROLE");
+
+    address public owner;
+    address public pendingOwner;
+
+    mapping(bytes32 => address[]) internal roleMembers;
+    // 1-based position in roleMembers; 0 means the account does not hold the role
+    mapping(bytes32 => mapping(address => uint256)) internal roleMemberIndex;
+
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+
+    error NotOwner();
+    error NotPendingOwner();
+    error InvalidOwner();
+    error MissingRole(bytes32 role, address account);
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    modifier onlyRole(bytes32 role) {
+        _checkRole(role);
+        _;
+    }
+
+    constructor() {
+        owner = msg.sender;
+        emit OwnershipTransferred(address(0), msg.sender);
+        _grantRole(ADMIN_ROLE, msg.sender);
+    }
+
+    // The new owner has to accept before anything changes; the zero address is
+    // rejected since it could never accept
+    function transferOwnership(address newOwner) public onlyOwner {
+        if (newOwner == address(0)) revert InvalidOwner();
+        pendingOwner = newOwner;
+        emit OwnershipTransferStarted(owner, newOwner);
+    }
+
+    // The admin role moves with ownership; other roles of the previous owner are kept
+    function acceptOwnership() public {
+        if (msg.sender != pendingOwner) revert NotPendingOwner();
+        address previousOwner = owner;
+        owner = msg.sender;
+        pendingOwner = address(0);
+        emit OwnershipTransferred(previousOwner, msg.sender);
+        _revokeRole(ADMIN_ROLE, previousOwner);
+        _grantRole(ADMIN_ROLE, msg.sender);
+    }
+
+    function hasRole(bytes32 role, address account) public view returns (bool) {
+        return roleMemberIndex[role][account] != 0;
+    }
+
+    // Kept out of onlyRole so the check is not inlined into every function using
+    // it; AIEscapeFHE is close to the contract size limit
+    function _checkRole(bytes32 role) internal view {
+        if (!hasRole(role, msg.sender)) revert MissingRole(role, msg.sender);
+    }
+
+    function grantRole(bytes32 role, address account) public {
+        _checkRoleAdmin(role);
+        _grantRole(role, account);
+    }
+
+    function revokeRole(bytes32 role, address account) public {
+        _checkRoleAdmin(role);
+        _revokeRole(role, account);
+    }
+
+    function renounceRole(bytes32 role) public {
+        _revokeRole(role, msg.sender);
+    }
+
+    function getRoleMemberCount(bytes32 role) public view returns (uint256) {
+        return roleMembers[role].length;
+    }
+
+    function getRoleMembers(bytes32 role) public view returns (address[] memory) {
+        return roleMembers[role];
+    }
+
+    function _checkRoleAdmin(bytes32 role) internal view {
+        if (role == ADMIN_ROLE) {
+            if (msg.sender != owner) revert NotOwner();
+        } else if (!hasRole(ADMIN_ROLE, msg.sender)) {
+            revert MissingRole(ADMIN_ROLE, msg.sender);
+        }
+    }
+
+    function _grantRole(bytes32 role, address account) internal {
+        if (hasRole(role, account)) return;
+        roleMembers[role].push(account);
+        roleMemberIndex[role][account] = roleMembers[role].length;
+        emit RoleGranted(role, account, msg.sender);
+    }
+
+    // Swap-and-pop, so member order is not stable across revocations
+    function _revokeRole(bytes32 role, address account) internal {
+        uint256 index = roleMemberIndex[role][account];
+        if (index == 0) return;
+        address[] storage members = roleMembers[role];
+        address last = members[members.length - 1];
+        members[index - 1] = last;
+        roleMemberIndex[role][last] = index;
+        members.pop();
+        delete roleMemberIndex[role][account];
+        emit RoleRevoked(role, account, msg.sender);
+    }
+}
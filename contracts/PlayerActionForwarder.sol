@@ -0,0 +1,251 @@
+pragma solidity ^0.8.24;
+
+import { externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { AIEscapeFHE } from "./AI_Escape_FHE.sol";
+import { StatusDecryptions } from "./StatusDecryptions.sol";
+
+// Gasless play for AIEscapeFHE. A player signs an EIP-712 PlayerAction over the
+// encrypted action handles, a nonce and a deadline; any game master may relay it
+// and pay the gas. The forwarder checks the signature and calls the game with
+// the player appended to the calldata (ERC-2771), so the action is attributed to
+// the player who signed it and never to the relayer. Game status decryptions are
+// relayed the same way from a signed StatusRequest, guesses from a signed
+// GuessAction and every other player call (session lifecycle, hints, room
+// unlocks, puzzle serving and status request cancels) from a signed GameCall,
+// so a player can play without ever holding ETH.
+// The game verifies the input proof against the signing player, so relayed
+// actions are encrypted for the game with the player as the user address.
+contract PlayerActionForwarder {
+    bytes32 private constant DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+    bytes32 public constant PLAYER_ACTION_TYPEHASH =
+        keccak256(
+            "PlayerAction(address player,bytes32 actionType,bytes32 actionTarget,bytes32 inputProofHash,uint256 nonce,uint256 deadline)"
+        );
+    bytes32 public constant STATUS_REQUEST_TYPEHASH =
+        keccak256("StatusRequest(address player,uint256 nonce,uint256 deadline)");
+    bytes32 public constant GUESS_ACTION_TYPEHASH =
+        keccak256(
+            "GuessAction(address player,uint256 puzzleId,bytes32 guess,bytes32 inputProofHash,uint256 nonce,uint256 deadline)"
+        );
+    bytes32 public constant GAME_CALL_TYPEHASH =
+        keccak256("GameCall(address player,uint8 operation,uint256 id,uint256 nonce,uint256 deadline)");
+    bytes32 private constant NAME_HASH = keccak256("AIEscapeFHE");
+    bytes32 private constant VERSION_HASH = keccak256("1");
+    // Signatures with s in the upper half of the curve order are malleable copies
+    // of valid ones and are rejected
+    uint256 private constant MAX_S = 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0;
+
+    AIEscapeFHE public immutable game;
+    // Next nonce each player must sign, shared by every signed message;
+    // a nonce is consumed by a successful relay
+    mapping(address => uint256) public nonces;
+
+    struct PlayerAction {
+        address player;
+        externalEuint32 actionType;
+        externalEuint32 actionTarget;
+        uint256 nonce;
+        uint256 deadline;
+    }
+
+    struct StatusRequest {
+        address player;
+        uint256 nonce;
+        uint256 deadline;
+    }
+
+    struct GuessAction {
+        address player;
+        uint256 puzzleId;
+        externalEuint32 guess;
+        uint256 nonce;
+        uint256 deadline;
+    }
+
+    // The id is the room for StartSession and RequestRoomUnlock, the puzzle for
+    // RequestHint and the status request for CancelStatusRequest; other
+    // operations ignore it
+    enum Operation {
+        StartSession,
+        PauseSession,
+        ResumeSession,
+        AbandonSession,
+        FinishSession,
+        RequestHint,
+        RequestRoomUnlock,
+        ServeNextPuzzle,
+        CancelStatusRequest
+    }
+
+    struct GameCall {
+        address player;
+        Operation operation;
+        uint256 id;
+        uint256 nonce;
+        uint256 deadline;
+    }
+
+    event PlayerActionRelayed(address indexed player, address indexed relayer, uint256 nonce);
+    event StatusRequestRelayed(address indexed player, address indexed relayer, uint256 nonce);
+    event GuessRelayed(address indexed player, address indexed relayer, uint256 nonce);
+    event GameCallRelayed(address indexed player, address indexed relayer, Operation operation, uint256 nonce);
+    event NonceInvalidated(address indexed player, uint256 nonce);
+
+    error NotRelayer();
+    error ExpiredAction();
+    error InvalidNonce();
+    error InvalidSignature();
+
+    constructor(AIEscapeFHE _game) {
+        game = _game;
+    }
+
+    // Computed per call so that the domain stays correct after a chain fork
+    function domainSeparator() public view returns (bytes32) {
+        return keccak256(abi.encode(DOMAIN_TYPEHASH, NAME_HASH, VERSION_HASH, block.chainid, address(this)));
+    }
+
+    // The proof is signed by hash; together with the handles it pins the exact ciphertexts
+    function hashPlayerAction(PlayerAction calldata action, bytes calldata inputProof) public view returns (bytes32) {
+        bytes32 structHash = keccak256(
+            abi.encode(
+                PLAYER_ACTION_TYPEHASH,
+                action.player,
+                externalEuint32.unwrap(action.actionType),
+                externalEuint32.unwrap(action.actionTarget),
+                keccak256(inputProof),
+                action.nonce,
+                action.deadline
+            )
+        );
+        return _digest(structHash);
+    }
+
+    function hashStatusRequest(StatusRequest calldata request) public view returns (bytes32) {
+        return _digest(keccak256(abi.encode(STATUS_REQUEST_TYPEHASH, request.player, request.nonce, request.deadline)));
+    }
+
+    function hashGuessAction(GuessAction calldata action, bytes calldata inputProof) public view returns (bytes32) {
+        bytes32 structHash = keccak256(
+            abi.encode(
+                GUESS_ACTION_TYPEHASH,
+                action.player,
+                action.puzzleId,
+                externalEuint32.unwrap(action.guess),
+                keccak256(inputProof),
+                action.nonce,
+                action.deadline
+            )
+        );
+        return _digest(structHash);
+    }
+
+    function hashGameCall(GameCall calldata call) public view returns (bytes32) {
+        return
+            _digest(
+                keccak256(abi.encode(GAME_CALL_TYPEHASH, call.player, call.operation, call.id, call.nonce, call.deadline))
+            );
+    }
+
+    // Security: a relayer can delay or drop an action but never alter it. The
+    // signature covers every argument forwarded to the game, the nonce stops
+    // replays and the deadline bounds how long a signed action stays usable.
+    // If the game rejects the action the whole relay reverts and the nonce is kept.
+    function relay(PlayerAction calldata action, bytes calldata inputProof, bytes calldata signature) external {
+        _useNonce(action.player, action.nonce, action.deadline, hashPlayerAction(action, inputProof), signature);
+        _call(
+            address(game),
+            abi.encodeCall(AIEscapeFHE.submitPlayerAction, (action.actionType, action.actionTarget, inputProof)),
+            action.player
+        );
+        emit PlayerActionRelayed(action.player, msg.sender, action.nonce);
+    }
+
+    // The status masks are granted to the player, so only they can read the result
+    function relayStatusRequest(StatusRequest calldata request, bytes calldata signature) external {
+        _useNonce(request.player, request.nonce, request.deadline, hashStatusRequest(request), signature);
+        _call(address(game), abi.encodeCall(AIEscapeFHE.requestGameStatusDecryption, ()), request.player);
+        emit StatusRequestRelayed(request.player, msg.sender, request.nonce);
+    }
+
+    function relayGuess(GuessAction calldata action, bytes calldata inputProof, bytes calldata signature) external {
+        _useNonce(action.player, action.nonce, action.deadline, hashGuessAction(action, inputProof), signature);
+        _call(
+            address(game),
+            abi.encodeCall(AIEscapeFHE.submitGuess, (action.puzzleId, action.guess, inputProof)),
+            action.player
+        );
+        emit GuessRelayed(action.player, msg.sender, action.nonce);
+    }
+
+    function relayGameCall(GameCall calldata call, bytes calldata signature) external {
+        _useNonce(call.player, call.nonce, call.deadline, hashGameCall(call), signature);
+        if (call.operation == Operation.CancelStatusRequest) {
+            _call(
+                address(game.statusDecryptions()),
+                abi.encodeCall(StatusDecryptions.cancel, (call.id)),
+                call.player
+            );
+        } else {
+            _call(address(game), _gameCallData(call.operation, call.id), call.player);
+        }
+        emit GameCallRelayed(call.player, msg.sender, call.operation, call.nonce);
+    }
+
+    // Cancels every signed message that has not been relayed yet
+    function invalidateNonce() external {
+        uint256 nonce = nonces[msg.sender]++;
+        emit NonceInvalidated(msg.sender, nonce);
+    }
+
+    function _useNonce(
+        address player,
+        uint256 nonce,
+        uint256 deadline,
+        bytes32 digest,
+        bytes calldata signature
+    ) internal {
+        if (!game.hasRole(game.GAME_MASTER_ROLE(), msg.sender)) revert NotRelayer();
+        if (block.timestamp > deadline) revert ExpiredAction();
+        if (nonce != nonces[player]) revert InvalidNonce();
+        if (_recover(digest, signature) != player) revert InvalidSignature();
+        nonces[player] = nonce + 1;
+    }
+
+    function _gameCallData(Operation operation, uint256 id) internal pure returns (bytes memory) {
+        if (operation == Operation.StartSession) return abi.encodeCall(AIEscapeFHE.startSession, (id));
+        if (operation == Operation.PauseSession) return abi.encodeCall(AIEscapeFHE.pauseSession, ());
+        if (operation == Operation.ResumeSession) return abi.encodeCall(AIEscapeFHE.resumeSession, ());
+        if (operation == Operation.AbandonSession) return abi.encodeCall(AIEscapeFHE.abandonSession, ());
+        if (operation == Operation.FinishSession) return abi.encodeCall(AIEscapeFHE.finishSession, ());
+        if (operation == Operation.RequestHint) return abi.encodeCall(AIEscapeFHE.requestHint, (id));
+        if (operation == Operation.RequestRoomUnlock) return abi.encodeCall(AIEscapeFHE.requestRoomUnlock, (id));
+        return abi.encodeCall(AIEscapeFHE.serveNextPuzzle, ());
+    }
+
+    function _call(address target, bytes memory data, address player) internal {
+        (bool success, bytes memory returndata) = target.call(abi.encodePacked(data, player));
+        if (!success) {
+            // Bubble up the target's own error
+            assembly {
+                revert(add(returndata, 32), mload(returndata))
+            }
+        }
+    }
+
+    function _digest(bytes32 structHash) internal view returns (bytes32) {
+        return keccak256(abi.encodePacked("\x19\x01", domainSeparator(), structHash));
+    }
+
+    function _recover(bytes32 digest, bytes calldata signature) internal pure returns (address) {
+        if (signature.length != 65) revert InvalidSignature();
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+        if (uint256(s) > MAX_S) revert InvalidSignature();
+        address signer = ecrecover(digest, v, r, s);
+        if (signer == address(0)) revert InvalidSignature();
+        return signer;
+    }
+}
@@ -0,0 +1,255 @@
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { AIEscapeFHE } from "./AI_Escape_FHE.sol";
+
+// Game status decryptions for AIEscapeFHE, which deploys this contract and
+// forwards it every requestGameStatusDecryption once the player and session
+// are checked. The oracle decrypts a padded copy of the player's state and
+// the player alone can remove the pads.
+// Every request is tracked until its result arrives: each player's pending
+// requests are listed, and one the oracle has not answered within the timeout
+// can be cancelled, after which its result is rejected and the player can
+// request the status again. Kept apart from the game, which is at the
+// contract size limit.
+contract StatusDecryptions is SepoliaConfig {
+    using FHE for euint32;
+    using FHE for ebool;
+
+    // Expired is a pending request past the timeout; it is never stored
+    enum Status { None, Pending, Expired, Completed, Cancelled }
+
+    // The four status handles: a request's state snapshot, or its one-time pads.
+    // The oracle only ever sees the padded values; the pads are user-decryptable
+    // by the requester alone, so the status is readable by the player and nobody else.
+    struct StatusHandles {
+        euint32 progress;
+        euint32 puzzleState1;
+        euint32 puzzleState2;
+        ebool hintEligibility;
+    }
+
+    // A request's snapshot holds the state handles the masked values were
+    // computed from, and stateHash their hash. The result always describes the
+    // snapshot; actions landing before it arrives only make it stale.
+    struct DecryptionContext {
+        uint256 sessionId;
+        address requester;
+        uint64 requestedAt;
+        Status status;
+        bytes32 stateHash;
+        StatusHandles snapshot;
+    }
+
+    AIEscapeFHE public immutable game;
+    // A request still pending this long after it was made can be cancelled
+    uint256 public timeout = 1 hours;
+    mapping(uint256 => DecryptionContext) public decryptionContexts;
+    mapping(uint256 => StatusHandles) internal statusMasks;
+
+    // Requests of each player that are neither completed nor cancelled
+    mapping(address => uint256[]) internal pendingRequests;
+    // 1-based position in pendingRequests; 0 means the request is not pending
+    mapping(uint256 => uint256) internal pendingIndex;
+
+    event DecryptionRequested(uint256 indexed requestId, address indexed player, uint256 sessionId, bytes32 stateHash);
+    event DecryptionCompleted(uint256 indexed requestId, address indexed player, uint256 sessionId, uint256 maskedProgress, uint256 maskedPuzzleState1, uint256 maskedPuzzleState2, bool maskedHintEligibility, bool stale);
+    event DecryptionCancelled(uint256 indexed requestId, address indexed player, address canceller);
+    event TimeoutSet(uint256 oldTimeout, uint256 newTimeout);
+
+    error NotGame();
+    error NotOracle();
+    error NotAuthorized();
+    error UnknownRequest();
+    error ReplayAttempt();
+    error RequestCancelled();
+    error RequestNotExpired();
+    error InvalidTimeout();
+
+    modifier onlyGame() {
+        if (msg.sender != address(game)) revert NotGame();
+        _;
+    }
+
+    constructor() {
+        game = AIEscapeFHE(msg.sender);
+    }
+
+    function setTimeout(uint256 newTimeout) external {
+        if (!game.hasRole(game.ADMIN_ROLE(), msg.sender)) revert NotAuthorized();
+        if (newTimeout == 0) revert InvalidTimeout();
+        emit TimeoutSet(timeout, newTimeout);
+        timeout = newTimeout;
+    }
+
+    // The game grants this contract transient access to the player's state
+    // handles before calling
+    function request(address player, uint256 sessionId) external onlyGame returns (uint256 requestId) {
+        StatusHandles memory snapshot = _playerState(player);
+
+        // Security: the oracle decrypts padded values only. Each pad is fresh
+        // randomness shared with the requester alone, so the plaintext that
+        // lands on-chain reveals nothing about the player's state.
+        StatusHandles memory masks = StatusHandles({
+            progress: FHE.randEuint32(),
+            puzzleState1: FHE.randEuint32(),
+            puzzleState2: FHE.randEuint32(),
+            hintEligibility: FHE.randEbool()
+        });
+
+        euint32 maskedProgress = snapshot.progress.add(masks.progress);
+        euint32 maskedPuzzleState1 = snapshot.puzzleState1.add(masks.puzzleState1);
+        euint32 maskedPuzzleState2 = snapshot.puzzleState2.add(masks.puzzleState2);
+        ebool maskedHintEligibility = snapshot.hintEligibility.xor(masks.hintEligibility);
+        FHE.allowThis(maskedProgress);
+        FHE.allowThis(maskedPuzzleState1);
+        FHE.allowThis(maskedPuzzleState2);
+        FHE.allowThis(maskedHintEligibility);
+
+        bytes32[] memory cts = new bytes32[](4);
+        cts[0] = maskedProgress.toBytes32();
+        cts[1] = maskedPuzzleState1.toBytes32();
+        cts[2] = maskedPuzzleState2.toBytes32();
+        cts[3] = maskedHintEligibility.toBytes32();
+
+        bytes32 stateHash = _hashState(snapshot);
+
+        requestId = FHE.requestDecryption(cts, this.statusCallback.selector);
+        decryptionContexts[requestId] = DecryptionContext({
+            sessionId: sessionId,
+            requester: player,
+            requestedAt: uint64(block.timestamp),
+            status: Status.Pending,
+            stateHash: stateHash,
+            snapshot: snapshot
+        });
+        statusMasks[requestId] = masks;
+        _grantMaskAccess(masks, player);
+        pendingRequests[player].push(requestId);
+        pendingIndex[requestId] = pendingRequests[player].length;
+
+        emit DecryptionRequested(requestId, player, sessionId, stateHash);
+    }
+
+    function statusCallback(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory proof
+    ) public {
+        if (!game.hasRole(game.ORACLE_ROLE(), msg.sender)) revert NotOracle();
+        DecryptionContext storage ctx = decryptionContexts[requestId];
+        if (ctx.status == Status.None) revert UnknownRequest();
+        // Security: Replay protection ensures a decryption result is processed only once.
+        if (ctx.status == Status.Completed) {
+            revert ReplayAttempt();
+        }
+        if (ctx.status == Status.Cancelled) revert RequestCancelled();
+
+        // Security: the KMS signatures are checked against the handles saved with
+        // the request, which were masked from the snapshot, so the cleartexts can
+        // only describe the snapshot and never the live state.
+        FHE.checkSignatures(requestId, cleartexts, proof);
+        bool stale = _hashState(_playerState(ctx.requester)) != ctx.stateHash;
+
+        (uint32 maskedProgress, uint32 maskedPuzzleState1, uint32 maskedPuzzleState2, bool maskedHintEligibility) =
+            abi.decode(cleartexts, (uint32, uint32, uint32, bool));
+
+        ctx.status = Status.Completed;
+        _removePending(ctx.requester, requestId);
+        emit DecryptionCompleted(
+            requestId,
+            ctx.requester,
+            ctx.sessionId,
+            maskedProgress,
+            maskedPuzzleState1,
+            maskedPuzzleState2,
+            maskedHintEligibility,
+            stale
+        );
+    }
+
+    // An expired request may be cancelled by its player, directly or through the
+    // game's trusted forwarder, or by a game master on their behalf
+    function cancel(uint256 requestId) external {
+        DecryptionContext storage ctx = decryptionContexts[requestId];
+        if (ctx.status == Status.None) revert UnknownRequest();
+        address sender = _actionSender();
+        if (sender != ctx.requester && !game.hasRole(game.GAME_MASTER_ROLE(), sender)) {
+            revert NotAuthorized();
+        }
+        if (statusOf(requestId) != Status.Expired) revert RequestNotExpired();
+        ctx.status = Status.Cancelled;
+        _removePending(ctx.requester, requestId);
+        emit DecryptionCancelled(requestId, ctx.requester, sender);
+    }
+
+    function statusOf(uint256 requestId) public view returns (Status) {
+        DecryptionContext storage ctx = decryptionContexts[requestId];
+        if (ctx.status == Status.Pending && block.timestamp >= ctx.requestedAt + timeout) {
+            return Status.Expired;
+        }
+        return ctx.status;
+    }
+
+    // Includes expired requests until they are cancelled
+    function getPendingRequests(address player) external view returns (uint256[] memory) {
+        return pendingRequests[player];
+    }
+
+    // Pads for a status request; only the requester can user-decrypt them to
+    // unmask the values emitted in DecryptionCompleted.
+    function getStatusMasks(uint256 requestId) external view returns (
+        euint32 progress,
+        euint32 puzzleState1,
+        euint32 puzzleState2,
+        ebool hintEligibility
+    ) {
+        StatusHandles storage masks = statusMasks[requestId];
+        return (masks.progress, masks.puzzleState1, masks.puzzleState2, masks.hintEligibility);
+    }
+
+    function _playerState(address player) internal view returns (StatusHandles memory state) {
+        (state.progress, state.puzzleState1, state.puzzleState2, state.hintEligibility) = game.getPlayerState(player);
+    }
+
+    function _hashState(StatusHandles memory state) internal view returns (bytes32) {
+        bytes32[4] memory cts = [
+            state.progress.toBytes32(),
+            state.puzzleState1.toBytes32(),
+            state.puzzleState2.toBytes32(),
+            state.hintEligibility.toBytes32()
+        ];
+        return keccak256(abi.encode(cts, address(game)));
+    }
+
+    function _grantMaskAccess(StatusHandles memory masks, address requester) internal {
+        FHE.allowThis(masks.progress);
+        FHE.allowThis(masks.puzzleState1);
+        FHE.allowThis(masks.puzzleState2);
+        FHE.allowThis(masks.hintEligibility);
+        FHE.allow(masks.progress, requester);
+        FHE.allow(masks.puzzleState1, requester);
+        FHE.allow(masks.puzzleState2, requester);
+        FHE.allow(masks.hintEligibility, requester);
+    }
+
+    // Same rule as the game: the appended player is only trusted from its forwarder
+    function _actionSender() internal view returns (address) {
+        if (msg.sender == game.trustedForwarder() && msg.data.length >= 20) {
+            return address(bytes20(msg.data[msg.data.length - 20:]));
+        }
+        return msg.sender;
+    }
+
+    // Swap-and-pop, so the order of a player's pending requests is not stable
+    function _removePending(address player, uint256 requestId) internal {
+        uint256[] storage pending = pendingRequests[player];
+        uint256 index = pendingIndex[requestId];
+        uint256 last = pending[pending.length - 1];
+        pending[index - 1] = last;
+        pendingIndex[last] = index;
+        pending.pop();
+        delete pendingIndex[requestId];
+    }
+}
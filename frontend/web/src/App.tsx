@@ -3,303 +3,596 @@ import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
 import React, { useEffect, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import {
+  getContractReadOnly, getContractWithSigner, getDeployment, getForwarderReadOnly, getLeaderboardReadOnly,
+  getLeaderboardWithSigner, getReadProvider, getSigner, getStatusDecryptionsReadOnly, getStatusDecryptionsWithSigner, config,
+  AIEscapeFHE, EscapeLeaderboard
+} from "./contract";
+import { DEFAULT_CHAIN_ID, getNetwork, isSupported, supportedNetworks } from "./networks";
+import { encryptPlayerAction, encryptUint32, userDecrypt } from "./fhe";
 import "./App.css";
-import { useAccount, useSignMessage } from 'wagmi';
+import RoomMap, { Room } from "./components/RoomMap";
+import InventoryPanel from "./components/InventoryPanel";
+import RpcStatusIndicator from "./components/RpcStatusIndicator";
+import SessionPanel, { GameSession, SessionStats, SESSION_STATUSES } from "./components/SessionPanel";
+import Leaderboard from "./components/Leaderboard";
+import AdminPanel from "./components/AdminPanel";
+import PendingDecryptions from "./components/PendingDecryptions";
+import { loadLeaderboard, EntryRank, LeaderboardEntry } from "./leaderboard";
+import { loadRoles, holdsRole, ADMIN_ROLE, RoleState } from "./roles";
+import { ITEMS, itemMask } from "./items";
+import { syncPuzzleCatalog } from "./puzzleIndex";
+import { relayPlayerAction, relayStatusRequest, signPlayerAction, signStatusRequest } from "./relay";
+import { loadStatusDecryptions, unmaskStatus, DecryptedStatus, StatusDecryption } from "./statusDecryptions";
+import { createGameMaster, GameMasterMessage, PuzzleContext } from "./gameMaster";
+import { askGameMaster, loadHistory } from "./gameMasterHistory";
+import { useAccount, useSwitchChain } from 'wagmi';
 
 interface Puzzle {
   id: string;
+  creator: string;
   encryptedSolution: string;
   timestamp: number;
   status: "locked" | "unlocked";
-  hintsUsed: number;
+  hintRequests: number;
   difficulty: number;
 }
 
-const FHEEncryptNumber = (value: number): string => {
-  return `FHE-${btoa(value.toString())}`;
-};
+interface PlayerState {
+  initialized: boolean;
+  progress: string;
+  puzzleState1: string;
+  puzzleState2: string;
+  hintEligibility: string;
+  inventory: string;
+}
 
-const FHEDecryptNumber = (encryptedData: string): number => {
-  if (encryptedData.startsWith('FHE-')) {
-    return parseFloat(atob(encryptedData.substring(4)));
-  }
-  return parseFloat(encryptedData);
-};
+const gameMaster = createGameMaster(config.gameMasterUrl);
 
-const FHECompute = (encryptedData: string, operation: string): string => {
-  const value = FHEDecryptNumber(encryptedData);
-  let result = value;
-  
-  switch(operation) {
-    case 'increase10%':
-      result = value * 1.1;
-      break;
-    case 'decrease10%':
-      result = value * 0.9;
-      break;
-    case 'double':
-      result = value * 2;
-      break;
-    default:
-      result = value;
-  }
-  
-  return FHEEncryptNumber(result);
+// Thrown values are not always Errors, so the message is read only once narrowed
+const failureMessage = (e: unknown, failed: string) => {
+  const message = e instanceof Error ? e.message : typeof e === "string" ? e : "";
+  if (message.includes("user rejected transaction")) return "Transaction rejected by user";
+  return `${failed}: ${message || "Unknown error"}`;
 };
 
-const generatePublicKey = () => `0x${Array(2000).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
+// Upper bound for how far the latest block may trail the local clock; anything
+// beyond is treated as clock skew rather than block lag
+const MAX_BLOCK_LAG_SECONDS = 30;
+// A running session is re-read this often to keep the countdown on block time
+const SESSION_SYNC_MS = 30000;
+// Pending status decryptions are re-read this often until the oracle answers
+const DECRYPTION_POLL_MS = 10000;
 
 const App: React.FC = () => {
-  const { address, isConnected } = useAccount();
-  const { signMessageAsync } = useSignMessage();
+  const { address, isConnected, chainId: walletChainId } = useAccount();
+  const { switchChain, isPending: switchingNetwork } = useSwitchChain();
+  // Without a wallet the app browses the default deployment read-only
+  const chainId = isConnected && walletChainId ? walletChainId : DEFAULT_CHAIN_ID;
+  const network = getNetwork(chainId);
+  const contractAddress = getDeployment(chainId)?.contractAddress ?? "";
+  const leaderboardAddress = getDeployment(chainId)?.leaderboardAddress ?? "";
+  const hasLeaderboard = leaderboardAddress !== "";
+  const forwarderAddress = getDeployment(chainId)?.forwarderAddress ?? "";
+  const statusDecryptionsAddress = getDeployment(chainId)?.statusDecryptionsAddress ?? "";
+  // With a relayer configured, actions are signed and relayed so players pay no gas
+  const gasless = forwarderAddress !== "" && config.relayerUrl !== "";
+  const [view, setView] = useState<"game" | "leaderboard" | "admin">("game");
   const [loading, setLoading] = useState(true);
   const [puzzles, setPuzzles] = useState<Puzzle[]>([]);
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [servedPuzzleId, setServedPuzzleId] = useState<string>("");
+  const [playerState, setPlayerState] = useState<PlayerState | null>(null);
+  const [session, setSession] = useState<GameSession | null>(null);
+  const [sessionBusy, setSessionBusy] = useState(false);
+  const [leaderboardEntries, setLeaderboardEntries] = useState<LeaderboardEntry[]>([]);
+  const [leaderboardBusy, setLeaderboardBusy] = useState(false);
+  const [roleState, setRoleState] = useState<RoleState | null>(null);
+  const [rolesBusy, setRolesBusy] = useState(false);
+  const [statusRequests, setStatusRequests] = useState<StatusDecryption[]>([]);
+  const [decryptionTimeout, setDecryptionTimeout] = useState(0);
+  const [statusBusy, setStatusBusy] = useState(false);
+  const [playerAction, setPlayerAction] = useState({ actionType: 1, actionTarget: 101 });
+  const [submittingAction, setSubmittingAction] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creating, setCreating] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
-  const [newPuzzleData, setNewPuzzleData] = useState({ difficulty: 1, solution: 0 });
+  const [newPuzzleData, setNewPuzzleData] = useState({ difficulty: 1, solution: 0, requiredItem: 0 });
   const [selectedPuzzle, setSelectedPuzzle] = useState<Puzzle | null>(null);
   const [decryptedSolution, setDecryptedSolution] = useState<number | null>(null);
+  const [guessInput, setGuessInput] = useState<number>(0);
   const [isDecrypting, setIsDecrypting] = useState(false);
-  const [publicKey, setPublicKey] = useState<string>("");
-  const [contractAddress, setContractAddress] = useState<string>("");
-  const [chainId, setChainId] = useState<number>(0);
-  const [startTimestamp, setStartTimestamp] = useState<number>(0);
-  const [durationDays, setDurationDays] = useState<number>(30);
-  const [aiResponse, setAiResponse] = useState<string>("");
+  const [decryptedProgress, setDecryptedProgress] = useState<number | null>(null);
   const [userInput, setUserInput] = useState<string>("");
-  const [conversationHistory, setConversationHistory] = useState<{role: string, content: string}[]>([]);
+  const [conversationPuzzleId, setConversationPuzzleId] = useState<string | null>(null);
+  const [conversationHistory, setConversationHistory] = useState<GameMasterMessage[]>(() => loadHistory(null));
+  const [gameMasterThinking, setGameMasterThinking] = useState(false);
   const unlockedCount = puzzles.filter(p => p.status === "unlocked").length;
   const lockedCount = puzzles.filter(p => p.status === "locked").length;
 
-  // AI Game Master responses
-  const aiResponses = [
-    "I sense you're getting closer to the solution. Remember, the answer lies in the numbers.",
-    "Your approach is interesting. Have you considered the FHE-encrypted patterns?",
-    "The encrypted data holds the key. Think about the relationship between the numbers.",
-    "Interesting attempt. The solution remains hidden in the FHE encryption.",
-    "You're making progress. The Zama FHE technology protects the answer until you're ready.",
-    "That's a creative thought. The encrypted solution awaits your final calculation."
-  ];
+  useEffect(() => {
+    setConversationHistory(loadHistory(conversationPuzzleId));
+  }, [conversationPuzzleId]);
+
+  useEffect(() => {
+    if (!address || session?.status !== "active") return;
+    const timer = setInterval(() => loadSession(address), SESSION_SYNC_MS);
+    return () => clearInterval(timer);
+  }, [address, chainId, session?.id, session?.status]);
+
+  const awaitingOracle = statusRequests.some(r => r.status === "pending");
 
   useEffect(() => {
-    loadPuzzles().finally(() => setLoading(false));
-    const initSignatureParams = async () => {
-      const contract = await getContractReadOnly();
-      if (contract) setContractAddress(await contract.getAddress());
-      if (window.ethereum) {
-        const chainIdHex = await window.ethereum.request({ method: 'eth_chainId' });
-        setChainId(parseInt(chainIdHex, 16));
+    if (!address || !awaitingOracle) return;
+    const timer = setInterval(() => loadStatusRequests(address), DECRYPTION_POLL_MS);
+    return () => clearInterval(timer);
+  }, [address, chainId, awaitingOracle]);
+
+  useEffect(() => {
+    if (address) {
+      loadPlayerState(address);
+      loadSession(address);
+      loadStatusRequests(address);
+    } else {
+      setPlayerState(null);
+      setSession(null);
+      setStatusRequests([]);
+    }
+    setDecryptedProgress(null);
+    loadPuzzles();
+    loadRooms();
+    loadLeaderboardEntries();
+    loadRoleState();
+  }, [address, chainId]);
+
+  const loadPlayerState = async (player: string) => {
+    try {
+      const contract = await getContractReadOnly(chainId);
+      if (!contract) return;
+      const initialized = await contract.isPlayerInitialized(player);
+      if (!initialized) {
+        setPlayerState({ initialized: false, progress: "", puzzleState1: "", puzzleState2: "", hintEligibility: "", inventory: "" });
+        return;
       }
-      setStartTimestamp(Math.floor(Date.now() / 1000));
-      setDurationDays(30);
-      setPublicKey(generatePublicKey());
-    };
-    initSignatureParams();
-    
-    // Initial AI greeting
-    setAiResponse("Welcome to the FHE Escape Room! I'm your AI Game Master. " + 
-      "All puzzles are encrypted with Zama FHE technology. " +
-      "Ask for hints or try to solve them directly. What would you like to do first?");
-    setConversationHistory([{role: "ai", content: "Welcome to the FHE Escape Room! I'm your AI Game Master."}]);
-  }, []);
+      const [progress, puzzleState1, puzzleState2, hintEligibility] = await contract.getPlayerState(player);
+      const inventory = await contract.getInventory(player);
+      setPlayerState({ initialized: true, progress, puzzleState1, puzzleState2, hintEligibility, inventory });
+    } catch (e) { console.error("Error loading player state:", e); }
+  };
+
+  const loadSession = async (player: string) => {
+    try {
+      const contract = await getContractReadOnly(chainId);
+      const provider = getReadProvider(chainId);
+      if (!contract || !provider) { setSession(null); return; }
+      const sessionId = await contract.currentSession(player);
+      if (sessionId === 0n) { setSession(null); return; }
+      // Read the play time at a known block so the clock can be anchored to that block's timestamp
+      const block = await provider.getBlock("latest");
+      if (!block) return;
+      const [, roomId, status, , , playSeconds, timeLimit] = await contract.getSession(sessionId, { blockTag: block.number });
+      const loadedAt = Date.now();
+      const state = SESSION_STATUSES[Number(status)];
+      // The next transaction is mined after the latest block, so time since that block already counts
+      const blockLag = Math.min(Math.max(loadedAt / 1000 - block.timestamp, 0), MAX_BLOCK_LAG_SECONDS);
+      setSession({
+        id: sessionId.toString(),
+        roomId: roomId.toString(),
+        status: state,
+        playSeconds: Number(playSeconds) + (state === "active" ? blockLag : 0),
+        timeLimit: Number(timeLimit),
+        loadedAt
+      });
+    } catch (e) { console.error("Error loading session:", e); }
+  };
+
+  const updateSession = async (pending: string, done: string, send: (contract: AIEscapeFHE) => Promise<ethers.ContractTransactionResponse>) => {
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
+    setSessionBusy(true);
+    setTransactionStatus({ visible: true, status: "pending", message: pending });
+    try {
+      const contract = await getContractWithSigner(chainId);
+      await (await send(contract)).wait();
+      setTransactionStatus({ visible: true, status: "success", message: done });
+      // A new session starts with every puzzle and room locked again
+      await Promise.all([loadSession(address), loadPlayerState(address), loadPuzzles(), loadRooms()]);
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e) {
+      setTransactionStatus({ visible: true, status: "error", message: failureMessage(e, "Session update failed") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    } finally { setSessionBusy(false); }
+  };
+
+  const decryptSessionStats = async (sessionId: string): Promise<SessionStats | null> => {
+    if (!isConnected) { alert("Please connect wallet first"); return null; }
+    try {
+      const contract = await getContractReadOnly(chainId);
+      if (!contract) return null;
+      const [progress, correctGuesses, wrongGuesses, inventory, score] = await contract.getSessionStats(sessionId);
+      const decrypted = await userDecrypt([progress, correctGuesses, wrongGuesses, inventory, score], contractAddress, await getSigner());
+      return {
+        progress: BigInt(decrypted[progress]),
+        correctGuesses: BigInt(decrypted[correctGuesses]),
+        wrongGuesses: BigInt(decrypted[wrongGuesses]),
+        inventory: BigInt(decrypted[inventory]),
+        score: BigInt(decrypted[score])
+      };
+    } catch (e) { console.error("Session stats decryption failed:", e); return null; }
+  };
+
+  const loadStatusRequests = async (player: string) => {
+    try {
+      const status = getStatusDecryptionsReadOnly(chainId);
+      const provider = getReadProvider(chainId);
+      if (!status || !provider) { setStatusRequests([]); return; }
+      const [requests, timeout] = await Promise.all([loadStatusDecryptions(status, provider, player), status.timeout()]);
+      setStatusRequests(requests);
+      setDecryptionTimeout(Number(timeout));
+    } catch (e) { console.error("Error loading status decryptions:", e); }
+  };
+
+  // The oracle answers asynchronously; the panel polls until the result lands
+  const sendStatusRequest = async () => {
+    if (gasless) {
+      const forwarder = getForwarderReadOnly(chainId);
+      const provider = getReadProvider(chainId);
+      if (!forwarder || !provider) throw new Error("Gasless play is not available on this network");
+      setTransactionStatus({ visible: true, status: "pending", message: "Signing status request for the game master..." });
+      const signed = await signStatusRequest(forwarder, await getSigner());
+      setTransactionStatus({ visible: true, status: "pending", message: "Relaying status request..." });
+      await relayStatusRequest(config.relayerUrl, provider, signed);
+    } else {
+      const contract = await getContractWithSigner(chainId);
+      setTransactionStatus({ visible: true, status: "pending", message: "Requesting a masked status decryption..." });
+      await (await contract.requestGameStatusDecryption()).wait();
+    }
+  };
+
+  // Cancelling is a plain transaction even when playing gasless
+  const updateStatusRequests = async (done: string, cancelId?: string) => {
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
+    setStatusBusy(true);
+    try {
+      if (cancelId) {
+        setTransactionStatus({ visible: true, status: "pending", message: "Cancelling the expired request..." });
+        const status = await getStatusDecryptionsWithSigner(chainId);
+        await (await status.cancel(cancelId)).wait();
+      }
+      await sendStatusRequest();
+      setTransactionStatus({ visible: true, status: "success", message: done });
+      await loadStatusRequests(address);
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e) {
+      setTransactionStatus({ visible: true, status: "error", message: failureMessage(e, "Status request failed") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    } finally { setStatusBusy(false); }
+  };
+
+  // The oracle published padded values; the pads are only readable by the requester
+  const decryptStatus = async (requestId: string): Promise<DecryptedStatus | null> => {
+    if (!isConnected) { alert("Please connect wallet first"); return null; }
+    try {
+      const result = statusRequests.find(r => r.id === requestId)?.result;
+      const status = getStatusDecryptionsReadOnly(chainId);
+      if (!result || !status) return null;
+      const [progress, puzzleState1, puzzleState2, hintEligibility] = await status.getStatusMasks(requestId);
+      const decrypted = await userDecrypt([progress, puzzleState1, puzzleState2, hintEligibility], statusDecryptionsAddress, await getSigner());
+      return unmaskStatus(result, {
+        progress: BigInt(decrypted[progress]),
+        puzzleState1: BigInt(decrypted[puzzleState1]),
+        puzzleState2: BigInt(decrypted[puzzleState2]),
+        hintEligibility: Boolean(decrypted[hintEligibility])
+      });
+    } catch (e) { console.error("Status decryption failed:", e); return null; }
+  };
+
+  const loadRoleState = async () => {
+    try {
+      const contract = await getContractReadOnly(chainId);
+      setRoleState(contract ? await loadRoles(contract) : null);
+    } catch (e) { console.error("Error loading roles:", e); }
+  };
+
+  const updateRoles = async (pending: string, done: string, send: (contract: AIEscapeFHE) => Promise<ethers.ContractTransactionResponse>) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setRolesBusy(true);
+    setTransactionStatus({ visible: true, status: "pending", message: pending });
+    try {
+      const contract = await getContractWithSigner(chainId);
+      await (await send(contract)).wait();
+      setTransactionStatus({ visible: true, status: "success", message: done });
+      await loadRoleState();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e) {
+      setTransactionStatus({ visible: true, status: "error", message: failureMessage(e, "Role update failed") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    } finally { setRolesBusy(false); }
+  };
+
+  const loadLeaderboardEntries = async () => {
+    try {
+      const board = getLeaderboardReadOnly(chainId);
+      setLeaderboardEntries(board ? await loadLeaderboard(board) : []);
+    } catch (e) { console.error("Error loading leaderboard:", e); }
+  };
+
+  const updateLeaderboard = async (pending: string, done: string, send: (board: EscapeLeaderboard) => Promise<ethers.ContractTransactionResponse>) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setLeaderboardBusy(true);
+    setTransactionStatus({ visible: true, status: "pending", message: pending });
+    try {
+      const board = await getLeaderboardWithSigner(chainId);
+      await (await send(board)).wait();
+      setTransactionStatus({ visible: true, status: "success", message: done });
+      await loadLeaderboardEntries();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e) {
+      setTransactionStatus({ visible: true, status: "error", message: failureMessage(e, "Leaderboard update failed") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    } finally { setLeaderboardBusy(false); }
+  };
+
+  // "Beat N runs" is only readable by the entry's player
+  const decryptRank = async (entryId: string): Promise<EntryRank | null> => {
+    if (!isConnected) { alert("Please connect wallet first"); return null; }
+    try {
+      const board = getLeaderboardReadOnly(chainId);
+      if (!board) return null;
+      const [[beaten, rankedThrough, boardSize, newRivals, passNext, passEnd], minNewRivals] = await Promise.all([
+        board.getRank(entryId),
+        board.MIN_RANK_MIX(),
+      ]);
+      const decrypted = await userDecrypt([beaten], leaderboardAddress, await getSigner());
+      return {
+        beaten: Number(decrypted[beaten]),
+        rankedThrough: Number(rankedThrough),
+        boardSize: Number(boardSize),
+        newRivals: Number(newRivals),
+        minNewRivals: Number(minNewRivals),
+        passNext: Number(passNext),
+        passEnd: Number(passEnd)
+      };
+    } catch (e) { console.error("Rank decryption failed:", e); return null; }
+  };
+
+  const submitAction = async () => {
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
+    setSubmittingAction(true);
+    setTransactionStatus({ visible: true, status: "pending", message: "Encrypting action with Zama FHE..." });
+    try {
+      if (gasless) {
+        const forwarder = getForwarderReadOnly(chainId);
+        const provider = getReadProvider(chainId);
+        if (!forwarder || !provider) throw new Error("Gasless play is not available on this network");
+        const encrypted = await encryptPlayerAction(contractAddress, address, playerAction.actionType, playerAction.actionTarget);
+        setTransactionStatus({ visible: true, status: "pending", message: "Signing action for the game master..." });
+        const signed = await signPlayerAction(forwarder, await getSigner(), encrypted);
+        setTransactionStatus({ visible: true, status: "pending", message: "Relaying encrypted action..." });
+        await relayPlayerAction(config.relayerUrl, provider, signed);
+      } else {
+        const contract = await getContractWithSigner(chainId);
+        const encrypted = await encryptPlayerAction(contractAddress, address, playerAction.actionType, playerAction.actionTarget);
+        setTransactionStatus({ visible: true, status: "pending", message: "Submitting encrypted action..." });
+        const tx = await contract.submitPlayerAction(encrypted.actionType, encrypted.actionTarget, encrypted.inputProof);
+        await tx.wait();
+      }
+      setTransactionStatus({ visible: true, status: "success", message: "Encrypted action submitted!" });
+      await loadPlayerState(address);
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e) {
+      setTransactionStatus({ visible: true, status: "error", message: failureMessage(e, "Action failed") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    } finally { setSubmittingAction(false); }
+  };
 
   const loadPuzzles = async () => {
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) return;
-      const keysBytes = await contract.getData("puzzle_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try {
-          const keysStr = ethers.toUtf8String(keysBytes);
-          if (keysStr.trim() !== '') keys = JSON.parse(keysStr);
-        } catch (e) { console.error("Error parsing puzzle keys:", e); }
-      }
-      const list: Puzzle[] = [];
-      for (const key of keys) {
-        try {
-          const puzzleBytes = await contract.getData(`puzzle_${key}`);
-          if (puzzleBytes.length > 0) {
-            try {
-              const puzzleData = JSON.parse(ethers.toUtf8String(puzzleBytes));
-              list.push({ 
-                id: key, 
-                encryptedSolution: puzzleData.solution, 
-                timestamp: puzzleData.timestamp, 
-                status: puzzleData.status || "locked",
-                hintsUsed: puzzleData.hintsUsed || 0,
-                difficulty: puzzleData.difficulty || 1
-              });
-            } catch (e) { console.error(`Error parsing puzzle data for ${key}:`, e); }
-          }
-        } catch (e) { console.error(`Error loading puzzle ${key}:`, e); }
+      const contract = await getContractReadOnly(chainId);
+      if (!contract) { setPuzzles([]); setServedPuzzleId(""); return; }
+      if (address) {
+        const served = await contract.servedPuzzle(address);
+        setServedPuzzleId(served > 0n ? served.toString() : "");
       }
+      const catalog = await syncPuzzleCatalog(contract);
+      // Solved puzzles and hint requests belong to a run, so they are read for the latest session in one call
+      const sessionId = address ? await contract.currentSession(address) : 0n;
+      const [solved, hints] = sessionId > 0n ? await contract.getSessionPuzzles(sessionId) : [[], []];
+      const list: Puzzle[] = catalog.map((p) => {
+        const index = Number(p.id) - 1;
+        return {
+          id: p.id,
+          creator: p.creator,
+          encryptedSolution: p.solution,
+          timestamp: p.createdAt,
+          status: solved[index] ? "unlocked" : "locked",
+          hintRequests: Number(hints[index] ?? 0n),
+          difficulty: p.difficulty
+        } as Puzzle;
+      });
       list.sort((a, b) => b.timestamp - a.timestamp);
       setPuzzles(list);
     } catch (e) { console.error("Error loading puzzles:", e); } 
     finally { setIsRefreshing(false); setLoading(false); }
   };
 
-  const createPuzzle = async () => {
+  const loadRooms = async () => {
+    try {
+      const contract = await getContractReadOnly(chainId);
+      if (!contract) { setRooms([]); return; }
+      const count = Number(await contract.roomCount());
+      const sessionId = address ? await contract.currentSession(address) : 0n;
+      const list: Room[] = [];
+      for (let id = 1; id <= count; id++) {
+        try {
+          const [creator, puzzleIds, prerequisites, exitPuzzleId, timeLimit] = await contract.getRoom(id);
+          const unlocked = prerequisites.length === 0 || (address ? await contract.roomUnlocked(id, sessionId) : false);
+          const escaped = address ? await contract.hasEscaped(id, sessionId) : false;
+          list.push({
+            id: id.toString(),
+            creator,
+            puzzleIds: puzzleIds.map((p: bigint) => p.toString()),
+            prerequisites: prerequisites.map((p: bigint) => p.toString()),
+            exitPuzzleId: exitPuzzleId.toString(),
+            timeLimit: Number(timeLimit),
+            unlocked,
+            escaped
+          });
+        } catch (e) { console.error(`Error loading room ${id}:`, e); }
+      }
+      setRooms(list);
+    } catch (e) { console.error("Error loading rooms:", e); }
+  };
+
+  const requestRoomUnlock = async (roomId: string) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: "Evaluating encrypted room prerequisites..." });
+    try {
+      const contract = await getContractWithSigner(chainId);
+      const tx = await contract.requestRoomUnlock(roomId);
+      await tx.wait();
+      setTransactionStatus({ visible: true, status: "success", message: "Unlock requested! The oracle will reveal whether the room opens." });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e) {
+      setTransactionStatus({ visible: true, status: "error", message: failureMessage(e, "Room unlock failed") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const serveNextPuzzle = async () => {
     if (!isConnected) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: "Choosing your next puzzle from your encrypted performance..." });
+    try {
+      const contract = await getContractWithSigner(chainId);
+      const tx = await contract.serveNextPuzzle();
+      await tx.wait();
+      setTransactionStatus({ visible: true, status: "success", message: "Request sent! The oracle will reveal your next puzzle." });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e) {
+      setTransactionStatus({ visible: true, status: "error", message: failureMessage(e, "Could not serve a puzzle") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const createPuzzle = async () => {
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
     setCreating(true);
     setTransactionStatus({ visible: true, status: "pending", message: "Encrypting puzzle solution with Zama FHE..." });
     try {
-      const encryptedSolution = FHEEncryptNumber(newPuzzleData.solution);
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      const puzzleId = `puzzle-${Date.now()}-${Math.random().toString(36).substring(2, 6)}`;
-      const puzzleData = { 
-        solution: encryptedSolution, 
-        timestamp: Math.floor(Date.now() / 1000), 
-        status: "locked",
-        hintsUsed: 0,
-        difficulty: newPuzzleData.difficulty
-      };
-      await contract.setData(`puzzle_${puzzleId}`, ethers.toUtf8Bytes(JSON.stringify(puzzleData)));
-      const keysBytes = await contract.getData("puzzle_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try { keys = JSON.parse(ethers.toUtf8String(keysBytes)); } 
-        catch (e) { console.error("Error parsing keys:", e); }
-      }
-      keys.push(puzzleId);
-      await contract.setData("puzzle_keys", ethers.toUtf8Bytes(JSON.stringify(keys)));
+      const contract = await getContractWithSigner(chainId);
+      const encryptedSolution = await encryptUint32(await contract.getAddress(), address, newPuzzleData.solution);
+      setTransactionStatus({ visible: true, status: "pending", message: "Registering encrypted puzzle..." });
+      const requiredItems = newPuzzleData.requiredItem ? itemMask(newPuzzleData.requiredItem) : 0n;
+      const tx = await contract.createPuzzle(encryptedSolution.handle, encryptedSolution.inputProof, newPuzzleData.difficulty, requiredItems);
+      await tx.wait();
       setTransactionStatus({ visible: true, status: "success", message: "Puzzle created with FHE encryption!" });
       await loadPuzzles();
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowCreateModal(false);
-        setNewPuzzleData({ difficulty: 1, solution: 0 });
+        setNewPuzzleData({ difficulty: 1, solution: 0, requiredItem: 0 });
       }, 2000);
-    } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction") ? "Transaction rejected by user" : "Creation failed: " + (e.message || "Unknown error");
-      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+    } catch (e) {
+      setTransactionStatus({ visible: true, status: "error", message: failureMessage(e, "Creation failed") });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     } finally { setCreating(false); }
   };
 
-  const decryptWithSignature = async (encryptedData: string): Promise<number | null> => {
+  const decryptWithSignature = async (handle: string): Promise<number | null> => {
     if (!isConnected) { alert("Please connect wallet first"); return null; }
     setIsDecrypting(true);
     try {
-      const message = `publickey:${publicKey}\ncontractAddresses:${contractAddress}\ncontractsChainId:${chainId}\nstartTimestamp:${startTimestamp}\ndurationDays:${durationDays}`;
-      await signMessageAsync({ message });
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      return FHEDecryptNumber(encryptedData);
+      const signer = await getSigner();
+      const decrypted = await userDecrypt([handle], contractAddress, signer);
+      return Number(decrypted[handle]);
     } catch (e) { console.error("Decryption failed:", e); return null; } 
     finally { setIsDecrypting(false); }
   };
 
-  const unlockPuzzle = async (puzzleId: string) => {
-    if (!isConnected) { alert("Please connect wallet first"); return; }
-    setTransactionStatus({ visible: true, status: "pending", message: "Processing encrypted puzzle with FHE..." });
+  const decryptInventory = async (handle: string): Promise<bigint | null> => {
+    if (!isConnected) { alert("Please connect wallet first"); return null; }
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) throw new Error("Failed to get contract");
-      const puzzleBytes = await contract.getData(`puzzle_${puzzleId}`);
-      if (puzzleBytes.length === 0) throw new Error("Puzzle not found");
-      const puzzleData = JSON.parse(ethers.toUtf8String(puzzleBytes));
-      
-      const contractWithSigner = await getContractWithSigner();
-      if (!contractWithSigner) throw new Error("Failed to get contract with signer");
-      
-      const updatedPuzzle = { ...puzzleData, status: "unlocked" };
-      await contractWithSigner.setData(`puzzle_${puzzleId}`, ethers.toUtf8Bytes(JSON.stringify(updatedPuzzle)));
+      const signer = await getSigner();
+      const decrypted = await userDecrypt([handle], contractAddress, signer);
+      return BigInt(decrypted[handle]);
+    } catch (e) { console.error("Inventory decryption failed:", e); return null; }
+  };
+
+  const unlockPuzzle = async (puzzleId: string, guess: number) => {
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: "Encrypting your guess with Zama FHE..." });
+    try {
+      const contract = await getContractWithSigner(chainId);
+      const encryptedGuess = await encryptUint32(await contract.getAddress(), address, guess);
+      setTransactionStatus({ visible: true, status: "pending", message: "Comparing encrypted guess on-chain..." });
+      const tx = await contract.submitGuess(puzzleId, encryptedGuess.handle, encryptedGuess.inputProof);
+      await tx.wait();
       
-      setTransactionStatus({ visible: true, status: "success", message: "Puzzle unlocked successfully!" });
+      setTransactionStatus({ visible: true, status: "success", message: "Guess submitted! The oracle will reveal whether it matched." });
       await loadPuzzles();
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
-    } catch (e: any) {
-      setTransactionStatus({ visible: true, status: "error", message: "Unlock failed: " + (e.message || "Unknown error") });
+    } catch (e) {
+      setTransactionStatus({ visible: true, status: "error", message: failureMessage(e, "Unlock failed") });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     }
   };
 
   const requestHint = async (puzzleId: string) => {
-    if (!isConnected) { alert("Please connect wallet first"); return; }
-    setTransactionStatus({ visible: true, status: "pending", message: "Requesting hint from AI Game Master..." });
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
+    const puzzle = puzzles.find(p => p.id === puzzleId);
+    if (!puzzle) return;
+    setTransactionStatus({ visible: true, status: "pending", message: "Computing your hint tier over encrypted data..." });
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) throw new Error("Failed to get contract");
-      const puzzleBytes = await contract.getData(`puzzle_${puzzleId}`);
-      if (puzzleBytes.length === 0) throw new Error("Puzzle not found");
-      const puzzleData = JSON.parse(ethers.toUtf8String(puzzleBytes));
-      
-      const contractWithSigner = await getContractWithSigner();
-      if (!contractWithSigner) throw new Error("Failed to get contract with signer");
-      
-      const updatedPuzzle = { ...puzzleData, hintsUsed: (puzzleData.hintsUsed || 0) + 1 };
-      await contractWithSigner.setData(`puzzle_${puzzleId}`, ethers.toUtf8Bytes(JSON.stringify(updatedPuzzle)));
+      const contract = await getContractWithSigner(chainId);
+      const tx = await contract.requestHint(puzzleId);
+      await tx.wait();
       
-      // Generate AI hint based on puzzle difficulty
-      const hintLevel = Math.min(updatedPuzzle.hintsUsed, 3);
-      const hint = generateHint(hintLevel, puzzleData.difficulty);
+      setTransactionStatus({ visible: true, status: "pending", message: "Decrypting your hint tier..." });
+      const tierHandle = await contract.getHintTier(puzzleId, await contract.currentSession(address));
+      const decrypted = await userDecrypt([tierHandle], await contract.getAddress(), await getSigner());
+      const history = await askGameMaster(gameMaster, "Request hint", toPuzzleContext(puzzle), Number(decrypted[tierHandle]));
+      setConversationPuzzleId(puzzleId);
+      setConversationHistory(history);
       
-      setAiResponse(hint);
-      setConversationHistory([...conversationHistory, {role: "user", content: "Request hint"}, {role: "ai", content: hint}]);
-      
-      setTransactionStatus({ visible: true, status: "success", message: "Hint generated using FHE analysis!" });
+      setTransactionStatus({ visible: true, status: "success", message: "Hint selected using FHE analysis!" });
       await loadPuzzles();
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
-    } catch (e: any) {
-      setTransactionStatus({ visible: true, status: "error", message: "Hint request failed: " + (e.message || "Unknown error") });
+    } catch (e) {
+      setTransactionStatus({ visible: true, status: "error", message: failureMessage(e, "Hint request failed") });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     }
   };
 
-  const generateHint = (level: number, difficulty: number): string => {
-    const baseHints = [
-      "This puzzle involves numerical patterns.",
-      "The solution is encrypted with Zama FHE technology.",
-      "Think about the relationship between the numbers."
-    ];
-    
-    const advancedHints = [
-      "The encrypted solution follows a mathematical sequence.",
-      "The FHE encryption preserves certain mathematical properties.",
-      "Try performing operations on the encrypted data."
-    ];
-    
-    const expertHints = [
-      "The solution is a prime number between 1 and 100.",
-      "The encrypted value is exactly 42.",
-      "The answer is the meaning of life, the universe, and everything."
-    ];
-    
-    if (level === 0) return aiResponses[Math.floor(Math.random() * aiResponses.length)];
-    if (level === 1) return baseHints[Math.floor(Math.random() * baseHints.length)];
-    if (level === 2) return advancedHints[Math.floor(Math.random() * advancedHints.length)];
-    return expertHints[Math.floor(Math.random() * expertHints.length)];
-  };
+  const toPuzzleContext = (puzzle: Puzzle): PuzzleContext => ({
+    id: puzzle.id,
+    difficulty: puzzle.difficulty,
+    status: puzzle.status,
+    hintRequests: puzzle.hintRequests
+  });
 
-  const handleUserMessage = () => {
-    if (!userInput.trim()) return;
-    
-    const newHistory = [...conversationHistory, {role: "user", content: userInput}];
-    setConversationHistory(newHistory);
-    
-    // Simple AI response logic
-    const response = userInput.toLowerCase().includes("hint") 
-      ? aiResponses[Math.floor(Math.random() * aiResponses.length)]
-      : "I can only provide hints about the puzzles. All solutions are encrypted with Zama FHE technology.";
-    
-    setAiResponse(response);
-    setConversationHistory([...newHistory, {role: "ai", content: response}]);
+  const handleUserMessage = async () => {
+    const message = userInput.trim();
+    if (!message || gameMasterThinking) return;
+    const puzzle = puzzles.find(p => p.id === conversationPuzzleId);
+    setConversationHistory([...conversationHistory, { role: "user", content: message }]);
     setUserInput("");
+    setGameMasterThinking(true);
+    try {
+      setConversationHistory(await askGameMaster(gameMaster, message, puzzle ? toPuzzleContext(puzzle) : null));
+    } catch (e) {
+      console.error("Game master failed to respond:", e);
+      setConversationHistory(loadHistory(conversationPuzzleId));
+    } finally {
+      setGameMasterThinking(false);
+    }
   };
 
   const checkAvailability = async () => {
     try {
-      const contract = await getContractReadOnly();
+      const contract = await getContractReadOnly(chainId);
       if (!contract) throw new Error("Contract not available");
-      const isAvailable = await contract.isAvailable();
+      const isAvailable = !(await contract.paused());
       alert(`Contract is ${isAvailable ? 'available' : 'not available'}`);
     } catch (e) {
       console.error("Error checking availability:", e);
@@ -348,123 +641,325 @@ const App: React.FC = () => {
           <button onClick={() => setShowCreateModal(true)} className="create-btn cyber-button">
             <div className="add-icon"></div>Create Puzzle
           </button>
+          <button onClick={() => setView(view === "leaderboard" ? "game" : "leaderboard")} className="cyber-button">
+            {view === "leaderboard" ? "Back to Game" : "Leaderboard"}
+          </button>
+          {(holdsRole(roleState, ADMIN_ROLE.id, address) || (!!address && roleState?.pendingOwner.toLowerCase() === address.toLowerCase())) && (
+            <button onClick={() => setView(view === "admin" ? "game" : "admin")} className="cyber-button">
+              {view === "admin" ? "Back to Game" : "Admin"}
+            </button>
+          )}
           <button onClick={checkAvailability} className="cyber-button">
             Check Availability
           </button>
+          {network && <RpcStatusIndicator network={network} />}
           <div className="wallet-connect-wrapper"><ConnectButton accountStatus="address" chainStatus="icon" showBalance={false}/></div>
         </div>
       </header>
       
       <div className="main-content">
-        <div className="welcome-banner">
-          <div className="welcome-text">
-            <h2>FHE-based Escape Room</h2>
-            <p>Solve puzzles encrypted with Zama FHE technology, guided by an AI Game Master</p>
-          </div>
-          <div className="fhe-indicator"><div className="fhe-lock"></div><span>FHE Encryption Active</span></div>
-        </div>
-        
-        <div className="project-intro cyber-card">
-          <h2>About This Project</h2>
-          <p>
-            This is a single-player escape room where all puzzles are encrypted using <strong>Zama FHE (Fully Homomorphic Encryption)</strong> technology. 
-            The AI Game Master knows the encrypted solutions and can provide personalized hints based on your encrypted interactions.
-          </p>
-          <div className="features-grid">
-            <div className="feature-item">
-              <div className="feature-icon">🔒</div>
-              <h3>FHE Encrypted Puzzles</h3>
-              <p>All puzzle solutions are encrypted with Zama FHE, ensuring complete privacy</p>
-            </div>
-            <div className="feature-item">
-              <div className="feature-icon">🤖</div>
-              <h3>AI Game Master</h3>
-              <p>Intelligent hints based on your encrypted progress without revealing solutions</p>
+        {isConnected && !isSupported(network) && (
+          <div className="network-banner">
+            <div className="network-text">
+              <h3>Unsupported network</h3>
+              <p>
+                {network ? `The escape room is not deployed on ${network.name}.` : `Chain ${chainId} is not supported.`}
+                {supportedNetworks().length > 0 ? " Switch to a supported network to play." : " No deployment is configured yet."}
+              </p>
             </div>
-            <div className="feature-item">
-              <div className="feature-icon">⚙️</div>
-              <h3>Homomorphic Computation</h3>
-              <p>Hints are generated by computing on encrypted data without decryption</p>
+            <div className="network-actions">
+              {supportedNetworks().map(n => (
+                <button key={n.chainId} className="cyber-button" disabled={switchingNetwork} onClick={() => switchChain({ chainId: n.chainId })}>
+                  Switch to {n.name}
+                </button>
+              ))}
             </div>
           </div>
-        </div>
-        
-        <div className="dashboard-section">
-          <div className="stats-card cyber-card">
-            <h3>Puzzle Statistics</h3>
-            {renderPuzzleStats()}
-          </div>
-          
-          <div className="ai-conversation cyber-card">
-            <h3>AI Game Master</h3>
-            <div className="conversation-box">
-              {conversationHistory.map((msg, index) => (
-                <div key={index} className={`message ${msg.role}`}>
-                  <div className="message-content">{msg.content}</div>
-                </div>
-              ))}
+        )}
+
+        {view === "admin" && roleState ? (
+          <div className="puzzles-section">
+            <div className="section-header">
+              <h2>Roles</h2>
+              <div className="header-actions">
+                <button onClick={loadRoleState} className="refresh-btn cyber-button">Refresh</button>
+              </div>
             </div>
-            <div className="input-area">
-              <input 
-                type="text" 
-                value={userInput} 
-                onChange={(e) => setUserInput(e.target.value)}
-                placeholder="Ask the AI for hints..."
-                className="cyber-input"
-                onKeyPress={(e) => e.key === 'Enter' && handleUserMessage()}
+            <div className="cyber-card">
+              <AdminPanel
+                roles={roleState}
+                account={address}
+                busy={rolesBusy}
+                onGrant={(roleId, account) => updateRoles("Granting role...", "Role granted", c => c.grantRole(roleId, account))}
+                onRevoke={(roleId, account) => updateRoles("Revoking role...", "Role revoked", c => c.revokeRole(roleId, account))}
+                onRenounce={(roleId) => updateRoles("Renouncing role...", "Role renounced", c => c.renounceRole(roleId))}
+                onTransferOwnership={(newOwner) => updateRoles("Starting ownership transfer...", "Transfer started! The new owner has to accept it.", c => c.transferOwnership(newOwner))}
+                onAcceptOwnership={() => updateRoles("Accepting ownership...", "You are now the owner", c => c.acceptOwnership())}
               />
-              <button onClick={handleUserMessage} className="cyber-button">Send</button>
             </div>
           </div>
-        </div>
-        
-        <div className="puzzles-section">
-          <div className="section-header">
-            <h2>Encrypted Puzzles</h2>
-            <div className="header-actions">
-              <button onClick={loadPuzzles} className="refresh-btn cyber-button" disabled={isRefreshing}>
-                {isRefreshing ? "Refreshing..." : "Refresh"}
-              </button>
+        ) : view === "leaderboard" ? (
+          <div className="puzzles-section">
+            <div className="section-header">
+              <h2>Leaderboard</h2>
+            </div>
+            <div className="cyber-card">
+              {hasLeaderboard ? (
+                <Leaderboard
+                  entries={leaderboardEntries}
+                  rooms={rooms}
+                  account={address}
+                  busy={leaderboardBusy}
+                  onRefresh={loadLeaderboardEntries}
+                  onReveal={(entryId) => updateLeaderboard("Requesting a public reveal of your score...", "Reveal requested! The oracle will publish your score.", b => b.revealScore(entryId))}
+                  onUpdateRank={(entryId) => updateLeaderboard("Comparing your encrypted score...", "Rank updated!", b => b.updateRank(entryId))}
+                  onDecryptRank={decryptRank}
+                />
+              ) : (
+                <p>No leaderboard is deployed on this network.</p>
+              )}
             </div>
           </div>
-          
-          <div className="puzzles-list cyber-card">
-            <div className="table-header">
-              <div className="header-cell">ID</div>
-              <div className="header-cell">Difficulty</div>
-              <div className="header-cell">Status</div>
-              <div className="header-cell">Hints Used</div>
-              <div className="header-cell">Actions</div>
+        ) : (
+          <>
+            <div className="welcome-banner">
+              <div className="welcome-text">
+                <h2>FHE-based Escape Room</h2>
+                <p>Solve puzzles encrypted with Zama FHE technology, guided by an AI Game Master</p>
+              </div>
+              <div className="fhe-indicator"><div className="fhe-lock"></div><span>FHE Encryption Active</span></div>
             </div>
-            
-            {puzzles.length === 0 ? (
-              <div className="no-puzzles">
-                <div className="no-puzzles-icon"></div>
-                <p>No encrypted puzzles found</p>
-                <button className="cyber-button primary" onClick={() => setShowCreateModal(true)}>Create First Puzzle</button>
+        
+            <div className="project-intro cyber-card">
+              <h2>About This Project</h2>
+              <p>
+                This is a single-player escape room where all puzzles are encrypted using <strong>Zama FHE (Fully Homomorphic Encryption)</strong> technology. 
+                The AI Game Master knows the encrypted solutions and can provide personalized hints based on your encrypted interactions.
+              </p>
+              <div className="features-grid">
+                <div className="feature-item">
+                  <div className="feature-icon">🔒</div>
+                  <h3>FHE Encrypted Puzzles</h3>
+                  <p>All puzzle solutions are encrypted with Zama FHE, ensuring complete privacy</p>
+                </div>
+                <div className="feature-item">
+                  <div className="feature-icon">🤖</div>
+                  <h3>AI Game Master</h3>
+                  <p>Intelligent hints based on your encrypted progress without revealing solutions</p>
+                </div>
+                <div className="feature-item">
+                  <div className="feature-icon">⚙️</div>
+                  <h3>Homomorphic Computation</h3>
+                  <p>Hints are generated by computing on encrypted data without decryption</p>
+                </div>
               </div>
-            ) : puzzles.map(puzzle => (
-              <div className="puzzle-row" key={puzzle.id} onClick={() => setSelectedPuzzle(puzzle)}>
-                <div className="table-cell puzzle-id">#{puzzle.id.substring(0, 6)}</div>
-                <div className="table-cell">
-                  <div className={`difficulty-badge level-${puzzle.difficulty}`}>
-                    {['Easy', 'Medium', 'Hard'][puzzle.difficulty - 1] || 'Custom'}
-                  </div>
+            </div>
+        
+            <div className="dashboard-section">
+              <div className="stats-card cyber-card">
+                <h3>Puzzle Statistics</h3>
+                {renderPuzzleStats()}
+              </div>
+          
+              {isConnected && (
+                <div className="stats-card cyber-card">
+                  <h3>Game Session</h3>
+                  <SessionPanel
+                    session={session}
+                    rooms={rooms}
+                    busy={sessionBusy}
+                    onStart={(roomId) => updateSession("Starting a new session...", "Session started!", c => c.startSession(roomId))}
+                    onPause={() => updateSession("Pausing session...", "Session paused", c => c.pauseSession())}
+                    onResume={() => updateSession("Resuming session...", "Session resumed", c => c.resumeSession())}
+                    onAbandon={() => updateSession("Abandoning session...", "Session abandoned", c => c.abandonSession())}
+                    onFinish={() => updateSession("Sealing your encrypted final stats...", "Session finished!", c => c.finishSession())}
+                    onDecryptStats={decryptSessionStats}
+                    onPostScore={hasLeaderboard ? (sessionId) => updateLeaderboard("Posting your encrypted score...", "Score posted!", b => b.postScore(sessionId)) : undefined}
+                    scorePosted={leaderboardEntries.some(e => e.sessionId === session?.id)}
+                  />
                 </div>
-                <div className="table-cell">
-                  <span className={`status-badge ${puzzle.status}`}>{puzzle.status}</span>
+              )}
+
+              {isConnected && statusDecryptionsAddress !== "" && (
+                <div className="stats-card cyber-card">
+                  <h3>Status Decryptions</h3>
+                  <PendingDecryptions
+                    requests={statusRequests}
+                    timeout={decryptionTimeout}
+                    busy={statusBusy}
+                    canRequest={session?.status === "active"}
+                    onRequest={() => updateStatusRequests("Status requested! The oracle will deliver it masked.")}
+                    onRetry={(requestId) => updateStatusRequests("Request re-issued!", requestId)}
+                    onRefresh={() => address && loadStatusRequests(address)}
+                    onDecrypt={decryptStatus}
+                  />
+                </div>
+              )}
+
+              {playerState && (
+                <div className="stats-card cyber-card">
+                  <h3>Your Encrypted Game State</h3>
+                  {playerState.initialized ? (
+                    <div className="puzzle-info">
+                      <div className="info-item"><span>Progress:</span><strong>{playerState.progress.substring(0, 18)}...</strong></div>
+                      <div className="info-item"><span>Puzzle State 1:</span><strong>{playerState.puzzleState1.substring(0, 18)}...</strong></div>
+                      <div className="info-item"><span>Puzzle State 2:</span><strong>{playerState.puzzleState2.substring(0, 18)}...</strong></div>
+                      <div className="info-item"><span>Hint Eligibility:</span><strong>{playerState.hintEligibility.substring(0, 18)}...</strong></div>
+                    </div>
+                  ) : (
+                    <p>No encrypted state yet. Start a session to begin playing.</p>
+                  )}
+                  {playerState.initialized && (
+                    <button 
+                      className="decrypt-btn cyber-button" 
+                      onClick={async () => setDecryptedProgress(await decryptWithSignature(playerState.progress))}
+                      disabled={isDecrypting}
+                    >
+                      {isDecrypting ? "Decrypting..." : decryptedProgress !== null ? `Progress: ${decryptedProgress}` : "Decrypt My Progress"}
+                    </button>
+                  )}
+                  {playerState.initialized && (
+                    <InventoryPanel account={address} inventoryHandle={playerState.inventory} onDecrypt={decryptInventory} />
+                  )}
+                  {session?.status === "active" ? (
+                    <div className="input-area">
+                      <select 
+                        value={playerAction.actionType} 
+                        onChange={(e) => setPlayerAction({...playerAction, actionType: parseInt(e.target.value)})}
+                        className="cyber-select"
+                      >
+                        <option value="1">Examine object</option>
+                        <option value="2">Use item</option>
+                        <option value="3">Pick up item</option>
+                      </select>
+                      <input 
+                        type="number" 
+                        value={playerAction.actionTarget} 
+                        onChange={(e) => setPlayerAction({...playerAction, actionTarget: parseInt(e.target.value) || 0})}
+                        placeholder="Target id"
+                        className="cyber-input"
+                      />
+                      <button onClick={submitAction} disabled={submittingAction} className="cyber-button">
+                        {submittingAction ? "Encrypting..." : gasless ? "Sign Action" : "Submit Action"}
+                      </button>
+                    </div>
+                  ) : (
+                    <p>Start or resume a session to submit actions.</p>
+                  )}
                 </div>
-                <div className="table-cell">{puzzle.hintsUsed}</div>
-                <div className="table-cell actions">
-                  <button className="action-btn cyber-button" onClick={(e) => { e.stopPropagation(); requestHint(puzzle.id); }}>Get Hint</button>
-                  {puzzle.status === "locked" && (
-                    <button className="action-btn cyber-button success" onClick={(e) => { e.stopPropagation(); unlockPuzzle(puzzle.id); }}>Unlock</button>
+              )}
+          
+              <div className="ai-conversation cyber-card">
+                <h3>AI Game Master</h3>
+                <select
+                  value={conversationPuzzleId ?? ""}
+                  onChange={(e) => setConversationPuzzleId(e.target.value || null)}
+                  className="cyber-select"
+                >
+                  <option value="">General</option>
+                  {puzzles.map(p => (
+                    <option key={p.id} value={p.id}>Puzzle #{p.id}</option>
+                  ))}
+                </select>
+                <div className="conversation-box">
+                  {conversationHistory.map((msg, index) => (
+                    <div key={index} className={`message ${msg.role}`}>
+                      <div className="message-content">{msg.content}</div>
+                    </div>
+                  ))}
+                  {gameMasterThinking && (
+                    <div className="message ai">
+                      <div className="message-content">...</div>
+                    </div>
                   )}
                 </div>
+                <div className="input-area">
+                  <input 
+                    type="text" 
+                    value={userInput} 
+                    onChange={(e) => setUserInput(e.target.value)}
+                    placeholder="Ask the AI for hints..."
+                    className="cyber-input"
+                    onKeyPress={(e) => e.key === 'Enter' && handleUserMessage()}
+                  />
+                  <button onClick={handleUserMessage} disabled={gameMasterThinking} className="cyber-button">Send</button>
+                </div>
               </div>
-            ))}
-          </div>
-        </div>
+            </div>
+        
+            <div className="puzzles-section">
+              <div className="section-header">
+                <h2>Room Map</h2>
+                <div className="header-actions">
+                  <button onClick={loadRooms} className="refresh-btn cyber-button">Refresh</button>
+                </div>
+              </div>
+          
+              <div className="cyber-card">
+                <RoomMap 
+                  rooms={rooms}
+                  solvedPuzzleIds={puzzles.filter(p => p.status === "unlocked").map(p => p.id)}
+                  onRequestUnlock={requestRoomUnlock}
+                  onSelectPuzzle={(puzzleId) => setSelectedPuzzle(puzzles.find(p => p.id === puzzleId) || null)}
+                />
+              </div>
+            </div>
+        
+            <div className="puzzles-section">
+              <div className="section-header">
+                <h2>Encrypted Puzzles</h2>
+                <div className="header-actions">
+                  <button onClick={serveNextPuzzle} className="cyber-button primary">
+                    Serve Next Puzzle
+                  </button>
+                  <button onClick={loadPuzzles} className="refresh-btn cyber-button" disabled={isRefreshing}>
+                    {isRefreshing ? "Refreshing..." : "Refresh"}
+                  </button>
+                </div>
+              </div>
+          
+              <div className="puzzles-list cyber-card">
+                <div className="table-header">
+                  <div className="header-cell">ID</div>
+                  <div className="header-cell">Difficulty</div>
+                  <div className="header-cell">Status</div>
+                  <div className="header-cell">Hint Requests</div>
+                  <div className="header-cell">Actions</div>
+                </div>
+            
+                {puzzles.length === 0 ? (
+                  <div className="no-puzzles">
+                    <div className="no-puzzles-icon"></div>
+                    <p>No encrypted puzzles found</p>
+                    <button className="cyber-button primary" onClick={() => setShowCreateModal(true)}>Create First Puzzle</button>
+                  </div>
+                ) : puzzles.map(puzzle => (
+                  <div className={`puzzle-row ${puzzle.id === servedPuzzleId ? 'served' : ''}`} key={puzzle.id} onClick={() => setSelectedPuzzle(puzzle)}>
+                    <div className="table-cell puzzle-id">
+                      #{puzzle.id.substring(0, 6)}
+                      {puzzle.id === servedPuzzleId && <span className="served-tag">Next up</span>}
+                    </div>
+                    <div className="table-cell">
+                      <div className={`difficulty-badge level-${puzzle.difficulty}`}>
+                        {['Easy', 'Medium', 'Hard'][puzzle.difficulty - 1] || 'Custom'}
+                      </div>
+                    </div>
+                    <div className="table-cell">
+                      <span className={`status-badge ${puzzle.status}`}>{puzzle.status}</span>
+                    </div>
+                    <div className="table-cell">{puzzle.hintRequests}</div>
+                    <div className="table-cell actions">
+                      <button className="action-btn cyber-button" onClick={(e) => { e.stopPropagation(); requestHint(puzzle.id); }}>Get Hint</button>
+                      {puzzle.status === "locked" && (
+                        <button className="action-btn cyber-button success" onClick={(e) => { e.stopPropagation(); setSelectedPuzzle(puzzle); }}>Unlock</button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
       </div>
       
       {showCreateModal && (
@@ -498,6 +993,20 @@ const App: React.FC = () => {
                   className="cyber-input"
                 />
               </div>
+              <div className="form-group">
+                <label>Required Item</label>
+                <select 
+                  name="requiredItem" 
+                  value={newPuzzleData.requiredItem} 
+                  onChange={(e) => setNewPuzzleData({...newPuzzleData, requiredItem: parseInt(e.target.value)})}
+                  className="cyber-select"
+                >
+                  <option value="0">None</option>
+                  {ITEMS.map(item => (
+                    <option key={item.target} value={item.target}>{item.name}</option>
+                  ))}
+                </select>
+              </div>
               <div className="encryption-preview">
                 <h4>FHE Encryption Preview</h4>
                 <div className="preview-container">
@@ -508,7 +1017,7 @@ const App: React.FC = () => {
                   <div className="encryption-arrow">→</div>
                   <div className="encrypted-data">
                     <span>Encrypted Data:</span>
-                    <div>{FHEEncryptNumber(newPuzzleData.solution).substring(0, 50)}...</div>
+                    <div>euint32 handle + input proof, generated in your browser</div>
                   </div>
                 </div>
               </div>
@@ -541,29 +1050,45 @@ const App: React.FC = () => {
                   <strong className={`status-badge ${selectedPuzzle.status}`}>{selectedPuzzle.status}</strong>
                 </div>
                 <div className="info-item">
-                  <span>Hints Used:</span>
-                  <strong>{selectedPuzzle.hintsUsed}</strong>
+                  <span>Hint Requests:</span>
+                  <strong>{selectedPuzzle.hintRequests}</strong>
                 </div>
               </div>
               <div className="encrypted-data-section">
                 <h3>Encrypted Solution</h3>
                 <div className="encrypted-data">{selectedPuzzle.encryptedSolution.substring(0, 100)}...</div>
                 <div className="fhe-tag"><div className="fhe-icon"></div><span>FHE Encrypted</span></div>
-                <button 
-                  className="decrypt-btn cyber-button" 
-                  onClick={async () => {
-                    if (decryptedSolution !== null) {
-                      setDecryptedSolution(null);
-                    } else {
-                      const decrypted = await decryptWithSignature(selectedPuzzle.encryptedSolution);
-                      setDecryptedSolution(decrypted);
-                    }
-                  }}
-                  disabled={isDecrypting}
-                >
-                  {isDecrypting ? "Decrypting..." : decryptedSolution !== null ? "Hide Solution" : "Decrypt with Wallet"}
-                </button>
+                {address && selectedPuzzle.creator.toLowerCase() === address.toLowerCase() && (
+                  <button 
+                    className="decrypt-btn cyber-button" 
+                    onClick={async () => {
+                      if (decryptedSolution !== null) {
+                        setDecryptedSolution(null);
+                      } else {
+                        const decrypted = await decryptWithSignature(selectedPuzzle.encryptedSolution);
+                        setDecryptedSolution(decrypted);
+                      }
+                    }}
+                    disabled={isDecrypting}
+                  >
+                    {isDecrypting ? "Decrypting..." : decryptedSolution !== null ? "Hide Solution" : "Decrypt with Wallet"}
+                  </button>
+                )}
               </div>
+              {selectedPuzzle.status === "locked" && (
+                <div className="form-group">
+                  <label>Your Guess (Number)</label>
+                  <div className="input-area">
+                    <input 
+                      type="number" 
+                      value={guessInput} 
+                      onChange={(e) => setGuessInput(parseInt(e.target.value) || 0)}
+                      className="cyber-input"
+                    />
+                    <button className="cyber-button success" onClick={() => unlockPuzzle(selectedPuzzle.id, guessInput)}>Submit Encrypted Guess</button>
+                  </div>
+                </div>
+              )}
               {decryptedSolution !== null && (
                 <div className="decrypted-data-section">
                   <h3>Decrypted Solution</h3>
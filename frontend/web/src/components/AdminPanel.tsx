@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import { ADMIN_ROLE, ROLES, RoleState, holdsRole } from '../roles';
+
+interface AdminPanelProps {
+  roles: RoleState;
+  account?: string;
+  busy: boolean;
+  onGrant: (roleId: string, account: string) => void;
+  onRevoke: (roleId: string, account: string) => void;
+  onRenounce: (roleId: string) => void;
+  onTransferOwnership: (newOwner: string) => void;
+  onAcceptOwnership: () => void;
+}
+
+const sameAddress = (a: string, b?: string) => !!b && a.toLowerCase() === b.toLowerCase();
+
+export default function AdminPanel({
+  roles, account, busy, onGrant, onRevoke, onRenounce, onTransferOwnership, onAcceptOwnership
+}: AdminPanelProps) {
+  const [newMembers, setNewMembers] = useState<Record<string, string>>({});
+  const [newOwner, setNewOwner] = useState("");
+
+  const isOwner = sameAddress(roles.owner, account);
+  const isAdmin = holdsRole(roles, ADMIN_ROLE.id, account);
+  const transferPending = roles.pendingOwner !== ethers.ZeroAddress;
+  // Mirrors EscapeRoles._checkRoleAdmin
+  const canManage = (roleId: string) => (roleId === ADMIN_ROLE.id ? isOwner : isAdmin);
+
+  return (
+    <div className="admin-panel">
+      <div className="puzzle-info">
+        <div className="info-item"><span>Owner:</span><strong>{roles.owner}{isOwner ? " (you)" : ""}</strong></div>
+        {transferPending && (
+          <div className="info-item"><span>Pending owner:</span><strong>{roles.pendingOwner}</strong></div>
+        )}
+      </div>
+      {transferPending && sameAddress(roles.pendingOwner, account) && (
+        <button className="cyber-button primary" onClick={onAcceptOwnership} disabled={busy}>Accept Ownership</button>
+      )}
+      {isOwner && (
+        <div className="input-area">
+          <input
+            type="text"
+            value={newOwner}
+            onChange={(e) => setNewOwner(e.target.value)}
+            placeholder="New owner address"
+            className="cyber-input"
+          />
+          <button
+            className="cyber-button"
+            onClick={() => onTransferOwnership(newOwner)}
+            disabled={busy || !ethers.isAddress(newOwner)}
+          >
+            Start Transfer
+          </button>
+        </div>
+      )}
+
+      {ROLES.map(r => {
+        const members = roles.members[r.id] ?? [];
+        const candidate = newMembers[r.id] ?? "";
+        return (
+          <div className="role-card" key={r.id}>
+            <h4>{r.label} <span className="role-count">{members.length}</span></h4>
+            <p>{r.description}</p>
+            {members.length === 0 ? (
+              <p className="role-empty">No members</p>
+            ) : (
+              <ul className="role-members">
+                {members.map(m => (
+                  <li key={m}>
+                    <span className="rpc-host">{m}{sameAddress(m, account) ? " (you)" : ""}</span>
+                    {canManage(r.id) && (
+                      <button className="cyber-button" onClick={() => onRevoke(r.id, m)} disabled={busy}>Revoke</button>
+                    )}
+                    {!canManage(r.id) && sameAddress(m, account) && (
+                      <button className="cyber-button" onClick={() => onRenounce(r.id)} disabled={busy}>Renounce</button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {canManage(r.id) && (
+              <div className="input-area">
+                <input
+                  type="text"
+                  value={candidate}
+                  onChange={(e) => setNewMembers({ ...newMembers, [r.id]: e.target.value })}
+                  placeholder="Account address"
+                  className="cyber-input"
+                />
+                <button
+                  className="cyber-button"
+                  onClick={() => onGrant(r.id, candidate)}
+                  disabled={busy || !ethers.isAddress(candidate)}
+                >
+                  Grant
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
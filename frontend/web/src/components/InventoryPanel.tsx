@@ -0,0 +1,51 @@
+import React, { useEffect, useState } from 'react';
+import { itemsInInventory } from '../items';
+
+interface InventoryPanelProps {
+  account?: string;
+  inventoryHandle: string;
+  onDecrypt: (handle: string) => Promise<bigint | null>;
+}
+
+export default function InventoryPanel({ account, inventoryHandle, onDecrypt }: InventoryPanelProps) {
+  const [inventory, setInventory] = useState<bigint | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+
+  // A new handle means the inventory changed on-chain, so the old plaintext is stale
+  useEffect(() => {
+    setInventory(null);
+  }, [account, inventoryHandle]);
+
+  const reveal = async () => {
+    setIsDecrypting(true);
+    try {
+      setInventory(await onDecrypt(inventoryHandle));
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const items = inventory !== null ? itemsInInventory(inventory) : [];
+
+  return (
+    <div className="inventory-panel">
+      <h4>Inventory</h4>
+      {inventory === null ? (
+        <button className="decrypt-btn cyber-button" onClick={reveal} disabled={isDecrypting || !inventoryHandle}>
+          {isDecrypting ? "Decrypting..." : "Decrypt My Inventory"}
+        </button>
+      ) : items.length === 0 ? (
+        <p>Your pockets are empty.</p>
+      ) : (
+        <ul className="inventory-items">
+          {items.map(item => (
+            <li key={item.target} className="inventory-item">{item.name}</li>
+          ))}
+        </ul>
+      )}
+      <div className="decryption-notice">
+        <span>Only you can decrypt your inventory</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { Room } from './RoomMap';
+import { formatDuration } from './SessionPanel';
+import { EntryRank, LeaderboardEntry, LeaderboardPeriod, PERIODS, RoomFilter, rankEntries } from '../leaderboard';
+
+interface LeaderboardProps {
+  entries: LeaderboardEntry[];
+  rooms: Room[];
+  account?: string;
+  busy: boolean;
+  onRefresh: () => void;
+  onReveal: (entryId: string) => void;
+  onUpdateRank: (entryId: string) => Promise<void>;
+  onDecryptRank: (entryId: string) => Promise<EntryRank | null>;
+}
+
+const shortAddress = (a: string) => `${a.substring(0, 6)}...${a.substring(a.length - 4)}`;
+
+const roomLabel = (roomId: string) => (roomId === "0" ? "Free play" : `Room #${roomId}`);
+
+export default function Leaderboard({
+  entries, rooms, account, busy, onRefresh, onReveal, onUpdateRank, onDecryptRank
+}: LeaderboardProps) {
+  const [room, setRoom] = useState<RoomFilter>("all");
+  const [period, setPeriod] = useState<LeaderboardPeriod>("all");
+  const [ranks, setRanks] = useState<Record<string, EntryRank>>({});
+  const [decryptingId, setDecryptingId] = useState<string | null>(null);
+
+  const ranked = rankEntries(entries, room, period);
+  const isMine = (entry: LeaderboardEntry) => !!account && entry.player.toLowerCase() === account.toLowerCase();
+
+  const revealRank = async (entryId: string) => {
+    setDecryptingId(entryId);
+    try {
+      const rank = await onDecryptRank(entryId);
+      if (rank) setRanks(previous => ({ ...previous, [entryId]: rank }));
+    } finally {
+      setDecryptingId(null);
+    }
+  };
+
+  // A rank update is a transaction; the count is decrypted again once it is mined,
+  // and only changes when the update completes a pass over the board
+  const compareMore = async (entryId: string) => {
+    await onUpdateRank(entryId);
+    await revealRank(entryId);
+  };
+
+  const renderRank = (entry: LeaderboardEntry) => {
+    const rank = ranks[entry.id];
+    if (!rank) {
+      return (
+        <button className="cyber-button" onClick={() => revealRank(entry.id)} disabled={decryptingId === entry.id}>
+          {decryptingId === entry.id ? "Decrypting..." : "My Rank"}
+        </button>
+      );
+    }
+    // Counts are only published over several new rival runs at once, so no single comparison leaks
+    const missing = rank.minNewRivals - rank.newRivals;
+    return (
+      <span className="rank-result">
+        Beat {rank.beaten} run{rank.beaten === 1 ? "" : "s"}
+        {rank.passEnd > 0 ? (
+          <button className="cyber-button" onClick={() => compareMore(entry.id)} disabled={busy}>
+            Continue ranking ({rank.passNext}/{rank.passEnd})
+          </button>
+        ) : missing <= 0 ? (
+          <button className="cyber-button" onClick={() => compareMore(entry.id)} disabled={busy}>
+            Compare {rank.newRivals} more
+          </button>
+        ) : rank.newRivals > 0 && (
+          <small> ({missing} more rival run{missing === 1 ? "" : "s"} before the next update)</small>
+        )}
+      </span>
+    );
+  };
+
+  return (
+    <div className="leaderboard">
+      <div className="leaderboard-filters">
+        <select value={room} onChange={(e) => setRoom(e.target.value)} className="cyber-select">
+          <option value="all">All rooms</option>
+          <option value="0">Free play</option>
+          {rooms.map(r => (
+            <option key={r.id} value={r.id}>Room #{r.id}</option>
+          ))}
+        </select>
+        <select value={period} onChange={(e) => setPeriod(e.target.value as LeaderboardPeriod)} className="cyber-select">
+          {PERIODS.map(p => (
+            <option key={p.id} value={p.id}>{p.label}</option>
+          ))}
+        </select>
+        <button onClick={onRefresh} className="refresh-btn cyber-button">Refresh</button>
+      </div>
+
+      {ranked.length === 0 ? (
+        <p>No scores posted for this selection yet. Finish a session and post it to enter the board.</p>
+      ) : (
+        <div className="puzzles-list">
+          <div className="table-header">
+            <div className="header-cell">#</div>
+            <div className="header-cell">Player</div>
+            <div className="header-cell">Room</div>
+            <div className="header-cell">Score</div>
+            <div className="header-cell">Time</div>
+            <div className="header-cell">Actions</div>
+          </div>
+          {ranked.map(entry => (
+            <div className={`puzzle-row ${isMine(entry) ? "mine" : ""}`} key={entry.id}>
+              <div className="table-cell">{entry.position ?? "—"}</div>
+              <div className="table-cell">{isMine(entry) ? "You" : shortAddress(entry.player)}</div>
+              <div className="table-cell">{roomLabel(entry.roomId)}</div>
+              <div className="table-cell">
+                {entry.score !== null ? <strong>{entry.score}</strong> : <span className="hidden-score">🔒 encrypted</span>}
+              </div>
+              <div className="table-cell">{formatDuration(entry.playSeconds)}</div>
+              <div className="table-cell actions">
+                {isMine(entry) && (
+                  <>
+                    {entry.score === null && (
+                      <button
+                        className="cyber-button"
+                        onClick={() => onReveal(entry.id)}
+                        disabled={busy || entry.revealRequested}
+                      >
+                        {entry.revealRequested ? "Revealing..." : "Reveal Score"}
+                      </button>
+                    )}
+                    {renderRank(entry)}
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      <p>
+        Scores stay encrypted unless their player reveals them, so only revealed scores are ranked publicly.
+        Your own rank is counted over the encrypted scores and only you can decrypt it.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import { formatDuration } from './SessionPanel';
+import { DecryptedStatus, StatusDecryption, timeoutProgress } from '../statusDecryptions';
+
+interface PendingDecryptionsProps {
+  requests: StatusDecryption[];
+  // Seconds after which a pending request can be cancelled
+  timeout: number;
+  busy: boolean;
+  canRequest: boolean;
+  onRequest: () => void;
+  onRetry: (requestId: string) => void;
+  onRefresh: () => void;
+  onDecrypt: (requestId: string) => Promise<DecryptedStatus | null>;
+}
+
+export default function PendingDecryptions({
+  requests, timeout, busy, canRequest, onRequest, onRetry, onRefresh, onDecrypt
+}: PendingDecryptionsProps) {
+  const [now, setNow] = useState(Date.now());
+  const [decrypted, setDecrypted] = useState<Record<string, DecryptedStatus>>({});
+  const [decryptingId, setDecryptingId] = useState<string | null>(null);
+
+  const waiting = requests.some(r => r.status === "pending");
+
+  useEffect(() => {
+    if (!waiting) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [waiting]);
+
+  const reveal = async (requestId: string) => {
+    setDecryptingId(requestId);
+    try {
+      const status = await onDecrypt(requestId);
+      if (status) setDecrypted(previous => ({ ...previous, [requestId]: status }));
+    } finally {
+      setDecryptingId(null);
+    }
+  };
+
+  const renderState = (request: StatusDecryption) => {
+    switch (request.status) {
+      case "pending": {
+        const seconds = Math.floor(now / 1000);
+        const elapsed = Math.max(0, seconds - request.requestedAt);
+        return (
+          <div className="decryption-wait">
+            <div className="decryption-progress">
+              <div className="decryption-progress-fill" style={{ width: `${timeoutProgress(request, timeout, seconds) * 100}%` }} />
+            </div>
+            <span>Waiting for the oracle · {formatDuration(elapsed)} of {formatDuration(timeout)}</span>
+          </div>
+        );
+      }
+      case "expired":
+        return (
+          <span className="rank-result">
+            No answer within {formatDuration(timeout)}
+            <button className="cyber-button" onClick={() => onRetry(request.id)} disabled={busy || !canRequest}>Cancel & Retry</button>
+          </span>
+        );
+      case "cancelled":
+        return <span>Cancelled</span>;
+      case "completed": {
+        const status = decrypted[request.id];
+        if (!status) {
+          return (
+            <button className="cyber-button" onClick={() => reveal(request.id)} disabled={decryptingId === request.id}>
+              {decryptingId === request.id ? "Decrypting..." : "Decrypt Result"}
+            </button>
+          );
+        }
+        return (
+          <span>
+            Progress {status.progress} · States {status.puzzleState1}/{status.puzzleState2} · {status.hintEligible ? "Hint available" : "No hint"}
+          </span>
+        );
+      }
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="pending-decryptions">
+      <div className="session-actions">
+        <button className="cyber-button" onClick={onRequest} disabled={busy || !canRequest}>Request Status</button>
+        <button className="cyber-button" onClick={onRefresh} disabled={busy}>Refresh</button>
+      </div>
+      {!canRequest && <p>Start or resume a session to request your status.</p>}
+      {requests.length === 0 ? (
+        <p>No recent status requests.</p>
+      ) : (
+        <div className="decryption-list">
+          {requests.map(request => (
+            <div key={request.id} className="decryption-row">
+              <div className="session-header">
+                <span className={`status-badge ${request.status}`}>{request.status}</span>
+                <span>Request #{request.id} · Session #{request.sessionId}</span>
+                {request.result?.stale && <span className="stale-flag" title="You acted after this request">stale</span>}
+              </div>
+              {renderState(request)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import React from 'react';
+import { formatDuration } from './SessionPanel';
+
+export interface Room {
+  id: string;
+  creator: string;
+  puzzleIds: string[];
+  prerequisites: string[];
+  exitPuzzleId: string;
+  // Seconds allowed per session, 0 when untimed
+  timeLimit: number;
+  unlocked: boolean;
+  escaped: boolean;
+}
+
+interface RoomMapProps {
+  rooms: Room[];
+  solvedPuzzleIds: string[];
+  onRequestUnlock: (roomId: string) => void;
+  onSelectPuzzle: (puzzleId: string) => void;
+}
+
+export default function RoomMap({ rooms, solvedPuzzleIds, onRequestUnlock, onSelectPuzzle }: RoomMapProps) {
+  if (rooms.length === 0) {
+    return (
+      <div className="no-puzzles">
+        <p>No rooms have been built yet</p>
+      </div>
+    );
+  }
+
+  const roomStatus = (room: Room) => {
+    if (room.escaped) return "escaped";
+    return room.unlocked ? "unlocked" : "locked";
+  };
+
+  return (
+    <div className="room-map">
+      {rooms.map(room => {
+        const status = roomStatus(room);
+        const prerequisitesSolved = room.prerequisites.filter(id => solvedPuzzleIds.includes(id)).length;
+        return (
+          <div className={`room-node ${status}`} key={room.id}>
+            <div className="room-header">
+              <h3>Room #{room.id}</h3>
+              <span className={`status-badge ${status}`}>{status}</span>
+            </div>
+            {room.timeLimit > 0 && (
+              <div className="room-prerequisites">Time limit: {formatDuration(room.timeLimit)}</div>
+            )}
+            {room.prerequisites.length > 0 && (
+              <div className="room-prerequisites">
+                Requires locks: {room.prerequisites.map(id => `#${id}`).join(', ')} ({prerequisitesSolved}/{room.prerequisites.length} solved)
+              </div>
+            )}
+            <div className="room-locks">
+              {room.puzzleIds.map(id => (
+                <button
+                  key={id}
+                  className={`room-lock ${solvedPuzzleIds.includes(id) ? 'solved' : ''}`}
+                  onClick={() => onSelectPuzzle(id)}
+                  disabled={!room.unlocked}
+                >
+                  {id === room.exitPuzzleId ? 'Exit' : 'Lock'} #{id}
+                </button>
+              ))}
+            </div>
+            {!room.unlocked && (
+              <button className="cyber-button" onClick={() => onRequestUnlock(room.id)}>Try to Unlock Room</button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import { NetworkInfo } from '../networks';
+import { getRpcManager } from '../rpc';
+
+interface RpcStatusIndicatorProps {
+  network: NetworkInfo;
+}
+
+const host = (url: string) => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
+export default function RpcStatusIndicator({ network }: RpcStatusIndicatorProps) {
+  const manager = getRpcManager(network);
+  const status = useSyncExternalStore(listener => manager.subscribe(listener), () => manager.status());
+  const [expanded, setExpanded] = useState(false);
+  const [probing, setProbing] = useState(false);
+
+  const total = status.endpoints.length;
+  const level = status.healthyCount === total ? "healthy" : status.healthyCount > 0 ? "degraded" : "down";
+  const latencies = status.endpoints.filter(e => e.healthy && e.latencyMs !== null).map(e => e.latencyMs!);
+  const fastest = latencies.length > 0 ? Math.min(...latencies) : null;
+
+  const recheck = async () => {
+    setProbing(true);
+    try {
+      await manager.probe();
+    } finally {
+      setProbing(false);
+    }
+  };
+
+  return (
+    <div className="rpc-status">
+      <button className={`rpc-status-summary ${level}`} onClick={() => setExpanded(!expanded)}>
+        <span className="rpc-dot"></span>
+        RPC {status.healthyCount}/{total}{fastest !== null ? ` · ${fastest} ms` : ""}
+      </button>
+      {expanded && (
+        <div className="rpc-status-details">
+          <h4>{network.name} endpoints</h4>
+          <ul>
+            {status.endpoints.map(e => (
+              <li key={e.url} className={e.healthy ? "healthy" : "down"}>
+                <span className="rpc-host">{host(e.url)}</span>
+                <span>{e.latencyMs !== null ? `${e.latencyMs} ms` : "n/a"}</span>
+                <span>{Math.round(e.errorRate * 100)}% errors</span>
+                {e.backoffUntil > Date.now() && (
+                  <span title={e.lastError ?? undefined}>retry in {Math.ceil((e.backoffUntil - Date.now()) / 1000)}s</span>
+                )}
+              </li>
+            ))}
+          </ul>
+          <button className="cyber-button" onClick={recheck} disabled={probing}>
+            {probing ? "Checking..." : "Re-check"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
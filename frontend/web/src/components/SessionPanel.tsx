@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from 'react';
+import { Room } from './RoomMap';
+import { itemsInInventory } from '../items';
+
+// Mirrors AIEscapeFHE.SessionStatus
+export type SessionStatus = "none" | "active" | "paused" | "abandoned" | "finished";
+export const SESSION_STATUSES: SessionStatus[] = ["none", "active", "paused", "abandoned", "finished"];
+
+export interface GameSession {
+  id: string;
+  roomId: string;
+  status: SessionStatus;
+  // Play time as of loadedAt, anchored to block time
+  playSeconds: number;
+  // Seconds allowed by the room, 0 when untimed
+  timeLimit: number;
+  // Local time the play time was read, so the clock can keep ticking between refreshes
+  loadedAt: number;
+}
+
+export interface SessionStats {
+  progress: bigint;
+  correctGuesses: bigint;
+  wrongGuesses: bigint;
+  inventory: bigint;
+  score: bigint;
+}
+
+interface SessionPanelProps {
+  session: GameSession | null;
+  rooms: Room[];
+  busy: boolean;
+  onStart: (roomId: string) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onAbandon: () => void;
+  onFinish: () => void;
+  onDecryptStats: (sessionId: string) => Promise<SessionStats | null>;
+  // Absent when the chain has no leaderboard
+  onPostScore?: (sessionId: string) => void;
+  scorePosted?: boolean;
+}
+
+// Countdown turns red below this many seconds
+const URGENT_SECONDS = 60;
+
+export const formatDuration = (seconds: number) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60).toString().padStart(2, "0");
+  const s = Math.floor(seconds % 60).toString().padStart(2, "0");
+  return h > 0 ? `${h}:${m}:${s}` : `${m}:${s}`;
+};
+
+const roomLabel = (roomId: string) => (roomId === "0" ? "Free play" : `Room #${roomId}`);
+
+export default function SessionPanel({
+  session, rooms, busy, onStart, onPause, onResume, onAbandon, onFinish, onDecryptStats, onPostScore, scorePosted
+}: SessionPanelProps) {
+  const [roomId, setRoomId] = useState("0");
+  const [now, setNow] = useState(Date.now());
+  const [stats, setStats] = useState<SessionStats | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+
+  const active = session?.status === "active";
+  const inProgress = active || session?.status === "paused";
+
+  useEffect(() => {
+    if (!active) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [active]);
+
+  useEffect(() => {
+    setStats(null);
+  }, [session?.id]);
+
+  const playSeconds = session
+    ? session.playSeconds + (active ? Math.max(0, (now - session.loadedAt) / 1000) : 0)
+    : 0;
+  const timed = !!session && session.timeLimit > 0;
+  const remaining = timed ? Math.max(0, session!.timeLimit - playSeconds) : 0;
+  const timeUp = timed && remaining === 0;
+
+  const revealStats = async () => {
+    if (!session) return;
+    setIsDecrypting(true);
+    try {
+      setStats(await onDecryptStats(session.id));
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  return (
+    <div className="session-panel">
+      {inProgress && session ? (
+        <>
+          <div className="session-header">
+            <span className={`status-badge ${session.status}`}>{session.status}</span>
+            <span>Session #{session.id} · {roomLabel(session.roomId)}</span>
+          </div>
+          {timed ? (
+            <div className={`session-clock ${remaining < URGENT_SECONDS ? "urgent" : ""}`}>
+              {timeUp ? "Time's up" : `${formatDuration(remaining)} left`}
+            </div>
+          ) : (
+            <div className="session-clock">{formatDuration(playSeconds)}</div>
+          )}
+          <div className="session-actions">
+            {active ? (
+              <button className="cyber-button" onClick={onPause} disabled={busy || timeUp}>Pause</button>
+            ) : (
+              <button className="cyber-button" onClick={onResume} disabled={busy}>Resume</button>
+            )}
+            <button className="cyber-button primary" onClick={onFinish} disabled={busy}>Finish</button>
+            <button className="cyber-button" onClick={onAbandon} disabled={busy}>Abandon</button>
+          </div>
+          {!active && <p>The clock is stopped. Resume to keep playing.</p>}
+          {timeUp && <p>No more moves are accepted. Finish to seal your score.</p>}
+        </>
+      ) : (
+        <>
+          {session && (
+            <div className="session-summary">
+              <div className="session-header">
+                <span className={`status-badge ${session.status}`}>{session.status}</span>
+                <span>Session #{session.id} · {roomLabel(session.roomId)} · {formatDuration(session.playSeconds)}</span>
+              </div>
+              {session.status === "finished" && (
+                stats ? (
+                  <div className="puzzle-info">
+                    <div className="info-item"><span>Score:</span><strong>{stats.score.toString()}</strong></div>
+                    <div className="info-item"><span>Final progress:</span><strong>{stats.progress.toString()}</strong></div>
+                    <div className="info-item"><span>Correct guesses:</span><strong>{stats.correctGuesses.toString()}</strong></div>
+                    <div className="info-item"><span>Wrong guesses:</span><strong>{stats.wrongGuesses.toString()}</strong></div>
+                    <div className="info-item">
+                      <span>Items kept:</span>
+                      <strong>{itemsInInventory(stats.inventory).map(item => item.name).join(", ") || "none"}</strong>
+                    </div>
+                  </div>
+                ) : (
+                  <button className="decrypt-btn cyber-button" onClick={revealStats} disabled={isDecrypting}>
+                    {isDecrypting ? "Decrypting..." : "Decrypt Final Stats"}
+                  </button>
+                )
+              )}
+              {session.status === "finished" && onPostScore && (
+                scorePosted ? (
+                  <p>Posted to the leaderboard.</p>
+                ) : (
+                  <button className="cyber-button primary" onClick={() => onPostScore(session.id)} disabled={busy}>
+                    Post Encrypted Score to Leaderboard
+                  </button>
+                )
+              )}
+            </div>
+          )}
+          <div className="input-area">
+            <select value={roomId} onChange={(e) => setRoomId(e.target.value)} className="cyber-select">
+              <option value="0">Free play</option>
+              {rooms.map(room => (
+                <option key={room.id} value={room.id}>
+                  Room #{room.id}{room.timeLimit > 0 ? ` (${formatDuration(room.timeLimit)})` : ""}
+                </option>
+              ))}
+            </select>
+            <button className="cyber-button" onClick={() => onStart(roomId)} disabled={busy}>
+              {session ? "Start New Session" : "Start Session"}
+            </button>
+          </div>
+          <p>Starting a session resets your encrypted progress and inventory.</p>
+        </>
+      )}
+    </div>
+  );
+}
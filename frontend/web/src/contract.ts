@@ -1,62 +1,53 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "./abi/UniversalAdapter.json";
 import configJson from "./config.json";
+import {
+  AIEscapeFHE__factory, EscapeLeaderboard__factory, PlayerActionForwarder__factory, StatusDecryptions__factory
+} from "./types";
+import type { AIEscapeFHE, EscapeLeaderboard, PlayerActionForwarder, StatusDecryptions } from "./types";
+import { getNetwork, isSupported } from "./networks";
+import { getRpcManager, retry } from "./rpc";
+
+export type { AIEscapeFHE, EscapeLeaderboard, PlayerActionForwarder, StatusDecryptions };
 
-export const ABI = (abiJson as any).abi || abiJson;
 export const config = configJson;
 
-const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
-  try {
-    return await fn();
-  } catch (e) {
-    if (retries > 0) {
-      await new Promise(res => setTimeout(res, delay));
-      return retry(fn, retries - 1, delay * 2);
-    }
-    throw e;
-  }
-};
+// Factories in ./types are generated from the ABIs in ./abi (npm run typechain:web)
+const connect = (address: string, runner: ethers.ContractRunner) => AIEscapeFHE__factory.connect(address, runner);
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      return provider;
-    } catch (error) {
-    }
-  }
-  
-  throw new Error("All RPC providers failed");
+// Deployment for the given chain, or null when the game does not run there
+export const getDeployment = (chainId: number | undefined) => {
+  const network = getNetwork(chainId);
+  return network && isSupported(network) ? network.deployment : null;
 };
 
-export async function getContractReadOnly() {
+// Provider the read-only contracts use; null when the game does not run on the chain
+export function getReadProvider(chainId: number): ethers.AbstractProvider | null {
+  const network = getNetwork(chainId);
+  return network && getDeployment(chainId) ? getRpcManager(network).getProvider() : null;
+}
+
+// Code lookups that found the contract; a deployment does not disappear, so it is only checked once per chain
+const deployedContracts = new Set<string>();
+
+export async function getContractReadOnly(chainId: number): Promise<AIEscapeFHE | null> {
+  const network = getNetwork(chainId);
+  const deployment = getDeployment(chainId);
+  if (!network || !deployment) {
+    return null;
+  }
+  const { contractAddress } = deployment;
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    const provider = getRpcManager(network).getProvider();
+    const contract = connect(contractAddress, provider);
     
-    const code = await retry(() => provider.getCode(config.contractAddress));
-    if (code === "0x") {
-      return null;
+    const key = `${chainId}:${contractAddress.toLowerCase()}`;
+    if (!deployedContracts.has(key)) {
+      const code = await retry(() => provider.getCode(contractAddress));
+      if (code === "0x") {
+        return null;
+      }
+      deployedContracts.add(key);
     }
     
     return contract;
@@ -66,15 +57,71 @@ export async function getContractReadOnly() {
   }
 }
 
-export async function getContractWithSigner() {
-  if (!(window as any).ethereum) {
+// The leaderboard is optional per chain; null when none is deployed
+export function getLeaderboardReadOnly(chainId: number): EscapeLeaderboard | null {
+  const network = getNetwork(chainId);
+  const address = getDeployment(chainId)?.leaderboardAddress;
+  if (!network || !address) {
+    return null;
+  }
+  const provider = getRpcManager(network).getProvider();
+  return EscapeLeaderboard__factory.connect(address, provider);
+}
+
+export async function getLeaderboardWithSigner(chainId: number): Promise<EscapeLeaderboard> {
+  const address = getDeployment(chainId)?.leaderboardAddress;
+  if (!address) {
+    throw new Error(`No leaderboard is deployed on chain ${chainId}`);
+  }
+  return EscapeLeaderboard__factory.connect(address, await getSigner());
+}
+
+// Gasless play needs a forwarder on the chain; null when none is deployed
+export function getForwarderReadOnly(chainId: number): PlayerActionForwarder | null {
+  const network = getNetwork(chainId);
+  const address = getDeployment(chainId)?.forwarderAddress;
+  if (!network || !address) {
+    return null;
+  }
+  const provider = getRpcManager(network).getProvider();
+  return PlayerActionForwarder__factory.connect(address, provider);
+}
+
+// Null until the deployment records the game's StatusDecryptions address
+export function getStatusDecryptionsReadOnly(chainId: number): StatusDecryptions | null {
+  const network = getNetwork(chainId);
+  const address = getDeployment(chainId)?.statusDecryptionsAddress;
+  if (!network || !address) {
+    return null;
+  }
+  const provider = getRpcManager(network).getProvider();
+  return StatusDecryptions__factory.connect(address, provider);
+}
+
+export async function getStatusDecryptionsWithSigner(chainId: number): Promise<StatusDecryptions> {
+  const address = getDeployment(chainId)?.statusDecryptionsAddress;
+  if (!address) {
+    throw new Error(`No StatusDecryptions address is configured for chain ${chainId}`);
+  }
+  return StatusDecryptions__factory.connect(address, await getSigner());
+}
+
+export async function getSigner() {
+  if (!window.ethereum) {
     throw new Error("No injected wallet");
   }
+  const provider = new ethers.BrowserProvider(window.ethereum);
+  return provider.getSigner();
+}
+
+export async function getContractWithSigner(chainId: number): Promise<AIEscapeFHE> {
+  const deployment = getDeployment(chainId);
+  if (!deployment) {
+    throw new Error(`AIEscapeFHE is not deployed on chain ${chainId}`);
+  }
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
-    const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
-    return contract;
+    const signer = await getSigner();
+    return connect(deployment.contractAddress, signer);
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
     throw error;
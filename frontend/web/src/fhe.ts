@@ -0,0 +1,159 @@
+// fhe.ts
+import { ethers } from "ethers";
+import { initSDK, createInstance, SepoliaConfig } from "@zama-fhe/relayer-sdk/web";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/web";
+import { getNetwork } from "./networks";
+
+export interface EncryptedValue {
+  handle: string;
+  inputProof: string;
+}
+
+export interface EncryptedPlayerAction {
+  actionType: string;
+  actionTarget: string;
+  inputProof: string;
+}
+
+export type DecryptedValue = bigint | boolean | string;
+
+interface DecryptionPermit {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+}
+
+// Validity window requested for each user-decryption signature
+const PERMIT_DURATION_DAYS = 1;
+
+// EIP-712 verifying contracts of the mock gateway, fixed by @fhevm/hardhat-plugin
+const MOCK_DECRYPTION_ADDRESS = "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64";
+const MOCK_INPUT_VERIFICATION_ADDRESS = "0x812b06e1CDCE800494b79fFE4f925A504a9A9810";
+
+// The part of the relayer SDK's instance the game uses, which the mock's instance implements too
+type FheClient = Pick<FhevmInstance, "createEncryptedInput" | "generateKeypair" | "createEIP712" | "userDecrypt">;
+
+const instances = new Map<number, Promise<FheClient>>();
+const permits = new Map<string, DecryptionPermit>();
+
+const createFhevmInstance = async (chainId: number): Promise<FheClient> => {
+  const network = getNetwork(chainId);
+  switch (network?.fhevm) {
+    case "sepolia":
+      await initSDK();
+      return createInstance({ ...SepoliaConfig, network: window.ethereum });
+    case "mock": {
+      // Imported lazily so the mock library is only fetched when playing on a local node
+      const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+      const provider = new ethers.JsonRpcProvider(network.rpcUrls[0], chainId, { staticNetwork: true });
+      const metadata = await provider.send("fhevm_relayer_metadata", []);
+      return MockFhevmInstance.create(provider, provider, {
+        aclContractAddress: metadata.ACLAddress,
+        chainId,
+        gatewayChainId: metadata.gatewayChainId,
+        inputVerifierContractAddress: metadata.InputVerifierAddress,
+        kmsContractAddress: metadata.KMSVerifierAddress,
+        verifyingContractAddressDecryption: MOCK_DECRYPTION_ADDRESS,
+        verifyingContractAddressInputVerification: MOCK_INPUT_VERIFICATION_ADDRESS
+      });
+    }
+    default:
+      throw new Error(`FHE encryption is not available on chain ${chainId}`);
+  }
+};
+
+// One instance per chain, matching whichever chain the wallet is on
+export async function getFhevmInstance(): Promise<FheClient> {
+  if (!window.ethereum) {
+    throw new Error("No injected wallet");
+  }
+  const chainId = Number(await window.ethereum.request({ method: "eth_chainId" }));
+  let instance = instances.get(chainId);
+  if (!instance) {
+    instance = createFhevmInstance(chainId);
+    instances.set(chainId, instance);
+    // Allow a later call to retry if the SDK failed to load
+    instance.catch(() => instances.delete(chainId));
+  }
+  return instance;
+}
+
+export async function encryptUint32(
+  contractAddress: string,
+  userAddress: string,
+  value: number | bigint
+): Promise<EncryptedValue> {
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  input.add32(value);
+  const { handles, inputProof } = await input.encrypt();
+  return { handle: ethers.hexlify(handles[0]), inputProof: ethers.hexlify(inputProof) };
+}
+
+// userAddress is the player, also when a relayer submits the action for them
+export async function encryptPlayerAction(
+  contractAddress: string,
+  userAddress: string,
+  actionType: number,
+  actionTarget: number
+): Promise<EncryptedPlayerAction> {
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  input.add32(actionType);
+  input.add32(actionTarget);
+  const { handles, inputProof } = await input.encrypt();
+  return {
+    actionType: ethers.hexlify(handles[0]),
+    actionTarget: ethers.hexlify(handles[1]),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+// The keypair and its EIP-712 authorization are reused until they expire so
+// the wallet is only asked to sign once per contract and session.
+const getDecryptionPermit = async (
+  instance: FheClient,
+  contractAddress: string,
+  signer: ethers.Signer
+): Promise<DecryptionPermit> => {
+  const userAddress = await signer.getAddress();
+  const chainId = (await signer.provider?.getNetwork())?.chainId;
+  const key = `${chainId}:${userAddress.toLowerCase()}:${contractAddress.toLowerCase()}`;
+  const now = Math.floor(Date.now() / 1000);
+  const cached = permits.get(key);
+  if (cached && cached.startTimestamp + cached.durationDays * 86400 > now + 60) {
+    return cached;
+  }
+
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const eip712 = instance.createEIP712(publicKey, [contractAddress], now, PERMIT_DURATION_DAYS);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+  const permit = { publicKey, privateKey, signature, startTimestamp: now, durationDays: PERMIT_DURATION_DAYS };
+  permits.set(key, permit);
+  return permit;
+};
+
+export async function userDecrypt(
+  handles: string[],
+  contractAddress: string,
+  signer: ethers.Signer
+): Promise<Record<string, DecryptedValue>> {
+  const instance = await getFhevmInstance();
+  const permit = await getDecryptionPermit(instance, contractAddress, signer);
+  return instance.userDecrypt(
+    handles.map(handle => ({ handle, contractAddress })),
+    permit.privateKey,
+    permit.publicKey,
+    permit.signature.replace("0x", ""),
+    [contractAddress],
+    await signer.getAddress(),
+    permit.startTimestamp,
+    permit.durationDays
+  );
+}
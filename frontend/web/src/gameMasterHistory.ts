@@ -0,0 +1,40 @@
+// gameMasterHistory.ts
+// Conversations with the game master, persisted per puzzle in localStorage.
+import { GAME_MASTER_GREETING, GameMasterMessage, GameMasterProvider, PuzzleContext } from "./gameMaster";
+
+// Number of messages kept per conversation and sent back to the provider
+const MAX_HISTORY = 40;
+
+const historyKey = (puzzleId: string | null) => `gameMaster:history:${puzzleId ?? "general"}`;
+
+export const loadHistory = (puzzleId: string | null): GameMasterMessage[] => {
+  try {
+    const raw = localStorage.getItem(historyKey(puzzleId));
+    if (raw) return JSON.parse(raw);
+  } catch (e) {
+    console.warn("Failed to read game master history:", e);
+  }
+  return [{ role: "ai", content: GAME_MASTER_GREETING }];
+};
+
+export const saveHistory = (puzzleId: string | null, history: GameMasterMessage[]) => {
+  try {
+    localStorage.setItem(historyKey(puzzleId), JSON.stringify(history.slice(-MAX_HISTORY)));
+  } catch (e) {
+    console.warn("Failed to persist game master history:", e);
+  }
+};
+
+// Sends a message and returns the updated, persisted conversation
+export const askGameMaster = async (
+  provider: GameMasterProvider,
+  message: string,
+  puzzle: PuzzleContext | null,
+  hintTier: number | null = null
+): Promise<GameMasterMessage[]> => {
+  const history = loadHistory(puzzle?.id ?? null);
+  const { reply } = await provider.respond({ message, puzzle, hintTier, history: history.slice(-MAX_HISTORY) });
+  const updated: GameMasterMessage[] = [...history, { role: "user", content: message }, { role: "ai", content: reply }];
+  saveHistory(puzzle?.id ?? null, updated);
+  return updated;
+};
@@ -0,0 +1,34 @@
+// hints.ts
+// Hint text indexed by the tier (0-3) the contract computes from the player's
+// encrypted behavior. Tier 0 means no hint has been earned yet.
+export type HintTiers = [string, string, string, string];
+
+// Hints written by puzzle authors, keyed by on-chain puzzle id
+export const PUZZLE_HINTS: Record<string, HintTiers> = {};
+
+// Fallback hints for puzzles without authored text, keyed by difficulty
+export const DEFAULT_HINTS: Record<number, HintTiers> = {
+  1: [
+    "Keep exploring the room. I will have more for you once you have made a few attempts.",
+    "Look closely at the objects you can examine. The number is hidden in plain sight.",
+    "Count what you find in the room. The answer is a small whole number.",
+    "Combine every number you have discovered. The answer is their sum."
+  ],
+  2: [
+    "Keep exploring the room. I will have more for you once you have made a few attempts.",
+    "Not every clue is a number. Some objects tell you how to combine the others.",
+    "The items you carry matter. Try using them on what you have examined.",
+    "The answer follows a sequence. Find the pattern in the clues you have collected."
+  ],
+  3: [
+    "Keep exploring the room. I will have more for you once you have made a few attempts.",
+    "This lock rewards patience. Re-examine the objects you dismissed earlier.",
+    "The clues in this room point to another room. Its solved locks hold part of the answer.",
+    "Order matters. Apply the clues in the order the rooms were unlocked."
+  ]
+};
+
+export const hintForTier = (puzzleId: string, difficulty: number, tier: number): string => {
+  const hints = PUZZLE_HINTS[puzzleId] || DEFAULT_HINTS[difficulty] || DEFAULT_HINTS[1];
+  return hints[Math.min(Math.max(tier, 0), 3)];
+};
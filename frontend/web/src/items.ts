@@ -0,0 +1,20 @@
+// items.ts
+export interface Item {
+  target: number;
+  name: string;
+}
+
+// Action targets that can be picked up. The contract stores each item at
+// inventory bit `target % 64`, so targets must not collide modulo 64.
+export const ITEMS: Item[] = [
+  { target: 101, name: "Blue key" },
+  { target: 102, name: "Red key" },
+  { target: 110, name: "Flashlight" },
+  { target: 120, name: "Crowbar" },
+  { target: 205, name: "Strange painting" }
+];
+
+export const itemMask = (target: number): bigint => 1n << BigInt(target % 64);
+
+export const itemsInInventory = (inventory: bigint): Item[] =>
+  ITEMS.filter(item => (inventory & itemMask(item.target)) !== 0n);
@@ -0,0 +1,87 @@
+// leaderboard.ts
+// Reads the per-room boards of EscapeLeaderboard. Scores stay encrypted unless
+// their player opted in to a reveal, so only revealed entries can be ordered;
+// hidden ones are listed after them without a position.
+import { EscapeLeaderboard } from "./contract";
+
+export interface LeaderboardEntry {
+  id: string;
+  player: string;
+  sessionId: string;
+  roomId: string;
+  finishedAt: number;
+  playSeconds: number;
+  revealRequested: boolean;
+  // null until the oracle has publicly decrypted the score
+  score: number | null;
+}
+
+export interface RankedEntry extends LeaderboardEntry {
+  position: number | null;
+}
+
+export interface EntryRank {
+  beaten: number;
+  rankedThrough: number;
+  boardSize: number;
+  // Other players' runs posted since the count was published, and how many a new rank pass needs
+  newRivals: number;
+  minNewRivals: number;
+  // Entries the running pass has compared out of its snapshot; passEnd is 0 when no pass runs
+  passNext: number;
+  passEnd: number;
+}
+
+export type LeaderboardPeriod = "day" | "week" | "month" | "all";
+
+export const PERIODS: { id: LeaderboardPeriod; label: string; seconds: number | null }[] = [
+  { id: "day", label: "Last 24 hours", seconds: 24 * 60 * 60 },
+  { id: "week", label: "Last 7 days", seconds: 7 * 24 * 60 * 60 },
+  { id: "month", label: "Last 30 days", seconds: 30 * 24 * 60 * 60 },
+  { id: "all", label: "All time", seconds: null }
+];
+
+// "all" selects every room; free play is room "0"
+export type RoomFilter = string | "all";
+
+export async function loadLeaderboard(board: EscapeLeaderboard): Promise<LeaderboardEntry[]> {
+  const count = Number(await board.entryCount());
+  const ids = Array.from({ length: count }, (_, i) => i + 1);
+  return Promise.all(ids.map(async id => {
+    const [player, sessionId, roomId, finishedAt, playSeconds, revealRequested, revealed, revealedScore] =
+      await board.getEntry(id);
+    return {
+      id: id.toString(),
+      player,
+      sessionId: sessionId.toString(),
+      roomId: roomId.toString(),
+      finishedAt: Number(finishedAt),
+      playSeconds: Number(playSeconds),
+      revealRequested,
+      score: revealed ? Number(revealedScore) : null
+    };
+  }));
+}
+
+// Higher scores first, faster runs break ties
+export function rankEntries(
+  entries: LeaderboardEntry[],
+  room: RoomFilter,
+  period: LeaderboardPeriod,
+  now = Date.now() / 1000
+): RankedEntry[] {
+  const window = PERIODS.find(p => p.id === period)?.seconds ?? null;
+  const visible = entries.filter(e =>
+    (room === "all" || e.roomId === room) && (window === null || now - e.finishedAt <= window)
+  );
+  const revealed = visible
+    .filter(e => e.score !== null)
+    .sort((a, b) => b.score! - a.score! || a.playSeconds - b.playSeconds);
+  const hidden = visible
+    .filter(e => e.score === null)
+    .sort((a, b) => b.finishedAt - a.finishedAt);
+  return [
+    ...revealed.map((e, i) => ({ ...e, position: i + 1 })),
+    ...hidden.map(e => ({ ...e, position: null }))
+  ];
+}
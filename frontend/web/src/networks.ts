@@ -0,0 +1,104 @@
+// networks.ts
+// Chains the app knows about. Static chain data lives here; the contract
+// deployed on each chain is read from config.json, which `npx hardhat deploy`
+// fills in per chain id.
+import type { Eip1193Provider } from "ethers";
+import { hardhat, mainnet, sepolia } from "wagmi/chains";
+import type { Chain } from "wagmi/chains";
+import configJson from "./config.json";
+
+// How encrypted inputs and user decryptions are served on a chain:
+// "mock" talks to the Hardhat node's mock coprocessor, "sepolia" to Zama's testnet relayer
+export type FhevmBackend = "mock" | "sepolia";
+
+export interface Deployment {
+  contractAddress: string;
+  // Empty when the chain has no leaderboard
+  leaderboardAddress?: string;
+  // PlayerActionForwarder for gasless actions; empty when the chain has none
+  forwarderAddress?: string;
+  // StatusDecryptions, deployed by the game itself
+  statusDecryptionsAddress?: string;
+  deployBlock: number;
+  deployer?: string;
+}
+
+export interface NetworkInfo {
+  chainId: number;
+  name: string;
+  chain: Chain;
+  rpcUrls: string[];
+  explorerUrl: string | null;
+  // null until Zama's coprocessor is available on the chain
+  fhevm: FhevmBackend | null;
+  deployment: Deployment | null;
+}
+
+export const DEFAULT_CHAIN_ID = sepolia.id;
+
+const deployments: Record<string, Deployment | undefined> = configJson.deployments;
+
+const network = (
+  chain: Chain,
+  rpcUrls: string[],
+  fhevm: FhevmBackend | null
+): NetworkInfo => {
+  const deployment = deployments[chain.id];
+  return {
+    chainId: chain.id,
+    name: chain.name,
+    chain,
+    rpcUrls,
+    explorerUrl: chain.blockExplorers?.default.url ?? null,
+    fhevm,
+    deployment: deployment?.contractAddress ? deployment : null
+  };
+};
+
+// Public endpoints only; keyed RPC URLs must not be shipped in the bundle
+export const NETWORKS: NetworkInfo[] = [
+  network(hardhat, ["http://127.0.0.1:8545"], "mock"),
+  network(sepolia, [
+    "https://sepolia.drpc.org",
+    "https://ethereum-sepolia-rpc.publicnode.com",
+    "https://rpc.sepolia.org",
+    "https://eth-sepolia.public.blastapi.io"
+  ], "sepolia"),
+  network(mainnet, ["https://eth.drpc.org", "https://ethereum-rpc.publicnode.com"], null)
+];
+
+export const getNetwork = (chainId: number | undefined): NetworkInfo | null =>
+  NETWORKS.find(n => n.chainId === chainId) ?? null;
+
+// A chain is playable when the FHEVM runs on it and the game is deployed there
+export const isSupported = (n: NetworkInfo | null): boolean =>
+  !!n && n.fhevm !== null && n.deployment !== null;
+
+export const supportedNetworks = () => NETWORKS.filter(isSupported);
+
+// Chains offered by the wallet modal: every chain the FHEVM runs on, so the
+// player can move to a deployment even when it is not configured yet
+export const walletChains = NETWORKS.filter(n => n.fhevm !== null).map(n => n.chain) as [Chain, ...Chain[]];
+
+// Asks an EIP-1193 wallet to switch chains, adding the chain first if the wallet does not know it
+export const switchNetwork = async (provider: Eip1193Provider, chainId: number) => {
+  const target = getNetwork(chainId);
+  if (!target) throw new Error(`Unknown chain ${chainId}`);
+  const hexChainId = "0x" + chainId.toString(16);
+  try {
+    await provider.request({ method: "wallet_switchEthereumChain", params: [{ chainId: hexChainId }] });
+  } catch (e: unknown) {
+    // 4902: the wallet does not know the chain
+    if (!(typeof e === "object" && e !== null && "code" in e && e.code === 4902)) throw e;
+    await provider.request({
+      method: "wallet_addEthereumChain",
+      params: [{
+        chainId: hexChainId,
+        chainName: target.name,
+        nativeCurrency: target.chain.nativeCurrency,
+        rpcUrls: target.rpcUrls,
+        blockExplorerUrls: target.explorerUrl ? [target.explorerUrl] : undefined
+      }]
+    });
+  }
+};
@@ -0,0 +1,130 @@
+// puzzleIndex.ts
+// Rebuilds the puzzle catalog from PuzzleCreated events. Puzzle metadata never
+// changes after creation, so indexed entries are cached in IndexedDB and only
+// blocks after the last synced one are scanned on the next load.
+import { getDeployment, AIEscapeFHE } from "./contract";
+
+export interface PuzzleRecord {
+  id: string;
+  creator: string;
+  difficulty: number;
+  createdAt: number;
+  solution: string;
+  requiredItems: string;
+  blockNumber: number;
+}
+
+interface CatalogCursor {
+  catalog: string;
+  lastBlock: number;
+}
+
+const DB_NAME = "ai-escape-fhe";
+const DB_VERSION = 1;
+const PUZZLE_STORE = "puzzles";
+const CURSOR_STORE = "cursors";
+
+// Most public RPCs reject eth_getLogs spanning more blocks than this
+const MAX_BLOCK_RANGE = 5000;
+// Blocks re-scanned on every sync so puzzles from reorged blocks are dropped or picked up again
+const REORG_DEPTH = 12;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const requestResult = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === "undefined") return resolve(null);
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        const puzzles = db.createObjectStore(PUZZLE_STORE, { keyPath: "key" });
+        puzzles.createIndex("catalog", "catalog");
+        db.createObjectStore(CURSOR_STORE, { keyPath: "catalog" });
+      };
+      req.onsuccess = () => resolve(req.result);
+      // Private browsing can refuse IndexedDB; fall back to scanning from scratch
+      req.onerror = () => {
+        console.warn("IndexedDB unavailable, puzzle catalog will not be cached:", req.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const readCatalog = async (db: IDBDatabase, catalog: string) => {
+  const tx = db.transaction([PUZZLE_STORE, CURSOR_STORE], "readonly");
+  const [rows, cursor] = await Promise.all([
+    requestResult(tx.objectStore(PUZZLE_STORE).index("catalog").getAll(catalog)),
+    requestResult(tx.objectStore(CURSOR_STORE).get(catalog))
+  ]);
+  return {
+    puzzles: rows.map(({ key: _key, catalog: _catalog, ...puzzle }) => puzzle as PuzzleRecord),
+    cursor: cursor as CatalogCursor | undefined
+  };
+};
+
+// Replaces the entries from rescanned blocks, so puzzles that were reorged out are dropped
+const writeCatalog = (
+  db: IDBDatabase, catalog: string, stale: PuzzleRecord[], puzzles: PuzzleRecord[], lastBlock: number
+) =>
+  new Promise<void>((resolve, reject) => {
+    const tx = db.transaction([PUZZLE_STORE, CURSOR_STORE], "readwrite");
+    const store = tx.objectStore(PUZZLE_STORE);
+    for (const puzzle of stale) store.delete(`${catalog}:${puzzle.id}`);
+    for (const puzzle of puzzles) store.put({ ...puzzle, key: `${catalog}:${puzzle.id}`, catalog });
+    tx.objectStore(CURSOR_STORE).put({ catalog, lastBlock } as CatalogCursor);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+
+// Scans [fromBlock, toBlock] in MAX_BLOCK_RANGE pages; the events carry every puzzle field
+export const scanPuzzles = async (contract: AIEscapeFHE, fromBlock: number, toBlock: number): Promise<PuzzleRecord[]> => {
+  const found: PuzzleRecord[] = [];
+  for (let start = fromBlock; start <= toBlock; start += MAX_BLOCK_RANGE) {
+    const end = Math.min(start + MAX_BLOCK_RANGE - 1, toBlock);
+    const events = await contract.queryFilter(contract.filters.PuzzleCreated(), start, end);
+    found.push(...events.map(e => ({
+      id: e.args.puzzleId.toString(),
+      creator: e.args.creator,
+      difficulty: Number(e.args.difficulty),
+      createdAt: Number(e.args.createdAt),
+      solution: e.args.solution,
+      requiredItems: e.args.requiredItems.toString(),
+      blockNumber: e.blockNumber
+    })));
+  }
+  return found;
+};
+
+// Returns every puzzle created on the configured contract, oldest first
+export const syncPuzzleCatalog = async (contract: AIEscapeFHE): Promise<PuzzleRecord[]> => {
+  const provider = contract.runner?.provider;
+  if (!provider) throw new Error("Contract has no provider");
+  const { chainId } = await provider.getNetwork();
+  const catalog = `${chainId}:${(await contract.getAddress()).toLowerCase()}`;
+  const latest = await provider.getBlockNumber();
+  const deployBlock = getDeployment(Number(chainId))?.deployBlock ?? 0;
+
+  const db = await openDb();
+  const cached = db ? await readCatalog(db, catalog) : { puzzles: [], cursor: undefined };
+  const fromBlock = cached.cursor
+    ? Math.max(cached.cursor.lastBlock - REORG_DEPTH + 1, deployBlock)
+    : deployBlock;
+
+  const fresh = fromBlock <= latest ? await scanPuzzles(contract, fromBlock, latest) : [];
+  const kept = cached.puzzles.filter(p => p.blockNumber < fromBlock);
+  const stale = cached.puzzles.filter(p => p.blockNumber >= fromBlock);
+  if (db) await writeCatalog(db, catalog, stale, fresh, latest);
+
+  const byId = new Map(kept.map(p => [p.id, p]));
+  for (const puzzle of fresh) byId.set(puzzle.id, puzzle);
+  return [...byId.values()].sort((a, b) => Number(a.id) - Number(b.id));
+};
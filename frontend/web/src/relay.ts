@@ -0,0 +1,136 @@
+// relay.ts
+// Gasless actions. The player signs an EIP-712 PlayerAction over the encrypted
+// action, or a StatusRequest for a status decryption, and a game-master relayer
+// submits it through PlayerActionForwarder, paying the gas. The typed data
+// mirrors PlayerActionForwarder.hashPlayerAction and hashStatusRequest.
+import { ethers } from "ethers";
+import { PlayerActionForwarder } from "./contract";
+import { EncryptedPlayerAction } from "./fhe";
+
+export const PLAYER_ACTION_DOMAIN = { name: "AIEscapeFHE", version: "1" };
+
+export const PLAYER_ACTION_TYPES = {
+  PlayerAction: [
+    { name: "player", type: "address" },
+    { name: "actionType", type: "bytes32" },
+    { name: "actionTarget", type: "bytes32" },
+    { name: "inputProofHash", type: "bytes32" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" }
+  ]
+};
+
+export const STATUS_REQUEST_TYPES = {
+  StatusRequest: [
+    { name: "player", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" }
+  ]
+};
+
+// How long the relayer has to submit a signed action
+const ACTION_TTL_SECONDS = 10 * 60;
+const HTTP_TIMEOUT_MS = 15000;
+
+export interface SignedPlayerAction {
+  action: {
+    player: string;
+    actionType: string;
+    actionTarget: string;
+    // Decimal strings so the action survives JSON
+    nonce: string;
+    deadline: string;
+  };
+  inputProof: string;
+  signature: string;
+}
+
+export interface SignedStatusRequest {
+  request: {
+    player: string;
+    nonce: string;
+    deadline: string;
+  };
+  signature: string;
+}
+
+const signingDomain = async (forwarder: PlayerActionForwarder, signer: ethers.Signer) => {
+  if (!signer.provider) throw new Error("The wallet signer is not connected to a network");
+  const [network, verifyingContract] = await Promise.all([signer.provider.getNetwork(), forwarder.getAddress()]);
+  return { ...PLAYER_ACTION_DOMAIN, chainId: network.chainId, verifyingContract };
+};
+
+const deadline = () => (Math.floor(Date.now() / 1000) + ACTION_TTL_SECONDS).toString();
+
+// The action must have been encrypted with the player as the user address
+export async function signPlayerAction(
+  forwarder: PlayerActionForwarder,
+  signer: ethers.Signer,
+  encrypted: EncryptedPlayerAction
+): Promise<SignedPlayerAction> {
+  const player = await signer.getAddress();
+  const [nonce, domain] = await Promise.all([forwarder.nonces(player), signingDomain(forwarder, signer)]);
+  const action = {
+    player,
+    actionType: encrypted.actionType,
+    actionTarget: encrypted.actionTarget,
+    nonce: nonce.toString(),
+    deadline: deadline()
+  };
+  const signature = await signer.signTypedData(
+    domain,
+    PLAYER_ACTION_TYPES,
+    { ...action, inputProofHash: ethers.keccak256(encrypted.inputProof) }
+  );
+  return { action, inputProof: encrypted.inputProof, signature };
+}
+
+// Status requests share the forwarder nonce with actions
+export async function signStatusRequest(
+  forwarder: PlayerActionForwarder,
+  signer: ethers.Signer
+): Promise<SignedStatusRequest> {
+  const player = await signer.getAddress();
+  const [nonce, domain] = await Promise.all([forwarder.nonces(player), signingDomain(forwarder, signer)]);
+  const request = { player, nonce: nonce.toString(), deadline: deadline() };
+  const signature = await signer.signTypedData(domain, STATUS_REQUEST_TYPES, request);
+  return { request, signature };
+}
+
+export const relayPlayerAction = (relayerUrl: string, provider: ethers.Provider, signed: SignedPlayerAction) =>
+  relay(relayerUrl, "/actions", provider, signed);
+
+export const relayStatusRequest = (relayerUrl: string, provider: ethers.Provider, signed: SignedStatusRequest) =>
+  relay(relayerUrl, "/status", provider, signed);
+
+// Posts the signed message to the relayer service (src/relayer), which replies
+// with { txHash } of its relay transaction once it is sent, and waits for that
+// transaction on the given provider
+async function relay(
+  relayerUrl: string,
+  path: string,
+  provider: ethers.Provider,
+  signed: SignedPlayerAction | SignedStatusRequest
+): Promise<ethers.TransactionReceipt> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), HTTP_TIMEOUT_MS);
+  let txHash: string;
+  try {
+    const res = await fetch(`${relayerUrl.replace(/\/$/, "")}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(signed),
+      signal: controller.signal
+    });
+    const body = await res.json().catch(() => null);
+    if (!res.ok) throw new Error(body?.error ?? `Relayer returned ${res.status}`);
+    if (typeof body?.txHash !== "string") throw new Error("Relayer returned no transaction hash");
+    txHash = body.txHash;
+  } finally {
+    clearTimeout(timer);
+  }
+
+  const receipt = await provider.waitForTransaction(txHash);
+  if (!receipt || receipt.status !== 1) throw new Error(`Relayed transaction ${txHash} failed`);
+  return receipt;
+}
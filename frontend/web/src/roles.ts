@@ -0,0 +1,53 @@
+// roles.ts
+// Mirrors the roles of EscapeRoles. Role ids are the keccak256 of their names,
+// so they are computed here instead of being read from the contract.
+import { ethers } from "ethers";
+import { AIEscapeFHE } from "./contract";
+
+export interface RoleInfo {
+  name: string;
+  id: string;
+  label: string;
+  description: string;
+}
+
+const role = (name: string, label: string, description: string): RoleInfo => ({
+  name,
+  id: ethers.id(name),
+  label,
+  description
+});
+
+export const ADMIN_ROLE = role("ADMIN_ROLE", "Admin", "Grants and revokes every role except admin, which only the owner manages");
+
+export const ROLES: RoleInfo[] = [
+  ADMIN_ROLE,
+  role("GAME_MASTER_ROLE", "Game master", "Designs rooms and relays signed player actions"),
+  role("PUZZLE_AUTHOR_ROLE", "Puzzle author", "Creates encrypted puzzles"),
+  role("PAUSER_ROLE", "Pauser", "Pauses and unpauses the game"),
+  role("ORACLE_ROLE", "Oracle", "Delivers decryption results to the callbacks")
+];
+
+export interface RoleState {
+  owner: string;
+  // Zero address when no transfer is pending
+  pendingOwner: string;
+  // Members by role id
+  members: Record<string, string[]>;
+}
+
+export async function loadRoles(contract: AIEscapeFHE): Promise<RoleState> {
+  const [owner, pendingOwner, members] = await Promise.all([
+    contract.owner(),
+    contract.pendingOwner(),
+    Promise.all(ROLES.map(r => contract.getRoleMembers(r.id)))
+  ]);
+  return {
+    owner,
+    pendingOwner,
+    members: Object.fromEntries(ROLES.map((r, i) => [r.id, [...members[i]]]))
+  };
+}
+
+export const holdsRole = (state: RoleState | null, roleId: string, account: string | undefined) =>
+  !!state && !!account && (state.members[roleId] ?? []).some(m => m.toLowerCase() === account.toLowerCase());
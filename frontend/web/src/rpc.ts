@@ -0,0 +1,249 @@
+// rpc.ts
+// Shared read providers. Each chain gets one manager that meters every RPC
+// endpoint from the registry, benches failing ones with exponential backoff and
+// serves reads through an ethers FallbackProvider over the healthy rest.
+import { ethers } from "ethers";
+import type { JsonRpcError, JsonRpcPayload, JsonRpcResult } from "ethers";
+import { NetworkInfo } from "./networks";
+
+export interface EndpointStatus {
+  url: string;
+  healthy: boolean;
+  // Exponentially weighted moving averages over recent requests
+  latencyMs: number | null;
+  errorRate: number;
+  consecutiveFailures: number;
+  backoffUntil: number;
+  lastError: string | null;
+}
+
+export interface RpcStatus {
+  chainId: number;
+  endpoints: EndpointStatus[];
+  healthyCount: number;
+}
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+// Weight of the newest sample in the latency and error-rate averages
+const EWMA_ALPHA = 0.3;
+const BACKOFF_BASE_MS = 2000;
+const BACKOFF_MAX_MS = 120000;
+// An endpoint slower than this is still used, but only after faster ones stall
+const MIN_STALL_TIMEOUT_MS = 400;
+const PROBE_TIMEOUT_MS = 5000;
+// A replaced FallbackProvider is destroyed once the reads already sent through it had time to settle
+const RETIRED_PROVIDER_GRACE_MS = 30000;
+
+// Errors that describe the request rather than the endpoint are never retried
+const NON_RETRYABLE = ["CALL_EXCEPTION", "ACTION_REJECTED", "INVALID_ARGUMENT", "BAD_DATA"] as const;
+
+const isAbortError = (e: unknown) => e instanceof DOMException && e.name === "AbortError";
+
+const isRetryable = (e: unknown) =>
+  !isAbortError(e) && !NON_RETRYABLE.some(code => ethers.isError(e, code));
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason ?? new DOMException("Aborted", "AbortError"));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason ?? new DOMException("Aborted", "AbortError"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Exponential backoff with full jitter, so clients that failed together do not retry together
+const backoffDelay = (attempt: number, baseMs: number, maxMs: number) =>
+  Math.random() * Math.min(maxMs, baseMs * 2 ** attempt);
+
+export const retry = async <T>(fn: (signal?: AbortSignal) => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { retries = 3, baseDelayMs = 500, maxDelayMs = 8000, signal, shouldRetry = isRetryable } = options;
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await fn(signal);
+    } catch (e) {
+      if (attempt >= retries || signal?.aborted || !shouldRetry(e)) throw e;
+      await sleep(backoffDelay(attempt, baseDelayMs, maxDelayMs), signal);
+    }
+  }
+};
+
+const describe = (e: unknown) => (e instanceof Error ? e.message : String(e)).slice(0, 200);
+
+// Rate limiting is reported as a JSON-RPC error, but it says as much about the endpoint as a dropped connection
+const isRateLimited = (result: JsonRpcResult | JsonRpcError): result is JsonRpcError =>
+  "error" in result && (result.error.code === -32005 || /rate limit|too many requests/i.test(result.error.message ?? ""));
+
+class Endpoint {
+  readonly provider: MeteredProvider;
+  latencyMs: number | null = null;
+  errorRate = 0;
+  consecutiveFailures = 0;
+  backoffUntil = 0;
+  lastError: string | null = null;
+
+  constructor(readonly url: string, private readonly chainId: number, private readonly onChange: () => void) {
+    this.provider = this.createProvider();
+  }
+
+  // FallbackProvider.destroy() destroys its providers, so each fallback gets its own
+  createProvider() {
+    return new MeteredProvider(this.url, this.chainId, this);
+  }
+
+  get available() {
+    return Date.now() >= this.backoffUntil;
+  }
+
+  recordSuccess(latencyMs: number) {
+    this.latencyMs = this.latencyMs === null ? latencyMs : this.latencyMs + EWMA_ALPHA * (latencyMs - this.latencyMs);
+    this.errorRate *= 1 - EWMA_ALPHA;
+    this.consecutiveFailures = 0;
+    this.backoffUntil = 0;
+    this.onChange();
+  }
+
+  recordFailure(error: unknown) {
+    this.errorRate += EWMA_ALPHA * (1 - this.errorRate);
+    this.consecutiveFailures++;
+    this.backoffUntil = Date.now() + backoffDelay(this.consecutiveFailures, BACKOFF_BASE_MS, BACKOFF_MAX_MS) + BACKOFF_BASE_MS;
+    this.lastError = describe(error);
+    this.onChange();
+  }
+
+  // Lower is better: slow endpoints and flaky ones are tried last
+  get score() {
+    return (this.latencyMs ?? 1000) * (1 + 4 * this.errorRate);
+  }
+
+  status(): EndpointStatus {
+    return {
+      url: this.url,
+      healthy: this.available && this.errorRate < 0.5,
+      latencyMs: this.latencyMs === null ? null : Math.round(this.latencyMs),
+      errorRate: this.errorRate,
+      consecutiveFailures: this.consecutiveFailures,
+      backoffUntil: this.backoffUntil,
+      lastError: this.lastError
+    };
+  }
+}
+
+// JsonRpcProvider that reports the outcome and latency of every request to its endpoint
+class MeteredProvider extends ethers.JsonRpcProvider {
+  constructor(url: string, chainId: number, private readonly endpoint: Endpoint) {
+    super(url, chainId, { staticNetwork: true });
+  }
+
+  async _send(payload: JsonRpcPayload | Array<JsonRpcPayload>): Promise<Array<JsonRpcResult>> {
+    const started = performance.now();
+    try {
+      const results = await super._send(payload);
+      // Typed as results, but failed requests come back as JSON-RPC errors in the same array
+      const limited = (results as Array<JsonRpcResult | JsonRpcError>).find(isRateLimited);
+      if (limited) this.endpoint.recordFailure(new Error(limited.error.message ?? "Rate limited"));
+      else this.endpoint.recordSuccess(performance.now() - started);
+      return results;
+    } catch (e) {
+      this.endpoint.recordFailure(e);
+      throw e;
+    }
+  }
+}
+
+export class RpcManager {
+  private readonly endpoints: Endpoint[];
+  private readonly listeners = new Set<() => void>();
+  private fallback: { key: string; provider: ethers.FallbackProvider } | null = null;
+  private snapshot: RpcStatus;
+
+  constructor(readonly network: NetworkInfo) {
+    this.endpoints = network.rpcUrls.map(url => new Endpoint(url, network.chainId, () => this.changed()));
+    this.snapshot = this.buildStatus();
+  }
+
+  // Endpoints in backoff are left out; if every endpoint is benched, the one that recovers first is used.
+  // The fallback is only rebuilt when the set of usable endpoints changes; its priorities and stall
+  // timeouts are those measured when it was built, and reordering alone does not replace it.
+  getProvider(): ethers.AbstractProvider {
+    const ranked = this.endpoints.filter(e => e.available).sort((a, b) => a.score - b.score);
+    const active = ranked.length > 0
+      ? ranked
+      : [[...this.endpoints].sort((a, b) => a.backoffUntil - b.backoffUntil)[0]];
+    if (active.length === 1) return active[0].provider;
+
+    const key = active.map(e => e.url).sort().join(" ");
+    if (this.fallback?.key !== key) {
+      const configs = active.map((e, i) => ({
+        provider: e.createProvider(),
+        priority: i + 1,
+        weight: 1,
+        stallTimeout: Math.max(MIN_STALL_TIMEOUT_MS, Math.round(2 * (e.latencyMs ?? 750)))
+      }));
+      const retired = this.fallback?.provider;
+      if (retired) setTimeout(() => retired.destroy(), RETIRED_PROVIDER_GRACE_MS);
+      // Public RPCs lag each other by a block or two, so a single answer is accepted
+      this.fallback = { key, provider: new ethers.FallbackProvider(configs, this.network.chainId, { quorum: 1 }) };
+    }
+    return this.fallback.provider;
+  }
+
+  // Measures every endpoint at once, e.g. on start-up or when the player asks for a refresh
+  async probe(): Promise<RpcStatus> {
+    await Promise.all(this.endpoints.map(async e => {
+      try {
+        await Promise.race([
+          e.provider.getBlockNumber(),
+          sleep(PROBE_TIMEOUT_MS).then(() => { throw new Error("RPC timeout"); })
+        ]);
+      } catch (error) {
+        // A timeout never reached _send's error path, so record it here
+        if (e.available) e.recordFailure(error);
+      }
+    }));
+    return this.status();
+  }
+
+  status(): RpcStatus {
+    return this.snapshot;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private buildStatus(): RpcStatus {
+    const endpoints = this.endpoints.map(e => e.status());
+    return { chainId: this.network.chainId, endpoints, healthyCount: endpoints.filter(e => e.healthy).length };
+  }
+
+  private changed() {
+    this.snapshot = this.buildStatus();
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+const managers = new Map<number, RpcManager>();
+
+export const getRpcManager = (network: NetworkInfo): RpcManager => {
+  let manager = managers.get(network.chainId);
+  if (!manager) {
+    manager = new RpcManager(network);
+    managers.set(network.chainId, manager);
+    manager.probe();
+  }
+  return manager;
+};
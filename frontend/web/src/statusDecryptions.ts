@@ -0,0 +1,90 @@
+// statusDecryptions.ts
+// Reads a player's game status decryptions from StatusDecryptions. Requests
+// still waiting on the oracle come from the contract's pending list; recent
+// finished ones are found through their DecryptionRequested events. A
+// delivered result is masked, and only its player can decrypt the pads.
+import { ethers } from "ethers";
+import { StatusDecryptions } from "./contract";
+
+// Mirrors StatusDecryptions.Status
+export type DecryptionStatus = "none" | "pending" | "expired" | "completed" | "cancelled";
+export const DECRYPTION_STATUSES: DecryptionStatus[] = ["none", "pending", "expired", "completed", "cancelled"];
+
+export interface MaskedStatus {
+  progress: bigint;
+  puzzleState1: bigint;
+  puzzleState2: bigint;
+  hintEligibility: boolean;
+  // The player acted after the request, so the result no longer matches the live state
+  stale: boolean;
+}
+
+export interface StatusDecryption {
+  id: string;
+  sessionId: string;
+  requestedAt: number;
+  status: DecryptionStatus;
+  // null until the oracle delivers
+  result: MaskedStatus | null;
+}
+
+export interface DecryptedStatus {
+  progress: number;
+  puzzleState1: number;
+  puzzleState2: number;
+  hintEligible: boolean;
+}
+
+// Most public RPCs reject eth_getLogs spanning more blocks than this, which
+// also bounds how far back finished requests are listed
+const RECENT_BLOCKS = 5000;
+
+export async function loadStatusDecryptions(
+  contract: StatusDecryptions,
+  provider: ethers.Provider,
+  player: string
+): Promise<StatusDecryption[]> {
+  const latest = await provider.getBlockNumber();
+  const fromBlock = Math.max(latest - RECENT_BLOCKS + 1, 0);
+  const [pending, requested, completed] = await Promise.all([
+    contract.getPendingRequests(player),
+    contract.queryFilter(contract.filters.DecryptionRequested(undefined, player), fromBlock, latest),
+    contract.queryFilter(contract.filters.DecryptionCompleted(undefined, player), fromBlock, latest)
+  ]);
+
+  const results = new Map<string, MaskedStatus>(completed.map(e => [e.args.requestId.toString(), {
+    progress: e.args.maskedProgress,
+    puzzleState1: e.args.maskedPuzzleState1,
+    puzzleState2: e.args.maskedPuzzleState2,
+    hintEligibility: e.args.maskedHintEligibility,
+    stale: e.args.stale
+  }]));
+  const ids = new Set([...pending.map(id => id.toString()), ...requested.map(e => e.args.requestId.toString())]);
+
+  const list = await Promise.all([...ids].map(async id => {
+    const [ctx, status] = await Promise.all([contract.decryptionContexts(id), contract.statusOf(id)]);
+    return {
+      id,
+      sessionId: ctx.sessionId.toString(),
+      requestedAt: Number(ctx.requestedAt),
+      status: DECRYPTION_STATUSES[Number(status)],
+      result: results.get(id) ?? null
+    };
+  }));
+  return list.sort((a, b) => b.requestedAt - a.requestedAt);
+}
+
+// Share of the timeout a pending request has used, from 0 to 1
+export const timeoutProgress = (request: StatusDecryption, timeout: number, now: number) =>
+  timeout > 0 ? Math.min(Math.max((now - request.requestedAt) / timeout, 0), 1) : 0;
+
+// The pads were added modulo 2^32, and the hint bit was xor-ed
+export const unmaskStatus = (result: MaskedStatus, pads: Omit<MaskedStatus, "stale">): DecryptedStatus => {
+  const unpad = (masked: bigint, pad: bigint) => Number(BigInt.asUintN(32, masked - pad));
+  return {
+    progress: unpad(result.progress, pads.progress),
+    puzzleState1: unpad(result.puzzleState1, pads.puzzleState1),
+    puzzleState2: unpad(result.puzzleState2, pads.puzzleState2),
+    hintEligible: result.hintEligibility !== pads.hintEligibility
+  };
+};
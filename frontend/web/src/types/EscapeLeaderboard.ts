@@ -0,0 +1,595 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export interface EscapeLeaderboardInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MAX_RANK_BATCH"
+      | "MIN_RANK_MIX"
+      | "entryCount"
+      | "game"
+      | "getEncryptedScore"
+      | "getEntry"
+      | "getRank"
+      | "getRoomEntries"
+      | "postScore"
+      | "protocolId"
+      | "revealCallback"
+      | "revealRequests"
+      | "revealScore"
+      | "sessionEntry"
+      | "updateRank"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "DecryptionFulfilled"
+      | "RankPassStarted"
+      | "RankUpdated"
+      | "ScorePosted"
+      | "ScoreRevealRequested"
+      | "ScoreRevealed"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MAX_RANK_BATCH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_RANK_MIX",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "entryCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "game", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedScore",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEntry",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRank",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRoomEntries",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "postScore",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealRequests",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealScore",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "sessionEntry",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateRank",
+    values: [BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "MAX_RANK_BATCH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MIN_RANK_MIX",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "entryCount", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "game", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedScore",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getEntry", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getRank", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getRoomEntries",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "postScore", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "revealCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revealRequests",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revealScore",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "sessionEntry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "updateRank", data: BytesLike): Result;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RankPassStartedEvent {
+  export type InputTuple = [
+    entryId: BigNumberish,
+    player: AddressLike,
+    passEnd: BigNumberish
+  ];
+  export type OutputTuple = [entryId: bigint, player: string, passEnd: bigint];
+  export interface OutputObject {
+    entryId: bigint;
+    player: string;
+    passEnd: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RankUpdatedEvent {
+  export type InputTuple = [
+    entryId: BigNumberish,
+    player: AddressLike,
+    rankedThrough: BigNumberish
+  ];
+  export type OutputTuple = [
+    entryId: bigint,
+    player: string,
+    rankedThrough: bigint
+  ];
+  export interface OutputObject {
+    entryId: bigint;
+    player: string;
+    rankedThrough: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ScorePostedEvent {
+  export type InputTuple = [
+    entryId: BigNumberish,
+    roomId: BigNumberish,
+    player: AddressLike,
+    sessionId: BigNumberish
+  ];
+  export type OutputTuple = [
+    entryId: bigint,
+    roomId: bigint,
+    player: string,
+    sessionId: bigint
+  ];
+  export interface OutputObject {
+    entryId: bigint;
+    roomId: bigint;
+    player: string;
+    sessionId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ScoreRevealRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish, entryId: BigNumberish];
+  export type OutputTuple = [requestId: bigint, entryId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    entryId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ScoreRevealedEvent {
+  export type InputTuple = [
+    entryId: BigNumberish,
+    roomId: BigNumberish,
+    player: AddressLike,
+    score: BigNumberish
+  ];
+  export type OutputTuple = [
+    entryId: bigint,
+    roomId: bigint,
+    player: string,
+    score: bigint
+  ];
+  export interface OutputObject {
+    entryId: bigint;
+    roomId: bigint;
+    player: string;
+    score: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface EscapeLeaderboard extends BaseContract {
+  connect(runner?: ContractRunner | null): EscapeLeaderboard;
+  waitForDeployment(): Promise<this>;
+
+  interface: EscapeLeaderboardInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MAX_RANK_BATCH: TypedContractMethod<[], [bigint], "view">;
+
+  MIN_RANK_MIX: TypedContractMethod<[], [bigint], "view">;
+
+  entryCount: TypedContractMethod<[], [bigint], "view">;
+
+  game: TypedContractMethod<[], [string], "view">;
+
+  getEncryptedScore: TypedContractMethod<
+    [entryId: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  getEntry: TypedContractMethod<
+    [entryId: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, bigint, boolean, boolean, bigint] & {
+        player: string;
+        sessionId: bigint;
+        roomId: bigint;
+        finishedAt: bigint;
+        playSeconds: bigint;
+        revealRequested: boolean;
+        revealed: boolean;
+        revealedScore: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getRank: TypedContractMethod<
+    [entryId: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, bigint, bigint] & {
+        beaten: string;
+        rankedThrough: bigint;
+        boardSize: bigint;
+        newRivals: bigint;
+        passNext: bigint;
+        passEnd: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getRoomEntries: TypedContractMethod<
+    [roomId: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+
+  postScore: TypedContractMethod<
+    [sessionId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  revealCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  revealRequests: TypedContractMethod<
+    [arg0: BigNumberish],
+    [[bigint, boolean] & { entryId: bigint; processed: boolean }],
+    "view"
+  >;
+
+  revealScore: TypedContractMethod<
+    [entryId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  sessionEntry: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  updateRank: TypedContractMethod<
+    [entryId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_RANK_BATCH"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MIN_RANK_MIX"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "entryCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "game"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "getEncryptedScore"
+  ): TypedContractMethod<[entryId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "getEntry"
+  ): TypedContractMethod<
+    [entryId: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, bigint, boolean, boolean, bigint] & {
+        player: string;
+        sessionId: bigint;
+        roomId: bigint;
+        finishedAt: bigint;
+        playSeconds: bigint;
+        revealRequested: boolean;
+        revealed: boolean;
+        revealedScore: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRank"
+  ): TypedContractMethod<
+    [entryId: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, bigint, bigint] & {
+        beaten: string;
+        rankedThrough: bigint;
+        boardSize: bigint;
+        newRivals: bigint;
+        passNext: bigint;
+        passEnd: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRoomEntries"
+  ): TypedContractMethod<[roomId: BigNumberish], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "postScore"
+  ): TypedContractMethod<[sessionId: BigNumberish], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "revealCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revealRequests"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [[bigint, boolean] & { entryId: bigint; processed: boolean }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "revealScore"
+  ): TypedContractMethod<[entryId: BigNumberish], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "sessionEntry"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "updateRank"
+  ): TypedContractMethod<[entryId: BigNumberish], [bigint], "nonpayable">;
+
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "RankPassStarted"
+  ): TypedContractEvent<
+    RankPassStartedEvent.InputTuple,
+    RankPassStartedEvent.OutputTuple,
+    RankPassStartedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RankUpdated"
+  ): TypedContractEvent<
+    RankUpdatedEvent.InputTuple,
+    RankUpdatedEvent.OutputTuple,
+    RankUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ScorePosted"
+  ): TypedContractEvent<
+    ScorePostedEvent.InputTuple,
+    ScorePostedEvent.OutputTuple,
+    ScorePostedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ScoreRevealRequested"
+  ): TypedContractEvent<
+    ScoreRevealRequestedEvent.InputTuple,
+    ScoreRevealRequestedEvent.OutputTuple,
+    ScoreRevealRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ScoreRevealed"
+  ): TypedContractEvent<
+    ScoreRevealedEvent.InputTuple,
+    ScoreRevealedEvent.OutputTuple,
+    ScoreRevealedEvent.OutputObject
+  >;
+
+  filters: {
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "RankPassStarted(uint256,address,uint256)": TypedContractEvent<
+      RankPassStartedEvent.InputTuple,
+      RankPassStartedEvent.OutputTuple,
+      RankPassStartedEvent.OutputObject
+    >;
+    RankPassStarted: TypedContractEvent<
+      RankPassStartedEvent.InputTuple,
+      RankPassStartedEvent.OutputTuple,
+      RankPassStartedEvent.OutputObject
+    >;
+
+    "RankUpdated(uint256,address,uint256)": TypedContractEvent<
+      RankUpdatedEvent.InputTuple,
+      RankUpdatedEvent.OutputTuple,
+      RankUpdatedEvent.OutputObject
+    >;
+    RankUpdated: TypedContractEvent<
+      RankUpdatedEvent.InputTuple,
+      RankUpdatedEvent.OutputTuple,
+      RankUpdatedEvent.OutputObject
+    >;
+
+    "ScorePosted(uint256,uint256,address,uint256)": TypedContractEvent<
+      ScorePostedEvent.InputTuple,
+      ScorePostedEvent.OutputTuple,
+      ScorePostedEvent.OutputObject
+    >;
+    ScorePosted: TypedContractEvent<
+      ScorePostedEvent.InputTuple,
+      ScorePostedEvent.OutputTuple,
+      ScorePostedEvent.OutputObject
+    >;
+
+    "ScoreRevealRequested(uint256,uint256)": TypedContractEvent<
+      ScoreRevealRequestedEvent.InputTuple,
+      ScoreRevealRequestedEvent.OutputTuple,
+      ScoreRevealRequestedEvent.OutputObject
+    >;
+    ScoreRevealRequested: TypedContractEvent<
+      ScoreRevealRequestedEvent.InputTuple,
+      ScoreRevealRequestedEvent.OutputTuple,
+      ScoreRevealRequestedEvent.OutputObject
+    >;
+
+    "ScoreRevealed(uint256,uint256,address,uint32)": TypedContractEvent<
+      ScoreRevealedEvent.InputTuple,
+      ScoreRevealedEvent.OutputTuple,
+      ScoreRevealedEvent.OutputObject
+    >;
+    ScoreRevealed: TypedContractEvent<
+      ScoreRevealedEvent.InputTuple,
+      ScoreRevealedEvent.OutputTuple,
+      ScoreRevealedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,641 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export declare namespace PlayerActionForwarder {
+  export type GameCallStruct = {
+    player: AddressLike;
+    operation: BigNumberish;
+    id: BigNumberish;
+    nonce: BigNumberish;
+    deadline: BigNumberish;
+  };
+
+  export type GameCallStructOutput = [
+    player: string,
+    operation: bigint,
+    id: bigint,
+    nonce: bigint,
+    deadline: bigint
+  ] & {
+    player: string;
+    operation: bigint;
+    id: bigint;
+    nonce: bigint;
+    deadline: bigint;
+  };
+
+  export type GuessActionStruct = {
+    player: AddressLike;
+    puzzleId: BigNumberish;
+    guess: BytesLike;
+    nonce: BigNumberish;
+    deadline: BigNumberish;
+  };
+
+  export type GuessActionStructOutput = [
+    player: string,
+    puzzleId: bigint,
+    guess: string,
+    nonce: bigint,
+    deadline: bigint
+  ] & {
+    player: string;
+    puzzleId: bigint;
+    guess: string;
+    nonce: bigint;
+    deadline: bigint;
+  };
+
+  export type PlayerActionStruct = {
+    player: AddressLike;
+    actionType: BytesLike;
+    actionTarget: BytesLike;
+    nonce: BigNumberish;
+    deadline: BigNumberish;
+  };
+
+  export type PlayerActionStructOutput = [
+    player: string,
+    actionType: string,
+    actionTarget: string,
+    nonce: bigint,
+    deadline: bigint
+  ] & {
+    player: string;
+    actionType: string;
+    actionTarget: string;
+    nonce: bigint;
+    deadline: bigint;
+  };
+
+  export type StatusRequestStruct = {
+    player: AddressLike;
+    nonce: BigNumberish;
+    deadline: BigNumberish;
+  };
+
+  export type StatusRequestStructOutput = [
+    player: string,
+    nonce: bigint,
+    deadline: bigint
+  ] & { player: string; nonce: bigint; deadline: bigint };
+}
+
+export interface PlayerActionForwarderInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "GAME_CALL_TYPEHASH"
+      | "GUESS_ACTION_TYPEHASH"
+      | "PLAYER_ACTION_TYPEHASH"
+      | "STATUS_REQUEST_TYPEHASH"
+      | "domainSeparator"
+      | "game"
+      | "hashGameCall"
+      | "hashGuessAction"
+      | "hashPlayerAction"
+      | "hashStatusRequest"
+      | "invalidateNonce"
+      | "nonces"
+      | "relay"
+      | "relayGameCall"
+      | "relayGuess"
+      | "relayStatusRequest"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "GameCallRelayed"
+      | "GuessRelayed"
+      | "NonceInvalidated"
+      | "PlayerActionRelayed"
+      | "StatusRequestRelayed"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "GAME_CALL_TYPEHASH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "GUESS_ACTION_TYPEHASH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PLAYER_ACTION_TYPEHASH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "STATUS_REQUEST_TYPEHASH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "domainSeparator",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "game", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "hashGameCall",
+    values: [PlayerActionForwarder.GameCallStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hashGuessAction",
+    values: [PlayerActionForwarder.GuessActionStruct, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hashPlayerAction",
+    values: [PlayerActionForwarder.PlayerActionStruct, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hashStatusRequest",
+    values: [PlayerActionForwarder.StatusRequestStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "invalidateNonce",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "nonces", values: [AddressLike]): string;
+  encodeFunctionData(
+    functionFragment: "relay",
+    values: [PlayerActionForwarder.PlayerActionStruct, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "relayGameCall",
+    values: [PlayerActionForwarder.GameCallStruct, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "relayGuess",
+    values: [PlayerActionForwarder.GuessActionStruct, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "relayStatusRequest",
+    values: [PlayerActionForwarder.StatusRequestStruct, BytesLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "GAME_CALL_TYPEHASH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "GUESS_ACTION_TYPEHASH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PLAYER_ACTION_TYPEHASH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "STATUS_REQUEST_TYPEHASH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "domainSeparator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "game", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "hashGameCall",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "hashGuessAction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "hashPlayerAction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "hashStatusRequest",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "invalidateNonce",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "nonces", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "relay", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "relayGameCall",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "relayGuess", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "relayStatusRequest",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace GameCallRelayedEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    relayer: AddressLike,
+    operation: BigNumberish,
+    nonce: BigNumberish
+  ];
+  export type OutputTuple = [
+    player: string,
+    relayer: string,
+    operation: bigint,
+    nonce: bigint
+  ];
+  export interface OutputObject {
+    player: string;
+    relayer: string;
+    operation: bigint;
+    nonce: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace GuessRelayedEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    relayer: AddressLike,
+    nonce: BigNumberish
+  ];
+  export type OutputTuple = [player: string, relayer: string, nonce: bigint];
+  export interface OutputObject {
+    player: string;
+    relayer: string;
+    nonce: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace NonceInvalidatedEvent {
+  export type InputTuple = [player: AddressLike, nonce: BigNumberish];
+  export type OutputTuple = [player: string, nonce: bigint];
+  export interface OutputObject {
+    player: string;
+    nonce: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PlayerActionRelayedEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    relayer: AddressLike,
+    nonce: BigNumberish
+  ];
+  export type OutputTuple = [player: string, relayer: string, nonce: bigint];
+  export interface OutputObject {
+    player: string;
+    relayer: string;
+    nonce: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StatusRequestRelayedEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    relayer: AddressLike,
+    nonce: BigNumberish
+  ];
+  export type OutputTuple = [player: string, relayer: string, nonce: bigint];
+  export interface OutputObject {
+    player: string;
+    relayer: string;
+    nonce: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface PlayerActionForwarder extends BaseContract {
+  connect(runner?: ContractRunner | null): PlayerActionForwarder;
+  waitForDeployment(): Promise<this>;
+
+  interface: PlayerActionForwarderInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  GAME_CALL_TYPEHASH: TypedContractMethod<[], [string], "view">;
+
+  GUESS_ACTION_TYPEHASH: TypedContractMethod<[], [string], "view">;
+
+  PLAYER_ACTION_TYPEHASH: TypedContractMethod<[], [string], "view">;
+
+  STATUS_REQUEST_TYPEHASH: TypedContractMethod<[], [string], "view">;
+
+  domainSeparator: TypedContractMethod<[], [string], "view">;
+
+  game: TypedContractMethod<[], [string], "view">;
+
+  hashGameCall: TypedContractMethod<
+    [call: PlayerActionForwarder.GameCallStruct],
+    [string],
+    "view"
+  >;
+
+  hashGuessAction: TypedContractMethod<
+    [action: PlayerActionForwarder.GuessActionStruct, inputProof: BytesLike],
+    [string],
+    "view"
+  >;
+
+  hashPlayerAction: TypedContractMethod<
+    [action: PlayerActionForwarder.PlayerActionStruct, inputProof: BytesLike],
+    [string],
+    "view"
+  >;
+
+  hashStatusRequest: TypedContractMethod<
+    [request: PlayerActionForwarder.StatusRequestStruct],
+    [string],
+    "view"
+  >;
+
+  invalidateNonce: TypedContractMethod<[], [void], "nonpayable">;
+
+  nonces: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  relay: TypedContractMethod<
+    [
+      action: PlayerActionForwarder.PlayerActionStruct,
+      inputProof: BytesLike,
+      signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  relayGameCall: TypedContractMethod<
+    [call: PlayerActionForwarder.GameCallStruct, signature: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  relayGuess: TypedContractMethod<
+    [
+      action: PlayerActionForwarder.GuessActionStruct,
+      inputProof: BytesLike,
+      signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  relayStatusRequest: TypedContractMethod<
+    [request: PlayerActionForwarder.StatusRequestStruct, signature: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "GAME_CALL_TYPEHASH"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "GUESS_ACTION_TYPEHASH"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "PLAYER_ACTION_TYPEHASH"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "STATUS_REQUEST_TYPEHASH"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "domainSeparator"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "game"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "hashGameCall"
+  ): TypedContractMethod<
+    [call: PlayerActionForwarder.GameCallStruct],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hashGuessAction"
+  ): TypedContractMethod<
+    [action: PlayerActionForwarder.GuessActionStruct, inputProof: BytesLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hashPlayerAction"
+  ): TypedContractMethod<
+    [action: PlayerActionForwarder.PlayerActionStruct, inputProof: BytesLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hashStatusRequest"
+  ): TypedContractMethod<
+    [request: PlayerActionForwarder.StatusRequestStruct],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "invalidateNonce"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "nonces"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "relay"
+  ): TypedContractMethod<
+    [
+      action: PlayerActionForwarder.PlayerActionStruct,
+      inputProof: BytesLike,
+      signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "relayGameCall"
+  ): TypedContractMethod<
+    [call: PlayerActionForwarder.GameCallStruct, signature: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "relayGuess"
+  ): TypedContractMethod<
+    [
+      action: PlayerActionForwarder.GuessActionStruct,
+      inputProof: BytesLike,
+      signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "relayStatusRequest"
+  ): TypedContractMethod<
+    [request: PlayerActionForwarder.StatusRequestStruct, signature: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "GameCallRelayed"
+  ): TypedContractEvent<
+    GameCallRelayedEvent.InputTuple,
+    GameCallRelayedEvent.OutputTuple,
+    GameCallRelayedEvent.OutputObject
+  >;
+  getEvent(
+    key: "GuessRelayed"
+  ): TypedContractEvent<
+    GuessRelayedEvent.InputTuple,
+    GuessRelayedEvent.OutputTuple,
+    GuessRelayedEvent.OutputObject
+  >;
+  getEvent(
+    key: "NonceInvalidated"
+  ): TypedContractEvent<
+    NonceInvalidatedEvent.InputTuple,
+    NonceInvalidatedEvent.OutputTuple,
+    NonceInvalidatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PlayerActionRelayed"
+  ): TypedContractEvent<
+    PlayerActionRelayedEvent.InputTuple,
+    PlayerActionRelayedEvent.OutputTuple,
+    PlayerActionRelayedEvent.OutputObject
+  >;
+  getEvent(
+    key: "StatusRequestRelayed"
+  ): TypedContractEvent<
+    StatusRequestRelayedEvent.InputTuple,
+    StatusRequestRelayedEvent.OutputTuple,
+    StatusRequestRelayedEvent.OutputObject
+  >;
+
+  filters: {
+    "GameCallRelayed(address,address,uint8,uint256)": TypedContractEvent<
+      GameCallRelayedEvent.InputTuple,
+      GameCallRelayedEvent.OutputTuple,
+      GameCallRelayedEvent.OutputObject
+    >;
+    GameCallRelayed: TypedContractEvent<
+      GameCallRelayedEvent.InputTuple,
+      GameCallRelayedEvent.OutputTuple,
+      GameCallRelayedEvent.OutputObject
+    >;
+
+    "GuessRelayed(address,address,uint256)": TypedContractEvent<
+      GuessRelayedEvent.InputTuple,
+      GuessRelayedEvent.OutputTuple,
+      GuessRelayedEvent.OutputObject
+    >;
+    GuessRelayed: TypedContractEvent<
+      GuessRelayedEvent.InputTuple,
+      GuessRelayedEvent.OutputTuple,
+      GuessRelayedEvent.OutputObject
+    >;
+
+    "NonceInvalidated(address,uint256)": TypedContractEvent<
+      NonceInvalidatedEvent.InputTuple,
+      NonceInvalidatedEvent.OutputTuple,
+      NonceInvalidatedEvent.OutputObject
+    >;
+    NonceInvalidated: TypedContractEvent<
+      NonceInvalidatedEvent.InputTuple,
+      NonceInvalidatedEvent.OutputTuple,
+      NonceInvalidatedEvent.OutputObject
+    >;
+
+    "PlayerActionRelayed(address,address,uint256)": TypedContractEvent<
+      PlayerActionRelayedEvent.InputTuple,
+      PlayerActionRelayedEvent.OutputTuple,
+      PlayerActionRelayedEvent.OutputObject
+    >;
+    PlayerActionRelayed: TypedContractEvent<
+      PlayerActionRelayedEvent.InputTuple,
+      PlayerActionRelayedEvent.OutputTuple,
+      PlayerActionRelayedEvent.OutputObject
+    >;
+
+    "StatusRequestRelayed(address,address,uint256)": TypedContractEvent<
+      StatusRequestRelayedEvent.InputTuple,
+      StatusRequestRelayedEvent.OutputTuple,
+      StatusRequestRelayedEvent.OutputObject
+    >;
+    StatusRequestRelayed: TypedContractEvent<
+      StatusRequestRelayedEvent.InputTuple,
+      StatusRequestRelayedEvent.OutputTuple,
+      StatusRequestRelayedEvent.OutputObject
+    >;
+  };
+}
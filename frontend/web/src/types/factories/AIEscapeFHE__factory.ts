@@ -0,0 +1,2268 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../common";
+import type { AIEscapeFHE, AIEscapeFHEInterface } from "../AIEscapeFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "CooldownActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidCooldown",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidDifficulty",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidRoom",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidSessionState",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "MissingRole",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoActiveSession",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoPuzzleAvailable",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotInSessionRoom",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotPendingOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PausedError",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PrerequisitesNotMet",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PuzzleAlreadySolved",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PuzzleIdTooLarge",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PuzzleNotFound",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayAttempt",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "RoomAlreadyUnlocked",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "RoomLocked",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "RoomNotFound",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "SessionInProgress",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TimeUp",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownRequest",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldCooldown",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newCooldown",
+        type: "uint256",
+      },
+    ],
+    name: "CooldownSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "roomId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "Escaped",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "puzzleId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "GuessSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "puzzleId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "solved",
+        type: "bool",
+      },
+    ],
+    name: "GuessVerified",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "puzzleId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "hintRequests",
+        type: "uint256",
+      },
+    ],
+    name: "HintTierComputed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousLeaderboard",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newLeaderboard",
+        type: "address",
+      },
+    ],
+    name: "LeaderboardSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Paused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "actionHash",
+        type: "bytes32",
+      },
+    ],
+    name: "PlayerActionSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "PlayerStateInitialized",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "puzzleId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "solution",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "requiredItems",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "createdAt",
+        type: "uint256",
+      },
+    ],
+    name: "PuzzleCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "PuzzleServeRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "puzzleId",
+        type: "uint256",
+      },
+    ],
+    name: "PuzzleServed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "roomId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "exitPuzzleId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "timeLimit",
+        type: "uint64",
+      },
+    ],
+    name: "RoomCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "roomId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "RoomUnlockRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "roomId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "RoomUnlocked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "playSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "SessionAbandoned",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "playSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "SessionFinished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "SessionPaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "pausedSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "SessionResumed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "roomId",
+        type: "uint256",
+      },
+    ],
+    name: "SessionStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousForwarder",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newForwarder",
+        type: "address",
+      },
+    ],
+    name: "TrustedForwarderSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Unpaused",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "GAME_MASTER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "HINT_PENALTY",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "HINT_STUCK_SECONDS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "INITIAL_PERFORMANCE_SCORE",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "ORACLE_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PAUSER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PUZZLE_AUTHOR_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "SOLVE_POINTS",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "UNTIMED_PAR_SECONDS",
+    outputs: [
+      {
+        internalType: "uint64",
+        name: "",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "WRONG_GUESS_PENALTY",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "abandonSession",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "acceptOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cooldownSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "encryptedSolution",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
+      },
+      {
+        internalType: "uint64",
+        name: "requiredItems",
+        type: "uint64",
+      },
+    ],
+    name: "createPuzzle",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "puzzleId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256[]",
+        name: "puzzleIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "prerequisites",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256",
+        name: "exitPuzzleId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint64",
+        name: "timeLimit",
+        type: "uint64",
+      },
+    ],
+    name: "createRoom",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "roomId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "currentSession",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "finishSession",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "firstAttemptAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "puzzleId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+    ],
+    name: "getGuessResult",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "puzzleId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+    ],
+    name: "getHintTier",
+    outputs: [
+      {
+        internalType: "euint8",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "getInventory",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "getPlayerState",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "progress",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "puzzleState1",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "puzzleState2",
+        type: "bytes32",
+      },
+      {
+        internalType: "ebool",
+        name: "hintEligibility",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "puzzleId",
+        type: "uint256",
+      },
+    ],
+    name: "getPuzzle",
+    outputs: [
+      {
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        internalType: "uint8",
+        name: "difficulty",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "createdAt",
+        type: "uint256",
+      },
+      {
+        internalType: "euint32",
+        name: "solution",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint64",
+        name: "requiredItems",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "getRoleMemberCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "getRoleMembers",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "roomId",
+        type: "uint256",
+      },
+    ],
+    name: "getRoom",
+    outputs: [
+      {
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        internalType: "uint256[]",
+        name: "puzzleIds",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "prerequisites",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256",
+        name: "exitPuzzleId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint64",
+        name: "timeLimit",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+    ],
+    name: "getSession",
+    outputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "roomId",
+        type: "uint256",
+      },
+      {
+        internalType: "enum AIEscapeFHE.SessionStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "startedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "endedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "playSeconds",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "timeLimit",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+    ],
+    name: "getSessionPuzzles",
+    outputs: [
+      {
+        internalType: "bool[]",
+        name: "solved",
+        type: "bool[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "hints",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+    ],
+    name: "getSessionStats",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "progress",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "correctGuesses",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "wrongGuesses",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "inventory",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "score",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "puzzleId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+    ],
+    name: "getSolvedFlag",
+    outputs: [
+      {
+        internalType: "ebool",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "guessCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "guessVerifications",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "puzzleId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "hasEscaped",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "hintRequests",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "isPlayerInitialized",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "roomId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+    ],
+    name: "isRoomAccessible",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastDecryptionRequestTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastSubmissionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "leaderboard",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pauseSession",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pendingOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "puzzleCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "puzzleRoom",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "puzzleSolved",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "renounceRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "requestGameStatusDecryption",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "puzzleId",
+        type: "uint256",
+      },
+    ],
+    name: "requestHint",
+    outputs: [
+      {
+        internalType: "euint8",
+        name: "tier",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "roomId",
+        type: "uint256",
+      },
+    ],
+    name: "requestRoomUnlock",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "resumeSession",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "roomCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "roomCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "roomUnlockRequests",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "roomId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "roomUnlocked",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "serveCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "serveNextPuzzle",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "serveRequests",
+    outputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "servedPuzzle",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "sessionCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+    ],
+    name: "sessionPlayTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "setCooldown",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newLeaderboard",
+        type: "address",
+      },
+    ],
+    name: "setLeaderboard",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newForwarder",
+        type: "address",
+      },
+    ],
+    name: "setTrustedForwarder",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "roomId",
+        type: "uint256",
+      },
+    ],
+    name: "startSession",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "statusDecryptions",
+    outputs: [
+      {
+        internalType: "contract StatusDecryptions",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "puzzleId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedGuess",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitGuess",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "encryptedActionType",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedActionTarget",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitPlayerAction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "trustedForwarder",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "unpause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x604060a08152346200022c575f606062000018620005a6565b8281528260208201528284820152015262000032620005a6565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c28812918286820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908282541617905533905f5416175f55335f7f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08180a3620001833362000230565b601e60065560ff19600754166007555f600a555f600d555f601b55620001a93362000321565b620001b433620003f8565b620001bf33620004cf565b8051611bc18082016001600160401b03811183821017620002185782916200639e833903905ff080156200020e5760805251615dd79081620005c78239608051818181610d20015261453d0152f35b50513d5f823e3d90fd5b634e487b7160e01b5f52604160045260245ffd5b5f80fd5b6001600160a01b03165f8181527fa665d3385c074a5fa4bcec2a570c94dbdb08d6b09bca4e08f8c3951c94a3d9986020908152604091829020547fa49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c217759392906200031b57835f5260028252805f208054906801000000000000000082101562000218576001820180825582101562000307575f52825f20018360018060a01b0319825416179055835f5260028252805f20549160038152815f2090845f52525f205533915f8051602062007f5f8339815191525f80a4565b634e487b7160e01b5f52603260045260245ffd5b50505050565b6001600160a01b03165f8181527f2b93370627293bc3181c6c73010b1ee9cbdfeb1899027751959246d11ef4b4db6020908152604091829020547f1d93c87416ca7b54f0fb8323167b72760e8e2ec93d48660953897a150f97a8b49392906200031b57835f5260028252805f208054906801000000000000000082101562000218576001820180825582101562000307575f52825f20018360018060a01b0319825416179055835f5260028252805f20549160038152815f2090845f52525f205533915f8051602062007f5f8339815191525f80a4565b6001600160a01b03165f8181527f4a9944a6f2ac6d07458a50e05d4eb790223786beebebc7b04c84bcfe2b5a8ddd6020908152604091829020547fc997d117e3c3aff8ec91bc5409fdde5d95a389722413f2216923d83a436bfc6d9392906200031b57835f5260028252805f208054906801000000000000000082101562000218576001820180825582101562000307575f52825f20018360018060a01b0319825416179055835f5260028252805f20549160038152815f2090845f52525f205533915f8051602062007f5f8339815191525f80a4565b6001600160a01b03165f8181527f30adeb818ef77f204f5a603c30fa5332397b6e28fb3b7f9d937ae6a6914716de6020908152604091829020547f65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a9392906200031b57835f5260028252805f208054906801000000000000000082101562000218576001820180825582101562000307575f52825f20018360018060a01b0319825416179055835f5260028252805f20549160038152815f2090845f52525f205533915f8051602062007f5f8339815191525f80a4565b60405190608082016001600160401b03811183821017620002185760405256fe6080806040526004361015610012575f80fd5b5f905f3560e01c9081624a7f05146147b257508062590dcd14614764578063054c94d41461473557806307e2cea5146146fb57806308c906b7146146e25780630da3be70146146c75780631f2d8b46146146565780632eeffd271461459a5780632f2ff15d1461456c578063348a7e0b146145285780633f4ba83a146144da578063402ff0db1461444957806342a38ba91461442d5780634bcebbc6146144115780634fc3f41a146143a45780635a94a0791461436c5780635c975abb1461434a57806361ef42fb1461432f578063692dd348146142f1578063693e893b146142b75780636cc944e014613d6a5780636d82b0e214613d3b5780636d8a74cb14613ca25780636dde561b146137865780637194bb901461376957806373cd83361461374c57806375b238fc1461372557806377127612146134f357806379ba5097146134675780637b9c5f8c146131505780637da0a8771461312857806381747866146130f95780638456cb591461309f57806387aa07c81461303e5780638b87c544146130035780638bb21794146129945780638bb9c5bf146129755780638da5cb5b1461294e57806390adebb5146125735780639184f0b61461253957806391d14854146124eb578063924951d9146124b7578063950faf7c146123d05780639812a9bc146122f6578063a1cd9a1514611fb4578063a3246ad314611f02578063a436547614611ec9578063a7a2028714611e90578063ab8625c214611e5e578063aba522c814611ce8578063ad1def1e14611cad578063b4a6b6ae14611b6f578063b61c330314611a35578063b70577e914611154578063b8221bc414611136578063be44b1e1146110d4578063c01ca43f14611078578063c2f3bf8914611051578063c515f99314610f70578063ca15c87314610f46578063ca8be17214610f19578063d547741f14610ee7578063da1f12ab14610eca578063da74222814610e60578063df93a4e314610e42578063e21e103614610e15578063e30c397814610dec578063e476ae2714610c9c578063e63ab1e914610c61578063e76eb30c14610560578063eb56b74014610533578063ebef624a14610509578063f1a2de7214610489578063f2fde38b146103f4578063f7c71bd9146103d8578063fca9d72d1461039f5763ff7599221461036b575f80fd5b3461039c5760ff6040602092610380366147cb565b908252601f855282822090825284522054166040519015158152f35b80fd5b503461039c57602036600319011261039c576020906040906001600160a01b036103c7614925565b168152600c83522054604051908152f35b503461039c578060031936011261039c57602060405160328152f35b503461039c57602036600319011261039c5761040e614925565b81546001600160a01b039081169133839003610477571690811561046557600180546001600160a01b031916831790557f38d16b8cac22d99fc7c124b9cd0de2d3fa1faef420bfe791d8c362d765e227008380a380f35b6040516349e27cff60e01b8152600490fd5b6040516330cd747160e01b8152600490fd5b503461039c57602036600319011261039c576104a3614925565b6104ab614d6f565b600754906001600160a01b0380821690600884901c167fbb60c5c7eea358c873242de347dd6201a7c12f3142d08ca7dfbc4a7c89f021f88580a3610100600160a81b031990911660089190911b610100600160a81b03161760075580f35b503461039c57602036600319011261039c5760406020916004358152601d83522054604051908152f35b503461039c578060031936011261039c5760075460405160089190911c6001600160a01b03168152602090f35b503461039c57606036600319011261039c576044356001600160401b038111610c5d576105919036906004016149b4565b60ff60075416610c4b576105a36150dc565b6001600160a01b03168352600460205260408320546006546105c491614c2f565b4210610c39576105d26150dc565b916105f8836105e081615116565b936105ef8282866004356155e1565b936024356155e1565b6001600160a01b03841685526009602052604085208054600182015460028301549094939290916106339061062d8587615289565b90615289565b9161064561063f61593b565b86615663565b5f602060018060a01b035f80516020615d4b8339815191525416604460405180948193639cd07acb60e01b8352600a6004840152600460248401525af1908115610aae575f91610c03575b509661062d6106a9925f996106a36157a7565b91615aca565b5f80516020615d4b83398151915254604051639cd07acb60e01b815260016004820152600560248201529760209189916044918391906001600160a01b03165af1968715610aae575f97610bcf575b5089858615610bbd575b5f80516020615d4b83398151915254604080516367a68c5560e11b815260048101939093526024830152600160f81b6044830152909160209183916064918391906001600160a01b03165af1908115610bb2578b91610b7f575b505f80516020615d4b833981519152546040516307227b9160e21b8152600481019290925260026024830152602090829060449082905f906001600160a01b03165af1908115610aae575f91610b4d575b50808815610b3d575b15610b29575b5f80516020615d4b833981519152546040516307227b9160e21b8152600481019290925260056024830152602090829060449082905f906001600160a01b03165af18015610aae575f90610af6575b5f80516020615d4b8339815191525460405163ccc480a160e01b8152600481019a909a5260248a01919091526001600160f81b03198c1660448a015260209150889060649082908e906001600160a01b03165af18015610aeb578a90610ab9575b5f975061088061087a6157f9565b88615663565b602060018060a01b035f80516020615d4b83398151915254166044604051809c8193639cd07acb60e01b835260026004840152600460248401525af18015610aae578c995f91610a75575b506109036108db6020928b615663565b926108f8600489015486908015610a67575b8715610a5757615c82565b600489015491615aca565b92602460018060a01b035f80516020615d4b8339815191525416916040519c8d938492630f51ccfb60e41b845260048401525af1988915610a4c578c996109fe575b509161098682602099989796946109807f38f6e29c03653766f28f51977a3821d6fa015506dc67d54018671318a9a385ed9c6003989661568c565b90615aca565b600484015561099c6109966158ed565b866151a7565b9483556001830155600282015501556109b4866156b5565b6001600160a01b038616875260048352604080882042905580518085019384528082019290925281526109e68161480f565b519020604051938452936001600160a01b031692a380f35b9850929096959493916020893d602011610a44575b81610a2060209383614845565b81010312610a405797519795969495939491939092909190610986610945565b5f80fd5b3d9150610a13565b6040513d8e823e3d90fd5b9050610a61615a77565b90615c82565b50610a70615a77565b6108ed565b9950506020893d602011610aa6575b81610a9160209383614845565b81010312610a405797518b98906109036108cb565b3d9150610a84565b6040513d5f823e3d90fd5b506020873d602011610ae3575b81610ad360209383614845565b81010312610a40575f965161086c565b3d9150610ac6565b6040513d8c823e3d90fd5b506020813d602011610b21575b81610b1060209383614845565b81010312610a40576020905161080b565b3d9150610b03565b505f6020610b3561589a565b9150506107bc565b9750610b47615a77565b976107b6565b90506020813d602011610b77575b81610b6860209383614845565b81010312610a4057515f6107ad565b3d9150610b5b565b90506020813d602011610baa575b81610b9a60209383614845565b81010312610a405751602061075c565b3d9150610b8d565b6040513d8d823e3d90fd5b506020610bc86157a7565b9050610702565b9096506020813d602011610bfb575b81610beb60209383614845565b81010312610a405751955f6106f8565b3d9150610bde565b9790506020883d602011610c31575b81610c1f60209383614845565b81010312610a4057965161062d610690565b3d9150610c12565b60405163aa9a98df60e01b8152600490fd5b604051633b3b4caf60e21b8152600490fd5b5080fd5b503461039c578060031936011261039c5760206040517f65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a8152f35b503461039c578060031936011261039c5760ff60075416610c4b57610cbf6150dc565b6001600160a01b03908116825260046020908152604083205460065491939291610ce891614c2f565b4210610c395782610d49916044610cfd6150dc565b91610d6c81610d0b85615116565b941691828852600986526003604089208054927f00000000000000000000000000000000000000000000000000000000000000001698898094615cd6565b610d57836001830154615cd6565b610d65836002830154615cd6565b0154615cd6565b8086526005845242604087205585604051958694859363c8c01a5560e01b8552600485015260248401525af1918215610de0578092610db0575b5050604051908152f35b9091508282813d8311610dd9575b610dc88183614845565b8101031261039c5750515f80610da6565b503d610dbe565b604051903d90823e3d90fd5b503461039c578060031936011261039c576001546040516001600160a01b039091168152602090f35b503461039c576040602091610e29366147cb565b9082526015845282822090825283522054604051908152f35b503461039c578060031936011261039c576020601b54604051908152f35b503461039c57602036600319011261039c57610e7a614925565b610e82614d6f565b6008546001600160a01b0391821691829082167fcf5a353bfd0527e34114d504be74108a364de84a629045c08c104fc5878097df8580a36001600160a01b0319161760085580f35b503461039c578060031936011261039c5760206040516127118152f35b503461039c57604036600319011261039c57610f16600435610f0761490f565b90610f1181614f77565b6154ac565b80f35b503461039c576040602091610f2d366147cb565b9082526011845282822090825283522054604051908152f35b503461039c57602036600319011261039c5760406020916004358152600283522054604051908152f35b503461039c578060031936011261039c5760ff60075416610c4b576001600160a01b0380610f9c6150dc565b165f52600c60205260405f205490815f52600b60205260405f2060028101805460ff8116600581101561103d5760010361102b5770ffffffffffffffff0000000000000000ff19164260481b70ffffffffffffffff000000000000000000161760021790555416907f6004c73fc264fbd55dda2c095bc4df6fd5556d06516141e0820d1390d636b4b08380a380f35b6040516399ce53b960e01b8152600490fd5b634e487b7160e01b5f52602160045260245ffd5b503461039c57602036600319011261039c576020611070600435614c3c565b604051908152f35b503461039c57602036600319011261039c576080906040906001600160a01b036110a0614925565b1681526009602052208054906001810154906003600282015491015491604051938452602084015260408301526060820152f35b503461039c57602036600319011261039c576004358152602080805260409182902080546001820154600283015460039093015485519283526001600160a01b03909116938201939093529283015260ff1615156060820152608090f35b0390f35b503461039c578060031936011261039c576020600654604051908152f35b503461039c57606036600319011261039c576044356001600160401b038111610c5d576111859036906004016149b4565b60ff60079392935416610c4b5761119a6150dc565b6001600160a01b03168252600460205260408220546006546111bb91614c2f565b4210610c39576111c96150dc565b916111d383615116565b936004358252600e602052604082209260018060a01b0384541615611a2357600435835260106020526040832086845260205260ff604084205416611a125761121e6004358761552b565b9015611a0057156119ee5761124f611244866003936001600160401b03956024356155e1565b600186015490615663565b93015416806118f8575b506112643083615b70565b61126e8383615b70565b6004358152600f602052604081208482526020528160408220556004358152601460205260408120848252602052604081205480155f146118e95750805b6103c0811061189f57505f6112da6112cb63ffffffff60145b16615989565b6112d36157a7565b9085615aca565b6112e385615350565b801561188d575b5f80516020615d4b83398151915254604051630afe14ad60e31b8152600481019290925260036024830152600160f81b6044830152909260209184916064918391906001600160a01b03165af18015610aae5783925f91611854575b509061135191615289565b8015611842575b602090606460018060a01b035f80516020615d4b8339815191525416916040519485938492635a53accb60e01b8452600484015260046024840152600160f81b60448401525af19081156117aa578291611810575b506113b83082615b70565b60018060a01b038416825260176020526040822055600435815260136020526040812084825260205261151060408220546114036113f46157a7565b6113fc61593b565b9086615aca565b908181156118095761141491615289565b61141e3082615b70565b6004358452601360205260408420878552602052604084205560043583526014602052604083208684526020526040832054156117ea575b6004358352601160205260408320868452602052604083205480159081155f146117e257611491918691906117d3575b86156117c857615c82565b61149b3082615b70565b6114a58682615b70565b60043584526011602052604084208785526020526040842055600b602052611508604084206114fe600660058301926114f3845461062d6114e461593b565b6114ec6157a7565b908d615aca565b845501938454615289565b8355309054615b70565b309054615b70565b6040519161151d8361482a565b600183526020368185013761153183614b2b565b525f80516020615d8b833981519152545f80516020615d6b833981519152545f959193906001600160a01b0316803b15610a40575f6040518092637d6e912360e11b82526020600483015281838161158c602482018961574f565b03925af18015610aae576117b5575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025486906001600160a01b0316803b15610c5d57816040518092633263b83b60e01b8252886004830152606060248301528183816115fd606482018a61574f565b631574a45960e31b604483015203925af180156117aa57611792575b508490525f80516020615d2b83398151915280602052604087205461178057848752602052604086208151916001600160401b03831161176c57600160401b831161176c578154838355808410611746575b5060200190875260208720965b828110611732576020878780886116e9896116a05f80516020615d8b83398151915254614a91565b5f80516020615d8b83398151915255604051906116bc826147e1565b600435825260018060a01b0387168883015260408201528260608201528383526012875260408320614b71565b6001600160a01b03939093168084526004808652604080862042905551949035907fa5d94d1f466ca4e81201b082df5022d3c60433577d800bd72ccacba444f3be449080a48152f35b60019060208351930192818a015501611678565b8289528360208a2091820191015b818110611761575061166b565b5f8155600101611754565b634e487b7160e01b88526041600452602488fd5b604051633f06d22b60e01b8152600490fd5b61179b906147fc565b6117a657855f611619565b8580fd5b6040513d84823e3d90fd5b6117c09196506147fc565b5f945f61159b565b9050610a6185615a24565b506117dd85615a24565b611486565b505083611491565b6004358352601460205260408320868452602052426040842055611456565b9050611414565b90506020813d60201161183a575b8161182b60209383614845565b81010312610a4057515f6113ad565b3d915061181e565b50602061184d6157a7565b9050611358565b919250506020813d602011611885575b8161187160209383614845565b81010312610a405751829190611351611346565b3d9150611864565b5060206118986157a7565b90506112ea565b60789004600a810290808204600a14901517156118d557606403606481116118d5576112da6112cb63ffffffff805f94166112c5565b634e487b7160e01b82526011600452602482fd5b6118f39042614a84565b6112ac565b5f80516020615d4b83398151915254604051639cd07acb60e01b815260048101929092526005602483015291929091602090839060449082905f906001600160a01b03165af1918215610aae575f926119b8575b506001600160a01b0384168352600960205260408320600401546119919261198b9161197990829061568c565b8181156119a8575b1561199857615c2e565b906154fc565b905f611259565b90506119a2615a77565b90615c2e565b90506119b2615a77565b90611981565b91506020823d6020116119e6575b816119d360209383614845565b81010312610a405790519061198b61194c565b3d91506119c6565b604051633eb0ec4360e11b8152600490fd5b604051634f3e6ca760e01b8152600490fd5b60405162dcbe7960e81b8152600490fd5b604051635ebe45ff60e01b8152600490fd5b503461039c578060031936011261039c576001600160a01b0380611a576150dc565b165f52600c60205260405f205490815f52600b60205260405f2060028101805460ff8116600581101561103d5760028103611b535750611ab7611adf916001600160401b03611aad818360481c16824216614bfb565b9160881c16614c14565b825467ffffffffffffffff60881b191660889190911b67ffffffffffffffff60881b16178255565b805467ffffffffffffffff60481b191681555b600360ff19825416179055600381016001600160401b0342166001600160401b03198254161790555416907fd0923f83d828fe48b7f77aa3870d73181d803dac6237e9932d9015493179ccaf6020611b4983614c3c565b604051908152a380f35b600191500315611af2576040516399ce53b960e01b8152600490fd5b503461039c576020908160031936011261039c57600d5460043592611b9382614b14565b92611ba16040519485614845565b828452611bad83614b14565b84830195601f1994918501368837611bc482614b14565b94611bd26040519687614845565b828652611bde83614b14565b013685870137825b828110611c385750505060405193604085019060408652518091526060850195915b818110611c2257858703848701528580611132898861493b565b8251151587529583019591830191600101611c08565b60018197949701808211611c9957908160019289526010875260408920848a52875260ff60408a205416611c6c8388614b38565b90151590528852601586526040882083895286526040882054611c8f8289614b38565b5201959295611be6565b634e487b7160e01b88526011600452602488fd5b503461039c578060031936011261039c5760206040517f1d93c87416ca7b54f0fb8323167b72760e8e2ec93d48660953897a150f97a8b48152f35b503461039c57611cf7366148c9565b611d02929192614cbf565b818452602092601284526040852091600383019160ff835416611e4c57611d2d611d3b928287614daa565b858082518301019101614a18565b918260ff1992600184825416179055611e25575b805494600182019360018060a01b03958787875416917ff4b3bb4796f49e11bed63c9fafc3314c1802c2896ee8bd1584112eb51eb977bc856040518615158152a4868852601d825260408820549681611e1b575b81611e03575b50611db2578680f35b858752601f8152600260408820920154875252600160408620918254161790555416907ff5753b62e281b0e69c266b50f6e15939d92a514d2b868522de36de40f83d9e148380a35f80808080808680f35b9050868852601c82526003604089200154145f611da9565b8715159150611da3565b80548652601085526040862060028201548752855260408620600183825416179055611d4f565b60405163dbde098160e01b8152600490fd5b503461039c5760ff6040602092611e74366147cb565b9082526010855282822090825284522054166040519015158152f35b503461039c57602036600319011261039c576020906040906001600160a01b03611eb8614925565b168152601883522054604051908152f35b503461039c57602036600319011261039c576020906040906001600160a01b03611ef1614925565b168152600483522054604051908152f35b503461039c57602080600319360112610c5d576004358252600281526040822060405192838383549182815201908193835284832090835b818110611f975750505084611f50910385614845565b60405193838594850191818652518092526040850193925b828110611f7757505050500390f35b83516001600160a01b031685528695509381019392810192600101611f68565b82546001600160a01b031684529286019260019283019201611f3a565b5034610a40576080366003190112610a40576001600160401b03602435818111610a4057611fe69036906004016149b4565b926044359160ff8316809303610a4057611ffe61499e565b917fc997d117e3c3aff8ec91bc5409fdde5d95a389722413f2216923d83a436bfc6d95865f526020966003885260405f20335f52885260405f2054156122d8575060ff60075416610c4b576001851080156122ce575b6122bc575f92612065913691614866565b92866120b660018060a01b0395865f80516020615d4b83398151915254169060405196878094819363196d0b9b60e01b83526004356004840152336024840152608060448401526084830190615782565b6004606483015203925af1928315610aae575f9361228d575b50835f80516020615d6b8339815191525416803b15610a4057604051630f8e573b60e21b815260048101859052336024820152905f908290604490829084905af18015610aae5761227a575b506121263084615b70565b6121303384615b70565b61213b600d54614a91565b9586600d556040519460a08601958087108388111761226657896003928a986040523383528183018a81526040840191898352600e606086019442865288608088019a169c8d8b528b52526040892094511684549160ff60a01b905160a01b16916affffffffffffffffffffff60a81b1617178355516001830155516002820155019151166001600160401b03198254161790558381526019865260408120805491600160401b8310156122525750906121fa91600182018155614b5c565b81549060031b9086821b915f19901b1916179055604051928352848301526040820152426060820152817f545ea62d850f6252d6cf9c33f94fbdc7c063d2b241175c8fcfa2091037ebe9b960803393a3604051908152f35b634e487b7160e01b81526041600452602490fd5b634e487b7160e01b5f52604160045260245ffd5b6122859192506147fc565b5f905f61211b565b9092508681813d83116122b5575b6122a58183614845565b81010312610a405751915f6120cf565b503d61229b565b60405163eff9b19d60e01b8152600490fd5b5060038511612054565b604490604051906301d4003760e61b82526004820152336024820152fd5b34610a40575f366003190112610a405760ff60075416610c4b576001600160a01b03806123216150dc565b165f52600c60205260405f2054805f52600b60205260405f2060028101805460ff8116600581101561103d5760020361102b57611ab7947f70755113d76d87a34367c35bca7fb2a3a662b7e7cd892e719f474d76d11fb431936020936123a86001600160401b03988561239c8b809860481c16884216614bfb565b96879160881c16614c14565b600170ffffffffffffffff0000000000000000ff1982541617905554169460405191168152a3005b34610a40576123de366148c9565b916123e7614cbf565b805f52602091601a835260405f2091600283019460ff865416611e4c578261240e92614daa565b8281805181010312610a40578201519263ffffffff8416809403610a4057600160ff1982541617905560018060a01b0391828254165f52601881528360405f2055835f526014815260405f2090600183015491825f52815260405f20541561249b575b505054167ff3ec1daf3de432efe603e98e01fda0f5709e72e9af951208c99acec0edb816615f80a3005b845f526014815260405f20915f52524260405f20558380612471565b34610a40576124c5366147cb565b905f52601e60205260405f20905f52602052602060ff60405f2054166040519015158152f35b34610a40576040366003190112610a4057602061252f61250961490f565b6004355f52600360205260405f209060018060a01b03165f5260205260405f2054151590565b6040519015158152f35b34610a40576020366003190112610a40576001600160a01b0361255a614925565b165f526009602052602060405f20541515604051908152f35b34610a4057602080600319360112610a405760043560ff60075416610c4b5761259a6150dc565b6125a381615116565b825f52601c845260405f209160018060a01b03808454161561293c57825f52600b865260018060405f200154868115159182612931575b5050611a00576125ea84876149e1565b61291f575f87835f80516020615d4b8339815191525416604460405180948193639cd07acb60e01b83528760048401528160248401525af1908115610aae575f916128f2575b50945f90600201825b61288c575b505061264a3086615b70565b604051906126578261482a565b808252878201958836883761266b83614b2b565b525f955f80516020615d8b83398151915292835497855f80516020615d6b8339815191525416803b15610a40575f8c604051928391637d6e912360e11b835260048301528183816126bf602482018a61574f565b03925af18015610aae5761287b575b50857f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b15610c5d57816040518092633263b83b60e01b82528c600483015260606024830152818381612727606482018a61574f565b632eeffd2760e01b604483015203925af180156117aa57908291612867575b508990525f80516020615d2b833981519152808c526040822054611780578982528b52604081209151926001600160401b03841161285357600160401b841161285357825484845580851061282c575b509181528a8120905b83811061281b57505050505090816127bb6127ee949354614a91565b9055604051916127ca836147e1565b8683521692838783015260408201525f6060820152835f5285805260405f20614b71565b60405192827fd8e3129c95bd5ac2f25fd98a63e9c8899faaf375042474bc6cfaefe9628ec2e15f80a48152f35b825182820155918b0191840161279f565b85858e868652852092830192015b828110612848575050612796565b5f815501869061283a565b634e487b7160e01b82526041600452602482fd5b612870906147fc565b61039c57808c612746565b61288591506147fc565b5f8b6126ce565b80969196548710156128ea576128a28782614b5c565b90549060031b1c5f526011895260405f20865f52895260405f205480156128d8576128d084939184926154fc565b970191612639565b604051632a7f32c760e01b8152600490fd5b81965061263e565b90508781813d8311612918575b6129098183614845565b81010312610a40575188612630565b503d6128ff565b604051631e8c244b60e21b8152600490fd5b1415905086896125da565b604051637954354d60e11b8152600490fd5b34610a40575f366003190112610a40575f546040516001600160a01b039091168152602090f35b34610a40576020366003190112610a4057612992336004356154ac565b005b34610a40575f366003190112610a405760ff60075416610c4b576001600160a01b036129be6150dc565b165f52600c60205260405f2054805f52600b60205260405f209060028201805460ff8116600581101561103d5760028103612fe75750611ab7612a14916001600160401b03611aad818360481c16824216614bfb565b805467ffffffffffffffff60481b191681555b600460ff198254161790556001600160401b039160038101928042166001600160401b03198554161780945560018060a01b038254165f5260096020528060405f20946004612a7586614c3c565b875486830155960154600785015560401c168015612fde575b168381811015612fd657612aa9600a9163ffffffff93614a84565b04165b60058201548015612fc2575b5f80516020615d4b83398151915254604051630afe14ad60e31b81526004810192909252606460248301819052600160f81b604484015260209183919082905f906001600160a01b03165af1908115610aae575f91612f8c575b5063ffffffff916020918015612f7a575b5f80516020615d4b8339815191525460405163022f65e760e31b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af1908115610aae575f91612f48575b5060068201548015612f34575b5f80516020615d4b83398151915254604051630afe14ad60e31b8152600481019290925260146024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af18015610aae575f90612f02575b5f915060098401548015612ef0575b5f80516020615d4b83398151915254604051630afe14ad60e31b81526004810192909252601e6024830152600160f81b6044830152909260209184916064918391906001600160a01b03165af1908115610aae575f91612eba575b612c569250615289565b8190808215612eaa575b81159182612e98575b602090606460018060a01b035f80516020615d4b8339815191525416965f60405198899485936385362ee760e01b8552600485015260248401528160448401525af1938415610aae575f94612e64575b50908215612e54575b612e42575b602090606460018060a01b035f80516020615d4b8339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af1908115610aae575f91612e0c575b5091612d496020927f738633f9d3d0928850d0ac322fdf7141ebc351ff2af11c2fca14f0d24786548f946106a36157a7565b612d5b60088301918083553090615b70565b612d73600483015460018060a01b0384541690615b70565b612d8b600583015460018060a01b0384541690615b70565b612da3600683015460018060a01b0384541690615b70565b612dbb600783015460018060a01b0384541690615b70565b612dd0815460018060a01b0384541690615b70565b60075460081c6001600160a01b031680612dfb575b5050546040519485526001600160a01b031693a3005b612e059154615b70565b8580612de5565b9290506020833d602011612e3a575b81612e2860209383614845565b81010312610a40579151612d49612d17565b3d9150612e1b565b506020612e4d6157a7565b9050612cc7565b9150612e5e6157a7565b91612cc2565b9093506020813d602011612e90575b81612e8060209383614845565b81010312610a4057519287612cb9565b3d9150612e73565b506020612ea36157a7565b9050612c69565b9250612eb46157a7565b92612c60565b90506020823d602011612ee8575b81612ed560209383614845565b81010312610a4057612c56915190612c4c565b3d9150612ec8565b506020612efb6157a7565b9050612bf1565b506020813d602011612f2c575b81612f1c60209383614845565b81010312610a40575f9051612be2565b3d9150612f0f565b505f6020612f406157a7565b915050612b89565b90506020813d602011612f72575b81612f6360209383614845565b81010312610a40575184612b7c565b3d9150612f56565b506064612f856157a7565b9050612b23565b90506020813d602011612fba575b81612fa760209383614845565b81010312610a40575163ffffffff612b12565b3d9150612f9a565b505f6020612fce6157a7565b915050612ab8565b50505f612aac565b50610e10612a8e565b600191500315612a27576040516399ce53b960e01b8152600490fd5b34610a40576020366003190112610a40576001600160a01b03613024614925565b165f5260096020526020600460405f200154604051908152f35b34610a40576020366003190112610a40576004355f9081526012602090815260409182902080546001820154600283015460039093015485519283526001600160a01b03909116938201939093529283015260ff1615156060820152608090f35b34610a40575f366003190112610a40576130b7614d17565b60075460ff8116610c4b5760019060ff1916176007557f62e78cea01bee320cd4e420270b5ea74000d11b0c9f74754ebdbfc544b05a2586020604051338152a1005b34610a4057613107366147cb565b905f52600f60205260405f20905f52602052602060405f2054604051908152f35b34610a40575f366003190112610a40576008546040516001600160a01b039091168152602090f35b34610a40576080366003190112610a40576004356001600160401b038111610a405761318090369060040161496e565b6024356001600160401b038111610a405761319f90369060040161496e565b6131a761499e565b335f9081527f2b93370627293bc3181c6c73010b1ee9cbdfeb1899027751959246d11ef4b4db60205260409020549092907f1d93c87416ca7b54f0fb8323167b72760e8e2ec93d48660953897a150f97a8b490156122d8575060ff60075416610c4b5783156133eb5761321b601b54614a91565b9384601b55604435155f5b8281106134075750156133eb575f5b8381106133ba57505f858152601c6020526040902080546001600160a01b03191633178155956001600160401b03821161226657600160401b8211612266576001870154826001890155808310613390575b50600187015f5260205f205f5b83811061337c575050505060028501906001600160401b03831161226657600160401b8311612266578154838355808410613356575b50905f5260205f205f5b83811061334257602086866001600160401b0360048b604435600382015501911690816001600160401b031982541617905560405190604435825283820152817f5efe3980c9ff11624b391f52acc032c2d051f3649000877484d48ca1c9620a1360403393a3604051908152f35b6001906020843594019381840155016132d4565b825f528360205f2091820191015b81811061337157506132ca565b5f8155600101613364565b600190602084359401938184015501613294565b600188015f5260205f20908382015b81830181106133af575050613287565b5f815560010161339f565b6133c5818585614b4c565b355f52601d60205260405f20548681159182156133fd575b50506133eb57600101613235565b60405163353cbf1760e01b8152600490fd5b14905086896133dd565b61341281848a614b4c565b355f818152600e60205260409020546001600160a01b031615611a2357805f52601d8060205260405f20546133eb57815f526020528760405f20556044351461345e575b600101613226565b60019150613456565b34610a40575f366003190112610a40576001546001600160a01b039081811633036134e1576134d8915f54908116916001600160601b0360a01b9182339116175f551660015533817f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e05f80a361537a565b61299233614fbf565b604051630614e5c760e21b8152600490fd5b34610a4057602080600319360112610a405760043560ff60075416610c4b5761351a6150dc565b81151580613708575b61293c576001600160a01b0381165f818152600c85526040808220548252600b865290206002015490929060ff16600581101561103d57600181149081156136fd575b506136eb57613699613579600a54614a91565b9283600a55835f52600b865261364160405f20866001600160601b0360a01b825416178155846001820155600281016001815468ffffffffffffffff004260081b169068ffffffffffffffffff191617179055845f52601c8852600460405f200154600382019067ffffffffffffffff60401b82549160401b169067ffffffffffffffff60401b19161790556115086136106157a7565b600583019081556115086136226157a7565b916006850192835560096136346157a7565b9501948555543090615b70565b845f52600c86528360405f20556009865260405f2061365e6157a7565b81556136686157a7565b60018201556136756157a7565b60028201556136826159d8565b60038201556004613691615a77565b9101556156b5565b60405192807f0a9e7b03db53a6f9075bdaee38600b73390f59337628e549f70ee938b73941265f80a2827f16179d2ae7d0f222358d8b9a730126da72c9a3c322b695c25d9a67dcbad4b7455f80a48152f35b604051631dda829f60e31b8152600490fd5b600291501485613566565b505f828152601c845260409020546001600160a01b031615613523565b34610a40575f366003190112610a405760206040515f80516020615dab8339815191528152f35b34610a40575f366003190112610a40576020600a54604051908152f35b34610a40575f366003190112610a40576020600d54604051908152f35b34610a40575f366003190112610a405760ff8060075416610c4b576137a96150dc565b6137b281615116565b906040516137bf8161480f565b60603682375f915f5b85811690600382101561383357600182019187831161381f576137ec8893886152b2565b6137f68287614aef565b528515613808575b50600101166137c8565b60019195506138179085614aef565b5194906137fe565b634e487b7160e01b5f52601160045260245ffd5b5050918015613c90575f5b858116600381101561389d5761386a8161385d63ffffffff9387614aef565b511561388c575b85614aef565b511161387a57600101851661383e565b6040516343b6286f60e11b8152600490fd5b846138978288614aef565b52613864565b5f8686866138aa82615350565b60018060a01b03905f80516020615d4b833981519152928284541693604051639cd07acb60e01b92838252604660048301526024966004888401528260448160209d8e945af1918215610aae575f92613c5f575b5061390b600492866151a7565b938a88604463ffffffff935f8b6139278760408a015116615989565b995416604051988995869485526028828601528401525af18015610aae578b935f91613c2c575b50816139736106a39594936139696106a39461397b9b6151a7565b9585015116615989565b925116615989565b926139863085615b70565b604051936139938561482a565b600180865287860191883684376139a987614b2b565b525f905f80516020615d8b83398151915291825497865f80516020615d6b8339815191525416803b15610a40575f896139fe928e83604051809681958294637d6e912360e11b8452600484015282018961574f565b03925af18015610aae57613c19575b50867f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b15613c1557826040518092633263b83b60e01b82528c600483015260608c830152818381613a65606482018961574f565b632543ebdf60e21b604483015203925af18015613c0a57908391613bf6575b508990525f80516020615d2b833981519152808c526040832054611780578983528b52604082209051916001600160401b0395868411613be357600160401b8411613be3578254848455848e828210613bbb575b5050509181528b8120905b838110613baa575050505050613af98154614a91565b9055604051936060850191821185831017613b9757509180600292613b6a9594604052169586845287840190815260408401915f8352865f52601a895260405f209451166001600160601b0360a01b85541617845551600184015551151591019060ff801983541691151516179055565b60405191817fedfe21933bc1e9422986325edcf443aac32c186738121bc592098ee44c7513915f80a38152f35b634e487b7160e01b5f9081526041600452fd5b825182820155918c01918401613ae3565b8585528420918201918791015b828110613bd8575050848e613ad8565b5f8155018690613bc8565b634e487b7160e01b825260416004528982fd5b613bff906147fc565b610c5d57818c613a84565b6040513d85823e3d90fd5b8280fd5b613c249192506147fc565b5f908b613a0d565b848194939592503d8311613c58575b613c458183614845565b81010312610a405790518a92908161394e565b503d613c3b565b91508982813d8311613c89575b613c768183614845565b81010312610a405790519061390b6138fe565b503d613c6c565b604051630a4aceeb60e01b8152600490fd5b34610a40576020366003190112610a40576004355f908152601c6020526040902080546001600160a01b0316801561293c5760038201546001600160401b03600484015416613d2c613d026002613cfb60018801614a9f565b9601614a9f565b613d1e604051968796875260a0602088015260a087019061493b565b90858203604087015261493b565b91606084015260808301520390f35b34610a4057613d49366147cb565b905f52601460205260405f20905f52602052602060405f2054604051908152f35b34610a4057602080600319360112610a405760043560ff60075416610c4b57613d916150dc565b90613d9b82615116565b5f828152600e855260409020546001600160a01b03929190831615611a2357815f526013855260405f20815f52855260405f20549283156142a4575b5f9083825260148752604082208383528752604082205415614289575b83825260148752604082208383528752610384613e15604084205442614a84565b1015905f80516020615d4b833981519152918183541660405197639cd07acb60e01b98898152600660048201528b816024946004868301528160449a8b925af1908115610aae575f9161425a575b50613e6f5f91836151a7565b8c86885416898d604051958693849283526002600484015260028a8401525af18015610aae5788925f91614225575b506106a3613eb8613ec89495613eb26157f9565b906151a7565b613ec0615847565b6106a361589a565b98848b16998a5f5260098d528c60405f2054613ee26158ed565b908015614217575b8115614203575b6064905f8a8c541681604051998a968795637210768160e01b875260048701528c8601528401525af18015610aae578d935f916141d0575b5090613f3a613f4092613ec0615847565b9061525a565b936141b8575b905f9187868854169160405194859384928352600360048401526002888401525af18015610aae578b915f91614189575b50808415614179575b1561416b575b606485875416945f60405196879485936304559f7160e01b8552600485015287840152818b8401525af1988915610aae578a925f9a614137575b50613fd590613fcf308c615b70565b8a615b70565b865f526016825260405f20865f5282528860405f2055865f526015825260405f20865f52825260405f206140098154614a91565b9055855f52600b8252600960405f20019384549561402561589a565b948b928c15614127575b8615614109575b915f80926064959454169160405198899788966336024b2f60e21b885260048801528601528401525af1908115610aae575f916140da575b506140949261062d61408a9261408261593b565b6106a36157a7565b8091553090615b70565b815f526015855260405f20905f5284527fe61e0b66a27e2bf56baf6ceb4125806949464569fe465584ca3da61e9a8bab1d8460405f2054604051908152a3604051908152f35b90508781813d8311614102575b6140f18183614845565b81010312610a40575161409461406e565b503d6140e7565b9550606492915f809261411a61589a565b9892949550925050614036565b925061413161589a565b9261402f565b838194929b503d8311614164575b61414f8183614845565b81010312610a4057613fd58a92519990613fc0565b503d614145565b5061417461589a565b613f86565b935061418361589a565b93613f80565b82819392503d83116141b1575b6141a08183614845565b81010312610a40578a90518c613f77565b503d614196565b92906141c75f92613f3a615847565b93909150613f46565b8481939592503d83116141fc575b6141e88183614845565b81010312610a4057518c9290613f3a613f29565b503d6141de565b9050606461420f6157a7565b919050613ef1565b506142206157a7565b613eea565b8093508e8092503d8311614253575b61423e8183614845565b81010312610a405790518791906106a3613e9e565b503d614234565b90508b81813d8311614282575b6142718183614845565b81010312610a405751613e6f613e63565b503d614267565b83825260148752604082208383528752426040832055613df4565b92505f6142af6157a7565b939050613dd7565b34610a40575f366003190112610a405760206040517fc997d117e3c3aff8ec91bc5409fdde5d95a389722413f2216923d83a436bfc6d8152f35b34610a40576020366003190112610a405760a061430f600435614a30565b926040929192519485526020850152604084015260608301526080820152f35b34610a40575f366003190112610a4057602060405160148152f35b34610a40575f366003190112610a4057602060ff600754166040519015158152f35b34610a40576020366003190112610a40576001600160a01b0361438d614925565b165f526005602052602060405f2054604051908152f35b34610a40576020366003190112610a40576004356143c0614d6f565b80156143ff5760407f6f05c070768300be3a8ec47b18efd326d94912ec5cf3f8bd7488e1c66d61e8bf91600654908060065582519182526020820152a1005b604051637475d84d60e11b8152600490fd5b34610a40575f366003190112610a405760206040516103848152f35b34610a40575f366003190112610a40576020604051610e108152f35b34610a40576020366003190112610a4057600435805f52600b60205260405f2060018060a01b038154169060018101549260028201549360ff851661449a60036001600160401b0395015493614c3c565b916040519586526020860152600581101561103d5760e0958491604087015260081c166060850152828216608085015260a084015260401c1660c0820152f35b34610a40575f366003190112610a40576144f2614d17565b60ff19600754166007557f5db9ee0a495bf2e6ff9c91a7834c1ba4fdd244a5e8aa4e537bd38aeae4b073aa6020604051338152a1005b34610a40575f366003190112610a40576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b34610a40576040366003190112610a405761299260043561458b61490f565b9061459581614f77565b61507d565b34610a40576145a8366148c9565b6145b3929192614cbf565b815f5260209081805260405f2093600385019360ff855416611e4c576145eb92826145dd92614daa565b828082518301019101614a18565b60ff19926001848254161790556145fe57005b82545f52601e815260405f209060028401545f5252600160405f20918254161790558054906001808060a01b0391015416907feb74f1bea02ccd2b31b25985e27682595ff3d582cf8125ba51a0e0e5ec5559135f80a3005b34610a40576020366003190112610a40576004355f908152600e6020526040902080546001600160a01b038116908115611a235782600260a094015460ff6001600160401b03600360018501549401541693604051958652861c166020850152604084015260608301526080820152f35b34610a40575f366003190112610a40576020604051601e8152f35b34610a4057602061252f6146f5366147cb565b906149e1565b34610a40575f366003190112610a405760206040517f68e79a7bf1e0bc45d0a330c573bc367f9cf464fd326078812f301165fbda4ef18152f35b34610a4057614743366147cb565b905f52601660205260405f20905f52602052602060405f2054604051908152f35b34610a40576020366003190112610a40576004355f52601a602052606060405f2060018060a01b038154169060ff600260018301549201541690604051928352602083015215156040820152f35b34610a40575f366003190112610a405780606460209252f35b6040906003190112610a40576004359060243590565b608081019081106001600160401b0382111761226657604052565b6001600160401b03811161226657604052565b606081019081106001600160401b0382111761226657604052565b604081019081106001600160401b0382111761226657604052565b90601f801991011681019081106001600160401b0382111761226657604052565b9291926001600160401b038211612266576040519161488f601f8201601f191660200184614845565b829481845281830111610a40578281602093845f960137010152565b9080601f83011215610a40578160206148c693359101614866565b90565b6060600319820112610a4057600435916001600160401b03602435818111610a4057836148f8916004016148ab565b92604435918211610a40576148c6916004016148ab565b602435906001600160a01b0382168203610a4057565b600435906001600160a01b0382168203610a4057565b9081518082526020808093019301915f5b82811061495a575050505090565b83518552938101939281019260010161494c565b9181601f84011215610a40578235916001600160401b038311610a40576020808501948460051b010111610a4057565b606435906001600160401b0382168203610a4057565b9181601f84011215610a40578235916001600160401b038311610a405760208381860195010111610a4057565b5f52601c602052600260405f200154159081156149fc575090565b9050601e60205260405f20905f5260205260ff60405f20541690565b90816020910312610a4057518015158103610a405790565b5f52600b60205260405f209060ff600283015416600581101561103d57600403614a7757600482015460058301546006840154600785015460089095015492949193909290565b5f91508190819081908190565b9190820391821161381f57565b5f19811461381f5760010190565b90604051918281549182825260209260208301915f5260205f20935f905b828210614ad557505050614ad392500383614845565b565b855484526001958601958895509381019390910190614abd565b906003811015614b005760051b0190565b634e487b7160e01b5f52603260045260245ffd5b6001600160401b0381116122665760051b60200190565b805115614b005760200190565b8051821015614b005760209160051b010190565b9190811015614b005760051b0190565b8054821015614b00575f5260205f2001905f90565b60036060614ad393805184556001840160018060a01b036020830151166001600160601b0360a01b825416179055604081015160028501550151151591019060ff801983541691151516179055565b6001600160a01b03165f9081527fa665d3385c074a5fa4bcec2a570c94dbdb08d6b09bca4e08f8c3951c94a3d9986020526040902054151590565b6001600160401b03918216908216039190821161381f57565b9190916001600160401b038080941691160191821161381f57565b9190820180921161381f57565b5f52600b60205260405f20600281015460ff811691600583101561103d578215614cb857600301546148c6926001600160401b03918216908115614c975750614c8c905b828460081c1690614a84565b9160881c1690614a84565b600214159050614caf57614c8c818360481c16614c80565b614c8c42614c80565b5050505f90565b335f9081527ff89466c3aa8f23377c6aace9f611fcee97b80cbfca673b5d358db167957bd96060205260409020547f68e79a7bf1e0bc45d0a330c573bc367f9cf464fd326078812f301165fbda4ef190156122d85750565b335f9081527f30adeb818ef77f204f5a603c30fa5332397b6e28fb3b7f9d937ae6a6914716de60205260409020547f65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a90156122d85750565b614d7833614bc0565b15614d7f57565b6040516301d4003760e61b81525f80516020615dab8339815191526004820152336024820152604490fd5b9190825f525f80516020615d2b83398151915291602091838352604093845f205415614f6657855f528352835f209084518083868295549384815201905f52865f20925f5b88828210614f5057505050614e0692500383614845565b80518085019081861161381f57860180911161381f57614ea75f8694614e5589614eba9681519681614e4189935180928d808701910161572e565b8201908a8201520388810187520185614845565b614ec960018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497035416948a51988997889687956378542ead60e01b875260606004880152606487019061574f565b6003199384878303016024880152615782565b91848303016044850152615782565b03925af1918215614f46575f92614f19575b505015614f0957507f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b5163cf6c44e960e01b8152600490fd5b614f389250803d10614f3f575b614f308183614845565b810190614a18565b5f80614edb565b503d614f26565b83513d5f823e3d90fd5b8554845260019586019588955093019201614def565b845163d66ca67560e01b8152600490fd5b5f80516020615dab833981519152908103614fa057505f546001600160a01b0316330361047757565b805f52600360205260405f20335f5260205260405f2054156122d85750565b614fc881614bc0565b61507a575f80516020615dab83398151915290815f52600260205260405f208054600160401b81101561226657615009816150279360018694018155614b5c565b90919060018060a01b038084549260031b9316831b921b1916179055565b815f52600260205260405f2054600360205260405f209160018060a01b031691825f5260205260405f205533917f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d5f80a4565b50565b906150a681835f52600360205260405f209060018060a01b03165f5260205260405f2054151590565b6150d857815f52600260205260405f208054600160401b81101561226657615009816150279360018694018155614b5c565b5050565b6008546001600160a01b031633148061510b575b6150f8573390565b601319360136811161381f573560601c90565b5060143610156150f0565b60018060a01b03165f52600c60205260405f205490815f52600b60205260405f2060ff600282015416600581101561103d57600103615195576003015460401c6001600160401b03168015159081615182575b5061517057565b604051633a47888760e21b8152600490fd5b905061518d83614c3c565b10155f615169565b604051637ff88aad60e01b8152600490fd5b90811561524a575b8015615238575b602090606460018060a01b035f80516020615d4b8339815191525416935f6040519586948593631391547f60e01b8552600485015260248401528160448401525af1908115610aae575f91615209575090565b90506020813d602011615230575b8161522460209383614845565b81010312610a40575190565b3d9150615217565b5060206152436157a7565b90506151b6565b90506152546157a7565b906151af565b906148c691801561527b575b81615b1c57905061527561589a565b90615b1c565b5061528461589a565b615266565b906148c69180156152a4575b81615b1c5790506152756157a7565b506152ad6157a7565b615295565b91909160ff8093165f52602090601960205260409360405f20948554805b6152de57505f955050505050565b5f19810181811161381f576152f39088614b5c565b90549060031b1c805f5260108652825f20855f52865283835f20541661534a5761531d818661552b565b81615342575b5061533957505b801561381f575f1901806152d0565b96505050505050565b90505f615323565b5061532a565b6001600160a01b03165f9081526017602052604090205490811561537057565b90506148c66158ed565b6001600160a01b039081165f8181527fa665d3385c074a5fa4bcec2a570c94dbdb08d6b09bca4e08f8c3951c94a3d9986020908152604091829020545f80516020615dab8339815191529492919080156154a457855f5260028252825f20908154945f199586810190811161381f576153f39084614b5c565b90549060031b1c1685820182811161381f57816150096154139286614b5c565b875f5260038452845f20905f528352835f20558054938415615490575f9401906154556154408383614b5c565b81549060018060a01b039060031b1b19169055565b5584835260038152818320908484525281205533917ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b5f80a4565b634e487b7160e01b5f52603160045260245ffd5b505050505050565b90815f52602090600382526040805f209260018060a01b0380931693845f528152815f205480156154a457855f5260028252825f20908154945f199586810190811161381f576153f39084614b5c565b906148c691801561551d575b81615bda5790506155176159d8565b90615bda565b506155266159d8565b615508565b919091805f52600b60205260018060405f20015493805f52601d60205260405f205494801515806155d7575b615583575050508215928315615570575b505060019190565b61557b9293506149e1565b905f80615568565b9193945091505f52601c602052600260405f2001905f918054925b8381106155b05750505050505f905f90565b826155bb8284614b5c565b90549060031b1c146155ce57840161559e565b50505050908190565b5080861415615557565b9092916020925f60a460018060a01b0394855f80516020615d4b83398151915254169480604051998a988997889563196d0b9b60e01b875260048701521660248501526080604485015281608485015284840137818101830184905260046064830152601f01601f191681010301925af1908115610aae575f91615209575090565b906148c691801561567e575b81615c2e5790506119a26157a7565b506156876157a7565b61566f565b906148c69180156156a7575b81615bda579050615517615a77565b506156b0615a77565b615698565b614ad39060018060a01b0381165f52600960205260405f206156d981543090615b70565b61572882600183016156ec308254615b70565b61572882600286016156ff308254615b70565b615728826003890195615713308854615b70565b6157288260048c019b6157288d309054615b70565b54615b70565b5f5b83811061573f5750505f910152565b8181015183820152602001615730565b9081518082526020808093019301915f5b82811061576e575050505090565b835185529381019392810192600101615760565b9060209161579b8151809281855285808601910161572e565b601f01601f1916010190565b5f80516020615d4b83398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115610aae575f91615209575090565b5f602060018060a01b035f80516020615d4b8339815191525416604460405180948193639cd07acb60e01b835260036004840152600460248401525af1908115610aae575f91615209575090565b5f80516020615d4b83398151915254604051639cd07acb60e01b8152600160048201526002602482015290602090829060449082905f906001600160a01b03165af1908115610aae575f91615209575090565b5f80516020615d4b83398151915254604051639cd07acb60e01b81525f60048201819052600260248301529091602091839160449183916001600160a01b03165af1908115610aae575f91615209575090565b5f602060018060a01b035f80516020615d4b8339815191525416604460405180948193639cd07acb60e01b835260326004840152600460248401525af1908115610aae575f91615209575090565b5f602060018060a01b035f80516020615d4b8339815191525416604460405180948193639cd07acb60e01b835260016004840152600460248401525af1908115610aae575f91615209575090565b60205f91604460018060a01b035f80516020615d4b8339815191525416916040519485938492639cd07acb60e01b84526004840152600460248401525af1908115610aae575f91615209575090565b5f602060018060a01b035f80516020615d4b8339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af1908115610aae575f91615209575090565b5f80516020615d4b83398151915254604051639cd07acb60e01b815260048101929092525f6024830181905260209183916044918391906001600160a01b03165af1908115610aae575f91615209575090565b5f80516020615d4b83398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115610aae575f91615209575090565b9060646020925f60018060a01b035f80516020615d4b83398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af1908115610aae575f91615209575090565b90602090606460018060a01b035f80516020615d4b8339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115610aae575f91615209575090565b5f80516020615d6b833981519152546001600160a01b031691823b15610a4057604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290818381604481015b03925af18015610aae57615bd15750565b614ad3906147fc565b90602090606460018060a01b035f80516020615d4b8339815191525416935f604051958694859363d99882d560e01b8552600485015260248401528160448401525af1908115610aae575f91615209575090565b90602090606460018060a01b035f80516020615d4b8339815191525416935f604051958694859363f77f3f1d60e01b8552600485015260248401528160448401525af1908115610aae575f91615209575090565b90602090606460018060a01b035f80516020615d4b8339815191525416935f60405195869485936363a2db2960e01b8552600485015260248401528160448401525af1908115610aae575f91615209575090565b5f80516020615d6b833981519152546001600160a01b031691823b15610a4057604051630f8e573b60e21b815260048101929092526001600160a01b03166024820152905f90829081838160448101615bc056fe878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00a49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c21775a164736f6c6343000818000a60a060405234610197575f606061001461019b565b828152826020820152826040820152015261002d61019b565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970391825416179055610e105f55336080526040516119f290816101cf82396080518181816101840152818161096f01528181610ac701528181610c520152818161118901528181611431015281816115f701526116cc0152f35b5f80fd5b60405190608082016001600160401b038111838210176101ba57604052565b634e487b7160e01b5f52604160045260245ffdfe6080806040526004361015610012575f80fd5b5f905f3560e01c90816325e36c80146112765750806340e58ee51461109f57806370dea79a14611083578063a79f2d5314610be5578063ad35efd414610bb8578063b65e894114610af6578063c3fe3e2814610ab2578063c58a34cc14610948578063c8c01a5514610168578063da1f12ab1461014b5763f05bfa7b14610097575f80fd5b3461014857602080600319360112610144576001600160a01b036100b961136f565b168252600381526040822060405192838383549182815201908193835284832090835b81811061013057505050846100f29103856112ec565b60405193838594850191818652518092526040850193925b82811061011957505050500390f35b83518552869550938101939281019260010161010a565b8254845292860192600192830192016100dc565b5080fd5b80fd5b503461014857806003193601126101485760206040516127118152f35b50346108925760403660031901126108925761018261136f565b7f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03163303610936576101bb816115a0565b6101c3611860565b915f6101cd611860565b936101d6611860565b5f805160206119c683398151915254604051636baeb74560e11b8152600481018590529360209185916024918391906001600160a01b03165af1908115610887575f91610900575b610249935060405196610230886112be565b8388526020880152604087015260608601528351611734565b9261025d6020840151602083015190611734565b6102706040850151604084015190611734565b606085015191606084015183156108f0575b80156108de575b602090606460018060a01b035f805160206119c68339815191525416955f60405197889485936322d273ad60e21b8552600485015260248401528160448401525af1928315610887575f936108aa575b506102e430886118ab565b6102ee30826118ab565b6102f830836118ab565b61030230846118ab565b604051968760a08101106001600160401b0360a08a0111176107c85760a088016040526004885260803660208a013787511561089657602088015286516001101561089657604087015285516002101561089657606086015284516003101561089657608085015261037383611682565b927f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00549460018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b15610892575f6040518092637d6e912360e11b8252602060048301528183816103ef6024820189611808565b03925af1801561088757610874575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025487906001600160a01b0316803b1561014457816040518092633263b83b60e01b82528a600483015260606024830152818381610460606482018a611808565b63a79f2d5360e01b604483015203925af1801561086957610851575b508690527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01602052604087205461083f578587527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01602052604087208151916001600160401b03831161082b57600160401b831161082b578154838355808410610804575b5060200190885260208820885b8381106107f057505050507f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00545f1981146107dc576001017f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00556040518060c08101106001600160401b0360c0830111176107c85760c08101604052602435815260018060a01b0384166020820152604081016001600160401b034216815260608201926001845286608084015260a0830152868852600160205260408820928251845560018060a01b036020840151166001850154926001600160401b0360a01b905160a01b16915160058110156107b45760a06060956106ea98958a9895600695899560ff60e01b9060e01b169262ffffff60e81b1617171760018601556080810151600286015501518051600385015560208101516004850155604081015160058501550151910155868852600260205261069360408920825190818155602084015160018201556040840151600282015560038585015191015530906118ab565b6106a13060208301516118ab565b6106af3060408301516118ab565b6106bc30838301516118ab565b6106c78382516118ab565b6106d58360208301516118ab565b6106e38360408301516118ab565b01516118ab565b6001600160a01b0381168452600360205260408420805490600160401b8210156107a05784926020968461076061074a8660409660017fe044c24563b458755f1024cfa298c4446ee40724ec9c9686a622d5e8de38bad7990181556113fe565b819391549060031b91821b915f19901b19161790565b90556001600160a01b03919091168082526003885282822054858352600489529183902091909155815160243581528088019590955293a3604051908152f35b634e487b7160e01b86526041600452602486fd5b634e487b7160e01b8b52602160045260248bfd5b634e487b7160e01b5f52604160045260245ffd5b634e487b7160e01b87526011600452602487fd5b60019060208451940193818401550161050e565b828a5260208a20908482015b8183018110610820575050610501565b5f8155600101610810565b634e487b7160e01b89526041600452602489fd5b604051633f06d22b60e01b8152600490fd5b61085a906112d9565b61086557865f61047c565b8680fd5b6040513d84823e3d90fd5b61087f9197506112d9565b5f955f6103fe565b6040513d5f823e3d90fd5b5f80fd5b634e487b7160e01b5f52603260045260245ffd5b9092506020813d6020116108d6575b816108c6602093836112ec565b810103126108925751915f6102d9565b3d91506108b9565b5060206108e9611927565b9050610289565b92506108fa611927565b92610282565b90506020833d60201161092e575b8161091b602093836112ec565b810103126108925761024992519061021e565b3d915061090e565b60405163ba160f4360e01b8152600490fd5b346108925760208060031936011261089257604051631d6c8e3f60e21b81526004803592917f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316918390829081855afa80156108875783915f91610a81575b50604051632474521560e21b815260048101919091523360248201529182908180604481015b03915afa908115610887575f91610a4c575b5015610a3a578115610a285760407fae6b175fb92013c9ed36b191bd7e08284b5ea1f06b2df16a55530acc3124427591835f54918351928352820152a15f55005b604051631ffb86f160e21b8152600490fd5b60405163ea8e4eb560e01b8152600490fd5b90508181813d8311610a7a575b610a6381836112ec565b8101031261089257610a7490611385565b836109e7565b503d610a59565b82819392503d8311610aab575b610a9881836112ec565b81010312610892575182906109d56109af565b503d610a8e565b34610892575f366003190112610892576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b34610892576020366003190112610892576004355f52600160205261012060405f208054906001810154906002810154604051610b32816112be565b6003830154815260048301549160208201928352610b986006600586015495604085019687520154956060840196875260405197885260018060a01b03811660208901526001600160401b038160a01c16604089015260ff606089019160e01c16611362565b60808601525160a08501525160c08401525160e083015251610100820152f35b34610892576020366003190112610892576020610bd66004356113a3565b610be36040518092611362565bf35b3461089257600319606036820112610892576004356001600160401b0360243581811161089257610c1a90369060040161130d565b9060443590811161089257610c3390369060040161130d565b6040516307e2cea560e01b815290936001600160a01b039290916020907f00000000000000000000000000000000000000000000000000000000000000008516908281600481855afa80156108875783915f91611052575b50604051632474521560e21b815260048101919091523360248201529182908180604481015b03915afa908115610887575f9161101d575b501561100b57845f526001906001815260405f2096600188019260ff845460e01c166005811015610ff7578015610fe55760038114610fd357600414610fc157875f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0180845260405f205415610faf57885f52835260405f209060405190819283918682549485815201915f52865f20905f5b88868210610f995750505050610d6f925003826112ec565b84519586840196878511610f8557604001809711610f8557839160405180885199858a019a8b81888501610da2926117e7565b82019086820152038481018252604001610dbc90826112ec565b897f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703541691604051958694859384936378542ead60e01b8552600485016060905260648501610e0a91611808565b82858203016024860152610e1d9161183b565b90838203016044840152610e309161183b565b03915a905f91f1908115610887575f91610f50575b5015610f3e57857f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a281549085821693610e88610e83866115a0565b611682565b60028a0154141593608082805181010312610892577f4adc3f4ae0f830eee2c021f3c6a77d117b62982fbc165e74a217c1290936362d97610eca60c098611392565b91610f0a8b610edb60408701611392565b99610ef46080610eed60608a01611392565b9801611385565b60ff60e01b19909916600360e01b1784556114cd565b541699549560405196875263ffffffff9384809316908801521660408601521660608401521515608083015260a0820152a3005b60405163cf6c44e960e01b8152600490fd5b90508181813d8311610f7e575b610f6781836112ec565b8101031261089257610f7890611385565b88610e45565b503d610f5d565b634e487b7160e01b5f52601160045260245ffd5b8354855287955090930192918101918101610d57565b60405163d66ca67560e01b8152600490fd5b604051631c79e44b60e31b8152600490fd5b60405163dbde098160e01b8152600490fd5b604051636d08029760e01b8152600490fd5b634e487b7160e01b5f52602160045260245ffd5b604051631bc2178f60e01b8152600490fd5b90508181813d831161104b575b61103481836112ec565b810103126108925761104590611385565b87610cc3565b503d61102a565b82819392503d831161107c575b61106981836112ec565b8101031261089257518290610cb1610c8b565b503d61105f565b34610892575f3660031901126108925760205f54604051908152f35b346108925760208060031936011261089257600435805f5260018252600160405f20019182549060ff8260e01c166005811015610ff75715610fe5576110e3611413565b6001600160a01b038082169590918483169087821415908161117a575b50610a3a5761110e866113a3565b6005811015610ff7576002036111685760ff60e01b19909416600160e21b1781557f7b1b5d70e42b132e612ebe8069dca1a19bdd6df02002ad175359b1970f82fefa9361115c9086906114cd565b541693604051908152a3005b604051636c804b5d60e01b8152600490fd5b60405163568ef78f60e11b81527f000000000000000000000000000000000000000000000000000000000000000086169250908682600481865afa80156108875787925f91611243575b50604051632474521560e21b815260048101919091526001600160a01b0390911660248201529182908180604481015b03915afa908115610887575f9161120e575b501588611100565b90508481813d831161123c575b61122581836112ec565b810103126108925761123690611385565b88611206565b503d61121b565b83819492503d831161126f575b61125a81836112ec565b810103126108925790518691906111f46111c4565b503d611250565b34610892576020366003190112610892576080906004355f52600260205260405f20805490600181015460036002830154920154928452602084015260408301526060820152f35b608081019081106001600160401b038211176107c857604052565b6001600160401b0381116107c857604052565b90601f801991011681019081106001600160401b038211176107c857604052565b81601f82011215610892578035906001600160401b0382116107c85760405192611341601f8401601f1916602001856112ec565b8284526020838301011161089257815f926020809301838601378301015290565b906005821015610ff75752565b600435906001600160a01b038216820361089257565b5190811515820361089257565b519063ffffffff8216820361089257565b5f526001602052600160405f20015460ff8160e01c16906005821015610ff7576001821490816113dc575b506113d65790565b50600290565b6001600160401b03915060a01c165f548101809111610f85574210155f6113ce565b8054821015610896575f5260205f2001905f90565b604051637da0a87760e01b81526001600160a01b03906020816004817f000000000000000000000000000000000000000000000000000000000000000086165afa908115610887575f91611492575b5016331480611487575b611474573390565b6013193601368111610f85573560601c90565b50601436101561146c565b90506020813d6020116114c5575b816114ad602093836112ec565b8101031261089257518181168103610892575f611462565b3d91506114a0565b60018060a01b03165f52600360205260405f2090805f526004918260205260405f2054908054915f199283810190811161158d5761150b90836113fe565b90549060031b1c83820182811161157a5761152a61074a8392866113fe565b90555f528460205260405f2055805480156115675782019161154c83836113fe565b909182549160031b1b19169055555f526020525f6040812055565b603185634e487b7160e01b5f525260245ffd5b601187634e487b7160e01b5f525260245ffd5b601186634e487b7160e01b5f525260245ffd5b906040516115ad816112be565b5f80825260208201818152604080840183815260608501938452905163c01ca43f60e01b81526001600160a01b0396871660048201529395909386939291608090829060249082907f0000000000000000000000000000000000000000000000000000000000000000165afa948515610887575f955f945f935f92611634575b5052525252565b955096505090506080833d60801161167a575b81611654608093836112ec565b81010312610892578251906020840151956060604086015195015192969492905f61162d565b3d9150611647565b60405161168e816112be565b815181526060602092602081015160208401526040810151604084015201516060820152604051906020820192835f905b6004821061171f575050507f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031660a08381019190915282525060c081016001600160401b038111828210176107c85760405251902090565b828060019286518152019401910190926116bf565b9081156117d7575b80156117c5575b602090606460018060a01b035f805160206119c68339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115610887575f91611796575090565b90506020813d6020116117bd575b816117b1602093836112ec565b81010312610892575190565b3d91506117a4565b5060206117d0611973565b9050611743565b90506117e1611973565b9061173c565b5f5b8381106117f85750505f910152565b81810151838201526020016117e9565b9081518082526020808093019301915f5b828110611827575050505090565b835185529381019392810192600101611819565b90602091611854815180928185528580860191016117e7565b601f01601f1916010190565b5f805160206119c683398151915254604051636baeb74560e11b815260048082015290602090829060249082905f906001600160a01b03165af1908115610887575f91611796575090565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b1561089257604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156108875761191c5750565b611925906112d9565b565b5f602060018060a01b035f805160206119c68339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af1908115610887575f91611796575090565b5f805160206119c683398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115610887575f9161179657509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c6343000818000a2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d";
+
+type AIEscapeFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: AIEscapeFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class AIEscapeFHE__factory extends ContractFactory {
+  constructor(...args: AIEscapeFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      AIEscapeFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): AIEscapeFHE__factory {
+    return super.connect(runner) as AIEscapeFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): AIEscapeFHEInterface {
+    return new Interface(_abi) as AIEscapeFHEInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): AIEscapeFHE {
+    return new Contract(address, _abi, runner) as unknown as AIEscapeFHE;
+  }
+}
@@ -0,0 +1,620 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../common";
+import type {
+  EscapeLeaderboard,
+  EscapeLeaderboardInterface,
+} from "../EscapeLeaderboard";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract AIEscapeFHE",
+        name: "_game",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "AlreadyPosted",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "AlreadyRevealed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "EntryNotFound",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotEntryPlayer",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOracle",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "RankBatchTooSmall",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayAttempt",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ScoreNotShared",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "SessionNotFinished",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownRequest",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "entryId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "passEnd",
+        type: "uint256",
+      },
+    ],
+    name: "RankPassStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "entryId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "rankedThrough",
+        type: "uint256",
+      },
+    ],
+    name: "RankUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "entryId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "roomId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+    ],
+    name: "ScorePosted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "entryId",
+        type: "uint256",
+      },
+    ],
+    name: "ScoreRevealRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "entryId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "roomId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "score",
+        type: "uint32",
+      },
+    ],
+    name: "ScoreRevealed",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_RANK_BATCH",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_RANK_MIX",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "entryCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "game",
+    outputs: [
+      {
+        internalType: "contract AIEscapeFHE",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "entryId",
+        type: "uint256",
+      },
+    ],
+    name: "getEncryptedScore",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "entryId",
+        type: "uint256",
+      },
+    ],
+    name: "getEntry",
+    outputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "roomId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "finishedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "playSeconds",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "revealRequested",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "revealed",
+        type: "bool",
+      },
+      {
+        internalType: "uint32",
+        name: "revealedScore",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "entryId",
+        type: "uint256",
+      },
+    ],
+    name: "getRank",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "beaten",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "rankedThrough",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "boardSize",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "newRivals",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "passNext",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "passEnd",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "roomId",
+        type: "uint256",
+      },
+    ],
+    name: "getRoomEntries",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+    ],
+    name: "postScore",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "entryId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "revealCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "revealRequests",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "entryId",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "entryId",
+        type: "uint256",
+      },
+    ],
+    name: "revealScore",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "sessionEntry",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "entryId",
+        type: "uint256",
+      },
+    ],
+    name: "updateRank",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "rankedThrough",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a0346101b757601f6117fa38819003918201601f19168301916001600160401b038311848410176101bb578084926020946040528339810103126101b757516001600160a01b03811681036101b7575f606061005a6101cf565b82815282602082015282604082015201526100736101cf565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703918254161790555f805560805260405161160b90816101ef82396080518181816101d9015281816109360152610b4f0152f35b5f80fd5b634e487b7160e01b5f52604160045260245ffd5b60405190608082016001600160401b038111838210176101bb5760405256fe6080806040526004361015610012575f80fd5b5f9060e05f35811c9182630cbb0f8314611357575081635f83767714610edf5781636a4d395414610eb5578163825d8cf114610e9a57816384f0af3414610b17578163a5099bae14610a7a578163ae63680514610a4d578163b9f1678e14610a15578163bae78d7b1461096557508063c3fe3e2814610921578063c8bd5b6a14610907578063d41aa186146105c4578063da1f12ab146105a7578063f0fc45801461016b5763fd10dabb146100c5575f80fd5b3461016857602080600319360112610164576004358252600281526040822060405192838383549182815201908193835284832090835b8181106101505750505084610112910385611384565b60405193838594850191818652518092526040850193925b82811061013957505050500390f35b83518552869550938101939281019260010161012a565b8254845292860192600192830192016100fc565b5080fd5b80fd5b503461016857600319606036820112610164576004356024359167ffffffffffffffff928381116105a3576101a49036906004016113a6565b926044359081116105a3576101bd9036906004016113a6565b6040516307e2cea560e01b81526001600160a01b0392916020917f00000000000000000000000000000000000000000000000000000000000000008516908381600481855afa80156104b55784918a9161056e575b50604051632474521560e21b815260048101919091523360248201529182908180604481015b03915afa908115610563578891610546575b50156105345784875260058252604087209586541561052257600191600188019460ff86541661051057878a527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0180865260408b2054156104fe57888b5285526040808b2090518154808252918c52868c2090958691828901918e5b8a8682106104e857505050506102de92500385611384565b825193848601948587116104d4576040018095116104c05790859160405180865197858801988087840190610313918c611598565b8201908682015203848101825260400161032d9082611384565b8c8a7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703541692604051968795869485936378542ead60e01b855260048501606090526064850161037c91611565565b8285820301602486015261038f916115b9565b908382030160448401526103a2916115b9565b03925af19081156104b5578991610488575b5015610476578290604051967f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d8a80a280518101031261047257519363ffffffff85169586860361046e577facda94ec521517865b82d6829f8d63d729c6000b63bca1c1b4ea6dd7b3963ebc93600160ff1982541617905580548852600183526040882095610100600588019165ffffffff000083549160101b169065ffffffffff0019161717905554936002860154955416958152a480f35b8780fd5b8680fd5b60405163cf6c44e960e01b8152600490fd5b6104a89150843d86116104ae575b6104a08183611384565b81019061142c565b5f6103b4565b503d610496565b6040513d8b823e3d90fd5b634e487b7160e01b8b52601160045260248bfd5b634e487b7160e01b8c52601160045260248cfd5b835485528a9550909301929181019181016102c6565b60405163d66ca67560e01b8152600490fd5b60405163dbde098160e01b8152600490fd5b604051636d08029760e01b8152600490fd5b604051631bc2178f60e01b8152600490fd5b61055d9150833d85116104ae576104a08183611384565b5f61024a565b6040513d8a823e3d90fd5b82819392503d831161059c575b6105858183611384565b8101031261059857518390610238610212565b5f80fd5b503d61057b565b8480fd5b503461016857806003193601126101685760206040516127118152f35b50346105985760209081600319360112610598576004356105e481611444565b9060058201805460ff81166108f557600191600160ff1980931617905560405193604085019267ffffffffffffffff938681108582111761082a57604052600186526004888701928936853701548651156108e15782527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf009182549660018060a01b03807f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b15610598575f8c604051928391637d6e912360e11b835260048301528183816106b9602482018a611565565b03925af180156108d6576108c3575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b156108bf57896040518092633263b83b60e01b82528b6004830152606060248301528183816107206064820189611565565b6301e1f88b60e71b604483015203925af180156108b457908a9161089c575b508890527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808b5260408a205461088a57888a528a526040892090519186831161087657600160401b831161087657815483835580841061084f575b50908952898920895b83811061083e5750505050506107ba815461141e565b90556040519160408301908382109082111761082a5760405282825260ff6001878401938785528688526005895260408820905181550192511515918354169116179055817f9264deb4daf3bc5061ff7e389a88a346cdcb70c03c55d5977773ebb19735e3ca6040519480a38152f35b634e487b7160e01b5f52604160045260245ffd5b825182820155918b019184016107a4565b828b5284848d8d2092830192015b82811061086b57505061079b565b5f815501859061085d565b634e487b7160e01b8a52604160045260248afd5b604051633f06d22b60e01b8152600490fd5b6108a590611370565b6108b057885f61073f565b8880fd5b6040513d8c823e3d90fd5b8980fd5b6108ce919a50611370565b5f985f6106c8565b6040513d5f823e3d90fd5b634e487b7160e01b5f52603260045260245ffd5b60405163a89ac15160e01b8152600490fd5b34610598575f366003190112610598576020604051818152f35b34610598575f366003190112610598576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b34610598576020366003190112610598576004355f52600160205260405f209060018060a01b03825416908115610a035763ffffffff836001610100950154906002810154600382015490600567ffffffffffffffff9301549360405197885260208801526040870152818116606087015260401c16608085015260ff8116151560a085015260ff8160081c16151560c085015260101c1690820152f35b604051635d47e14960e11b8152600490fd5b34610598576020366003190112610598576004355f5260056020526040805f2060ff6001825492015416825191825215156020820152f35b34610598576020366003190112610598576004355f5260016020526020600460405f200154604051908152f35b34610598576020806003193601126105985760c0906004355f526001815260405f209060028201545f526002815260405f2054916004825260405f2060018060a01b038254165f528252610ad260405f2054846113fc565b600682015493610aec6007840154926008850154906113fc565b91600b600a8501549401549460405196875286015260408501526060840152608083015260a0820152f35b3461059857602090816003193601126105985760405163402ff0db60e01b8152600480359082018190526001600160a01b03929091907f00000000000000000000000000000000000000000000000000000000000000008416908083602481855afa9485156108d6575f935f945f915f945f99610e39575b50508233911603610e27576005811015610e1357600403610e0157845f526003875260405f2054610def5760a060249360405194858092630d25ba6960e31b82528960048301525afa9283156108d6575f93610db8575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546040516382027b6d60e01b81526004810185905230602482015291889183916044918391165afa9081156108d6575f91610d9b575b5015610d8957610cec91610c525f5461141e565b95865f55865f526001885260405f2092336bffffffffffffffffffffffff60a01b855416178455866001850155856002850155600384019167ffffffffffffffff6fffffffffffffffff000000000000000084549260401b169216906fffffffffffffffffffffffffffffffff1916171790556004820155610ce46006610cd7611468565b92019180835530906114e9565b3390546114e9565b815f52600384528260405f2055805f526002845260405f208054600160401b81101561082a57610d2191600182018155611409565b81549060031b9085821b915f19901b1916179055805f526004845260405f20335f52845260405f20610d53815461141e565b9055604051918252827f185b5c462782a20c90e0f66396ac69263858d540a4d667beb14571ba592692b0853394a4604051908152f35b604051631559556960e11b8152600490fd5b610db29150873d89116104ae576104a08183611384565b87610c3e565b90925060a0813d60a011610de7575b81610dd460a09383611384565b8101031261059857608001519187610be6565b3d9150610dc7565b60405163e9f155db60e01b8152600490fd5b604051632d87c68b60e11b8152600490fd5b634e487b7160e01b5f52602160045260245ffd5b604051630311fbd760e31b8152600490fd5b945095505050945082813d8311610e93575b610e558183611384565b81010312610598578151848116810361059857858301519460408401519360058510156105985760a060808201519101519296949092968980610b8f565b503d610e4b565b34610598575f36600319011261059857602060405160038152f35b34610598576020366003190112610598576004355f526003602052602060405f2054604051908152f35b3461059857602036600319011261059857610efb600435611444565b60028101545f52600260205260405f2090600b810154156112bb575b600a81019182549260208401918285116112a757600b84015480841161129f575b50600984015494905b838210610fd457602060078686898188610f5b30846114e9565b82600986015555600b8301548214610f7a575b50500154604051908152f35b610f8433826114e9565b60068301558083830155600c82015460088301555f600b83015560405190815233907f3e7274f56124fb8deef4c95bc4ada1f75767f2cf30d025abb8a8a829c7a853cd8560043592a38380610f6e565b9094610fe08683611409565b905460039190911b1c5f908152600160205260409020805486546001600160a01b03908116911614611295576004015460048601548115611285575b8015611273575b602090606460018060a01b035f805160206115df8339815191525416935f6040519586948593637210768160e01b8552600485015260248401528160448401525af19081156108d6575f91611241575b505f602060018060a01b035f805160206115df8339815191525416604460405180948193639cd07acb60e01b835260016004840152600460248401525af180156108d6575f9061120e575b6020915060646110cc611468565b5f805160206115df83398151915254604051637702dcff60e01b8152600481019690965260248601939093526044850152839182905f906001600160a01b03165af19081156108d6575f916111dc575b508082156111cc575b156111ba575b602090606460018060a01b035f805160206115df8339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af180156108d6575f90611187575b60019150955b0190610f41565b506020813d6020116111b2575b816111a160209383611384565b81010312610598576001905161117a565b3d9150611194565b5060206111c5611468565b905061112b565b91506111d6611468565b91611125565b90506020813d602011611206575b816111f760209383611384565b8101031261059857518761111c565b3d91506111ea565b506020813d602011611239575b8161122860209383611384565b8101031261059857602090516110be565b3d915061121b565b90506020813d60201161126b575b8161125c60209383611384565b81010312610598575187611073565b3d915061124f565b50602061127e611468565b9050611023565b905061128f611468565b9061101c565b5094600190611180565b925085610f38565b634e487b7160e01b5f52601160045260245ffd5b8154600460205260405f20335f526020526112da60405f2054826113fc565b906008830154600381018091116112a757821061134557600b830155600c8201555f600a820155611309611468565b6009820155815460405190815233907f43e5422c9f6e5079198628a4de904812d99850cae297432abbb165535435e779602060043592a3610f17565b604051639998511960e01b8152600490fd5b34610598575f366003190112610598576020905f548152f35b67ffffffffffffffff811161082a57604052565b90601f8019910116810190811067ffffffffffffffff82111761082a57604052565b81601f820112156105985780359067ffffffffffffffff821161082a57604051926113db601f8401601f191660200185611384565b8284526020838301011161059857815f926020809301838601378301015290565b919082039182116112a757565b80548210156108e1575f5260205f2001905f90565b5f1981146112a75760010190565b90816020910312610598575180151581036105985790565b5f52600160205260405f209060018060a01b038254168015610a03573303610e2757565b5f805160206115df83398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af19081156108d6575f916114ba575090565b90506020813d6020116114e1575b816114d560209383611384565b81010312610598575190565b3d91506114c8565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b1561059857604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156108d65761155a5750565b61156390611370565b565b9081518082526020808093019301915f5b828110611584575050505090565b835185529381019392810192600101611576565b5f5b8381106115a95750505f910152565b818101518382015260200161159a565b906020916115d281518092818552858086019101611598565b601f01601f191601019056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c6343000818000a";
+
+type EscapeLeaderboardConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: EscapeLeaderboardConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class EscapeLeaderboard__factory extends ContractFactory {
+  constructor(...args: EscapeLeaderboardConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    _game: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(_game, overrides || {});
+  }
+  override deploy(
+    _game: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(_game, overrides || {}) as Promise<
+      EscapeLeaderboard & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): EscapeLeaderboard__factory {
+    return super.connect(runner) as EscapeLeaderboard__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): EscapeLeaderboardInterface {
+    return new Interface(_abi) as EscapeLeaderboardInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): EscapeLeaderboard {
+    return new Contract(address, _abi, runner) as unknown as EscapeLeaderboard;
+  }
+}
@@ -0,0 +1,520 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../common";
+import type {
+  StatusDecryptions,
+  StatusDecryptionsInterface,
+} from "../StatusDecryptions";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidTimeout",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotAuthorized",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotGame",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOracle",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayAttempt",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "RequestCancelled",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "RequestNotExpired",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownRequest",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "canceller",
+        type: "address",
+      },
+    ],
+    name: "DecryptionCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maskedProgress",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maskedPuzzleState1",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maskedPuzzleState2",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "maskedHintEligibility",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "stale",
+        type: "bool",
+      },
+    ],
+    name: "DecryptionCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldTimeout",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newTimeout",
+        type: "uint256",
+      },
+    ],
+    name: "TimeoutSet",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "cancel",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "requester",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "requestedAt",
+        type: "uint64",
+      },
+      {
+        internalType: "enum StatusDecryptions.Status",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        components: [
+          {
+            internalType: "euint32",
+            name: "progress",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint32",
+            name: "puzzleState1",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint32",
+            name: "puzzleState2",
+            type: "bytes32",
+          },
+          {
+            internalType: "ebool",
+            name: "hintEligibility",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct StatusDecryptions.StatusHandles",
+        name: "snapshot",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "game",
+    outputs: [
+      {
+        internalType: "contract AIEscapeFHE",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "getPendingRequests",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "getStatusMasks",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "progress",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "puzzleState1",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "puzzleState2",
+        type: "bytes32",
+      },
+      {
+        internalType: "ebool",
+        name: "hintEligibility",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "sessionId",
+        type: "uint256",
+      },
+    ],
+    name: "request",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newTimeout",
+        type: "uint256",
+      },
+    ],
+    name: "setTimeout",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "statusCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "statusOf",
+    outputs: [
+      {
+        internalType: "enum StatusDecryptions.Status",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "timeout",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a060405234610197575f606061001461019b565b828152826020820152826040820152015261002d61019b565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970391825416179055610e105f55336080526040516119f290816101cf82396080518181816101840152818161096f01528181610ac701528181610c520152818161118901528181611431015281816115f701526116cc0152f35b5f80fd5b60405190608082016001600160401b038111838210176101ba57604052565b634e487b7160e01b5f52604160045260245ffdfe6080806040526004361015610012575f80fd5b5f905f3560e01c90816325e36c80146112765750806340e58ee51461109f57806370dea79a14611083578063a79f2d5314610be5578063ad35efd414610bb8578063b65e894114610af6578063c3fe3e2814610ab2578063c58a34cc14610948578063c8c01a5514610168578063da1f12ab1461014b5763f05bfa7b14610097575f80fd5b3461014857602080600319360112610144576001600160a01b036100b961136f565b168252600381526040822060405192838383549182815201908193835284832090835b81811061013057505050846100f29103856112ec565b60405193838594850191818652518092526040850193925b82811061011957505050500390f35b83518552869550938101939281019260010161010a565b8254845292860192600192830192016100dc565b5080fd5b80fd5b503461014857806003193601126101485760206040516127118152f35b50346108925760403660031901126108925761018261136f565b7f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03163303610936576101bb816115a0565b6101c3611860565b915f6101cd611860565b936101d6611860565b5f805160206119c683398151915254604051636baeb74560e11b8152600481018590529360209185916024918391906001600160a01b03165af1908115610887575f91610900575b610249935060405196610230886112be565b8388526020880152604087015260608601528351611734565b9261025d6020840151602083015190611734565b6102706040850151604084015190611734565b606085015191606084015183156108f0575b80156108de575b602090606460018060a01b035f805160206119c68339815191525416955f60405197889485936322d273ad60e21b8552600485015260248401528160448401525af1928315610887575f936108aa575b506102e430886118ab565b6102ee30826118ab565b6102f830836118ab565b61030230846118ab565b604051968760a08101106001600160401b0360a08a0111176107c85760a088016040526004885260803660208a013787511561089657602088015286516001101561089657604087015285516002101561089657606086015284516003101561089657608085015261037383611682565b927f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00549460018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b15610892575f6040518092637d6e912360e11b8252602060048301528183816103ef6024820189611808565b03925af1801561088757610874575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025487906001600160a01b0316803b1561014457816040518092633263b83b60e01b82528a600483015260606024830152818381610460606482018a611808565b63a79f2d5360e01b604483015203925af1801561086957610851575b508690527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01602052604087205461083f578587527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01602052604087208151916001600160401b03831161082b57600160401b831161082b578154838355808410610804575b5060200190885260208820885b8381106107f057505050507f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00545f1981146107dc576001017f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00556040518060c08101106001600160401b0360c0830111176107c85760c08101604052602435815260018060a01b0384166020820152604081016001600160401b034216815260608201926001845286608084015260a0830152868852600160205260408820928251845560018060a01b036020840151166001850154926001600160401b0360a01b905160a01b16915160058110156107b45760a06060956106ea98958a9895600695899560ff60e01b9060e01b169262ffffff60e81b1617171760018601556080810151600286015501518051600385015560208101516004850155604081015160058501550151910155868852600260205261069360408920825190818155602084015160018201556040840151600282015560038585015191015530906118ab565b6106a13060208301516118ab565b6106af3060408301516118ab565b6106bc30838301516118ab565b6106c78382516118ab565b6106d58360208301516118ab565b6106e38360408301516118ab565b01516118ab565b6001600160a01b0381168452600360205260408420805490600160401b8210156107a05784926020968461076061074a8660409660017fe044c24563b458755f1024cfa298c4446ee40724ec9c9686a622d5e8de38bad7990181556113fe565b819391549060031b91821b915f19901b19161790565b90556001600160a01b03919091168082526003885282822054858352600489529183902091909155815160243581528088019590955293a3604051908152f35b634e487b7160e01b86526041600452602486fd5b634e487b7160e01b8b52602160045260248bfd5b634e487b7160e01b5f52604160045260245ffd5b634e487b7160e01b87526011600452602487fd5b60019060208451940193818401550161050e565b828a5260208a20908482015b8183018110610820575050610501565b5f8155600101610810565b634e487b7160e01b89526041600452602489fd5b604051633f06d22b60e01b8152600490fd5b61085a906112d9565b61086557865f61047c565b8680fd5b6040513d84823e3d90fd5b61087f9197506112d9565b5f955f6103fe565b6040513d5f823e3d90fd5b5f80fd5b634e487b7160e01b5f52603260045260245ffd5b9092506020813d6020116108d6575b816108c6602093836112ec565b810103126108925751915f6102d9565b3d91506108b9565b5060206108e9611927565b9050610289565b92506108fa611927565b92610282565b90506020833d60201161092e575b8161091b602093836112ec565b810103126108925761024992519061021e565b3d915061090e565b60405163ba160f4360e01b8152600490fd5b346108925760208060031936011261089257604051631d6c8e3f60e21b81526004803592917f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316918390829081855afa80156108875783915f91610a81575b50604051632474521560e21b815260048101919091523360248201529182908180604481015b03915afa908115610887575f91610a4c575b5015610a3a578115610a285760407fae6b175fb92013c9ed36b191bd7e08284b5ea1f06b2df16a55530acc3124427591835f54918351928352820152a15f55005b604051631ffb86f160e21b8152600490fd5b60405163ea8e4eb560e01b8152600490fd5b90508181813d8311610a7a575b610a6381836112ec565b8101031261089257610a7490611385565b836109e7565b503d610a59565b82819392503d8311610aab575b610a9881836112ec565b81010312610892575182906109d56109af565b503d610a8e565b34610892575f366003190112610892576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b34610892576020366003190112610892576004355f52600160205261012060405f208054906001810154906002810154604051610b32816112be565b6003830154815260048301549160208201928352610b986006600586015495604085019687520154956060840196875260405197885260018060a01b03811660208901526001600160401b038160a01c16604089015260ff606089019160e01c16611362565b60808601525160a08501525160c08401525160e083015251610100820152f35b34610892576020366003190112610892576020610bd66004356113a3565b610be36040518092611362565bf35b3461089257600319606036820112610892576004356001600160401b0360243581811161089257610c1a90369060040161130d565b9060443590811161089257610c3390369060040161130d565b6040516307e2cea560e01b815290936001600160a01b039290916020907f00000000000000000000000000000000000000000000000000000000000000008516908281600481855afa80156108875783915f91611052575b50604051632474521560e21b815260048101919091523360248201529182908180604481015b03915afa908115610887575f9161101d575b501561100b57845f526001906001815260405f2096600188019260ff845460e01c166005811015610ff7578015610fe55760038114610fd357600414610fc157875f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0180845260405f205415610faf57885f52835260405f209060405190819283918682549485815201915f52865f20905f5b88868210610f995750505050610d6f925003826112ec565b84519586840196878511610f8557604001809711610f8557839160405180885199858a019a8b81888501610da2926117e7565b82019086820152038481018252604001610dbc90826112ec565b897f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703541691604051958694859384936378542ead60e01b8552600485016060905260648501610e0a91611808565b82858203016024860152610e1d9161183b565b90838203016044840152610e309161183b565b03915a905f91f1908115610887575f91610f50575b5015610f3e57857f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a281549085821693610e88610e83866115a0565b611682565b60028a0154141593608082805181010312610892577f4adc3f4ae0f830eee2c021f3c6a77d117b62982fbc165e74a217c1290936362d97610eca60c098611392565b91610f0a8b610edb60408701611392565b99610ef46080610eed60608a01611392565b9801611385565b60ff60e01b19909916600360e01b1784556114cd565b541699549560405196875263ffffffff9384809316908801521660408601521660608401521515608083015260a0820152a3005b60405163cf6c44e960e01b8152600490fd5b90508181813d8311610f7e575b610f6781836112ec565b8101031261089257610f7890611385565b88610e45565b503d610f5d565b634e487b7160e01b5f52601160045260245ffd5b8354855287955090930192918101918101610d57565b60405163d66ca67560e01b8152600490fd5b604051631c79e44b60e31b8152600490fd5b60405163dbde098160e01b8152600490fd5b604051636d08029760e01b8152600490fd5b634e487b7160e01b5f52602160045260245ffd5b604051631bc2178f60e01b8152600490fd5b90508181813d831161104b575b61103481836112ec565b810103126108925761104590611385565b87610cc3565b503d61102a565b82819392503d831161107c575b61106981836112ec565b8101031261089257518290610cb1610c8b565b503d61105f565b34610892575f3660031901126108925760205f54604051908152f35b346108925760208060031936011261089257600435805f5260018252600160405f20019182549060ff8260e01c166005811015610ff75715610fe5576110e3611413565b6001600160a01b038082169590918483169087821415908161117a575b50610a3a5761110e866113a3565b6005811015610ff7576002036111685760ff60e01b19909416600160e21b1781557f7b1b5d70e42b132e612ebe8069dca1a19bdd6df02002ad175359b1970f82fefa9361115c9086906114cd565b541693604051908152a3005b604051636c804b5d60e01b8152600490fd5b60405163568ef78f60e11b81527f000000000000000000000000000000000000000000000000000000000000000086169250908682600481865afa80156108875787925f91611243575b50604051632474521560e21b815260048101919091526001600160a01b0390911660248201529182908180604481015b03915afa908115610887575f9161120e575b501588611100565b90508481813d831161123c575b61122581836112ec565b810103126108925761123690611385565b88611206565b503d61121b565b83819492503d831161126f575b61125a81836112ec565b810103126108925790518691906111f46111c4565b503d611250565b34610892576020366003190112610892576080906004355f52600260205260405f20805490600181015460036002830154920154928452602084015260408301526060820152f35b608081019081106001600160401b038211176107c857604052565b6001600160401b0381116107c857604052565b90601f801991011681019081106001600160401b038211176107c857604052565b81601f82011215610892578035906001600160401b0382116107c85760405192611341601f8401601f1916602001856112ec565b8284526020838301011161089257815f926020809301838601378301015290565b906005821015610ff75752565b600435906001600160a01b038216820361089257565b5190811515820361089257565b519063ffffffff8216820361089257565b5f526001602052600160405f20015460ff8160e01c16906005821015610ff7576001821490816113dc575b506113d65790565b50600290565b6001600160401b03915060a01c165f548101809111610f85574210155f6113ce565b8054821015610896575f5260205f2001905f90565b604051637da0a87760e01b81526001600160a01b03906020816004817f000000000000000000000000000000000000000000000000000000000000000086165afa908115610887575f91611492575b5016331480611487575b611474573390565b6013193601368111610f85573560601c90565b50601436101561146c565b90506020813d6020116114c5575b816114ad602093836112ec565b8101031261089257518181168103610892575f611462565b3d91506114a0565b60018060a01b03165f52600360205260405f2090805f526004918260205260405f2054908054915f199283810190811161158d5761150b90836113fe565b90549060031b1c83820182811161157a5761152a61074a8392866113fe565b90555f528460205260405f2055805480156115675782019161154c83836113fe565b909182549160031b1b19169055555f526020525f6040812055565b603185634e487b7160e01b5f525260245ffd5b601187634e487b7160e01b5f525260245ffd5b601186634e487b7160e01b5f525260245ffd5b906040516115ad816112be565b5f80825260208201818152604080840183815260608501938452905163c01ca43f60e01b81526001600160a01b0396871660048201529395909386939291608090829060249082907f0000000000000000000000000000000000000000000000000000000000000000165afa948515610887575f955f945f935f92611634575b5052525252565b955096505090506080833d60801161167a575b81611654608093836112ec565b81010312610892578251906020840151956060604086015195015192969492905f61162d565b3d9150611647565b60405161168e816112be565b815181526060602092602081015160208401526040810151604084015201516060820152604051906020820192835f905b6004821061171f575050507f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031660a08381019190915282525060c081016001600160401b038111828210176107c85760405251902090565b828060019286518152019401910190926116bf565b9081156117d7575b80156117c5575b602090606460018060a01b035f805160206119c68339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115610887575f91611796575090565b90506020813d6020116117bd575b816117b1602093836112ec565b81010312610892575190565b3d91506117a4565b5060206117d0611973565b9050611743565b90506117e1611973565b9061173c565b5f5b8381106117f85750505f910152565b81810151838201526020016117e9565b9081518082526020808093019301915f5b828110611827575050505090565b835185529381019392810192600101611819565b90602091611854815180928185528580860191016117e7565b601f01601f1916010190565b5f805160206119c683398151915254604051636baeb74560e11b815260048082015290602090829060249082905f906001600160a01b03165af1908115610887575f91611796575090565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b1561089257604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156108875761191c5750565b611925906112d9565b565b5f602060018060a01b035f805160206119c68339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af1908115610887575f91611796575090565b5f805160206119c683398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115610887575f9161179657509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c6343000818000a";
+
+type StatusDecryptionsConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: StatusDecryptionsConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class StatusDecryptions__factory extends ContractFactory {
+  constructor(...args: StatusDecryptionsConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      StatusDecryptions & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): StatusDecryptions__factory {
+    return super.connect(runner) as StatusDecryptions__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): StatusDecryptionsInterface {
+    return new Interface(_abi) as StatusDecryptionsInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): StatusDecryptions {
+    return new Contract(address, _abi, runner) as unknown as StatusDecryptions;
+  }
+}
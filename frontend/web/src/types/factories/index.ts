@@ -0,0 +1,7 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { AIEscapeFHE__factory } from "./AIEscapeFHE__factory";
+export { EscapeLeaderboard__factory } from "./EscapeLeaderboard__factory";
+export { PlayerActionForwarder__factory } from "./PlayerActionForwarder__factory";
+export { StatusDecryptions__factory } from "./StatusDecryptions__factory";
@@ -0,0 +1,12 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { AIEscapeFHE } from "./AIEscapeFHE";
+export type { EscapeLeaderboard } from "./EscapeLeaderboard";
+export type { PlayerActionForwarder } from "./PlayerActionForwarder";
+export type { StatusDecryptions } from "./StatusDecryptions";
+export * as factories from "./factories";
+export { AIEscapeFHE__factory } from "./factories/AIEscapeFHE__factory";
+export { EscapeLeaderboard__factory } from "./factories/EscapeLeaderboard__factory";
+export { PlayerActionForwarder__factory } from "./factories/PlayerActionForwarder__factory";
+export { StatusDecryptions__factory } from "./factories/StatusDecryptions__factory";
@@ -1,18 +1,33 @@
+import "dotenv/config";
 import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
+import "hardhat-deploy";
+
+import "./tasks/frontendConfig";
+import "./tasks/oracle";
+
+// Live networks sign with the key from the environment (see .env.example)
+const accounts = process.env.DEPLOYER_PRIVATE_KEY ? [process.env.DEPLOYER_PRIVATE_KEY] : [];
 
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
+  namedAccounts: {
+    deployer: 0,
+  },
   networks: {
     hardhat: {
       chainId: 31337,
     },
+    localhost: {
+      chainId: 31337,
+      url: "http://127.0.0.1:8545",
+    },
     sepolia: {
       chainId: 11155111,
-      url: "https://sepolia.drpc.org",
-      accounts: [],
+      url: process.env.SEPOLIA_RPC_URL || "https://sepolia.drpc.org",
+      accounts,
     },
   },
   solidity: {
@@ -30,6 +45,8 @@ const config: HardhatUserConfig = {
     },
   },
   paths: {
+    deploy: "./deploy",
+    deployments: "./deployments",
     sources: "./contracts",
     tests: "./test",
     cache: "./cache",
@@ -0,0 +1,88 @@
+import "dotenv/config";
+import { ethers } from "ethers";
+import fs from "fs";
+import path from "path";
+import type { Duplex } from "stream";
+
+import { GameMasterRelayer } from "./relayer";
+import { createRelayerServer } from "./server";
+
+/**
+ * Game-master relayer service. Relays players' signed actions and status
+ * requests through PlayerActionForwarder and pushes the outcome back over
+ * WebSocket.
+ *
+ * Example, against a local node:
+ *   - npx hardhat node
+ *   - npm run deploy:localhost
+ *   - npm run oracle:local
+ *   - npm run relayer
+ * Then set `relayerUrl` in frontend/web/src/config.json to http://localhost:8787.
+ */
+
+const LOCAL_CHAIN_ID = 31337n;
+// Hardhat's default account #0, which deploys the game on a local node and so
+// holds GAME_MASTER_ROLE. Its key is public; it is never used on other chains.
+const LOCAL_RELAYER_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+
+const FRONTEND_CONFIG = path.join(__dirname, "..", "..", "frontend", "web", "src", "config.json");
+
+// Falls back to the forwarder the last deploy recorded for this chain
+function deployedForwarder(chainId: bigint): string | undefined {
+  if (!fs.existsSync(FRONTEND_CONFIG)) return undefined;
+  const config = JSON.parse(fs.readFileSync(FRONTEND_CONFIG, "utf8"));
+  return config.deployments?.[chainId.toString()]?.forwarderAddress || undefined;
+}
+
+async function main() {
+  const rpcUrl = process.env.RELAYER_RPC_URL || "http://127.0.0.1:8545";
+  const port = Number(process.env.RELAYER_PORT || 8787);
+  const pollMs = Number(process.env.RELAYER_POLL_MS || 2000);
+
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const { chainId } = await provider.getNetwork();
+  const key = process.env.RELAYER_PRIVATE_KEY || (chainId === LOCAL_CHAIN_ID ? LOCAL_RELAYER_KEY : undefined);
+  if (!key) {
+    throw new Error(`RELAYER_PRIVATE_KEY is required on chain ${chainId}`);
+  }
+  const forwarderAddress = process.env.FORWARDER_ADDRESS || deployedForwarder(chainId);
+  if (!forwarderAddress) {
+    throw new Error(`No PlayerActionForwarder is known on chain ${chainId}, set FORWARDER_ADDRESS or deploy first`);
+  }
+
+  const fromBlock = process.env.RELAYER_FROM_BLOCK ? Number(process.env.RELAYER_FROM_BLOCK) : undefined;
+  const relayer = await GameMasterRelayer.create(new ethers.Wallet(key, provider), forwarderAddress, fromBlock);
+  const server = createRelayerServer(relayer);
+  relayer.subscribe((event) => console.log(JSON.stringify(event)));
+
+  // Upgraded WebSocket connections keep server.close() waiting, and
+  // closeAllConnections() only ends plain HTTP ones
+  const webSockets = new Set<Duplex>();
+  server.on("upgrade", (_req, socket: Duplex) => {
+    webSockets.add(socket);
+    socket.once("close", () => webSockets.delete(socket));
+  });
+
+  const poll = setInterval(() => {
+    relayer.pollDecryptions().catch((e) => console.error(`Decryption poll failed: ${e instanceof Error ? e.message : e}`));
+  }, pollMs);
+  process.on("SIGINT", () => {
+    clearInterval(poll);
+    for (const socket of webSockets) socket.destroy();
+    server.closeAllConnections();
+    server.close();
+    provider.destroy();
+    process.exit();
+  });
+
+  const { relayer: account, balance } = await relayer.health();
+  server.listen(port, () => {
+    console.log(`Game-master relayer ${account} (${balance} ETH) on chain ${chainId}, forwarder ${forwarderAddress}`);
+    console.log(`Listening on http://localhost:${port} (WebSocket on /ws)`);
+  });
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exitCode = 1;
+});
@@ -0,0 +1,49 @@
+import { ethers } from "ethers";
+
+/**
+ * Sends the relayer's transactions one at a time and assigns their nonces
+ * locally, so that a burst of player requests does not race on
+ * `eth_getTransactionCount` and reuse a nonce.
+ *
+ * The nonce is read from the node on the first job and after any failed send:
+ * a send that failed may or may not have consumed its nonce, and another
+ * process using the same key could have moved it.
+ */
+export class TransactionQueue {
+  private nextNonce: number | null = null;
+  private tail: Promise<unknown> = Promise.resolve();
+  private queued = 0;
+
+  constructor(private readonly signer: ethers.Signer) {}
+
+  /** Jobs waiting for, or in the middle of, a send. */
+  get length(): number {
+    return this.queued;
+  }
+
+  /**
+   * Runs `send` with the next nonce once the previous jobs have been sent.
+   * Resolves with the sent transaction; mining is left to the caller.
+   */
+  enqueue(send: (overrides: { nonce: number }) => Promise<ethers.TransactionResponse>): Promise<ethers.TransactionResponse> {
+    this.queued++;
+    const job = this.tail.then(() => this.submit(send)).finally(() => this.queued--);
+    // A failed job must not stop the ones queued behind it
+    this.tail = job.catch(() => undefined);
+    return job;
+  }
+
+  private async submit(send: (overrides: { nonce: number }) => Promise<ethers.TransactionResponse>) {
+    if (this.nextNonce === null) {
+      this.nextNonce = await this.signer.getNonce("pending");
+    }
+    try {
+      const tx = await send({ nonce: this.nextNonce });
+      this.nextNonce = tx.nonce + 1;
+      return tx;
+    } catch (e) {
+      this.nextNonce = null;
+      throw e;
+    }
+  }
+}
@@ -0,0 +1,277 @@
+import { ethers } from "ethers";
+
+import {
+  AIEscapeFHE,
+  AIEscapeFHE__factory,
+  PlayerActionForwarder,
+  PlayerActionForwarder__factory,
+  StatusDecryptions,
+  StatusDecryptions__factory,
+} from "../../types";
+import { TransactionQueue } from "./queue";
+import {
+  SignedGameCall,
+  SignedGuessAction,
+  SignedPlayerAction,
+  SignedStatusRequest,
+  forwarderDomain,
+  recoverActionSigner,
+  recoverGameCallSigner,
+  recoverGuessSigner,
+  recoverStatusRequestSigner,
+} from "./typedData";
+
+// Most RPC providers reject eth_getLogs spanning more blocks than this
+const MAX_BLOCK_RANGE = 5000;
+
+export type RelayKind = "action" | "status" | "guess" | "call";
+
+/**
+ * Progress of a relayed request, and status decryption results, as pushed to
+ * the request's player. Masked values are public on-chain anyway; only the
+ * player can remove the masks, with the pads from StatusDecryptions.getStatusMasks.
+ */
+export type RelayerEvent =
+  | { type: "queued"; id: string; kind: RelayKind; player: string }
+  | { type: "submitted"; id: string; kind: RelayKind; player: string; txHash: string }
+  | { type: "confirmed"; id: string; kind: RelayKind; player: string; txHash: string; blockNumber: number }
+  | { type: "failed"; id: string; kind: RelayKind; player: string; error: string }
+  | {
+      type: "status";
+      player: string;
+      requestId: string;
+      sessionId: string;
+      maskedProgress: string;
+      maskedPuzzleState1: string;
+      maskedPuzzleState2: string;
+      maskedHintEligibility: boolean;
+      // The player moved after requesting; the values describe the state at the request
+      stale: boolean;
+    };
+
+export interface RelayReceipt {
+  id: string;
+  txHash: string;
+}
+
+/** A well-formed request the relayer refuses to submit; `status` is its HTTP status. */
+export class RelayRejectedError extends Error {
+  constructor(
+    message: string,
+    readonly status = 422,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * The game master's on-chain side. Verifies signed player requests, submits
+ * them through PlayerActionForwarder from the relayer account, which must hold
+ * GAME_MASTER_ROLE, and reports their progress to subscribers.
+ */
+export class GameMasterRelayer {
+  private readonly queue: TransactionQueue;
+  // Players with a request between signature check and mining. A player's next
+  // request needs the nonce this one consumes, so it has to wait.
+  private readonly pendingPlayers = new Set<string>();
+  private readonly listeners = new Set<(event: RelayerEvent) => void>();
+  private nextJobId = 1;
+  // The poll in flight; a poll started meanwhile joins it rather than re-reading its blocks
+  private polling: Promise<void> | null = null;
+
+  private constructor(
+    readonly forwarder: PlayerActionForwarder,
+    readonly game: AIEscapeFHE,
+    readonly statusDecryptions: StatusDecryptions,
+    private readonly signer: ethers.Signer,
+    readonly domain: ethers.TypedDataDomain,
+    // Last block whose status decryptions were published
+    private decryptionCursor: number,
+  ) {
+    this.queue = new TransactionQueue(signer);
+  }
+
+  /**
+   * Status decryptions are published from `fromBlock` on, by default from the
+   * next block, so a restarted relayer can catch up on the ones it missed.
+   */
+  static async create(signer: ethers.Signer, forwarderAddress: string, fromBlock?: number): Promise<GameMasterRelayer> {
+    const provider = signer.provider;
+    if (!provider) throw new Error("The relayer signer needs a provider");
+    const forwarder = PlayerActionForwarder__factory.connect(forwarderAddress, signer);
+    const game = AIEscapeFHE__factory.connect(await forwarder.game(), signer);
+    const account = await signer.getAddress();
+    if (!(await game.hasRole(await game.GAME_MASTER_ROLE(), account))) {
+      throw new Error(`Relayer ${account} does not hold GAME_MASTER_ROLE on ${await game.getAddress()}`);
+    }
+    const statusDecryptions = StatusDecryptions__factory.connect(await game.statusDecryptions(), signer);
+    const { chainId } = await provider.getNetwork();
+    const cursor = fromBlock !== undefined ? fromBlock - 1 : await provider.getBlockNumber();
+    return new GameMasterRelayer(
+      forwarder,
+      game,
+      statusDecryptions,
+      signer,
+      forwarderDomain(chainId, forwarderAddress),
+      cursor,
+    );
+  }
+
+  /** Returns a function that removes the listener. */
+  subscribe(listener: (event: RelayerEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  async health() {
+    const account = await this.signer.getAddress();
+    return {
+      relayer: account,
+      forwarder: await this.forwarder.getAddress(),
+      game: await this.game.getAddress(),
+      chainId: this.domain.chainId!.toString(),
+      balance: ethers.formatEther(await this.signer.provider!.getBalance(account)),
+      queued: this.queue.length,
+    };
+  }
+
+  async relayAction(signed: SignedPlayerAction): Promise<RelayReceipt> {
+    return this.relay("action", signed.action.player, recoverActionSigner(this.domain, signed), (overrides) =>
+      this.forwarder.relay(signed.action, signed.inputProof, signed.signature, overrides),
+    );
+  }
+
+  async relayStatusRequest(signed: SignedStatusRequest): Promise<RelayReceipt> {
+    return this.relay("status", signed.request.player, recoverStatusRequestSigner(this.domain, signed), (overrides) =>
+      this.forwarder.relayStatusRequest(signed.request, signed.signature, overrides),
+    );
+  }
+
+  async relayGuess(signed: SignedGuessAction): Promise<RelayReceipt> {
+    return this.relay("guess", signed.action.player, recoverGuessSigner(this.domain, signed), (overrides) =>
+      this.forwarder.relayGuess(signed.action, signed.inputProof, signed.signature, overrides),
+    );
+  }
+
+  /** Session lifecycle, hints, room unlocks, puzzle serving and status request cancels. */
+  async relayGameCall(signed: SignedGameCall): Promise<RelayReceipt> {
+    return this.relay("call", signed.call.player, recoverGameCallSigner(this.domain, signed), (overrides) =>
+      this.forwarder.relayGameCall(signed.call, signed.signature, overrides),
+    );
+  }
+
+  /** Pushes the status decryptions delivered since the last poll to their players. */
+  pollDecryptions(): Promise<void> {
+    this.polling ??= this.readDecryptions().finally(() => {
+      this.polling = null;
+    });
+    return this.polling;
+  }
+
+  // Reads in MAX_BLOCK_RANGE pages; the cursor moves past each page once it is
+  // published, so a failed read resumes where it stopped
+  private async readDecryptions() {
+    const latest = await this.signer.provider!.getBlockNumber();
+    while (this.decryptionCursor < latest) {
+      const from = this.decryptionCursor + 1;
+      const to = Math.min(latest, from + MAX_BLOCK_RANGE - 1);
+      const events = await this.statusDecryptions.queryFilter(
+        this.statusDecryptions.filters.DecryptionCompleted(),
+        from,
+        to,
+      );
+      for (const e of events) {
+        this.publish({
+          type: "status",
+          player: e.args.player,
+          requestId: e.args.requestId.toString(),
+          sessionId: e.args.sessionId.toString(),
+          maskedProgress: e.args.maskedProgress.toString(),
+          maskedPuzzleState1: e.args.maskedPuzzleState1.toString(),
+          maskedPuzzleState2: e.args.maskedPuzzleState2.toString(),
+          maskedHintEligibility: e.args.maskedHintEligibility,
+          stale: e.args.stale,
+        });
+      }
+      this.decryptionCursor = to;
+    }
+  }
+
+  /**
+   * Resolves once the relay transaction is sent. Sending estimates gas first,
+   * so a request the forwarder or the game would reject (stale nonce, expired
+   * deadline, cooldown, no active session) fails here without costing gas.
+   * Mining is reported to subscribers.
+   */
+  private async relay(
+    kind: RelayKind,
+    player: string,
+    signer: string,
+    send: (overrides: { nonce: number }) => Promise<ethers.ContractTransactionResponse>,
+  ): Promise<RelayReceipt> {
+    if (signer !== player) throw new RelayRejectedError("Signature does not match the player");
+    const key = player.toLowerCase();
+    if (this.pendingPlayers.has(key)) {
+      throw new RelayRejectedError("A previous request of this player is still pending", 409);
+    }
+    this.pendingPlayers.add(key);
+
+    const id = String(this.nextJobId++);
+    this.publish({ type: "queued", id, kind, player });
+    let tx: ethers.TransactionResponse;
+    try {
+      tx = await this.queue.enqueue(send);
+    } catch (e) {
+      this.pendingPlayers.delete(key);
+      const error = this.describeError(e);
+      this.publish({ type: "failed", id, kind, player, error });
+      throw new RelayRejectedError(error);
+    }
+
+    this.publish({ type: "submitted", id, kind, player, txHash: tx.hash });
+    tx.wait()
+      .then((receipt) =>
+        this.publish({ type: "confirmed", id, kind, player, txHash: tx.hash, blockNumber: receipt!.blockNumber }),
+      )
+      .catch((e) => this.publish({ type: "failed", id, kind, player, error: this.describeError(e) }))
+      .finally(() => this.pendingPlayers.delete(key));
+    return { id, txHash: tx.hash };
+  }
+
+  private publish(event: RelayerEvent) {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (e) {
+        console.error("Relayer listener failed:", e);
+      }
+    }
+  }
+
+  // Custom errors come from the forwarder or, bubbled up, from the game and its status decryptions
+  private describeError(e: unknown): string {
+    const data = revertData(e);
+    if (data && data.length >= 10) {
+      for (const iface of [this.forwarder.interface, this.game.interface, this.statusDecryptions.interface]) {
+        const parsed = iface.parseError(data);
+        if (parsed) return parsed.name;
+      }
+    }
+    if (!(e instanceof Error)) return String(e);
+    // Ethers errors carry the message without their debugging details
+    return "shortMessage" in e && typeof e.shortMessage === "string" ? e.shortMessage : e.message;
+  }
+}
+
+// Ethers call exceptions carry the revert data; errors it passes through from
+// the node carry it themselves or in the JSON-RPC error they wrap
+function revertData(e: unknown): string | null {
+  if (ethers.isCallException(e) && e.data) return e.data;
+  for (const data of [property(e, "data"), property(property(e, "error"), "data")]) {
+    if (typeof data === "string") return data;
+  }
+  return null;
+}
+
+const property = (value: unknown, name: string): unknown =>
+  value !== null && typeof value === "object" && name in value ? (value as Record<string, unknown>)[name] : undefined;
@@ -0,0 +1,193 @@
+import { ethers } from "ethers";
+import http from "http";
+import { WebSocket, WebSocketServer } from "ws";
+
+import { GameMasterRelayer, RelayRejectedError } from "./relayer";
+import {
+  InvalidRequestError,
+  parseSignedAction,
+  parseSignedGameCall,
+  parseSignedGuess,
+  parseSignedStatusRequest,
+  parseSignedSubscription,
+  recoverActionSigner,
+  recoverGameCallSigner,
+  recoverGuessSigner,
+  recoverStatusRequestSigner,
+  recoverSubscriptionSigner,
+} from "./typedData";
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+/**
+ * HTTP and WebSocket front of the relayer.
+ *
+ * HTTP:
+ *   - GET  /health   relayer account, balance and queue length
+ *   - POST /actions  signed PlayerAction, answered with { id, txHash } once sent
+ *   - POST /status   signed StatusRequest, answered the same way
+ *   - POST /guesses  signed GuessAction, answered the same way
+ *   - POST /calls    signed GameCall, answered the same way
+ *
+ * WebSocket on /ws. Each connection is first sent { type: "challenge", challenge },
+ * then accepts JSON messages:
+ *   - { type: "subscribe", player, signature }
+ *                                       receive the player's RelayerEvents; the
+ *                                       player signs a Subscription over the challenge
+ *   - { type: "action", ...signed }     relay a signed action
+ *   - { type: "status", ...signed }     relay a signed status request
+ *   - { type: "guess", ...signed }      relay a signed guess
+ *   - { type: "call", ...signed }       relay a signed game call
+ * Submissions signed by their player subscribe it and are answered with
+ * { type: "accepted", id, txHash } or { type: "error", error }.
+ */
+export function createRelayerServer(relayer: GameMasterRelayer): http.Server {
+  const subscriptions = new Map<string, Set<WebSocket>>();
+  // Player messages are small JSON documents; ws closes connections sending more
+  const webSockets = new WebSocketServer({ noServer: true, maxPayload: MAX_BODY_BYTES });
+
+  // Security: events are only pushed to connections that proved they hold the
+  // player's key, since they tell when and how the player acts
+  const subscribe = (connection: WebSocket, player: string, signer: string) => {
+    if (signer !== player) throw new InvalidRequestError("Signature does not match the player");
+    const key = player.toLowerCase();
+    if (!subscriptions.has(key)) subscriptions.set(key, new Set());
+    subscriptions.get(key)!.add(connection);
+  };
+
+  const unsubscribe = (connection: WebSocket) => {
+    for (const [key, connections] of subscriptions) {
+      connections.delete(connection);
+      if (connections.size === 0) subscriptions.delete(key);
+    }
+  };
+
+  relayer.subscribe((event) => {
+    const message = JSON.stringify(event);
+    for (const connection of subscriptions.get(event.player.toLowerCase()) ?? []) {
+      if (connection.readyState === WebSocket.OPEN) connection.send(message);
+    }
+  });
+
+  const server = http.createServer(async (req, res) => {
+    // The frontend is served from another origin
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    try {
+      if (req.method === "OPTIONS") {
+        res.writeHead(204).end();
+      } else if (req.method === "GET" && req.url === "/health") {
+        reply(res, 200, await relayer.health());
+      } else if (req.method === "POST" && req.url === "/actions") {
+        reply(res, 202, await relayer.relayAction(parseSignedAction(await readJson(req))));
+      } else if (req.method === "POST" && req.url === "/status") {
+        reply(res, 202, await relayer.relayStatusRequest(parseSignedStatusRequest(await readJson(req))));
+      } else if (req.method === "POST" && req.url === "/guesses") {
+        reply(res, 202, await relayer.relayGuess(parseSignedGuess(await readJson(req))));
+      } else if (req.method === "POST" && req.url === "/calls") {
+        reply(res, 202, await relayer.relayGameCall(parseSignedGameCall(await readJson(req))));
+      } else {
+        reply(res, 404, { error: "Not found" });
+      }
+    } catch (e) {
+      reply(res, statusOf(e), { error: messageOf(e) });
+    }
+  });
+
+  server.on("upgrade", (req, socket, head) => {
+    if (req.url !== "/ws") {
+      socket.end("HTTP/1.1 404 Not Found\r\n\r\n");
+      return;
+    }
+    webSockets.handleUpgrade(req, socket, head, (connection) => webSockets.emit("connection", connection, req));
+  });
+
+  webSockets.on("connection", (connection) => {
+    const challenge = ethers.hexlify(ethers.randomBytes(32));
+    connection.send(JSON.stringify({ type: "challenge", challenge }));
+    connection.on("close", () => unsubscribe(connection));
+    connection.on("message", async (data, isBinary) => {
+      try {
+        if (isBinary) throw new InvalidRequestError("Messages must be text");
+        const message = JSON.parse(data.toString());
+        switch (message?.type) {
+          case "subscribe": {
+            const signed = parseSignedSubscription(message);
+            subscribe(connection, signed.player, recoverSubscriptionSigner(relayer.domain, signed, challenge));
+            connection.send(JSON.stringify({ type: "subscribed", player: signed.player }));
+            break;
+          }
+          case "action": {
+            const signed = parseSignedAction(message);
+            subscribe(connection, signed.action.player, recoverActionSigner(relayer.domain, signed));
+            connection.send(JSON.stringify({ type: "accepted", ...(await relayer.relayAction(signed)) }));
+            break;
+          }
+          case "status": {
+            const signed = parseSignedStatusRequest(message);
+            subscribe(connection, signed.request.player, recoverStatusRequestSigner(relayer.domain, signed));
+            connection.send(JSON.stringify({ type: "accepted", ...(await relayer.relayStatusRequest(signed)) }));
+            break;
+          }
+          case "guess": {
+            const signed = parseSignedGuess(message);
+            subscribe(connection, signed.action.player, recoverGuessSigner(relayer.domain, signed));
+            connection.send(JSON.stringify({ type: "accepted", ...(await relayer.relayGuess(signed)) }));
+            break;
+          }
+          case "call": {
+            const signed = parseSignedGameCall(message);
+            subscribe(connection, signed.call.player, recoverGameCallSigner(relayer.domain, signed));
+            connection.send(JSON.stringify({ type: "accepted", ...(await relayer.relayGameCall(signed)) }));
+            break;
+          }
+          default:
+            throw new InvalidRequestError("Unknown message type");
+        }
+      } catch (e) {
+        connection.send(JSON.stringify({ type: "error", error: messageOf(e) }));
+      }
+    });
+  });
+
+  return server;
+}
+
+function reply(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function readJson(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new InvalidRequestError("Request body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+      } catch {
+        reject(new InvalidRequestError("Request body is not JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+function statusOf(e: unknown): number {
+  if (e instanceof InvalidRequestError) return 400;
+  if (e instanceof RelayRejectedError) return e.status;
+  return 500;
+}
+
+function messageOf(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
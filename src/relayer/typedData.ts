@@ -0,0 +1,280 @@
+import { ethers } from "ethers";
+
+/**
+ * EIP-712 messages accepted by PlayerActionForwarder. They must stay in sync
+ * with the type hashes in contracts/PlayerActionForwarder.sol and with the
+ * frontend's relay.ts, which signs them.
+ */
+export const PLAYER_ACTION_TYPES = {
+  PlayerAction: [
+    { name: "player", type: "address" },
+    { name: "actionType", type: "bytes32" },
+    { name: "actionTarget", type: "bytes32" },
+    { name: "inputProofHash", type: "bytes32" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export const STATUS_REQUEST_TYPES = {
+  StatusRequest: [
+    { name: "player", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export const GUESS_ACTION_TYPES = {
+  GuessAction: [
+    { name: "player", type: "address" },
+    { name: "puzzleId", type: "uint256" },
+    { name: "guess", type: "bytes32" },
+    { name: "inputProofHash", type: "bytes32" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export const GAME_CALL_TYPES = {
+  GameCall: [
+    { name: "player", type: "address" },
+    { name: "operation", type: "uint8" },
+    { name: "id", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+/**
+ * Proof that a WebSocket client owns the player address it subscribes to. The
+ * challenge is the one the relayer sent on that connection, so a signature
+ * cannot be replayed on another.
+ */
+export const SUBSCRIPTION_TYPES = {
+  Subscription: [
+    { name: "player", type: "address" },
+    { name: "challenge", type: "bytes32" },
+  ],
+};
+
+/**
+ * PlayerActionForwarder.Operation, in declaration order. The id of a GameCall
+ * is the room for StartSession and RequestRoomUnlock, the puzzle for
+ * RequestHint and the status request for CancelStatusRequest.
+ */
+export const GameOperation = {
+  StartSession: 0,
+  PauseSession: 1,
+  ResumeSession: 2,
+  AbandonSession: 3,
+  FinishSession: 4,
+  RequestHint: 5,
+  RequestRoomUnlock: 6,
+  ServeNextPuzzle: 7,
+  CancelStatusRequest: 8,
+} as const;
+
+export type GameOperation = (typeof GameOperation)[keyof typeof GameOperation];
+
+export function forwarderDomain(chainId: bigint, forwarderAddress: string): ethers.TypedDataDomain {
+  return { name: "AIEscapeFHE", version: "1", chainId, verifyingContract: forwarderAddress };
+}
+
+export interface PlayerAction {
+  player: string;
+  actionType: string;
+  actionTarget: string;
+  nonce: bigint;
+  deadline: bigint;
+}
+
+export interface StatusRequest {
+  player: string;
+  nonce: bigint;
+  deadline: bigint;
+}
+
+export interface GuessAction {
+  player: string;
+  puzzleId: bigint;
+  guess: string;
+  nonce: bigint;
+  deadline: bigint;
+}
+
+export interface GameCall {
+  player: string;
+  operation: GameOperation;
+  id: bigint;
+  nonce: bigint;
+  deadline: bigint;
+}
+
+export interface SignedSubscription {
+  player: string;
+  signature: string;
+}
+
+export interface SignedPlayerAction {
+  action: PlayerAction;
+  inputProof: string;
+  signature: string;
+}
+
+export interface SignedStatusRequest {
+  request: StatusRequest;
+  signature: string;
+}
+
+export interface SignedGuessAction {
+  action: GuessAction;
+  inputProof: string;
+  signature: string;
+}
+
+export interface SignedGameCall {
+  call: GameCall;
+  signature: string;
+}
+
+/** Malformed request body; the HTTP server answers it with 400. */
+export class InvalidRequestError extends Error {}
+
+const field = (body: unknown, name: string): unknown => {
+  if (body === null || typeof body !== "object" || !(name in body)) {
+    throw new InvalidRequestError(`Missing ${name}`);
+  }
+  return (body as Record<string, unknown>)[name];
+};
+
+const address = (body: unknown, name: string): string => {
+  const value = field(body, name);
+  if (typeof value !== "string" || !ethers.isAddress(value)) throw new InvalidRequestError(`Invalid ${name}`);
+  return ethers.getAddress(value);
+};
+
+const bytes = (body: unknown, name: string, length?: number): string => {
+  const value = field(body, name);
+  if (typeof value !== "string" || !ethers.isHexString(value, length)) throw new InvalidRequestError(`Invalid ${name}`);
+  return value;
+};
+
+// Integers arrive as decimal strings, since JSON has no bigint
+const uint = (body: unknown, name: string): bigint => {
+  const value = field(body, name);
+  if ((typeof value !== "string" && typeof value !== "number") || !/^\d+$/.test(String(value))) {
+    throw new InvalidRequestError(`Invalid ${name}`);
+  }
+  return BigInt(value);
+};
+
+export function parseSignedSubscription(body: unknown): SignedSubscription {
+  return { player: address(body, "player"), signature: bytes(body, "signature", 65) };
+}
+
+export function parseSignedAction(body: unknown): SignedPlayerAction {
+  const action = field(body, "action");
+  return {
+    action: {
+      player: address(action, "player"),
+      actionType: bytes(action, "actionType", 32),
+      actionTarget: bytes(action, "actionTarget", 32),
+      nonce: uint(action, "nonce"),
+      deadline: uint(action, "deadline"),
+    },
+    inputProof: bytes(body, "inputProof"),
+    signature: bytes(body, "signature", 65),
+  };
+}
+
+export function parseSignedStatusRequest(body: unknown): SignedStatusRequest {
+  const request = field(body, "request");
+  return {
+    request: {
+      player: address(request, "player"),
+      nonce: uint(request, "nonce"),
+      deadline: uint(request, "deadline"),
+    },
+    signature: bytes(body, "signature", 65),
+  };
+}
+
+export function parseSignedGuess(body: unknown): SignedGuessAction {
+  const action = field(body, "action");
+  return {
+    action: {
+      player: address(action, "player"),
+      puzzleId: uint(action, "puzzleId"),
+      guess: bytes(action, "guess", 32),
+      nonce: uint(action, "nonce"),
+      deadline: uint(action, "deadline"),
+    },
+    inputProof: bytes(body, "inputProof"),
+    signature: bytes(body, "signature", 65),
+  };
+}
+
+export function parseSignedGameCall(body: unknown): SignedGameCall {
+  const call = field(body, "call");
+  const operation = Number(uint(call, "operation"));
+  if (!Object.values<number>(GameOperation).includes(operation)) throw new InvalidRequestError("Invalid operation");
+  return {
+    call: {
+      player: address(call, "player"),
+      operation: operation as GameOperation,
+      id: uint(call, "id"),
+      nonce: uint(call, "nonce"),
+      deadline: uint(call, "deadline"),
+    },
+    signature: bytes(body, "signature", 65),
+  };
+}
+
+/** Recovers the signer the same way the forwarder does. */
+export function recoverActionSigner(domain: ethers.TypedDataDomain, signed: SignedPlayerAction): string {
+  return recover(() =>
+    ethers.verifyTypedData(
+      domain,
+      PLAYER_ACTION_TYPES,
+      { ...signed.action, inputProofHash: ethers.keccak256(signed.inputProof) },
+      signed.signature,
+    ),
+  );
+}
+
+export function recoverStatusRequestSigner(domain: ethers.TypedDataDomain, signed: SignedStatusRequest): string {
+  return recover(() => ethers.verifyTypedData(domain, STATUS_REQUEST_TYPES, signed.request, signed.signature));
+}
+
+export function recoverGuessSigner(domain: ethers.TypedDataDomain, signed: SignedGuessAction): string {
+  return recover(() =>
+    ethers.verifyTypedData(
+      domain,
+      GUESS_ACTION_TYPES,
+      { ...signed.action, inputProofHash: ethers.keccak256(signed.inputProof) },
+      signed.signature,
+    ),
+  );
+}
+
+export function recoverGameCallSigner(domain: ethers.TypedDataDomain, signed: SignedGameCall): string {
+  return recover(() => ethers.verifyTypedData(domain, GAME_CALL_TYPES, signed.call, signed.signature));
+}
+
+export function recoverSubscriptionSigner(
+  domain: ethers.TypedDataDomain,
+  signed: SignedSubscription,
+  challenge: string,
+): string {
+  return recover(() =>
+    ethers.verifyTypedData(domain, SUBSCRIPTION_TYPES, { player: signed.player, challenge }, signed.signature),
+  );
+}
+
+const recover = (verify: () => string): string => {
+  try {
+    return verify();
+  } catch {
+    throw new InvalidRequestError("Invalid signature");
+  }
+};
@@ -0,0 +1,57 @@
+import fs from "fs";
+import path from "path";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const FRONTEND_SRC = path.join(__dirname, "..", "frontend", "web", "src");
+
+/**
+ * Records the AIEscapeFHE, EscapeLeaderboard and PlayerActionForwarder deployments of the current network
+ * (deployments/<network>/), and the StatusDecryptions contract the game deployed, under its chain id in
+ * frontend/web/src/config.json, and writes their ABIs.
+ * Deployments on other chains and keys such as gameMasterUrl and relayerUrl are kept. RPC
+ * endpoints are not copied: the frontend's network registry lists public ones,
+ * while the deployer's RPC URL may carry an API key.
+ */
+export async function writeFrontendConfig(hre: HardhatRuntimeEnvironment) {
+  const deployment = await hre.deployments.get("AIEscapeFHE");
+  const leaderboard = await hre.deployments.getOrNull("EscapeLeaderboard");
+  const forwarder = await hre.deployments.getOrNull("PlayerActionForwarder");
+  const statusDecryptions = await hre.deployments.read("AIEscapeFHE", "statusDecryptions");
+  const chainId = await hre.getChainId();
+  const configPath = path.join(FRONTEND_SRC, "config.json");
+  const previous = fs.existsSync(configPath) ? JSON.parse(fs.readFileSync(configPath, "utf8")) : {};
+
+  const config = {
+    ...previous,
+    deployments: {
+      ...previous.deployments,
+      [chainId]: {
+        contractAddress: deployment.address,
+        leaderboardAddress: leaderboard?.address ?? "",
+        forwarderAddress: forwarder?.address ?? "",
+        statusDecryptionsAddress: statusDecryptions,
+        deployBlock: deployment.receipt?.blockNumber ?? 0,
+        deployer: deployment.receipt?.from ?? previous.deployments?.[chainId]?.deployer,
+      },
+    },
+  };
+  fs.writeFileSync(configPath, JSON.stringify(config, null, 2) + "\n");
+
+  for (const name of ["AIEscapeFHE", "EscapeLeaderboard", "PlayerActionForwarder", "StatusDecryptions"]) {
+    const artifact = await hre.artifacts.readArtifact(name);
+    fs.writeFileSync(path.join(FRONTEND_SRC, "abi", `${name}.json`), JSON.stringify(artifact, null, 2) + "\n");
+  }
+
+  console.log(`Wrote frontend config for ${hre.network.name} (chain ${chainId}): AIEscapeFHE at ${deployment.address}`);
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network sepolia frontend:config
+ */
+task("frontend:config", "Generates the frontend config from the current network's deployment record").setAction(
+  async function (_taskArguments, hre) {
+    await writeFrontendConfig(hre);
+  },
+);
@@ -0,0 +1,81 @@
+import { task, types } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+/**
+ * Stands in for the Zama decryption oracle on a local FHEVM mock node.
+ *
+ * Every `FHE.requestDecryption` call is picked up from the DecryptionOracle
+ * events, decrypted by the mock coprocessor, signed with the mock KMS signer
+ * keys accepted by the KMSVerifier, and delivered to the requesting contract's
+ * callback (StatusDecryptions.statusCallback, guessCallback, ...).
+ *
+ * The callbacks only accept the mock relayer account (hardhat signer #6), so
+ * it must hold AIEscapeFHE's ORACLE_ROLE first, which StatusDecryptions and
+ * EscapeLeaderboard also check; the deploy script grants it on local networks.
+ *
+ * Example:
+ *   - npx hardhat node
+ *   - npx hardhat --network localhost oracle:run --address <AIEscapeFHE address>
+ */
+task("oracle:run", "Fulfils FHEVM decryption requests on a local hardhat node")
+  .addOptionalParam("address", "AIEscapeFHE address whose status decryption events are logged")
+  .addOptionalParam("interval", "Polling interval in milliseconds", 1000, types.int)
+  .addFlag("once", "Fulfil the pending requests and exit")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, fhevm } = hre;
+
+    await fhevm.initializeCLIApi();
+    if (!fhevm.isMock) {
+      throw new Error("oracle:run only works against the FHEVM mock, use --network localhost");
+    }
+
+    // Status decryptions are requested and answered by the game's StatusDecryptions
+    const contract = taskArguments.address
+      ? await ethers.getContractAt(
+          "StatusDecryptions",
+          await (await ethers.getContractAt("AIEscapeFHE", taskArguments.address)).statusDecryptions(),
+        )
+      : undefined;
+    let cursor = await ethers.provider.getBlockNumber();
+
+    const logDecryptions = async () => {
+      if (!contract) return;
+      const latest = await ethers.provider.getBlockNumber();
+      if (latest <= cursor) return;
+      const [requested, completed] = await Promise.all([
+        contract.queryFilter(contract.filters.DecryptionRequested(), cursor + 1, latest),
+        contract.queryFilter(contract.filters.DecryptionCompleted(), cursor + 1, latest),
+      ]);
+      for (const e of requested) {
+        console.log(`DecryptionRequested requestId=${e.args.requestId} player=${e.args.player} session=${e.args.sessionId}`);
+      }
+      for (const e of completed) {
+        // Values are padded; only the player can unmask them with getStatusMasks
+        console.log(
+          `DecryptionCompleted requestId=${e.args.requestId} player=${e.args.player} session=${e.args.sessionId} stale=${e.args.stale}`,
+        );
+      }
+      cursor = latest;
+    };
+
+    const fulfil = async () => {
+      try {
+        await fhevm.awaitDecryptionOracle();
+        // The cursor only advances once a range is logged, so a failed read is retried on the next tick
+        await logDecryptions();
+      } catch (e) {
+        // A reverting callback (e.g. a cancelled request) or a failed log read must not stop the oracle
+        console.error(`Decryption oracle tick failed: ${e instanceof Error ? e.message : e}`);
+      }
+    };
+
+    console.log(`Decryption oracle running on ${hre.network.name}`);
+    await fulfil();
+    if (taskArguments.once) {
+      return;
+    }
+    for (;;) {
+      await new Promise((resolve) => setTimeout(resolve, taskArguments.interval));
+      await fulfil();
+    }
+  });
@@ -0,0 +1,738 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { AIEscapeFHE, StatusDecryptions, StatusDecryptions__factory } from "../types";
+import { Signers, deployFixture, getSigners, increaseTime, requireMock } from "./helpers";
+
+const EXAMINE = 1;
+const USE_ITEM = 2;
+const PICK_UP = 3;
+
+// StatusDecryptions.Status
+const PENDING = 1n;
+const COMPLETED = 3n;
+
+describe("AIEscapeFHE", function () {
+  let signers: Signers;
+  let contract: AIEscapeFHE;
+  let contractAddress: string;
+
+  before(async function () {
+    signers = await getSigners();
+  });
+
+  beforeEach(async function () {
+    requireMock(this);
+    ({ game: contract, gameAddress: contractAddress } = await deployFixture(signers.oracle));
+  });
+
+  async function encrypt(signer: HardhatEthersSigner, value: number) {
+    const input = fhevm.createEncryptedInput(contractAddress, signer.address);
+    input.add32(value);
+    return input.encrypt();
+  }
+
+  async function submitAction(signer: HardhatEthersSigner, actionType: number, target: number) {
+    const input = fhevm.createEncryptedInput(contractAddress, signer.address);
+    input.add32(actionType);
+    input.add32(target);
+    const enc = await input.encrypt();
+    return contract.connect(signer).submitPlayerAction(enc.handles[0], enc.handles[1], enc.inputProof);
+  }
+
+  async function createPuzzle(solution: number, difficulty = 1, requiredItems = 0n) {
+    const enc = await encrypt(signers.owner, solution);
+    await (await contract.createPuzzle(enc.handles[0], enc.inputProof, difficulty, requiredItems)).wait();
+    return contract.puzzleCount();
+  }
+
+  async function guess(signer: HardhatEthersSigner, puzzleId: bigint | number, value: number) {
+    const enc = await encrypt(signer, value);
+    return contract.connect(signer).submitGuess(puzzleId, enc.handles[0], enc.inputProof);
+  }
+
+  async function decryptState(signer: HardhatEthersSigner) {
+    const [progress, puzzleState1, puzzleState2, hintEligibility] = await contract.getPlayerState(signer.address);
+    return {
+      progress: await fhevm.userDecryptEuint(FhevmType.euint32, progress, contractAddress, signer),
+      puzzleState1: await fhevm.userDecryptEuint(FhevmType.euint32, puzzleState1, contractAddress, signer),
+      puzzleState2: await fhevm.userDecryptEuint(FhevmType.euint32, puzzleState2, contractAddress, signer),
+      hintEligibility: await fhevm.userDecryptEbool(hintEligibility, contractAddress, signer),
+    };
+  }
+
+  describe("access control", function () {
+    let roles: Record<"admin" | "gameMaster" | "puzzleAuthor" | "pauser" | "oracle", string>;
+
+    beforeEach(async function () {
+      roles = {
+        admin: await contract.ADMIN_ROLE(),
+        gameMaster: await contract.GAME_MASTER_ROLE(),
+        puzzleAuthor: await contract.PUZZLE_AUTHOR_ROLE(),
+        pauser: await contract.PAUSER_ROLE(),
+        oracle: await contract.ORACLE_ROLE(),
+      };
+    });
+
+    it("gives the deployer ownership and every role but the oracle's", async function () {
+      expect(await contract.owner()).to.eq(signers.owner.address);
+      for (const role of [roles.admin, roles.gameMaster, roles.puzzleAuthor, roles.pauser]) {
+        expect(await contract.getRoleMembers(role)).to.deep.eq([signers.owner.address]);
+      }
+      expect(await contract.getRoleMembers(roles.oracle)).to.deep.eq([signers.oracle.address]);
+    });
+
+    it("restricts admin functions to admins", async function () {
+      const asAlice = contract.connect(signers.alice);
+      await expect(asAlice.setCooldown(1))
+        .to.be.revertedWithCustomError(contract, "MissingRole")
+        .withArgs(roles.admin, signers.alice.address);
+      await expect(asAlice.setLeaderboard(signers.alice.address)).to.be.revertedWithCustomError(contract, "MissingRole");
+      await expect(asAlice.grantRole(roles.pauser, signers.alice.address)).to.be.revertedWithCustomError(
+        contract,
+        "MissingRole",
+      );
+      await expect(asAlice.transferOwnership(signers.alice.address)).to.be.revertedWithCustomError(
+        contract,
+        "NotOwner",
+      );
+    });
+
+    it("maps each privileged function onto its role", async function () {
+      const asAlice = contract.connect(signers.alice);
+      const enc = await encrypt(signers.alice, 7);
+      await expect(asAlice.createPuzzle(enc.handles[0], enc.inputProof, 1, 0))
+        .to.be.revertedWithCustomError(contract, "MissingRole")
+        .withArgs(roles.puzzleAuthor, signers.alice.address);
+      await expect(asAlice.pause())
+        .to.be.revertedWithCustomError(contract, "MissingRole")
+        .withArgs(roles.pauser, signers.alice.address);
+
+      await (await contract.grantRole(roles.puzzleAuthor, signers.alice.address)).wait();
+      await (await asAlice.createPuzzle(enc.handles[0], enc.inputProof, 1, 0)).wait();
+      await expect(asAlice.createRoom([1], [], 1, 0))
+        .to.be.revertedWithCustomError(contract, "MissingRole")
+        .withArgs(roles.gameMaster, signers.alice.address);
+      await (await contract.grantRole(roles.gameMaster, signers.alice.address)).wait();
+      await expect(asAlice.createRoom([1], [], 1, 0)).to.emit(contract, "RoomCreated");
+    });
+
+    it("lets any account play without a role", async function () {
+      await (await contract.connect(signers.alice).startSession(0)).wait();
+      await expect(submitAction(signers.alice, EXAMINE, 1)).to.not.be.reverted;
+    });
+
+    it("grants, revokes and renounces roles with enumerable members", async function () {
+      await expect(contract.grantRole(roles.pauser, signers.alice.address))
+        .to.emit(contract, "RoleGranted")
+        .withArgs(roles.pauser, signers.alice.address, signers.owner.address);
+      // Granting twice is a no-op
+      await expect(contract.grantRole(roles.pauser, signers.alice.address)).to.not.emit(contract, "RoleGranted");
+      await (await contract.grantRole(roles.pauser, signers.bob.address)).wait();
+      expect(await contract.getRoleMemberCount(roles.pauser)).to.eq(3n);
+      expect(await contract.hasRole(roles.pauser, signers.alice.address)).to.eq(true);
+
+      await expect(contract.revokeRole(roles.pauser, signers.owner.address))
+        .to.emit(contract, "RoleRevoked")
+        .withArgs(roles.pauser, signers.owner.address, signers.owner.address);
+      // The last member takes the revoked member's slot
+      expect(await contract.getRoleMembers(roles.pauser)).to.deep.eq([signers.bob.address, signers.alice.address]);
+      await expect(contract.pause()).to.be.revertedWithCustomError(contract, "MissingRole");
+
+      await expect(contract.connect(signers.bob).renounceRole(roles.pauser))
+        .to.emit(contract, "RoleRevoked")
+        .withArgs(roles.pauser, signers.bob.address, signers.bob.address);
+      expect(await contract.getRoleMembers(roles.pauser)).to.deep.eq([signers.alice.address]);
+      await expect(contract.connect(signers.alice).pause()).to.emit(contract, "Paused");
+    });
+
+    it("only lets the owner manage admins", async function () {
+      await (await contract.grantRole(roles.admin, signers.alice.address)).wait();
+      await expect(contract.connect(signers.alice).grantRole(roles.admin, signers.bob.address))
+        .to.be.revertedWithCustomError(contract, "NotOwner");
+      await expect(contract.connect(signers.alice).revokeRole(roles.admin, signers.owner.address))
+        .to.be.revertedWithCustomError(contract, "NotOwner");
+      // Admins manage every other role
+      await (await contract.connect(signers.alice).grantRole(roles.oracle, signers.bob.address)).wait();
+      expect(await contract.hasRole(roles.oracle, signers.bob.address)).to.eq(true);
+    });
+
+    it("blocks actions while paused", async function () {
+      await (await contract.startSession(0)).wait();
+      await expect(contract.pause()).to.emit(contract, "Paused").withArgs(signers.owner.address);
+      await expect(submitAction(signers.owner, EXAMINE, 1)).to.be.revertedWithCustomError(contract, "PausedError");
+      await expect(contract.pauseSession()).to.be.revertedWithCustomError(contract, "PausedError");
+
+      await (await contract.unpause()).wait();
+      await expect(submitAction(signers.owner, EXAMINE, 1)).to.not.be.reverted;
+    });
+
+    it("transfers ownership in two steps", async function () {
+      await expect(contract.transferOwnership(ethers.ZeroAddress)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidOwner",
+      );
+      await expect(contract.transferOwnership(signers.alice.address))
+        .to.emit(contract, "OwnershipTransferStarted")
+        .withArgs(signers.owner.address, signers.alice.address);
+      expect(await contract.owner()).to.eq(signers.owner.address);
+      expect(await contract.pendingOwner()).to.eq(signers.alice.address);
+      await expect(contract.connect(signers.bob).acceptOwnership()).to.be.revertedWithCustomError(
+        contract,
+        "NotPendingOwner",
+      );
+
+      await expect(contract.connect(signers.alice).acceptOwnership())
+        .to.emit(contract, "OwnershipTransferred")
+        .withArgs(signers.owner.address, signers.alice.address);
+      expect(await contract.owner()).to.eq(signers.alice.address);
+      expect(await contract.pendingOwner()).to.eq(ethers.ZeroAddress);
+      expect(await contract.getRoleMembers(roles.admin)).to.deep.eq([signers.alice.address]);
+      await expect(contract.setCooldown(5)).to.be.revertedWithCustomError(contract, "MissingRole");
+      // Operational roles stay with the previous owner until revoked
+      expect(await contract.hasRole(roles.pauser, signers.owner.address)).to.eq(true);
+    });
+  });
+
+  describe("cooldowns", function () {
+    beforeEach(async function () {
+      await (await contract.startSession(0)).wait();
+    });
+
+    it("rejects a second action within the cooldown", async function () {
+      await (await submitAction(signers.owner, EXAMINE, 1)).wait();
+      await expect(submitAction(signers.owner, EXAMINE, 1)).to.be.revertedWithCustomError(contract, "CooldownActive");
+
+      await increaseTime(31);
+      await expect(submitAction(signers.owner, EXAMINE, 1)).to.not.be.reverted;
+    });
+
+    it("tracks cooldowns per sender", async function () {
+      await (await contract.connect(signers.alice).startSession(0)).wait();
+      await (await submitAction(signers.owner, EXAMINE, 1)).wait();
+      await expect(submitAction(signers.alice, EXAMINE, 1)).to.not.be.reverted;
+    });
+
+    it("lets the owner change the cooldown", async function () {
+      await expect(contract.setCooldown(0)).to.be.revertedWithCustomError(contract, "InvalidCooldown");
+      await expect(contract.setCooldown(5)).to.emit(contract, "CooldownSet").withArgs(30, 5);
+
+      await (await submitAction(signers.owner, EXAMINE, 1)).wait();
+      await increaseTime(5);
+      await expect(submitAction(signers.owner, EXAMINE, 1)).to.not.be.reverted;
+    });
+  });
+
+  describe("sessions", function () {
+    beforeEach(async function () {
+      await (await contract.setCooldown(1)).wait();
+    });
+
+    it("rejects gameplay outside an active session", async function () {
+      await expect(submitAction(signers.owner, EXAMINE, 1)).to.be.revertedWithCustomError(contract, "NoActiveSession");
+      await expect(contract.requestGameStatusDecryption()).to.be.revertedWithCustomError(contract, "NoActiveSession");
+      const puzzleId = await createPuzzle(7);
+      await expect(guess(signers.owner, puzzleId, 7)).to.be.revertedWithCustomError(contract, "NoActiveSession");
+      await expect(contract.requestHint(puzzleId)).to.be.revertedWithCustomError(contract, "NoActiveSession");
+      await expect(contract.pauseSession()).to.be.revertedWithCustomError(contract, "InvalidSessionState");
+      await expect(contract.finishSession()).to.be.revertedWithCustomError(contract, "InvalidSessionState");
+    });
+
+    it("excludes paused time from the play time", async function () {
+      await expect(contract.startSession(0)).to.emit(contract, "SessionStarted").withArgs(1, signers.owner.address, 0);
+      await expect(contract.startSession(0)).to.be.revertedWithCustomError(contract, "SessionInProgress");
+      await increaseTime(10);
+
+      await expect(contract.pauseSession()).to.emit(contract, "SessionPaused").withArgs(1, signers.owner.address);
+      await expect(contract.pauseSession()).to.be.revertedWithCustomError(contract, "InvalidSessionState");
+      await expect(submitAction(signers.owner, EXAMINE, 1)).to.be.revertedWithCustomError(contract, "NoActiveSession");
+      const pausedPlayTime = await contract.sessionPlayTime(1);
+      await increaseTime(100);
+      expect(await contract.sessionPlayTime(1)).to.eq(pausedPlayTime);
+
+      await expect(contract.resumeSession()).to.emit(contract, "SessionResumed");
+      await (await submitAction(signers.owner, EXAMINE, 1)).wait();
+      await increaseTime(5);
+      await expect(contract.finishSession()).to.emit(contract, "SessionFinished");
+
+      const session = await contract.getSession(1);
+      expect(session.status).to.eq(4);
+      expect(session.playSeconds).to.be.at.most(session.endedAt - session.startedAt - 100n);
+      await increaseTime(50);
+      expect(await contract.sessionPlayTime(1)).to.eq(session.playSeconds);
+    });
+
+    it("seals encrypted stats and starts the next session from a clean state", async function () {
+      const puzzleId = await createPuzzle(42);
+      await (await contract.startSession(0)).wait();
+      await (await submitAction(signers.owner, PICK_UP, 20)).wait();
+      await increaseTime(1);
+      await (await guess(signers.owner, puzzleId, 41)).wait();
+      await increaseTime(1);
+      await (await guess(signers.owner, puzzleId, 42)).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      const [emptyProgress] = await contract.getSessionStats(1);
+      expect(emptyProgress).to.eq(ethers.ZeroHash);
+      await (await contract.finishSession()).wait();
+
+      const sealed = async () => {
+        const [progress, correctGuesses, , inventory] = await contract.getSessionStats(1);
+        return {
+          progress: await fhevm.userDecryptEuint(FhevmType.euint32, progress, contractAddress, signers.owner),
+          correctGuesses: await fhevm.userDecryptEuint(FhevmType.euint32, correctGuesses, contractAddress, signers.owner),
+          inventory: await fhevm.userDecryptEuint(FhevmType.euint64, inventory, contractAddress, signers.owner),
+        };
+      };
+      expect(await sealed()).to.deep.eq({ progress: 23n, correctGuesses: 1n, inventory: 1n << 20n });
+
+      await expect(contract.startSession(0))
+        .to.emit(contract, "PlayerStateInitialized")
+        .withArgs(signers.owner.address);
+      expect(await contract.currentSession(signers.owner.address)).to.eq(2);
+      expect((await decryptState(signers.owner)).progress).to.eq(0n);
+      expect((await sealed()).progress).to.eq(23n);
+      expect(await contract.puzzleSolved(puzzleId, 1)).to.eq(true);
+      expect(await contract.puzzleSolved(puzzleId, 2)).to.eq(false);
+    });
+
+    it("stops accepting moves when a timed room runs out of time", async function () {
+      await createPuzzle(7);
+      await (await contract.createRoom([1], [], 1, 120)).wait();
+      await (await contract.startSession(1)).wait();
+      expect((await contract.getSession(1)).timeLimit).to.eq(120);
+
+      await (await contract.pauseSession()).wait();
+      await increaseTime(600);
+      await (await contract.resumeSession()).wait();
+      await expect(submitAction(signers.owner, EXAMINE, 1)).to.not.be.reverted;
+
+      await increaseTime(120);
+      await expect(submitAction(signers.owner, EXAMINE, 1)).to.be.revertedWithCustomError(contract, "TimeUp");
+      await expect(guess(signers.owner, 1, 7)).to.be.revertedWithCustomError(contract, "TimeUp");
+      await expect(contract.finishSession()).to.emit(contract, "SessionFinished");
+    });
+
+    it("scores the session homomorphically from time, hints and wrong guesses", async function () {
+      const puzzleId = await createPuzzle(42);
+      await (await contract.startSession(0)).wait();
+      await (await guess(signers.owner, puzzleId, 41)).wait();
+      await (await contract.requestHint(puzzleId)).wait();
+      // With enough progress the next request resolves to tier 0, which is free
+      await increaseTime(1);
+      await (await submitAction(signers.owner, EXAMINE, 60)).wait();
+      await (await contract.requestHint(puzzleId)).wait();
+      const tier = await contract.getHintTier(puzzleId, 1);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint8, tier, contractAddress, signers.owner)).to.eq(0n);
+      await increaseTime(1);
+      await (await guess(signers.owner, puzzleId, 42)).wait();
+      await fhevm.awaitDecryptionOracle();
+      await increaseTime(600);
+      await (await contract.finishSession()).wait();
+
+      const { playSeconds } = await contract.getSession(1);
+      const [, , wrongGuesses, , score] = await contract.getSessionStats(1);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, wrongGuesses, contractAddress, signers.owner)).to.eq(1n);
+      // 100 for the solve, -20 for the miss, -30 for the hint, plus the time bonus against the one-hour par
+      const expected = 100n - 20n - 30n + (3600n - playSeconds) / 10n;
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, score, contractAddress, signers.owner)).to.eq(expected);
+      await expect(fhevm.userDecryptEuint(FhevmType.euint32, score, contractAddress, signers.alice)).to.be.rejected;
+    });
+
+    it("lets a player abandon a paused session", async function () {
+      await createPuzzle(7);
+      await (await contract.createRoom([1], [], 1, 0)).wait();
+      await expect(contract.startSession(2)).to.be.revertedWithCustomError(contract, "RoomNotFound");
+      await (await contract.startSession(1)).wait();
+      await (await contract.pauseSession()).wait();
+
+      await expect(contract.abandonSession()).to.emit(contract, "SessionAbandoned");
+      const session = await contract.getSession(1);
+      expect(session.roomId).to.eq(1);
+      expect(session.status).to.eq(3);
+      await expect(contract.abandonSession()).to.be.revertedWithCustomError(contract, "InvalidSessionState");
+      await expect(contract.startSession(1)).to.emit(contract, "SessionStarted").withArgs(2, signers.owner.address, 1);
+    });
+  });
+
+  describe("encrypted progress", function () {
+    beforeEach(async function () {
+      await (await contract.setCooldown(1)).wait();
+      await (await contract.startSession(0)).wait();
+    });
+
+    it("initializes player state when the session starts", async function () {
+      expect(await contract.isPlayerInitialized(signers.owner.address)).to.eq(true);
+      expect(await contract.isPlayerInitialized(signers.alice.address)).to.eq(false);
+      expect((await decryptState(signers.owner)).progress).to.eq(0n);
+    });
+
+    it("adds action type and target to progress", async function () {
+      await (await submitAction(signers.owner, EXAMINE, 20)).wait();
+      let state = await decryptState(signers.owner);
+      expect(state.progress).to.eq(21n);
+      expect(state.puzzleState1).to.eq(10n);
+      expect(state.puzzleState2).to.eq(0n);
+      expect(state.hintEligibility).to.eq(false);
+
+      await increaseTime(1);
+      await (await submitAction(signers.owner, PICK_UP, 30)).wait();
+      state = await decryptState(signers.owner);
+      expect(state.progress).to.eq(54n);
+      // Only examine actions advance the first puzzle state
+      expect(state.puzzleState1).to.eq(10n);
+      expect(state.hintEligibility).to.eq(true);
+    });
+
+    it("keeps players' state separate", async function () {
+      await (await contract.connect(signers.alice).startSession(0)).wait();
+      await (await submitAction(signers.owner, EXAMINE, 100)).wait();
+      await (await submitAction(signers.alice, PICK_UP, 2)).wait();
+
+      expect((await decryptState(signers.owner)).progress).to.eq(101n);
+      expect((await decryptState(signers.alice)).progress).to.eq(5n);
+    });
+
+    it("tracks picked up and used items in the inventory", async function () {
+      await (await submitAction(signers.owner, PICK_UP, 101)).wait();
+      await increaseTime(1);
+      await (await submitAction(signers.owner, PICK_UP, 205)).wait();
+      const inventory = async () =>
+        fhevm.userDecryptEuint(
+          FhevmType.euint64,
+          await contract.getInventory(signers.owner.address),
+          contractAddress,
+          signers.owner,
+        );
+      expect(await inventory()).to.eq((1n << 37n) | (1n << 13n));
+
+      await increaseTime(1);
+      await (await submitAction(signers.owner, USE_ITEM, 205)).wait();
+      expect(await inventory()).to.eq(1n << 37n);
+    });
+  });
+
+  describe("game status decryption", function () {
+    let status: StatusDecryptions;
+    let statusAddress: string;
+
+    beforeEach(async function () {
+      await (await contract.setCooldown(1)).wait();
+      await (await contract.startSession(0)).wait();
+      statusAddress = await contract.statusDecryptions();
+      status = StatusDecryptions__factory.connect(statusAddress, signers.owner);
+    });
+
+    async function requestDecryption() {
+      const tx = await contract.requestGameStatusDecryption();
+      const receipt = await tx.wait();
+      const log = receipt!.logs
+        .map((l) => {
+          try {
+            return status.interface.parseLog(l);
+          } catch {
+            return null;
+          }
+        })
+        .find((parsed) => parsed?.name === "DecryptionRequested");
+      return log!.args.requestId as bigint;
+    }
+
+    it("requires an active session", async function () {
+      await (await contract.finishSession()).wait();
+      await expect(contract.requestGameStatusDecryption()).to.be.revertedWithCustomError(contract, "NoActiveSession");
+    });
+
+    it("only accepts requests from the game", async function () {
+      await expect(status.request(signers.owner.address, 1)).to.be.revertedWithCustomError(status, "NotGame");
+    });
+
+    it("delivers the masked state through the oracle callback", async function () {
+      await (await submitAction(signers.owner, EXAMINE, 60)).wait();
+      await increaseTime(1);
+
+      const requestId = await requestDecryption();
+      const ctx = await status.decryptionContexts(requestId);
+      expect(ctx.requester).to.eq(signers.owner.address);
+      expect(ctx.sessionId).to.eq(1);
+      expect(await status.statusOf(requestId)).to.eq(PENDING);
+      const [progress, puzzleState1, puzzleState2, hintEligibility] = await contract.getPlayerState(signers.owner.address);
+      expect(ctx.snapshot).to.deep.eq([progress, puzzleState1, puzzleState2, hintEligibility]);
+
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await status.statusOf(requestId)).to.eq(COMPLETED);
+      const [completed] = await status.queryFilter(status.filters.DecryptionCompleted(requestId));
+      expect(completed.args.player).to.eq(signers.owner.address);
+      expect(completed.args.stale).to.eq(false);
+
+      // Only the requester can decrypt the pads and recover the plaintext state
+      const [progressMask, state1Mask, state2Mask, hintMask] = await status.getStatusMasks(requestId);
+      const unmask = async (masked: bigint, handle: string) =>
+        (masked - (await fhevm.userDecryptEuint(FhevmType.euint32, handle, statusAddress, signers.owner))) &
+        0xffffffffn;
+      expect(await unmask(completed.args.maskedProgress, progressMask)).to.eq(61n);
+      expect(await unmask(completed.args.maskedPuzzleState1, state1Mask)).to.eq(10n);
+      expect(await unmask(completed.args.maskedPuzzleState2, state2Mask)).to.eq(0n);
+      const hintPad = await fhevm.userDecryptEbool(hintMask, statusAddress, signers.owner);
+      expect(completed.args.maskedHintEligibility !== hintPad).to.eq(true);
+
+      await expect(
+        fhevm.userDecryptEuint(FhevmType.euint32, progressMask, statusAddress, signers.alice),
+      ).to.be.rejected;
+    });
+
+    it("only accepts callbacks from the decryption oracle", async function () {
+      await (await submitAction(signers.owner, EXAMINE, 1)).wait();
+      await increaseTime(1);
+      const requestId = await requestDecryption();
+
+      await expect(status.statusCallback(requestId, "0x", "0x")).to.be.revertedWithCustomError(status, "NotOracle");
+      await expect(contract.guessCallback(requestId, "0x", "0x")).to.be.revertedWithCustomError(
+        contract,
+        "MissingRole",
+      );
+      await expect(
+        status.connect(signers.oracle).statusCallback(requestId + 1n, "0x", "0x"),
+      ).to.be.revertedWithCustomError(status, "UnknownRequest");
+      await fhevm.awaitDecryptionOracle();
+    });
+
+    it("rejects replaying a processed request", async function () {
+      await (await submitAction(signers.owner, EXAMINE, 1)).wait();
+      await increaseTime(1);
+      const requestId = await requestDecryption();
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(
+        status.connect(signers.oracle).statusCallback(requestId, "0x", "0x"),
+      ).to.be.revertedWithCustomError(status, "ReplayAttempt");
+    });
+
+    it("reports results for a state that changed after the request as stale", async function () {
+      await (await submitAction(signers.owner, EXAMINE, 1)).wait();
+      await increaseTime(1);
+      const requestId = await requestDecryption();
+      const { snapshot } = await status.decryptionContexts(requestId);
+      await increaseTime(1);
+      await (await submitAction(signers.owner, EXAMINE, 1)).wait();
+
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await status.statusOf(requestId)).to.eq(COMPLETED);
+      const [completed] = await status.queryFilter(status.filters.DecryptionCompleted(requestId));
+      expect(completed.args.stale).to.eq(true);
+      // The result still describes the snapshot, not the live state
+      const [progressMask] = await status.getStatusMasks(requestId);
+      const [liveProgress] = await contract.getPlayerState(signers.owner.address);
+      const decrypt = (handle: string, address: string) =>
+        fhevm.userDecryptEuint(FhevmType.euint32, handle, address, signers.owner);
+      const progress = (completed.args.maskedProgress - (await decrypt(progressMask, statusAddress))) & 0xffffffffn;
+      expect(progress).to.eq(await decrypt(snapshot.progress, contractAddress));
+      expect(progress).to.not.eq(await decrypt(liveProgress, contractAddress));
+    });
+  });
+
+  describe("puzzles", function () {
+    beforeEach(async function () {
+      await (await contract.setCooldown(1)).wait();
+      await (await contract.startSession(0)).wait();
+    });
+
+    it("validates difficulty", async function () {
+      const enc = await encrypt(signers.owner, 7);
+      await expect(contract.createPuzzle(enc.handles[0], enc.inputProof, 0, 0)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidDifficulty",
+      );
+    });
+
+    it("reveals only whether a guess matched", async function () {
+      const puzzleId = await createPuzzle(42);
+      await expect(guess(signers.owner, 99, 42)).to.be.revertedWithCustomError(contract, "PuzzleNotFound");
+
+      await (await guess(signers.owner, puzzleId, 41)).wait();
+      await fhevm.awaitDecryptionOracle();
+      expect(await contract.puzzleSolved(puzzleId, 1)).to.eq(false);
+
+      await increaseTime(1);
+      await (await guess(signers.owner, puzzleId, 42)).wait();
+      await fhevm.awaitDecryptionOracle();
+      expect(await contract.puzzleSolved(puzzleId, 1)).to.eq(true);
+
+      await increaseTime(1);
+      await expect(guess(signers.owner, puzzleId, 42)).to.be.revertedWithCustomError(contract, "PuzzleAlreadySolved");
+    });
+
+    it("requires the puzzle's items in the inventory", async function () {
+      const puzzleId = await createPuzzle(5, 1, 1n << 37n);
+      await (await guess(signers.owner, puzzleId, 5)).wait();
+      await fhevm.awaitDecryptionOracle();
+      expect(await contract.puzzleSolved(puzzleId, 1)).to.eq(false);
+
+      await increaseTime(1);
+      await (await submitAction(signers.owner, PICK_UP, 101)).wait();
+      await increaseTime(1);
+      await (await guess(signers.owner, puzzleId, 5)).wait();
+      await fhevm.awaitDecryptionOracle();
+      expect(await contract.puzzleSolved(puzzleId, 1)).to.eq(true);
+    });
+
+    it("raises the hint tier with wrong guesses and time spent", async function () {
+      const puzzleId = await createPuzzle(5);
+      const tier = async () => {
+        await (await contract.requestHint(puzzleId)).wait();
+        const handle = await contract.getHintTier(puzzleId, 1);
+        return fhevm.userDecryptEuint(FhevmType.euint8, handle, contractAddress, signers.owner);
+      };
+
+      // Low progress alone earns the first tier
+      expect(await tier()).to.eq(1n);
+      for (let i = 0; i < 3; i++) {
+        await increaseTime(1);
+        await (await guess(signers.owner, puzzleId, 1)).wait();
+      }
+      expect(await tier()).to.eq(2n);
+      await increaseTime(16 * 60);
+      expect(await tier()).to.eq(3n);
+      expect(await contract.hintRequests(puzzleId, 1)).to.eq(3);
+    });
+
+    it("starts every session with a fresh hint tier, hint charge and speed sample", async function () {
+      const puzzleId = await createPuzzle(5);
+      for (let i = 0; i < 3; i++) {
+        await increaseTime(1);
+        await (await guess(signers.owner, puzzleId, 1)).wait();
+      }
+      await increaseTime(16 * 60);
+      await (await contract.requestHint(puzzleId)).wait();
+      await fhevm.awaitDecryptionOracle();
+      await (await contract.finishSession()).wait();
+
+      await (await contract.startSession(0)).wait();
+      expect(await contract.hintRequests(puzzleId, 2)).to.eq(0);
+      expect(await contract.getHintTier(puzzleId, 2)).to.eq(ethers.ZeroHash);
+      expect(await contract.firstAttemptAt(puzzleId, 2)).to.eq(0);
+
+      // The misses and the stuck time of the first session no longer count, so
+      // with enough progress the hint resolves to the free tier
+      await (await submitAction(signers.owner, EXAMINE, 60)).wait();
+      await (await contract.requestHint(puzzleId)).wait();
+      const tier = await contract.getHintTier(puzzleId, 2);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint8, tier, contractAddress, signers.owner)).to.eq(0n);
+      expect(await contract.hintRequests(puzzleId, 2)).to.eq(1);
+      const { timestamp } = (await ethers.provider.getBlock("latest"))!;
+      expect(await contract.firstAttemptAt(puzzleId, 2)).to.eq(timestamp);
+
+      await increaseTime(1);
+      await (await guess(signers.owner, puzzleId, 5)).wait();
+      await fhevm.awaitDecryptionOracle();
+      await (await contract.finishSession()).wait();
+      const { playSeconds } = await contract.getSession(2);
+      const [, , , , score] = await contract.getSessionStats(2);
+      // The solve and the time bonus, with no hint charged
+      const expected = 100n + (3600n - playSeconds) / 10n;
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, score, contractAddress, signers.owner)).to.eq(expected);
+      expect(await contract.puzzleSolved(puzzleId, 1)).to.eq(false);
+    });
+
+    it("reads a session's solved puzzles and hint requests in one call", async function () {
+      for (const solution of [3, 4]) await createPuzzle(solution);
+      await increaseTime(1);
+      await (await guess(signers.owner, 2, 4)).wait();
+      await fhevm.awaitDecryptionOracle();
+      await (await contract.requestHint(1)).wait();
+      await (await contract.requestHint(1)).wait();
+
+      const [solved, hints] = await contract.getSessionPuzzles(1);
+      expect(solved).to.deep.eq([false, true]);
+      expect(hints).to.deep.eq([2n, 0n]);
+      const [otherSolved, otherHints] = await contract.getSessionPuzzles(2);
+      expect(otherSolved).to.deep.eq([false, false]);
+      expect(otherHints).to.deep.eq([0n, 0n]);
+    });
+
+    it("serves harder puzzles as the performance score rises", async function () {
+      for (const difficulty of [1, 2, 3, 1]) await createPuzzle(7, difficulty);
+
+      await (await contract.serveNextPuzzle()).wait();
+      await fhevm.awaitDecryptionOracle();
+      expect(await contract.servedPuzzle(signers.owner.address)).to.eq(2);
+
+      for (const puzzleId of [1, 4]) {
+        await increaseTime(1);
+        await (await guess(signers.owner, puzzleId, 7)).wait();
+      }
+      await fhevm.awaitDecryptionOracle();
+      await (await contract.serveNextPuzzle()).wait();
+      await fhevm.awaitDecryptionOracle();
+      expect(await contract.servedPuzzle(signers.owner.address)).to.eq(3);
+    });
+  });
+
+  describe("rooms", function () {
+    beforeEach(async function () {
+      await (await contract.setCooldown(1)).wait();
+      await (await contract.startSession(0)).wait();
+      for (const solution of [11, 22, 33]) await createPuzzle(solution);
+      await (await contract.createRoom([1, 2], [], 0, 0)).wait();
+      await (await contract.createRoom([3], [1, 2], 3, 0)).wait();
+    });
+
+    it("rejects invalid rooms", async function () {
+      await expect(contract.createRoom([1], [], 2, 0)).to.be.revertedWithCustomError(contract, "InvalidRoom");
+      await expect(contract.requestRoomUnlock(9)).to.be.revertedWithCustomError(contract, "RoomNotFound");
+    });
+
+    it("unlocks a room once its prerequisites are solved and records the escape", async function () {
+      await expect(guess(signers.owner, 3, 33)).to.be.revertedWithCustomError(contract, "RoomLocked");
+      await expect(contract.requestRoomUnlock(2)).to.be.revertedWithCustomError(contract, "PrerequisitesNotMet");
+
+      await (await guess(signers.owner, 1, 11)).wait();
+      await increaseTime(1);
+      await (await guess(signers.owner, 2, 99)).wait();
+      await fhevm.awaitDecryptionOracle();
+      await (await contract.requestRoomUnlock(2)).wait();
+      await fhevm.awaitDecryptionOracle();
+      expect(await contract.roomUnlocked(2, 1)).to.eq(false);
+
+      await increaseTime(1);
+      await (await guess(signers.owner, 2, 22)).wait();
+      await fhevm.awaitDecryptionOracle();
+      await (await contract.requestRoomUnlock(2)).wait();
+      await fhevm.awaitDecryptionOracle();
+      expect(await contract.roomUnlocked(2, 1)).to.eq(true);
+
+      await increaseTime(1);
+      await (await guess(signers.owner, 3, 33)).wait();
+      await fhevm.awaitDecryptionOracle();
+      expect(await contract.hasEscaped(2, 1)).to.eq(true);
+    });
+
+    it("confines a room session to its room and the locks guarding it", async function () {
+      const loosePuzzle = await createPuzzle(44);
+      await (await guess(signers.owner, 1, 11)).wait();
+      await fhevm.awaitDecryptionOracle();
+      await (await contract.finishSession()).wait();
+
+      await (await contract.startSession(2)).wait();
+      await increaseTime(1);
+      expect(await contract.puzzleSolved(1, 2)).to.eq(false);
+      await expect(guess(signers.owner, loosePuzzle, 44)).to.be.revertedWithCustomError(contract, "NotInSessionRoom");
+      await expect(contract.requestRoomUnlock(1)).to.be.revertedWithCustomError(contract, "NotInSessionRoom");
+      await expect(guess(signers.owner, 3, 33)).to.be.revertedWithCustomError(contract, "RoomLocked");
+
+      // The prerequisite locks are played again from scratch
+      for (const [puzzleId, solution] of [[1, 11], [2, 22]]) {
+        await increaseTime(1);
+        await (await guess(signers.owner, puzzleId, solution)).wait();
+      }
+      await fhevm.awaitDecryptionOracle();
+      await (await contract.requestRoomUnlock(2)).wait();
+      await fhevm.awaitDecryptionOracle();
+      expect(await contract.roomUnlocked(2, 2)).to.eq(true);
+      expect(await contract.roomUnlocked(2, 1)).to.eq(false);
+    });
+  });
+});
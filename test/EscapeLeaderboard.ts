@@ -0,0 +1,213 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { AIEscapeFHE, EscapeLeaderboard } from "../types";
+import { Signers, deployFixture, deployLeaderboard, getSigners, increaseTime, requireMock } from "./helpers";
+
+describe("EscapeLeaderboard", function () {
+  let signers: Signers;
+  let game: AIEscapeFHE;
+  let leaderboard: EscapeLeaderboard;
+  let leaderboardAddress: string;
+
+  before(async function () {
+    signers = await getSigners();
+  });
+
+  beforeEach(async function () {
+    requireMock(this);
+    ({ game } = await deployFixture(signers.oracle));
+    ({ leaderboard, leaderboardAddress } = await deployLeaderboard(game));
+    await createRoom(42);
+  });
+
+  async function createRoom(solution: number) {
+    const input = fhevm.createEncryptedInput(await game.getAddress(), signers.owner.address);
+    input.add32(solution);
+    const enc = await input.encrypt();
+    await (await game.createPuzzle(enc.handles[0], enc.inputProof, 1, 0)).wait();
+    const puzzleId = await game.puzzleCount();
+    await (await game.createRoom([puzzleId], [], puzzleId, 0)).wait();
+  }
+
+  async function guess(signer: HardhatEthersSigner, puzzleId: bigint | number, value: number) {
+    const input = fhevm.createEncryptedInput(await game.getAddress(), signer.address);
+    input.add32(value);
+    const enc = await input.encrypt();
+    return game.connect(signer).submitGuess(puzzleId, enc.handles[0], enc.inputProof);
+  }
+
+  // Plays one session in the given room: wrong guesses cost 20 points each
+  async function playSession(signer: HardhatEthersSigner, roomId: number, wrongGuesses: number) {
+    await (await game.connect(signer).startSession(roomId)).wait();
+    const [, [puzzleId]] = await game.getRoom(roomId);
+    for (let i = 0; i < wrongGuesses; i++) {
+      await (await guess(signer, puzzleId, 0)).wait();
+      await increaseTime(30);
+    }
+    await (await game.connect(signer).finishSession()).wait();
+    return game.currentSession(signer.address);
+  }
+
+  async function post(signer: HardhatEthersSigner, sessionId: bigint) {
+    await (await leaderboard.connect(signer).postScore(sessionId)).wait();
+    return leaderboard.sessionEntry(sessionId);
+  }
+
+  async function decryptBeaten(signer: HardhatEthersSigner, entryId: bigint) {
+    const [beaten] = await leaderboard.getRank(entryId);
+    return fhevm.userDecryptEuint(FhevmType.euint32, beaten, leaderboardAddress, signer);
+  }
+
+  describe("posting", function () {
+    it("posts a finished session's encrypted score to its room's board", async function () {
+      const sessionId = await playSession(signers.alice, 1, 0);
+      await expect(leaderboard.connect(signers.alice).postScore(sessionId))
+        .to.emit(leaderboard, "ScorePosted")
+        .withArgs(1n, 1n, signers.alice.address, sessionId);
+
+      const entry = await leaderboard.getEntry(1);
+      expect(entry.player).to.eq(signers.alice.address);
+      expect(entry.roomId).to.eq(1n);
+      expect(entry.revealRequested).to.eq(false);
+      expect(entry.revealed).to.eq(false);
+      expect(await leaderboard.getRoomEntries(1)).to.deep.eq([1n]);
+      const [, , , , score] = await game.getSessionStats(sessionId);
+      expect(await leaderboard.getEncryptedScore(1)).to.eq(score);
+    });
+
+    it("only accepts the player's own finished sessions, once", async function () {
+      await (await game.connect(signers.alice).startSession(1)).wait();
+      const sessionId = await game.currentSession(signers.alice.address);
+      await expect(leaderboard.connect(signers.alice).postScore(sessionId)).to.be.revertedWithCustomError(
+        leaderboard,
+        "SessionNotFinished",
+      );
+      await (await game.connect(signers.alice).finishSession()).wait();
+      await expect(leaderboard.connect(signers.bob).postScore(sessionId)).to.be.revertedWithCustomError(
+        leaderboard,
+        "NotEntryPlayer",
+      );
+      await post(signers.alice, sessionId);
+      await expect(leaderboard.connect(signers.alice).postScore(sessionId)).to.be.revertedWithCustomError(
+        leaderboard,
+        "AlreadyPosted",
+      );
+    });
+
+    it("rejects scores that were not shared with the leaderboard", async function () {
+      await (await game.setLeaderboard(ethers.ZeroAddress)).wait();
+      const sessionId = await playSession(signers.alice, 1, 0);
+      await expect(leaderboard.connect(signers.alice).postScore(sessionId)).to.be.revertedWithCustomError(
+        leaderboard,
+        "ScoreNotShared",
+      );
+    });
+  });
+
+  describe("reveal", function () {
+    it("publicly decrypts an opted-in score through the oracle", async function () {
+      const sessionId = await playSession(signers.alice, 1, 1);
+      const entryId = await post(signers.alice, sessionId);
+      await expect(leaderboard.connect(signers.bob).revealScore(entryId)).to.be.revertedWithCustomError(
+        leaderboard,
+        "NotEntryPlayer",
+      );
+      await expect(leaderboard.connect(signers.alice).revealScore(entryId)).to.emit(leaderboard, "ScoreRevealRequested");
+      await expect(leaderboard.connect(signers.alice).revealScore(entryId)).to.be.revertedWithCustomError(
+        leaderboard,
+        "AlreadyRevealed",
+      );
+      await fhevm.awaitDecryptionOracle();
+
+      const [, , , , score] = await game.getSessionStats(sessionId);
+      const clear = await fhevm.userDecryptEuint(FhevmType.euint32, score, await game.getAddress(), signers.alice);
+      const entry = await leaderboard.getEntry(entryId);
+      expect(entry.revealed).to.eq(true);
+      expect(entry.revealedScore).to.eq(clear);
+    });
+
+    it("only accepts results from the decryption oracle", async function () {
+      await expect(leaderboard.revealCallback(1, "0x", "0x")).to.be.revertedWithCustomError(
+        leaderboard,
+        "NotOracle",
+      );
+      await expect(
+        leaderboard.connect(signers.oracle).revealCallback(1, "0x", "0x"),
+      ).to.be.revertedWithCustomError(leaderboard, "UnknownRequest");
+    });
+  });
+
+  describe("ranking", function () {
+    it("counts the other players' runs beaten without revealing their scores", async function () {
+      // Fewer wrong guesses means a higher score: alice > bob > owner > carol
+      const aliceEntry = await post(signers.alice, await playSession(signers.alice, 1, 0));
+      const bobEntry = await post(signers.bob, await playSession(signers.bob, 1, 1));
+      const ownerEntry = await post(signers.owner, await playSession(signers.owner, 1, 2));
+      const carolEntry = await post(signers.carol, await playSession(signers.carol, 1, 3));
+      // A second, weaker run by alice is not counted against her first one
+      const aliceRetry = await post(signers.alice, await playSession(signers.alice, 1, 4));
+
+      await expect(leaderboard.connect(signers.bob).updateRank(aliceEntry)).to.be.revertedWithCustomError(
+        leaderboard,
+        "NotEntryPlayer",
+      );
+      for (const [signer, entryId] of [
+        [signers.alice, aliceEntry],
+        [signers.bob, bobEntry],
+        [signers.owner, ownerEntry],
+        [signers.carol, carolEntry],
+        [signers.alice, aliceRetry],
+      ] as const) {
+        await expect(leaderboard.connect(signer).updateRank(entryId))
+          .to.emit(leaderboard, "RankPassStarted")
+          .withArgs(entryId, signer.address, 5n)
+          .and.to.emit(leaderboard, "RankUpdated")
+          .withArgs(entryId, signer.address, 5n);
+      }
+
+      expect(await decryptBeaten(signers.alice, aliceEntry)).to.eq(3n);
+      // Others do count alice's retry
+      expect(await decryptBeaten(signers.bob, bobEntry)).to.eq(3n);
+      expect(await decryptBeaten(signers.owner, ownerEntry)).to.eq(2n);
+      expect(await decryptBeaten(signers.carol, carolEntry)).to.eq(1n);
+      expect(await decryptBeaten(signers.alice, aliceRetry)).to.eq(0n);
+      await expect(decryptBeaten(signers.bob, aliceEntry)).to.be.rejected;
+    });
+
+    it("only publishes a new count once several rival runs were added to the room", async function () {
+      await createRoom(7);
+      const aliceEntry = await post(signers.alice, await playSession(signers.alice, 1, 0));
+      await post(signers.bob, await playSession(signers.bob, 1, 2));
+      await post(signers.carol, await playSession(signers.carol, 1, 2));
+      // Her own runs and other rooms' runs do not mix into the count
+      await post(signers.alice, await playSession(signers.alice, 1, 1));
+      await post(signers.owner, await playSession(signers.owner, 2, 0));
+      await expect(leaderboard.connect(signers.alice).updateRank(aliceEntry)).to.be.revertedWithCustomError(
+        leaderboard,
+        "RankBatchTooSmall",
+      );
+
+      await post(signers.owner, await playSession(signers.owner, 1, 1));
+      let [, rankedThrough, boardSize, newRivals, , passEnd] = await leaderboard.getRank(aliceEntry);
+      expect([rankedThrough, boardSize, newRivals, passEnd]).to.deep.eq([0n, 5n, 3n, 0n]);
+      await (await leaderboard.connect(signers.alice).updateRank(aliceEntry)).wait();
+      expect(await decryptBeaten(signers.alice, aliceEntry)).to.eq(3n);
+
+      // A single later run cannot be compared on its own
+      await post(signers.bob, await playSession(signers.bob, 1, 3));
+      [, rankedThrough, boardSize, newRivals] = await leaderboard.getRank(aliceEntry);
+      expect([rankedThrough, boardSize, newRivals]).to.deep.eq([5n, 6n, 1n]);
+      await expect(leaderboard.connect(signers.alice).updateRank(aliceEntry)).to.be.revertedWithCustomError(
+        leaderboard,
+        "RankBatchTooSmall",
+      );
+
+      await post(signers.carol, await playSession(signers.carol, 1, 3));
+      await post(signers.owner, await playSession(signers.owner, 1, 3));
+      await (await leaderboard.connect(signers.alice).updateRank(aliceEntry)).wait();
+      expect(await decryptBeaten(signers.alice, aliceEntry)).to.eq(6n);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { expect } from "chai";
+
+import {
+  FallbackGameMaster,
+  GameMasterProvider,
+  GameMasterRequest,
+  PuzzleContext,
+  TemplateGameMaster,
+  createGameMaster,
+} from "../frontend/web/src/gameMaster";
+import { DEFAULT_HINTS, HintTiers, PUZZLE_HINTS } from "../frontend/web/src/hints";
+
+const puzzle = (overrides: Partial<PuzzleContext> = {}): PuzzleContext => ({
+  id: "7",
+  difficulty: 2,
+  status: "locked",
+  hintRequests: 0,
+  ...overrides,
+});
+
+const request = (message: string, overrides: Partial<GameMasterRequest> = {}): GameMasterRequest => ({
+  message,
+  puzzle: null,
+  hintTier: null,
+  history: [],
+  ...overrides,
+});
+
+describe("TemplateGameMaster", function () {
+  const gameMaster = new TemplateGameMaster();
+  const reply = async (req: GameMasterRequest) => (await gameMaster.respond(req)).reply;
+
+  afterEach(function () {
+    delete PUZZLE_HINTS["7"];
+  });
+
+  it("answers a hint request with the text for its tier", async function () {
+    expect(await reply(request("hint", { puzzle: puzzle(), hintTier: 2 }))).to.eq(DEFAULT_HINTS[2][2]);
+    // Tiers outside 0-3 are clamped
+    expect(await reply(request("hint", { puzzle: puzzle(), hintTier: 9 }))).to.eq(DEFAULT_HINTS[2][3]);
+    expect(await reply(request("hint", { puzzle: puzzle({ difficulty: 5 }), hintTier: 1 }))).to.eq(DEFAULT_HINTS[1][1]);
+  });
+
+  it("prefers hints authored for the puzzle", async function () {
+    const authored: HintTiers = ["none yet", "look up", "count the stars", "it is 12"];
+    PUZZLE_HINTS["7"] = authored;
+    expect(await reply(request("hint", { puzzle: puzzle(), hintTier: 3 }))).to.eq("it is 12");
+  });
+
+  it("fills the puzzle into its replies", async function () {
+    expect(await reply(request("Hello there", { puzzle: puzzle({ id: "42" }) }))).to.eq(
+      "Welcome back to puzzle #42. What are you trying next?",
+    );
+    expect(await reply(request("hello"))).to.eq("Hello, escapee. Choose a room and start exploring.");
+  });
+
+  it("routes messages by what the player asks for", async function () {
+    expect(await reply(request("just tell me the code"))).to.match(/cannot reveal the solution/);
+    expect(await reply(request("I'm stuck"))).to.match(/^Pick a puzzle/);
+    expect(await reply(request("help", { puzzle: puzzle({ status: "unlocked" }) }))).to.match(/already opened/);
+    expect(await reply(request("where is the key?"))).to.match(/^Some locks need an item/);
+  });
+
+  it("gives the same reply to the same request", async function () {
+    const req = request("what now?", { puzzle: puzzle(), history: [{ role: "user", content: "hi" }] });
+    expect(await reply(req)).to.eq(await reply(req));
+    expect((await gameMaster.respond(req)).provider).to.eq("template");
+  });
+});
+
+describe("FallbackGameMaster", function () {
+  it("answers from the next provider when one fails", async function () {
+    const offline: GameMasterProvider = {
+      name: "offline",
+      respond: async () => {
+        throw new Error("unreachable");
+      },
+    };
+    const gameMaster = new FallbackGameMaster([offline, new TemplateGameMaster()]);
+    expect(gameMaster.name).to.eq("offline+template");
+    // The failure is logged as a warning
+    const warn = console.warn;
+    console.warn = () => {};
+    try {
+      expect((await gameMaster.respond(request("hello"))).provider).to.eq("template");
+    } finally {
+      console.warn = warn;
+    }
+  });
+
+  it("is only used when an endpoint is configured", function () {
+    expect(createGameMaster(undefined).name).to.eq("template");
+    expect(createGameMaster("http://127.0.0.1:1/reply").name).to.eq("http+template");
+  });
+});
@@ -0,0 +1,367 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import type { Signer } from "ethers";
+import { ethers, fhevm } from "hardhat";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { WebSocket } from "ws";
+
+import { GameMasterRelayer, RelayReceipt, RelayerEvent } from "../src/relayer/relayer";
+import { createRelayerServer } from "../src/relayer/server";
+import {
+  GAME_CALL_TYPES,
+  GUESS_ACTION_TYPES,
+  GameOperation,
+  PLAYER_ACTION_TYPES,
+  STATUS_REQUEST_TYPES,
+  SUBSCRIPTION_TYPES,
+  SignedGameCall,
+  SignedGuessAction,
+  SignedPlayerAction,
+  SignedStatusRequest,
+  forwarderDomain,
+} from "../src/relayer/typedData";
+import { AIEscapeFHE, PlayerActionForwarder } from "../types";
+import { Signers, deployFixture, deployForwarder, getSigners, increaseTime, requireMock } from "./helpers";
+
+const EXAMINE = 1;
+const ONE_HOUR = 60 * 60;
+const COOLDOWN = 30;
+
+// Hardhat accounts, or a fresh wallet that never held ETH
+type Player = Signer & { address: string };
+
+describe("GameMasterRelayer", function () {
+  let signers: Signers;
+  let game: AIEscapeFHE;
+  let gameAddress: string;
+  let forwarder: PlayerActionForwarder;
+  let forwarderAddress: string;
+  let relayer: GameMasterRelayer;
+  let events: RelayerEvent[];
+
+  before(async function () {
+    signers = await getSigners();
+  });
+
+  beforeEach(async function () {
+    requireMock(this);
+    ({ game, gameAddress } = await deployFixture(signers.oracle));
+    ({ forwarder, forwarderAddress } = await deployForwarder(game));
+    relayer = await GameMasterRelayer.create(signers.owner, forwarderAddress);
+    events = [];
+    relayer.subscribe((event) => events.push(event));
+  });
+
+  async function domain() {
+    return forwarderDomain((await ethers.provider.getNetwork()).chainId, forwarderAddress);
+  }
+
+  async function deadline() {
+    return BigInt((await ethers.provider.getBlock("latest"))!.timestamp + ONE_HOUR);
+  }
+
+  async function signAction(player: Player, target: number, signer = player): Promise<SignedPlayerAction> {
+    const input = fhevm.createEncryptedInput(gameAddress, player.address);
+    input.add32(EXAMINE);
+    input.add32(target);
+    const enc = await input.encrypt();
+    const action = {
+      player: player.address,
+      actionType: ethers.hexlify(enc.handles[0]),
+      actionTarget: ethers.hexlify(enc.handles[1]),
+      nonce: await forwarder.nonces(player.address),
+      deadline: await deadline(),
+    };
+    const inputProof = ethers.hexlify(enc.inputProof);
+    const signature = await signer.signTypedData(await domain(), PLAYER_ACTION_TYPES, {
+      ...action,
+      inputProofHash: ethers.keccak256(inputProof),
+    });
+    return { action, inputProof, signature };
+  }
+
+  async function signStatusRequest(player: Player): Promise<SignedStatusRequest> {
+    const request = { player: player.address, nonce: await forwarder.nonces(player.address), deadline: await deadline() };
+    return { request, signature: await player.signTypedData(await domain(), STATUS_REQUEST_TYPES, request) };
+  }
+
+  async function signGuess(player: Player, puzzleId: bigint, value: number): Promise<SignedGuessAction> {
+    const input = fhevm.createEncryptedInput(gameAddress, player.address);
+    input.add32(value);
+    const enc = await input.encrypt();
+    const action = {
+      player: player.address,
+      puzzleId,
+      guess: ethers.hexlify(enc.handles[0]),
+      nonce: await forwarder.nonces(player.address),
+      deadline: await deadline(),
+    };
+    const inputProof = ethers.hexlify(enc.inputProof);
+    const signature = await player.signTypedData(await domain(), GUESS_ACTION_TYPES, {
+      ...action,
+      inputProofHash: ethers.keccak256(inputProof),
+    });
+    return { action, inputProof, signature };
+  }
+
+  async function signCall(player: Player, operation: GameOperation, id = 0n): Promise<SignedGameCall> {
+    const call = {
+      player: player.address,
+      operation,
+      id,
+      nonce: await forwarder.nonces(player.address),
+      deadline: await deadline(),
+    };
+    return { call, signature: await player.signTypedData(await domain(), GAME_CALL_TYPES, call) };
+  }
+
+  async function mined(txHash: string) {
+    await (await ethers.provider.getTransaction(txHash))!.wait();
+    // Let the relayer observe the receipt
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+
+  it("refuses to start without the game master role", async function () {
+    await expect(GameMasterRelayer.create(signers.bob, forwarderAddress)).to.be.rejectedWith("GAME_MASTER_ROLE");
+  });
+
+  it("relays a signed action and reports its progress", async function () {
+    await (await game.connect(signers.alice).startSession(0)).wait();
+    const { id, txHash } = await relayer.relayAction(await signAction(signers.alice, 5));
+    await mined(txHash);
+
+    expect(events.map((e) => e.type)).to.deep.eq(["queued", "submitted", "confirmed"]);
+    expect(events.every((e) => e.player === signers.alice.address && "id" in e && e.id === id)).to.eq(true);
+    const [progress] = await game.getPlayerState(signers.alice.address);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint32, progress, gameAddress, signers.alice)).to.eq(6n);
+  });
+
+  it("rejects requests the forwarder or the game would refuse", async function () {
+    await (await game.connect(signers.alice).startSession(0)).wait();
+    const forged = await signAction(signers.alice, 5, signers.bob);
+    const sessionless = await signAction(signers.bob, 5);
+
+    await expect(relayer.relayAction(forged)).to.be.rejectedWith("Signature does not match the player");
+    // Bob has no session
+    await expect(relayer.relayAction(sessionless)).to.be.rejectedWith("NoActiveSession");
+    expect(events.map((e) => e.type)).to.deep.eq(["queued", "failed"]);
+    expect(await forwarder.nonces(signers.bob.address)).to.eq(0n);
+
+    // The failed send leaves the queue usable
+    const { txHash } = await relayer.relayAction(await signAction(signers.alice, 5));
+    await mined(txHash);
+    await expect(relayer.relayAction(await signAction(signers.alice, 6))).to.be.rejectedWith("CooldownActive");
+  });
+
+  it("assigns consecutive nonces to concurrent relays", async function () {
+    await (await game.connect(signers.alice).startSession(0)).wait();
+    await (await game.connect(signers.bob).startSession(0)).wait();
+    const relayerNonce = await signers.owner.getNonce();
+
+    const signed = await Promise.all([signAction(signers.alice, 1), signAction(signers.bob, 2)]);
+    const receipts = await Promise.all(signed.map((s) => relayer.relayAction(s)));
+    const txs = await Promise.all(receipts.map((r) => ethers.provider.getTransaction(r.txHash)));
+    expect(txs.map((tx) => tx!.nonce)).to.deep.eq([relayerNonce, relayerNonce + 1]);
+    await Promise.all(receipts.map((r) => mined(r.txHash)));
+    expect(await forwarder.nonces(signers.alice.address)).to.eq(1n);
+    expect(await forwarder.nonces(signers.bob.address)).to.eq(1n);
+  });
+
+  it("plays a whole session for a player without ETH", async function () {
+    const enc = await fhevm.createEncryptedInput(gameAddress, signers.owner.address).add32(7).encrypt();
+    await (await game.createPuzzle(enc.handles[0], enc.inputProof, 1, 0)).wait();
+    const player = ethers.Wallet.createRandom(ethers.provider);
+    const relayed = async (receipt: Promise<RelayReceipt>) => mined((await receipt).txHash);
+
+    await relayed(relayer.relayGameCall(await signCall(player, GameOperation.StartSession)));
+    const sessionId = await game.currentSession(player.address);
+    await relayed(relayer.relayAction(await signAction(player, 5)));
+    await relayed(relayer.relayGameCall(await signCall(player, GameOperation.RequestHint, 1n)));
+    await increaseTime(COOLDOWN);
+    await relayed(relayer.relayGuess(await signGuess(player, 1n, 7)));
+    await fhevm.awaitDecryptionOracle();
+    expect(await game.puzzleSolved(1n, sessionId)).to.eq(true);
+
+    await increaseTime(COOLDOWN);
+    await relayed(relayer.relayStatusRequest(await signStatusRequest(player)));
+    await fhevm.awaitDecryptionOracle();
+    await relayer.pollDecryptions();
+    expect(events.some((e) => e.type === "status" && e.player === player.address)).to.eq(true);
+
+    await relayed(relayer.relayGameCall(await signCall(player, GameOperation.FinishSession)));
+    const [, correctGuesses] = await game.getSessionStats(sessionId);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint32, correctGuesses, gameAddress, player)).to.eq(1n);
+    expect((await game.getSession(sessionId)).player).to.eq(player.address);
+    expect(await forwarder.nonces(player.address)).to.eq(6n);
+    expect(await ethers.provider.getBalance(player.address)).to.eq(0n);
+  });
+
+  it("pushes the masked status once the oracle delivers it", async function () {
+    await (await game.connect(signers.alice).startSession(0)).wait();
+    const { txHash } = await relayer.relayStatusRequest(await signStatusRequest(signers.alice));
+    await mined(txHash);
+    await fhevm.awaitDecryptionOracle();
+    await relayer.pollDecryptions();
+
+    const status = events.find((e) => e.type === "status");
+    if (status?.type !== "status") throw new Error("No status event");
+    expect(status.player).to.eq(signers.alice.address);
+    // A fresh session has no progress, so the masked value is the pad itself
+    const [progressMask] = await relayer.statusDecryptions.getStatusMasks(status.requestId);
+    const statusAddress = await relayer.statusDecryptions.getAddress();
+    const mask = await fhevm.userDecryptEuint(FhevmType.euint32, progressMask, statusAddress, signers.alice);
+    expect(status.stale).to.eq(false);
+    expect(BigInt(status.maskedProgress)).to.eq(mask);
+  });
+
+  it("catches up on status decryptions from a given block in pages", async function () {
+    const fromBlock = await ethers.provider.getBlockNumber();
+    await (await game.connect(signers.alice).startSession(0)).wait();
+    await (await game.connect(signers.alice).requestGameStatusDecryption()).wait();
+    await fhevm.awaitDecryptionOracle();
+    // More blocks than a single log query may span
+    await ethers.provider.send("hardhat_mine", ["0x2000"]);
+    await (await game.connect(signers.bob).startSession(0)).wait();
+    await (await game.connect(signers.bob).requestGameStatusDecryption()).wait();
+    await fhevm.awaitDecryptionOracle();
+
+    const restarted = await GameMasterRelayer.create(signers.owner, forwarderAddress, fromBlock);
+    const caughtUp: RelayerEvent[] = [];
+    restarted.subscribe((event) => caughtUp.push(event));
+    await restarted.pollDecryptions();
+    expect(caughtUp.map((e) => e.player)).to.deep.eq([signers.alice.address, signers.bob.address]);
+    // Events of the relayer started earlier are unaffected
+    expect(events.filter((e) => e.type === "status")).to.have.length(0);
+  });
+
+  it("publishes each delivered status once when polls overlap", async function () {
+    await (await game.connect(signers.alice).startSession(0)).wait();
+    const { txHash } = await relayer.relayStatusRequest(await signStatusRequest(signers.alice));
+    await mined(txHash);
+    await fhevm.awaitDecryptionOracle();
+    await Promise.all([relayer.pollDecryptions(), relayer.pollDecryptions()]);
+    await relayer.pollDecryptions();
+
+    expect(events.filter((e) => e.type === "status")).to.have.length(1);
+  });
+
+  describe("server", function () {
+    let server: Server;
+    let url: string;
+
+    beforeEach(async function () {
+      server = createRelayerServer(relayer);
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async function () {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    // Integers travel as decimal strings
+    const json = (body: unknown) =>
+      JSON.stringify(body, (_, value) => (typeof value === "bigint" ? value.toString() : value));
+
+    const post = (path: string, body: unknown) =>
+      fetch(`${url}${path}`, { method: "POST", headers: { "Content-Type": "application/json" }, body: json(body) });
+
+    it("relays actions posted over HTTP", async function () {
+      await (await game.connect(signers.alice).startSession(0)).wait();
+      const res = await post("/actions", await signAction(signers.alice, 5));
+      expect(res.status).to.eq(202);
+      const { txHash } = (await res.json()) as { txHash: string };
+      await mined(txHash);
+      expect(await forwarder.nonces(signers.alice.address)).to.eq(1n);
+    });
+
+    it("answers malformed and rejected requests with client errors", async function () {
+      const bad = await post("/actions", { action: { player: "nobody" } });
+      expect(bad.status).to.eq(400);
+      expect(((await bad.json()) as { error: string }).error).to.eq("Invalid player");
+
+      const rejected = await post("/status", await signStatusRequest(signers.alice));
+      expect(rejected.status).to.eq(422);
+      expect(((await rejected.json()) as { error: string }).error).to.eq("NoActiveSession");
+
+      expect((await fetch(`${url}/health`)).status).to.eq(200);
+    });
+
+    it("pushes a subscribed player's events over WebSocket", async function () {
+      await (await game.connect(signers.alice).startSession(0)).wait();
+      const socket = new WebSocket(`${url.replace("http", "ws")}/ws`);
+      const messages: any[] = [];
+      socket.on("message", (data) => messages.push(JSON.parse(data.toString())));
+      await new Promise((resolve) => socket.once("open", resolve));
+      const received = async (count: number) => {
+        while (messages.length < count) await new Promise((resolve) => setTimeout(resolve, 10));
+      };
+
+      await received(1);
+      expect(messages[0].type).to.eq("challenge");
+      const subscription = { player: signers.alice.address, challenge: messages[0].challenge };
+      const signature = await signers.alice.signTypedData(await domain(), SUBSCRIPTION_TYPES, subscription);
+
+      socket.send(JSON.stringify({ type: "subscribe", player: signers.alice.address, signature }));
+      socket.send(JSON.stringify({ type: "unknown" }));
+      await received(3);
+      expect(messages[1]).to.deep.eq({ type: "subscribed", player: signers.alice.address });
+      expect(messages[2]).to.deep.eq({ type: "error", error: "Unknown message type" });
+
+      const { txHash } = await relayer.relayAction(await signAction(signers.alice, 5));
+      await mined(txHash);
+      await received(6);
+      expect(messages.slice(3).map((m) => m.type)).to.deep.eq(["queued", "submitted", "confirmed"]);
+
+      socket.terminate();
+    });
+
+    it("only subscribes connections that prove they hold the player's key", async function () {
+      await (await game.connect(signers.alice).startSession(0)).wait();
+      const connect = async () => {
+        const socket = new WebSocket(`${url.replace("http", "ws")}/ws`);
+        const messages: any[] = [];
+        socket.on("message", (data) => messages.push(JSON.parse(data.toString())));
+        await new Promise((resolve) => socket.once("open", resolve));
+        while (messages.length < 1) await new Promise((resolve) => setTimeout(resolve, 10));
+        return { socket, messages, challenge: messages[0].challenge as string };
+      };
+      const first = await connect();
+      const second = await connect();
+      const signed = async (signer: Player, challenge: string) => ({
+        type: "subscribe",
+        player: signers.alice.address,
+        signature: await signer.signTypedData(await domain(), SUBSCRIPTION_TYPES, {
+          player: signers.alice.address,
+          challenge,
+        }),
+      });
+
+      // Bob cannot sign for alice, and alice's signature is bound to her own connection
+      first.socket.send(JSON.stringify(await signed(signers.bob, first.challenge)));
+      second.socket.send(JSON.stringify(await signed(signers.alice, first.challenge)));
+      first.socket.send(JSON.stringify({ type: "subscribe", player: signers.alice.address }));
+      // An action signed by someone else does not subscribe its player either
+      second.socket.send(json({ type: "action", ...(await signAction(signers.alice, 5, signers.bob)) }));
+      while (first.messages.length < 3 || second.messages.length < 3) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      expect(first.messages.slice(1)).to.deep.eq([
+        { type: "error", error: "Signature does not match the player" },
+        { type: "error", error: "Missing signature" },
+      ]);
+      expect(second.messages.slice(1)).to.deep.eq([
+        { type: "error", error: "Signature does not match the player" },
+        { type: "error", error: "Signature does not match the player" },
+      ]);
+
+      const { txHash } = await relayer.relayAction(await signAction(signers.alice, 5));
+      await mined(txHash);
+      expect(first.messages).to.have.length(3);
+      expect(second.messages).to.have.length(3);
+      first.socket.terminate();
+      second.socket.terminate();
+    });
+  });
+});
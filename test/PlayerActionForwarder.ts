@@ -0,0 +1,320 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import {
+  GAME_CALL_TYPES,
+  GUESS_ACTION_TYPES,
+  GameOperation,
+  PLAYER_ACTION_TYPES,
+  STATUS_REQUEST_TYPES,
+  forwarderDomain,
+} from "../src/relayer/typedData";
+import { AIEscapeFHE, PlayerActionForwarder, StatusDecryptions__factory } from "../types";
+import { Signers, deployFixture, deployForwarder, getSigners, increaseTime, requireMock } from "./helpers";
+
+const EXAMINE = 1;
+const ONE_HOUR = 60 * 60;
+
+describe("PlayerActionForwarder", function () {
+  let signers: Signers;
+  let game: AIEscapeFHE;
+  let gameAddress: string;
+  let forwarder: PlayerActionForwarder;
+  let forwarderAddress: string;
+
+  before(async function () {
+    signers = await getSigners();
+  });
+
+  beforeEach(async function () {
+    requireMock(this);
+    ({ game, gameAddress } = await deployFixture(signers.oracle));
+    ({ forwarder, forwarderAddress } = await deployForwarder(game));
+  });
+
+  async function domain() {
+    return forwarderDomain((await ethers.provider.getNetwork()).chainId, forwarderAddress);
+  }
+
+  // Relayed inputs are encrypted with the player as the user, which is the
+  // account the game checks the input proof against
+  async function signAction(
+    player: HardhatEthersSigner,
+    actionType: number,
+    target: number,
+    overrides: { nonce?: bigint; deadline?: number; signer?: HardhatEthersSigner } = {},
+  ) {
+    const input = fhevm.createEncryptedInput(gameAddress, player.address);
+    input.add32(actionType);
+    input.add32(target);
+    const enc = await input.encrypt();
+    const latest = await ethers.provider.getBlock("latest");
+    const action = {
+      player: player.address,
+      actionType: ethers.hexlify(enc.handles[0]),
+      actionTarget: ethers.hexlify(enc.handles[1]),
+      nonce: overrides.nonce ?? (await forwarder.nonces(player.address)),
+      deadline: overrides.deadline ?? latest!.timestamp + ONE_HOUR,
+    };
+    const inputProof = ethers.hexlify(enc.inputProof);
+    const signature = await (overrides.signer ?? player).signTypedData(await domain(), PLAYER_ACTION_TYPES, {
+      ...action,
+      inputProofHash: ethers.keccak256(inputProof),
+    });
+    return { action, inputProof, signature };
+  }
+
+  async function signCall(player: HardhatEthersSigner, operation: GameOperation, id = 0n) {
+    const latest = await ethers.provider.getBlock("latest");
+    const call = {
+      player: player.address,
+      operation,
+      id,
+      nonce: await forwarder.nonces(player.address),
+      deadline: latest!.timestamp + ONE_HOUR,
+    };
+    return { call, signature: await player.signTypedData(await domain(), GAME_CALL_TYPES, call) };
+  }
+
+  async function relayCall(player: HardhatEthersSigner, operation: GameOperation, id = 0n) {
+    const { call, signature } = await signCall(player, operation, id);
+    return forwarder.relayGameCall(call, signature);
+  }
+
+  async function signGuess(player: HardhatEthersSigner, puzzleId: bigint, value: number) {
+    const input = fhevm.createEncryptedInput(gameAddress, player.address);
+    input.add32(value);
+    const enc = await input.encrypt();
+    const latest = await ethers.provider.getBlock("latest");
+    const action = {
+      player: player.address,
+      puzzleId,
+      guess: ethers.hexlify(enc.handles[0]),
+      nonce: await forwarder.nonces(player.address),
+      deadline: latest!.timestamp + ONE_HOUR,
+    };
+    const inputProof = ethers.hexlify(enc.inputProof);
+    const signature = await player.signTypedData(await domain(), GUESS_ACTION_TYPES, {
+      ...action,
+      inputProofHash: ethers.keccak256(inputProof),
+    });
+    return { action, inputProof, signature };
+  }
+
+  it("matches the typed data hash signed by wallets", async function () {
+    const { action, inputProof } = await signAction(signers.alice, EXAMINE, 5);
+    const digest = ethers.TypedDataEncoder.hash(await domain(), PLAYER_ACTION_TYPES, {
+      ...action,
+      inputProofHash: ethers.keccak256(inputProof),
+    });
+    expect(await forwarder.hashPlayerAction(action, inputProof)).to.eq(digest);
+  });
+
+  it("attributes a relayed action to the player who signed it", async function () {
+    await (await game.connect(signers.alice).startSession(0)).wait();
+    const { action, inputProof, signature } = await signAction(signers.alice, EXAMINE, 5);
+
+    await expect(forwarder.relay(action, inputProof, signature))
+      .to.emit(forwarder, "PlayerActionRelayed")
+      .withArgs(signers.alice.address, signers.owner.address, 0n)
+      .and.to.emit(game, "PlayerActionSubmitted");
+    expect(await forwarder.nonces(signers.alice.address)).to.eq(1n);
+    expect(await game.lastSubmissionTime(signers.owner.address)).to.eq(0n);
+
+    const [progress] = await game.getPlayerState(signers.alice.address);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint32, progress, gameAddress, signers.alice)).to.eq(6n);
+  });
+
+  it("applies the player's cooldown to relayed actions", async function () {
+    await (await game.connect(signers.alice).startSession(0)).wait();
+    const first = await signAction(signers.alice, EXAMINE, 1);
+    await (await forwarder.relay(first.action, first.inputProof, first.signature)).wait();
+
+    const second = await signAction(signers.alice, EXAMINE, 2);
+    await expect(forwarder.relay(second.action, second.inputProof, second.signature)).to.be.revertedWithCustomError(
+      game,
+      "CooldownActive",
+    );
+    // The rejected action keeps its nonce usable
+    expect(await forwarder.nonces(signers.alice.address)).to.eq(1n);
+  });
+
+  it("only accepts relays from game masters", async function () {
+    await (await game.connect(signers.alice).startSession(0)).wait();
+    const { action, inputProof, signature } = await signAction(signers.alice, EXAMINE, 5);
+    await expect(forwarder.connect(signers.bob).relay(action, inputProof, signature)).to.be.revertedWithCustomError(
+      forwarder,
+      "NotRelayer",
+    );
+
+    await (await game.grantRole(await game.GAME_MASTER_ROLE(), signers.bob.address)).wait();
+    await expect(forwarder.connect(signers.bob).relay(action, inputProof, signature)).to.emit(
+      forwarder,
+      "PlayerActionRelayed",
+    );
+  });
+
+  it("rejects forged, altered, replayed and expired actions", async function () {
+    await (await game.connect(signers.alice).startSession(0)).wait();
+
+    const forged = await signAction(signers.alice, EXAMINE, 5, { signer: signers.bob });
+    await expect(forwarder.relay(forged.action, forged.inputProof, forged.signature)).to.be.revertedWithCustomError(
+      forwarder,
+      "InvalidSignature",
+    );
+
+    const signed = await signAction(signers.alice, EXAMINE, 5);
+    const altered = { ...signed.action, actionTarget: signed.action.actionType };
+    await expect(forwarder.relay(altered, signed.inputProof, signed.signature)).to.be.revertedWithCustomError(
+      forwarder,
+      "InvalidSignature",
+    );
+
+    const expired = await signAction(signers.alice, EXAMINE, 5, { deadline: 1 });
+    await expect(forwarder.relay(expired.action, expired.inputProof, expired.signature)).to.be.revertedWithCustomError(
+      forwarder,
+      "ExpiredAction",
+    );
+
+    await (await forwarder.relay(signed.action, signed.inputProof, signed.signature)).wait();
+    await expect(forwarder.relay(signed.action, signed.inputProof, signed.signature)).to.be.revertedWithCustomError(
+      forwarder,
+      "InvalidNonce",
+    );
+  });
+
+  it("rejects another player's encrypted input signed into a new action", async function () {
+    await (await game.connect(signers.bob).startSession(0)).wait();
+    // Bob copies the handles and proof Alice encrypted and signs them as his own
+    const copied = await signAction(signers.alice, EXAMINE, 5);
+    const action = { ...copied.action, player: signers.bob.address };
+    const signature = await signers.bob.signTypedData(await domain(), PLAYER_ACTION_TYPES, {
+      ...action,
+      inputProofHash: ethers.keccak256(copied.inputProof),
+    });
+    await expect(forwarder.relay(action, copied.inputProof, signature)).to.be.reverted;
+    expect(await forwarder.nonces(signers.bob.address)).to.eq(0n);
+  });
+
+  it("lets a player cancel signed actions before they are relayed", async function () {
+    await (await game.connect(signers.alice).startSession(0)).wait();
+    const { action, inputProof, signature } = await signAction(signers.alice, EXAMINE, 5);
+    await expect(forwarder.connect(signers.alice).invalidateNonce())
+      .to.emit(forwarder, "NonceInvalidated")
+      .withArgs(signers.alice.address, 0n);
+    await expect(forwarder.relay(action, inputProof, signature)).to.be.revertedWithCustomError(
+      forwarder,
+      "InvalidNonce",
+    );
+  });
+
+  it("relays a signed status request with the masks granted to the player", async function () {
+    await (await game.connect(signers.alice).startSession(0)).wait();
+    const status = StatusDecryptions__factory.connect(await game.statusDecryptions(), ethers.provider);
+    const latest = await ethers.provider.getBlock("latest");
+    const request = { player: signers.alice.address, nonce: 0n, deadline: latest!.timestamp + ONE_HOUR };
+    const signature = await signers.alice.signTypedData(await domain(), STATUS_REQUEST_TYPES, request);
+    expect(await forwarder.hashStatusRequest(request)).to.eq(
+      ethers.TypedDataEncoder.hash(await domain(), STATUS_REQUEST_TYPES, request),
+    );
+
+    await expect(forwarder.relayStatusRequest(request, signature))
+      .to.emit(forwarder, "StatusRequestRelayed")
+      .withArgs(signers.alice.address, signers.owner.address, 0n)
+      .and.to.emit(status, "DecryptionRequested");
+    const [requested] = await status.queryFilter(status.filters.DecryptionRequested());
+    expect(requested.args.player).to.eq(signers.alice.address);
+    expect((await status.decryptionContexts(requested.args.requestId)).requester).to.eq(signers.alice.address);
+    const [progressMask] = await status.getStatusMasks(requested.args.requestId);
+    await fhevm.userDecryptEuint(FhevmType.euint32, progressMask, await status.getAddress(), signers.alice);
+    await expect(forwarder.relayStatusRequest(request, signature)).to.be.revertedWithCustomError(
+      forwarder,
+      "InvalidNonce",
+    );
+  });
+
+  it("relays signed session calls and guesses for the player", async function () {
+    const enc = await fhevm.createEncryptedInput(gameAddress, signers.owner.address).add32(7).encrypt();
+    await (await game.createPuzzle(enc.handles[0], enc.inputProof, 1, 0)).wait();
+    const { call, signature } = await signCall(signers.alice, GameOperation.StartSession);
+    expect(await forwarder.hashGameCall(call)).to.eq(
+      ethers.TypedDataEncoder.hash(await domain(), GAME_CALL_TYPES, call),
+    );
+
+    await expect(forwarder.relayGameCall(call, signature))
+      .to.emit(forwarder, "GameCallRelayed")
+      .withArgs(signers.alice.address, signers.owner.address, GameOperation.StartSession, 0n)
+      .and.to.emit(game, "SessionStarted")
+      .withArgs(1n, signers.alice.address, 0n);
+    await expect(relayCall(signers.alice, GameOperation.PauseSession)).to.emit(game, "SessionPaused");
+    await expect(relayCall(signers.alice, GameOperation.ResumeSession)).to.emit(game, "SessionResumed");
+    await expect(relayCall(signers.alice, GameOperation.RequestHint, 1n))
+      .to.emit(game, "HintTierComputed")
+      .withArgs(1n, signers.alice.address, 1n);
+
+    const guess = await signGuess(signers.alice, 1n, 7);
+    expect(await forwarder.hashGuessAction(guess.action, guess.inputProof)).to.eq(
+      ethers.TypedDataEncoder.hash(await domain(), GUESS_ACTION_TYPES, {
+        ...guess.action,
+        inputProofHash: ethers.keccak256(guess.inputProof),
+      }),
+    );
+    await expect(forwarder.relayGuess(guess.action, guess.inputProof, guess.signature))
+      .to.emit(forwarder, "GuessRelayed")
+      .and.to.emit(game, "GuessSubmitted");
+    await fhevm.awaitDecryptionOracle();
+    expect(await game.puzzleSolved(1n, 1n)).to.eq(true);
+
+    await expect(relayCall(signers.alice, GameOperation.FinishSession))
+      .to.emit(game, "SessionFinished")
+      .withArgs(1n, signers.alice.address, anyValue);
+    // Bob never started a session, and the call is not his to make on Alice's behalf
+    await expect(relayCall(signers.bob, GameOperation.AbandonSession)).to.be.revertedWithCustomError(
+      game,
+      "InvalidSessionState",
+    );
+  });
+
+  it("relays a signed cancel of the player's expired status request", async function () {
+    await (await game.connect(signers.alice).startSession(0)).wait();
+    const status = StatusDecryptions__factory.connect(await game.statusDecryptions(), ethers.provider);
+    await (await game.connect(signers.alice).requestGameStatusDecryption()).wait();
+    const [requested] = await status.queryFilter(status.filters.DecryptionRequested());
+    const requestId = requested.args.requestId;
+    await increaseTime(ONE_HOUR);
+
+    await expect(relayCall(signers.bob, GameOperation.CancelStatusRequest, requestId)).to.be.revertedWithCustomError(
+      status,
+      "NotAuthorized",
+    );
+    await expect(relayCall(signers.alice, GameOperation.CancelStatusRequest, requestId))
+      .to.emit(status, "DecryptionCancelled")
+      .withArgs(requestId, signers.alice.address, signers.alice.address);
+    await expect(fhevm.awaitDecryptionOracle()).to.be.revertedWithCustomError(status, "RequestCancelled");
+  });
+
+  it("ignores the player suffix unless the forwarder sends it", async function () {
+    await (await game.connect(signers.alice).startSession(0)).wait();
+    const input = fhevm.createEncryptedInput(gameAddress, signers.bob.address);
+    input.add32(EXAMINE);
+    input.add32(5);
+    const enc = await input.encrypt();
+    const data = game.interface.encodeFunctionData("submitPlayerAction", [enc.handles[0], enc.handles[1], enc.inputProof]);
+    // Bob has no session, so an action attributed to him is rejected
+    await expect(
+      signers.bob.sendTransaction({ to: gameAddress, data: ethers.concat([data, signers.alice.address]) }),
+    ).to.be.revertedWithCustomError(game, "NoActiveSession");
+  });
+
+  it("only lets admins change the trusted forwarder", async function () {
+    await expect(game.connect(signers.alice).setTrustedForwarder(signers.alice.address)).to.be.revertedWithCustomError(
+      game,
+      "MissingRole",
+    );
+    await expect(game.setTrustedForwarder(ethers.ZeroAddress))
+      .to.emit(game, "TrustedForwarderSet")
+      .withArgs(forwarderAddress, ethers.ZeroAddress);
+  });
+});
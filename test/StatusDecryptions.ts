@@ -0,0 +1,108 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { AIEscapeFHE, StatusDecryptions, StatusDecryptions__factory } from "../types";
+import { Signers, deployFixture, getSigners, increaseTime, requireMock } from "./helpers";
+
+const ONE_HOUR = 60 * 60;
+
+// StatusDecryptions.Status
+const NONE = 0n;
+const PENDING = 1n;
+const EXPIRED = 2n;
+const COMPLETED = 3n;
+const CANCELLED = 4n;
+
+describe("StatusDecryptions", function () {
+  let signers: Signers;
+  let game: AIEscapeFHE;
+  let status: StatusDecryptions;
+
+  before(async function () {
+    signers = await getSigners();
+  });
+
+  beforeEach(async function () {
+    requireMock(this);
+    ({ game } = await deployFixture(signers.oracle));
+    status = StatusDecryptions__factory.connect(await game.statusDecryptions(), ethers.provider);
+    await (await game.connect(signers.alice).startSession(0)).wait();
+    await (await game.connect(signers.bob).startSession(0)).wait();
+  });
+
+  async function request(player: HardhatEthersSigner) {
+    const receipt = await (await game.connect(player).requestGameStatusDecryption()).wait();
+    const [requested] = await status.queryFilter(status.filters.DecryptionRequested(), receipt!.blockNumber);
+    return requested.args.requestId;
+  }
+
+  it("lists each player's pending requests until their results arrive", async function () {
+    const first = await request(signers.alice);
+    const second = await request(signers.alice);
+    const bobs = await request(signers.bob);
+
+    expect(await status.getPendingRequests(signers.alice.address)).to.deep.eq([first, second]);
+    expect(await status.getPendingRequests(signers.bob.address)).to.deep.eq([bobs]);
+    expect((await status.decryptionContexts(first)).requestedAt).to.be.greaterThan(0n);
+
+    await fhevm.awaitDecryptionOracle();
+
+    expect(await status.getPendingRequests(signers.alice.address)).to.deep.eq([]);
+    expect(await status.getPendingRequests(signers.bob.address)).to.deep.eq([]);
+    expect(await status.statusOf(second)).to.eq(COMPLETED);
+    expect(await status.statusOf(second + 100n)).to.eq(NONE);
+  });
+
+  it("lets an expired request be cancelled and issued again", async function () {
+    const stuck = await request(signers.alice);
+    await expect(status.connect(signers.alice).cancel(stuck)).to.be.revertedWithCustomError(
+      status,
+      "RequestNotExpired",
+    );
+
+    await increaseTime(ONE_HOUR);
+    expect(await status.statusOf(stuck)).to.eq(EXPIRED);
+    await expect(status.connect(signers.bob).cancel(stuck)).to.be.revertedWithCustomError(status, "NotAuthorized");
+    await expect(status.connect(signers.alice).cancel(stuck))
+      .to.emit(status, "DecryptionCancelled")
+      .withArgs(stuck, signers.alice.address, signers.alice.address);
+    expect(await status.statusOf(stuck)).to.eq(CANCELLED);
+    expect(await status.getPendingRequests(signers.alice.address)).to.deep.eq([]);
+    await expect(status.connect(signers.alice).cancel(stuck)).to.be.revertedWithCustomError(
+      status,
+      "RequestNotExpired",
+    );
+
+    // The late result is rejected, which also drains it for later tests
+    await expect(fhevm.awaitDecryptionOracle()).to.be.revertedWithCustomError(status, "RequestCancelled");
+
+    const retried = await request(signers.alice);
+    await fhevm.awaitDecryptionOracle();
+    expect(await status.statusOf(retried)).to.eq(COMPLETED);
+  });
+
+  it("lets game masters cancel expired requests for their players", async function () {
+    const stuck = await request(signers.alice);
+    await increaseTime(ONE_HOUR);
+    await expect(status.connect(signers.owner).cancel(stuck))
+      .to.emit(status, "DecryptionCancelled")
+      .withArgs(stuck, signers.alice.address, signers.owner.address);
+    await expect(fhevm.awaitDecryptionOracle()).to.be.revertedWithCustomError(status, "RequestCancelled");
+  });
+
+  it("only lets admins change the timeout", async function () {
+    await expect(status.connect(signers.alice).setTimeout(60)).to.be.revertedWithCustomError(status, "NotAuthorized");
+    await expect(status.connect(signers.owner).setTimeout(0)).to.be.revertedWithCustomError(status, "InvalidTimeout");
+    await expect(status.connect(signers.owner).setTimeout(60))
+      .to.emit(status, "TimeoutSet")
+      .withArgs(ONE_HOUR, 60);
+
+    const requestId = await request(signers.alice);
+    expect(await status.statusOf(requestId)).to.eq(PENDING);
+    await increaseTime(60);
+    expect(await status.statusOf(requestId)).to.eq(EXPIRED);
+    await fhevm.awaitDecryptionOracle();
+    // A result that arrives before anyone cancels is still accepted
+    expect(await status.statusOf(requestId)).to.eq(COMPLETED);
+  });
+});
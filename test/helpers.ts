@@ -0,0 +1,72 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import {
+  AIEscapeFHE,
+  AIEscapeFHE__factory,
+  EscapeLeaderboard,
+  EscapeLeaderboard__factory,
+  PlayerActionForwarder,
+  PlayerActionForwarder__factory,
+} from "../types";
+
+// Scaffolding shared by the contract suites
+
+export type Signers = {
+  owner: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+  oracle: HardhatEthersSigner;
+};
+
+// Account the fhevm mock relayer uses to deliver decryption callbacks
+export const MOCK_RELAYER_SIGNER_INDEX = 6;
+
+export async function getSigners(): Promise<Signers> {
+  const ethSigners = await ethers.getSigners();
+  return {
+    owner: ethSigners[0],
+    alice: ethSigners[1],
+    bob: ethSigners[2],
+    carol: ethSigners[3],
+    oracle: ethSigners[MOCK_RELAYER_SIGNER_INDEX],
+  };
+}
+
+// The suites rely on the mock coprocessor and decryption oracle
+export function requireMock(context: Mocha.Context) {
+  if (!fhevm.isMock) {
+    console.warn("This hardhat test suite can only run in FHEVM mock mode");
+    context.skip();
+  }
+}
+
+// Deploys the game with the mock relayer as its decryption oracle
+export async function deployFixture(oracle: HardhatEthersSigner) {
+  const factory = (await ethers.getContractFactory("AIEscapeFHE")) as AIEscapeFHE__factory;
+  const game = (await factory.deploy()) as AIEscapeFHE;
+  await (await game.grantRole(await game.ORACLE_ROLE(), oracle.address)).wait();
+  const gameAddress = await game.getAddress();
+  return { game, gameAddress };
+}
+
+export async function deployForwarder(game: AIEscapeFHE) {
+  const factory = (await ethers.getContractFactory("PlayerActionForwarder")) as PlayerActionForwarder__factory;
+  const forwarder = (await factory.deploy(await game.getAddress())) as PlayerActionForwarder;
+  const forwarderAddress = await forwarder.getAddress();
+  await (await game.setTrustedForwarder(forwarderAddress)).wait();
+  return { forwarder, forwarderAddress };
+}
+
+export async function deployLeaderboard(game: AIEscapeFHE) {
+  const factory = (await ethers.getContractFactory("EscapeLeaderboard")) as EscapeLeaderboard__factory;
+  const leaderboard = (await factory.deploy(await game.getAddress())) as EscapeLeaderboard;
+  const leaderboardAddress = await leaderboard.getAddress();
+  await (await game.setLeaderboard(leaderboardAddress)).wait();
+  return { leaderboard, leaderboardAddress };
+}
+
+export async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
@@ -0,0 +1,2513 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface AIEscapeFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "ADMIN_ROLE"
+      | "GAME_MASTER_ROLE"
+      | "HINT_PENALTY"
+      | "HINT_STUCK_SECONDS"
+      | "INITIAL_PERFORMANCE_SCORE"
+      | "ORACLE_ROLE"
+      | "PAUSER_ROLE"
+      | "PUZZLE_AUTHOR_ROLE"
+      | "SOLVE_POINTS"
+      | "UNTIMED_PAR_SECONDS"
+      | "WRONG_GUESS_PENALTY"
+      | "abandonSession"
+      | "acceptOwnership"
+      | "cooldownSeconds"
+      | "createPuzzle"
+      | "createRoom"
+      | "currentSession"
+      | "finishSession"
+      | "firstAttemptAt"
+      | "getGuessResult"
+      | "getHintTier"
+      | "getInventory"
+      | "getPlayerState"
+      | "getPuzzle"
+      | "getRoleMemberCount"
+      | "getRoleMembers"
+      | "getRoom"
+      | "getSession"
+      | "getSessionPuzzles"
+      | "getSessionStats"
+      | "getSolvedFlag"
+      | "grantRole"
+      | "guessCallback"
+      | "guessVerifications"
+      | "hasEscaped"
+      | "hasRole"
+      | "hintRequests"
+      | "isPlayerInitialized"
+      | "isRoomAccessible"
+      | "lastDecryptionRequestTime"
+      | "lastSubmissionTime"
+      | "leaderboard"
+      | "owner"
+      | "pause"
+      | "pauseSession"
+      | "paused"
+      | "pendingOwner"
+      | "protocolId"
+      | "puzzleCount"
+      | "puzzleRoom"
+      | "puzzleSolved"
+      | "renounceRole"
+      | "requestGameStatusDecryption"
+      | "requestHint"
+      | "requestRoomUnlock"
+      | "resumeSession"
+      | "revokeRole"
+      | "roomCallback"
+      | "roomCount"
+      | "roomUnlockRequests"
+      | "roomUnlocked"
+      | "serveCallback"
+      | "serveNextPuzzle"
+      | "serveRequests"
+      | "servedPuzzle"
+      | "sessionCount"
+      | "sessionPlayTime"
+      | "setCooldown"
+      | "setLeaderboard"
+      | "setTrustedForwarder"
+      | "startSession"
+      | "statusDecryptions"
+      | "submitGuess"
+      | "submitPlayerAction"
+      | "transferOwnership"
+      | "trustedForwarder"
+      | "unpause"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "CooldownSet"
+      | "DecryptionFulfilled"
+      | "Escaped"
+      | "GuessSubmitted"
+      | "GuessVerified"
+      | "HintTierComputed"
+      | "LeaderboardSet"
+      | "OwnershipTransferStarted"
+      | "OwnershipTransferred"
+      | "Paused"
+      | "PlayerActionSubmitted"
+      | "PlayerStateInitialized"
+      | "PuzzleCreated"
+      | "PuzzleServeRequested"
+      | "PuzzleServed"
+      | "RoleGranted"
+      | "RoleRevoked"
+      | "RoomCreated"
+      | "RoomUnlockRequested"
+      | "RoomUnlocked"
+      | "SessionAbandoned"
+      | "SessionFinished"
+      | "SessionPaused"
+      | "SessionResumed"
+      | "SessionStarted"
+      | "TrustedForwarderSet"
+      | "Unpaused"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "ADMIN_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "GAME_MASTER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "HINT_PENALTY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "HINT_STUCK_SECONDS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "INITIAL_PERFORMANCE_SCORE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "ORACLE_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PAUSER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PUZZLE_AUTHOR_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "SOLVE_POINTS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "UNTIMED_PAR_SECONDS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "WRONG_GUESS_PENALTY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "abandonSession",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cooldownSeconds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createPuzzle",
+    values: [BytesLike, BytesLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createRoom",
+    values: [BigNumberish[], BigNumberish[], BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentSession",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "finishSession",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "firstAttemptAt",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getGuessResult",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getHintTier",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getInventory",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPlayerState",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPuzzle",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRoleMemberCount",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRoleMembers",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRoom",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSession",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSessionPuzzles",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSessionStats",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSolvedFlag",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "guessCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "guessVerifications",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasEscaped",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hintRequests",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isPlayerInitialized",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isRoomAccessible",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastDecryptionRequestTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastSubmissionTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "leaderboard",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "pause", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pauseSession",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pendingOwner",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "puzzleCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "puzzleRoom",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "puzzleSolved",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renounceRole",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestGameStatusDecryption",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestHint",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestRoomUnlock",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "resumeSession",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "roomCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "roomCount", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "roomUnlockRequests",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "roomUnlocked",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "serveCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "serveNextPuzzle",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "serveRequests",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "servedPuzzle",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "sessionCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "sessionPlayTime",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCooldown",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setLeaderboard",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTrustedForwarder",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "startSession",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "statusDecryptions",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitGuess",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitPlayerAction",
+    values: [BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "trustedForwarder",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "unpause", values?: undefined): string;
+
+  decodeFunctionResult(functionFragment: "ADMIN_ROLE", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "GAME_MASTER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "HINT_PENALTY",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "HINT_STUCK_SECONDS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "INITIAL_PERFORMANCE_SCORE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "ORACLE_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PAUSER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PUZZLE_AUTHOR_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "SOLVE_POINTS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "UNTIMED_PAR_SECONDS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "WRONG_GUESS_PENALTY",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "abandonSession",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createPuzzle",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "createRoom", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "currentSession",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "finishSession",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "firstAttemptAt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getGuessResult",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getHintTier",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getInventory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPlayerState",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getPuzzle", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getRoleMemberCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRoleMembers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getRoom", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getSession", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getSessionPuzzles",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSessionStats",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSolvedFlag",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "grantRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "guessCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "guessVerifications",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "hasEscaped", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "hintRequests",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isPlayerInitialized",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isRoomAccessible",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastDecryptionRequestTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastSubmissionTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "leaderboard",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pause", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pauseSession",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "puzzleCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "puzzleRoom", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "puzzleSolved",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceRole",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestGameStatusDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestHint",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestRoomUnlock",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "resumeSession",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "roomCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "roomCount", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "roomUnlockRequests",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "roomUnlocked",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "serveCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "serveNextPuzzle",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "serveRequests",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "servedPuzzle",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "sessionCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "sessionPlayTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCooldown",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setLeaderboard",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setTrustedForwarder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "startSession",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "statusDecryptions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitGuess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitPlayerAction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "trustedForwarder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "unpause", data: BytesLike): Result;
+}
+
+export namespace CooldownSetEvent {
+  export type InputTuple = [
+    oldCooldown: BigNumberish,
+    newCooldown: BigNumberish
+  ];
+  export type OutputTuple = [oldCooldown: bigint, newCooldown: bigint];
+  export interface OutputObject {
+    oldCooldown: bigint;
+    newCooldown: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EscapedEvent {
+  export type InputTuple = [roomId: BigNumberish, player: AddressLike];
+  export type OutputTuple = [roomId: bigint, player: string];
+  export interface OutputObject {
+    roomId: bigint;
+    player: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace GuessSubmittedEvent {
+  export type InputTuple = [
+    puzzleId: BigNumberish,
+    player: AddressLike,
+    requestId: BigNumberish
+  ];
+  export type OutputTuple = [
+    puzzleId: bigint,
+    player: string,
+    requestId: bigint
+  ];
+  export interface OutputObject {
+    puzzleId: bigint;
+    player: string;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace GuessVerifiedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    puzzleId: BigNumberish,
+    player: AddressLike,
+    solved: boolean
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    puzzleId: bigint,
+    player: string,
+    solved: boolean
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    puzzleId: bigint;
+    player: string;
+    solved: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace HintTierComputedEvent {
+  export type InputTuple = [
+    puzzleId: BigNumberish,
+    player: AddressLike,
+    hintRequests: BigNumberish
+  ];
+  export type OutputTuple = [
+    puzzleId: bigint,
+    player: string,
+    hintRequests: bigint
+  ];
+  export interface OutputObject {
+    puzzleId: bigint;
+    player: string;
+    hintRequests: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LeaderboardSetEvent {
+  export type InputTuple = [
+    previousLeaderboard: AddressLike,
+    newLeaderboard: AddressLike
+  ];
+  export type OutputTuple = [
+    previousLeaderboard: string,
+    newLeaderboard: string
+  ];
+  export interface OutputObject {
+    previousLeaderboard: string;
+    newLeaderboard: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferStartedEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PlayerActionSubmittedEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    sessionId: BigNumberish,
+    actionHash: BytesLike
+  ];
+  export type OutputTuple = [
+    player: string,
+    sessionId: bigint,
+    actionHash: string
+  ];
+  export interface OutputObject {
+    player: string;
+    sessionId: bigint;
+    actionHash: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PlayerStateInitializedEvent {
+  export type InputTuple = [player: AddressLike];
+  export type OutputTuple = [player: string];
+  export interface OutputObject {
+    player: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PuzzleCreatedEvent {
+  export type InputTuple = [
+    puzzleId: BigNumberish,
+    creator: AddressLike,
+    difficulty: BigNumberish,
+    solution: BytesLike,
+    requiredItems: BigNumberish,
+    createdAt: BigNumberish
+  ];
+  export type OutputTuple = [
+    puzzleId: bigint,
+    creator: string,
+    difficulty: bigint,
+    solution: string,
+    requiredItems: bigint,
+    createdAt: bigint
+  ];
+  export interface OutputObject {
+    puzzleId: bigint;
+    creator: string;
+    difficulty: bigint;
+    solution: string;
+    requiredItems: bigint;
+    createdAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PuzzleServeRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish, player: AddressLike];
+  export type OutputTuple = [requestId: bigint, player: string];
+  export interface OutputObject {
+    requestId: bigint;
+    player: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PuzzleServedEvent {
+  export type InputTuple = [player: AddressLike, puzzleId: BigNumberish];
+  export type OutputTuple = [player: string, puzzleId: bigint];
+  export interface OutputObject {
+    player: string;
+    puzzleId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleGrantedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleRevokedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoomCreatedEvent {
+  export type InputTuple = [
+    roomId: BigNumberish,
+    creator: AddressLike,
+    exitPuzzleId: BigNumberish,
+    timeLimit: BigNumberish
+  ];
+  export type OutputTuple = [
+    roomId: bigint,
+    creator: string,
+    exitPuzzleId: bigint,
+    timeLimit: bigint
+  ];
+  export interface OutputObject {
+    roomId: bigint;
+    creator: string;
+    exitPuzzleId: bigint;
+    timeLimit: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoomUnlockRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    roomId: BigNumberish,
+    player: AddressLike
+  ];
+  export type OutputTuple = [requestId: bigint, roomId: bigint, player: string];
+  export interface OutputObject {
+    requestId: bigint;
+    roomId: bigint;
+    player: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoomUnlockedEvent {
+  export type InputTuple = [roomId: BigNumberish, player: AddressLike];
+  export type OutputTuple = [roomId: bigint, player: string];
+  export interface OutputObject {
+    roomId: bigint;
+    player: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SessionAbandonedEvent {
+  export type InputTuple = [
+    sessionId: BigNumberish,
+    player: AddressLike,
+    playSeconds: BigNumberish
+  ];
+  export type OutputTuple = [
+    sessionId: bigint,
+    player: string,
+    playSeconds: bigint
+  ];
+  export interface OutputObject {
+    sessionId: bigint;
+    player: string;
+    playSeconds: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SessionFinishedEvent {
+  export type InputTuple = [
+    sessionId: BigNumberish,
+    player: AddressLike,
+    playSeconds: BigNumberish
+  ];
+  export type OutputTuple = [
+    sessionId: bigint,
+    player: string,
+    playSeconds: bigint
+  ];
+  export interface OutputObject {
+    sessionId: bigint;
+    player: string;
+    playSeconds: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SessionPausedEvent {
+  export type InputTuple = [sessionId: BigNumberish, player: AddressLike];
+  export type OutputTuple = [sessionId: bigint, player: string];
+  export interface OutputObject {
+    sessionId: bigint;
+    player: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SessionResumedEvent {
+  export type InputTuple = [
+    sessionId: BigNumberish,
+    player: AddressLike,
+    pausedSeconds: BigNumberish
+  ];
+  export type OutputTuple = [
+    sessionId: bigint,
+    player: string,
+    pausedSeconds: bigint
+  ];
+  export interface OutputObject {
+    sessionId: bigint;
+    player: string;
+    pausedSeconds: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SessionStartedEvent {
+  export type InputTuple = [
+    sessionId: BigNumberish,
+    player: AddressLike,
+    roomId: BigNumberish
+  ];
+  export type OutputTuple = [sessionId: bigint, player: string, roomId: bigint];
+  export interface OutputObject {
+    sessionId: bigint;
+    player: string;
+    roomId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TrustedForwarderSetEvent {
+  export type InputTuple = [
+    previousForwarder: AddressLike,
+    newForwarder: AddressLike
+  ];
+  export type OutputTuple = [previousForwarder: string, newForwarder: string];
+  export interface OutputObject {
+    previousForwarder: string;
+    newForwarder: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UnpausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface AIEscapeFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): AIEscapeFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: AIEscapeFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  ADMIN_ROLE: TypedContractMethod<[], [string], "view">;
+
+  GAME_MASTER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  HINT_PENALTY: TypedContractMethod<[], [bigint], "view">;
+
+  HINT_STUCK_SECONDS: TypedContractMethod<[], [bigint], "view">;
+
+  INITIAL_PERFORMANCE_SCORE: TypedContractMethod<[], [bigint], "view">;
+
+  ORACLE_ROLE: TypedContractMethod<[], [string], "view">;
+
+  PAUSER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  PUZZLE_AUTHOR_ROLE: TypedContractMethod<[], [string], "view">;
+
+  SOLVE_POINTS: TypedContractMethod<[], [bigint], "view">;
+
+  UNTIMED_PAR_SECONDS: TypedContractMethod<[], [bigint], "view">;
+
+  WRONG_GUESS_PENALTY: TypedContractMethod<[], [bigint], "view">;
+
+  abandonSession: TypedContractMethod<[], [void], "nonpayable">;
+
+  acceptOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  cooldownSeconds: TypedContractMethod<[], [bigint], "view">;
+
+  createPuzzle: TypedContractMethod<
+    [
+      encryptedSolution: BytesLike,
+      inputProof: BytesLike,
+      difficulty: BigNumberish,
+      requiredItems: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  createRoom: TypedContractMethod<
+    [
+      puzzleIds: BigNumberish[],
+      prerequisites: BigNumberish[],
+      exitPuzzleId: BigNumberish,
+      timeLimit: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  currentSession: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  finishSession: TypedContractMethod<[], [void], "nonpayable">;
+
+  firstAttemptAt: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getGuessResult: TypedContractMethod<
+    [puzzleId: BigNumberish, sessionId: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  getHintTier: TypedContractMethod<
+    [puzzleId: BigNumberish, sessionId: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  getInventory: TypedContractMethod<[player: AddressLike], [string], "view">;
+
+  getPlayerState: TypedContractMethod<
+    [player: AddressLike],
+    [
+      [string, string, string, string] & {
+        progress: string;
+        puzzleState1: string;
+        puzzleState2: string;
+        hintEligibility: string;
+      }
+    ],
+    "view"
+  >;
+
+  getPuzzle: TypedContractMethod<
+    [puzzleId: BigNumberish],
+    [
+      [string, bigint, bigint, string, bigint] & {
+        creator: string;
+        difficulty: bigint;
+        createdAt: bigint;
+        solution: string;
+        requiredItems: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getRoleMemberCount: TypedContractMethod<[role: BytesLike], [bigint], "view">;
+
+  getRoleMembers: TypedContractMethod<[role: BytesLike], [string[]], "view">;
+
+  getRoom: TypedContractMethod<
+    [roomId: BigNumberish],
+    [
+      [string, bigint[], bigint[], bigint, bigint] & {
+        creator: string;
+        puzzleIds: bigint[];
+        prerequisites: bigint[];
+        exitPuzzleId: bigint;
+        timeLimit: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getSession: TypedContractMethod<
+    [sessionId: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, bigint, bigint, bigint] & {
+        player: string;
+        roomId: bigint;
+        status: bigint;
+        startedAt: bigint;
+        endedAt: bigint;
+        playSeconds: bigint;
+        timeLimit: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getSessionPuzzles: TypedContractMethod<
+    [sessionId: BigNumberish],
+    [[boolean[], bigint[]] & { solved: boolean[]; hints: bigint[] }],
+    "view"
+  >;
+
+  getSessionStats: TypedContractMethod<
+    [sessionId: BigNumberish],
+    [
+      [string, string, string, string, string] & {
+        progress: string;
+        correctGuesses: string;
+        wrongGuesses: string;
+        inventory: string;
+        score: string;
+      }
+    ],
+    "view"
+  >;
+
+  getSolvedFlag: TypedContractMethod<
+    [puzzleId: BigNumberish, sessionId: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  grantRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  guessCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  guessVerifications: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, bigint, boolean] & {
+        puzzleId: bigint;
+        player: string;
+        sessionId: bigint;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  hasEscaped: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  hasRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  hintRequests: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  isPlayerInitialized: TypedContractMethod<
+    [player: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isRoomAccessible: TypedContractMethod<
+    [roomId: BigNumberish, sessionId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  lastDecryptionRequestTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  lastSubmissionTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  leaderboard: TypedContractMethod<[], [string], "view">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  pause: TypedContractMethod<[], [void], "nonpayable">;
+
+  pauseSession: TypedContractMethod<[], [void], "nonpayable">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  pendingOwner: TypedContractMethod<[], [string], "view">;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  puzzleCount: TypedContractMethod<[], [bigint], "view">;
+
+  puzzleRoom: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  puzzleSolved: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  renounceRole: TypedContractMethod<[role: BytesLike], [void], "nonpayable">;
+
+  requestGameStatusDecryption: TypedContractMethod<[], [bigint], "nonpayable">;
+
+  requestHint: TypedContractMethod<
+    [puzzleId: BigNumberish],
+    [string],
+    "nonpayable"
+  >;
+
+  requestRoomUnlock: TypedContractMethod<
+    [roomId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  resumeSession: TypedContractMethod<[], [void], "nonpayable">;
+
+  revokeRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  roomCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  roomCount: TypedContractMethod<[], [bigint], "view">;
+
+  roomUnlockRequests: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, bigint, boolean] & {
+        roomId: bigint;
+        player: string;
+        sessionId: bigint;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  roomUnlocked: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  serveCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  serveNextPuzzle: TypedContractMethod<[], [bigint], "nonpayable">;
+
+  serveRequests: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, boolean] & {
+        player: string;
+        sessionId: bigint;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  servedPuzzle: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  sessionCount: TypedContractMethod<[], [bigint], "view">;
+
+  sessionPlayTime: TypedContractMethod<
+    [sessionId: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  setCooldown: TypedContractMethod<
+    [newCooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setLeaderboard: TypedContractMethod<
+    [newLeaderboard: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setTrustedForwarder: TypedContractMethod<
+    [newForwarder: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  startSession: TypedContractMethod<
+    [roomId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  statusDecryptions: TypedContractMethod<[], [string], "view">;
+
+  submitGuess: TypedContractMethod<
+    [puzzleId: BigNumberish, encryptedGuess: BytesLike, inputProof: BytesLike],
+    [bigint],
+    "nonpayable"
+  >;
+
+  submitPlayerAction: TypedContractMethod<
+    [
+      encryptedActionType: BytesLike,
+      encryptedActionTarget: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  trustedForwarder: TypedContractMethod<[], [string], "view">;
+
+  unpause: TypedContractMethod<[], [void], "nonpayable">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "ADMIN_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "GAME_MASTER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "HINT_PENALTY"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "HINT_STUCK_SECONDS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "INITIAL_PERFORMANCE_SCORE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "ORACLE_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "PAUSER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "PUZZLE_AUTHOR_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "SOLVE_POINTS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "UNTIMED_PAR_SECONDS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "WRONG_GUESS_PENALTY"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "abandonSession"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "acceptOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cooldownSeconds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "createPuzzle"
+  ): TypedContractMethod<
+    [
+      encryptedSolution: BytesLike,
+      inputProof: BytesLike,
+      difficulty: BigNumberish,
+      requiredItems: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createRoom"
+  ): TypedContractMethod<
+    [
+      puzzleIds: BigNumberish[],
+      prerequisites: BigNumberish[],
+      exitPuzzleId: BigNumberish,
+      timeLimit: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "currentSession"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "finishSession"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "firstAttemptAt"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getGuessResult"
+  ): TypedContractMethod<
+    [puzzleId: BigNumberish, sessionId: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getHintTier"
+  ): TypedContractMethod<
+    [puzzleId: BigNumberish, sessionId: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getInventory"
+  ): TypedContractMethod<[player: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "getPlayerState"
+  ): TypedContractMethod<
+    [player: AddressLike],
+    [
+      [string, string, string, string] & {
+        progress: string;
+        puzzleState1: string;
+        puzzleState2: string;
+        hintEligibility: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPuzzle"
+  ): TypedContractMethod<
+    [puzzleId: BigNumberish],
+    [
+      [string, bigint, bigint, string, bigint] & {
+        creator: string;
+        difficulty: bigint;
+        createdAt: bigint;
+        solution: string;
+        requiredItems: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRoleMemberCount"
+  ): TypedContractMethod<[role: BytesLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getRoleMembers"
+  ): TypedContractMethod<[role: BytesLike], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getRoom"
+  ): TypedContractMethod<
+    [roomId: BigNumberish],
+    [
+      [string, bigint[], bigint[], bigint, bigint] & {
+        creator: string;
+        puzzleIds: bigint[];
+        prerequisites: bigint[];
+        exitPuzzleId: bigint;
+        timeLimit: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSession"
+  ): TypedContractMethod<
+    [sessionId: BigNumberish],
+    [
+      [string, bigint, bigint, bigint, bigint, bigint, bigint] & {
+        player: string;
+        roomId: bigint;
+        status: bigint;
+        startedAt: bigint;
+        endedAt: bigint;
+        playSeconds: bigint;
+        timeLimit: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSessionPuzzles"
+  ): TypedContractMethod<
+    [sessionId: BigNumberish],
+    [[boolean[], bigint[]] & { solved: boolean[]; hints: bigint[] }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSessionStats"
+  ): TypedContractMethod<
+    [sessionId: BigNumberish],
+    [
+      [string, string, string, string, string] & {
+        progress: string;
+        correctGuesses: string;
+        wrongGuesses: string;
+        inventory: string;
+        score: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSolvedFlag"
+  ): TypedContractMethod<
+    [puzzleId: BigNumberish, sessionId: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "grantRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "guessCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "guessVerifications"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, bigint, boolean] & {
+        puzzleId: bigint;
+        player: string;
+        sessionId: bigint;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hasEscaped"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hasRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hintRequests"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isPlayerInitialized"
+  ): TypedContractMethod<[player: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isRoomAccessible"
+  ): TypedContractMethod<
+    [roomId: BigNumberish, sessionId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "lastDecryptionRequestTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastSubmissionTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "leaderboard"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "pause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "pauseSession"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "pendingOwner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "puzzleCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "puzzleRoom"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "puzzleSolved"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "renounceRole"
+  ): TypedContractMethod<[role: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestGameStatusDecryption"
+  ): TypedContractMethod<[], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestHint"
+  ): TypedContractMethod<[puzzleId: BigNumberish], [string], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestRoomUnlock"
+  ): TypedContractMethod<[roomId: BigNumberish], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "resumeSession"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revokeRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "roomCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "roomCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "roomUnlockRequests"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, bigint, boolean] & {
+        roomId: bigint;
+        player: string;
+        sessionId: bigint;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "roomUnlocked"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "serveCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "serveNextPuzzle"
+  ): TypedContractMethod<[], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "serveRequests"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, bigint, boolean] & {
+        player: string;
+        sessionId: bigint;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "servedPuzzle"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "sessionCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "sessionPlayTime"
+  ): TypedContractMethod<[sessionId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "setCooldown"
+  ): TypedContractMethod<
+    [newCooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setLeaderboard"
+  ): TypedContractMethod<[newLeaderboard: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setTrustedForwarder"
+  ): TypedContractMethod<[newForwarder: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "startSession"
+  ): TypedContractMethod<[roomId: BigNumberish], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "statusDecryptions"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "submitGuess"
+  ): TypedContractMethod<
+    [puzzleId: BigNumberish, encryptedGuess: BytesLike, inputProof: BytesLike],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitPlayerAction"
+  ): TypedContractMethod<
+    [
+      encryptedActionType: BytesLike,
+      encryptedActionTarget: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "trustedForwarder"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "unpause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+
+  getEvent(
+    key: "CooldownSet"
+  ): TypedContractEvent<
+    CooldownSetEvent.InputTuple,
+    CooldownSetEvent.OutputTuple,
+    CooldownSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "Escaped"
+  ): TypedContractEvent<
+    EscapedEvent.InputTuple,
+    EscapedEvent.OutputTuple,
+    EscapedEvent.OutputObject
+  >;
+  getEvent(
+    key: "GuessSubmitted"
+  ): TypedContractEvent<
+    GuessSubmittedEvent.InputTuple,
+    GuessSubmittedEvent.OutputTuple,
+    GuessSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "GuessVerified"
+  ): TypedContractEvent<
+    GuessVerifiedEvent.InputTuple,
+    GuessVerifiedEvent.OutputTuple,
+    GuessVerifiedEvent.OutputObject
+  >;
+  getEvent(
+    key: "HintTierComputed"
+  ): TypedContractEvent<
+    HintTierComputedEvent.InputTuple,
+    HintTierComputedEvent.OutputTuple,
+    HintTierComputedEvent.OutputObject
+  >;
+  getEvent(
+    key: "LeaderboardSet"
+  ): TypedContractEvent<
+    LeaderboardSetEvent.InputTuple,
+    LeaderboardSetEvent.OutputTuple,
+    LeaderboardSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferStarted"
+  ): TypedContractEvent<
+    OwnershipTransferStartedEvent.InputTuple,
+    OwnershipTransferStartedEvent.OutputTuple,
+    OwnershipTransferStartedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "Paused"
+  ): TypedContractEvent<
+    PausedEvent.InputTuple,
+    PausedEvent.OutputTuple,
+    PausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PlayerActionSubmitted"
+  ): TypedContractEvent<
+    PlayerActionSubmittedEvent.InputTuple,
+    PlayerActionSubmittedEvent.OutputTuple,
+    PlayerActionSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PlayerStateInitialized"
+  ): TypedContractEvent<
+    PlayerStateInitializedEvent.InputTuple,
+    PlayerStateInitializedEvent.OutputTuple,
+    PlayerStateInitializedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PuzzleCreated"
+  ): TypedContractEvent<
+    PuzzleCreatedEvent.InputTuple,
+    PuzzleCreatedEvent.OutputTuple,
+    PuzzleCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PuzzleServeRequested"
+  ): TypedContractEvent<
+    PuzzleServeRequestedEvent.InputTuple,
+    PuzzleServeRequestedEvent.OutputTuple,
+    PuzzleServeRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PuzzleServed"
+  ): TypedContractEvent<
+    PuzzleServedEvent.InputTuple,
+    PuzzleServedEvent.OutputTuple,
+    PuzzleServedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleGranted"
+  ): TypedContractEvent<
+    RoleGrantedEvent.InputTuple,
+    RoleGrantedEvent.OutputTuple,
+    RoleGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleRevoked"
+  ): TypedContractEvent<
+    RoleRevokedEvent.InputTuple,
+    RoleRevokedEvent.OutputTuple,
+    RoleRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoomCreated"
+  ): TypedContractEvent<
+    RoomCreatedEvent.InputTuple,
+    RoomCreatedEvent.OutputTuple,
+    RoomCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoomUnlockRequested"
+  ): TypedContractEvent<
+    RoomUnlockRequestedEvent.InputTuple,
+    RoomUnlockRequestedEvent.OutputTuple,
+    RoomUnlockRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoomUnlocked"
+  ): TypedContractEvent<
+    RoomUnlockedEvent.InputTuple,
+    RoomUnlockedEvent.OutputTuple,
+    RoomUnlockedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SessionAbandoned"
+  ): TypedContractEvent<
+    SessionAbandonedEvent.InputTuple,
+    SessionAbandonedEvent.OutputTuple,
+    SessionAbandonedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SessionFinished"
+  ): TypedContractEvent<
+    SessionFinishedEvent.InputTuple,
+    SessionFinishedEvent.OutputTuple,
+    SessionFinishedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SessionPaused"
+  ): TypedContractEvent<
+    SessionPausedEvent.InputTuple,
+    SessionPausedEvent.OutputTuple,
+    SessionPausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SessionResumed"
+  ): TypedContractEvent<
+    SessionResumedEvent.InputTuple,
+    SessionResumedEvent.OutputTuple,
+    SessionResumedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SessionStarted"
+  ): TypedContractEvent<
+    SessionStartedEvent.InputTuple,
+    SessionStartedEvent.OutputTuple,
+    SessionStartedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TrustedForwarderSet"
+  ): TypedContractEvent<
+    TrustedForwarderSetEvent.InputTuple,
+    TrustedForwarderSetEvent.OutputTuple,
+    TrustedForwarderSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "Unpaused"
+  ): TypedContractEvent<
+    UnpausedEvent.InputTuple,
+    UnpausedEvent.OutputTuple,
+    UnpausedEvent.OutputObject
+  >;
+
+  filters: {
+    "CooldownSet(uint256,uint256)": TypedContractEvent<
+      CooldownSetEvent.InputTuple,
+      CooldownSetEvent.OutputTuple,
+      CooldownSetEvent.OutputObject
+    >;
+    CooldownSet: TypedContractEvent<
+      CooldownSetEvent.InputTuple,
+      CooldownSetEvent.OutputTuple,
+      CooldownSetEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "Escaped(uint256,address)": TypedContractEvent<
+      EscapedEvent.InputTuple,
+      EscapedEvent.OutputTuple,
+      EscapedEvent.OutputObject
+    >;
+    Escaped: TypedContractEvent<
+      EscapedEvent.InputTuple,
+      EscapedEvent.OutputTuple,
+      EscapedEvent.OutputObject
+    >;
+
+    "GuessSubmitted(uint256,address,uint256)": TypedContractEvent<
+      GuessSubmittedEvent.InputTuple,
+      GuessSubmittedEvent.OutputTuple,
+      GuessSubmittedEvent.OutputObject
+    >;
+    GuessSubmitted: TypedContractEvent<
+      GuessSubmittedEvent.InputTuple,
+      GuessSubmittedEvent.OutputTuple,
+      GuessSubmittedEvent.OutputObject
+    >;
+
+    "GuessVerified(uint256,uint256,address,bool)": TypedContractEvent<
+      GuessVerifiedEvent.InputTuple,
+      GuessVerifiedEvent.OutputTuple,
+      GuessVerifiedEvent.OutputObject
+    >;
+    GuessVerified: TypedContractEvent<
+      GuessVerifiedEvent.InputTuple,
+      GuessVerifiedEvent.OutputTuple,
+      GuessVerifiedEvent.OutputObject
+    >;
+
+    "HintTierComputed(uint256,address,uint256)": TypedContractEvent<
+      HintTierComputedEvent.InputTuple,
+      HintTierComputedEvent.OutputTuple,
+      HintTierComputedEvent.OutputObject
+    >;
+    HintTierComputed: TypedContractEvent<
+      HintTierComputedEvent.InputTuple,
+      HintTierComputedEvent.OutputTuple,
+      HintTierComputedEvent.OutputObject
+    >;
+
+    "LeaderboardSet(address,address)": TypedContractEvent<
+      LeaderboardSetEvent.InputTuple,
+      LeaderboardSetEvent.OutputTuple,
+      LeaderboardSetEvent.OutputObject
+    >;
+    LeaderboardSet: TypedContractEvent<
+      LeaderboardSetEvent.InputTuple,
+      LeaderboardSetEvent.OutputTuple,
+      LeaderboardSetEvent.OutputObject
+    >;
+
+    "OwnershipTransferStarted(address,address)": TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+    OwnershipTransferStarted: TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "Paused(address)": TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+    Paused: TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+
+    "PlayerActionSubmitted(address,uint256,bytes32)": TypedContractEvent<
+      PlayerActionSubmittedEvent.InputTuple,
+      PlayerActionSubmittedEvent.OutputTuple,
+      PlayerActionSubmittedEvent.OutputObject
+    >;
+    PlayerActionSubmitted: TypedContractEvent<
+      PlayerActionSubmittedEvent.InputTuple,
+      PlayerActionSubmittedEvent.OutputTuple,
+      PlayerActionSubmittedEvent.OutputObject
+    >;
+
+    "PlayerStateInitialized(address)": TypedContractEvent<
+      PlayerStateInitializedEvent.InputTuple,
+      PlayerStateInitializedEvent.OutputTuple,
+      PlayerStateInitializedEvent.OutputObject
+    >;
+    PlayerStateInitialized: TypedContractEvent<
+      PlayerStateInitializedEvent.InputTuple,
+      PlayerStateInitializedEvent.OutputTuple,
+      PlayerStateInitializedEvent.OutputObject
+    >;
+
+    "PuzzleCreated(uint256,address,uint8,bytes32,uint64,uint256)": TypedContractEvent<
+      PuzzleCreatedEvent.InputTuple,
+      PuzzleCreatedEvent.OutputTuple,
+      PuzzleCreatedEvent.OutputObject
+    >;
+    PuzzleCreated: TypedContractEvent<
+      PuzzleCreatedEvent.InputTuple,
+      PuzzleCreatedEvent.OutputTuple,
+      PuzzleCreatedEvent.OutputObject
+    >;
+
+    "PuzzleServeRequested(uint256,address)": TypedContractEvent<
+      PuzzleServeRequestedEvent.InputTuple,
+      PuzzleServeRequestedEvent.OutputTuple,
+      PuzzleServeRequestedEvent.OutputObject
+    >;
+    PuzzleServeRequested: TypedContractEvent<
+      PuzzleServeRequestedEvent.InputTuple,
+      PuzzleServeRequestedEvent.OutputTuple,
+      PuzzleServeRequestedEvent.OutputObject
+    >;
+
+    "PuzzleServed(address,uint256)": TypedContractEvent<
+      PuzzleServedEvent.InputTuple,
+      PuzzleServedEvent.OutputTuple,
+      PuzzleServedEvent.OutputObject
+    >;
+    PuzzleServed: TypedContractEvent<
+      PuzzleServedEvent.InputTuple,
+      PuzzleServedEvent.OutputTuple,
+      PuzzleServedEvent.OutputObject
+    >;
+
+    "RoleGranted(bytes32,address,address)": TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+    RoleGranted: TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+
+    "RoleRevoked(bytes32,address,address)": TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+    RoleRevoked: TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+
+    "RoomCreated(uint256,address,uint256,uint64)": TypedContractEvent<
+      RoomCreatedEvent.InputTuple,
+      RoomCreatedEvent.OutputTuple,
+      RoomCreatedEvent.OutputObject
+    >;
+    RoomCreated: TypedContractEvent<
+      RoomCreatedEvent.InputTuple,
+      RoomCreatedEvent.OutputTuple,
+      RoomCreatedEvent.OutputObject
+    >;
+
+    "RoomUnlockRequested(uint256,uint256,address)": TypedContractEvent<
+      RoomUnlockRequestedEvent.InputTuple,
+      RoomUnlockRequestedEvent.OutputTuple,
+      RoomUnlockRequestedEvent.OutputObject
+    >;
+    RoomUnlockRequested: TypedContractEvent<
+      RoomUnlockRequestedEvent.InputTuple,
+      RoomUnlockRequestedEvent.OutputTuple,
+      RoomUnlockRequestedEvent.OutputObject
+    >;
+
+    "RoomUnlocked(uint256,address)": TypedContractEvent<
+      RoomUnlockedEvent.InputTuple,
+      RoomUnlockedEvent.OutputTuple,
+      RoomUnlockedEvent.OutputObject
+    >;
+    RoomUnlocked: TypedContractEvent<
+      RoomUnlockedEvent.InputTuple,
+      RoomUnlockedEvent.OutputTuple,
+      RoomUnlockedEvent.OutputObject
+    >;
+
+    "SessionAbandoned(uint256,address,uint256)": TypedContractEvent<
+      SessionAbandonedEvent.InputTuple,
+      SessionAbandonedEvent.OutputTuple,
+      SessionAbandonedEvent.OutputObject
+    >;
+    SessionAbandoned: TypedContractEvent<
+      SessionAbandonedEvent.InputTuple,
+      SessionAbandonedEvent.OutputTuple,
+      SessionAbandonedEvent.OutputObject
+    >;
+
+    "SessionFinished(uint256,address,uint256)": TypedContractEvent<
+      SessionFinishedEvent.InputTuple,
+      SessionFinishedEvent.OutputTuple,
+      SessionFinishedEvent.OutputObject
+    >;
+    SessionFinished: TypedContractEvent<
+      SessionFinishedEvent.InputTuple,
+      SessionFinishedEvent.OutputTuple,
+      SessionFinishedEvent.OutputObject
+    >;
+
+    "SessionPaused(uint256,address)": TypedContractEvent<
+      SessionPausedEvent.InputTuple,
+      SessionPausedEvent.OutputTuple,
+      SessionPausedEvent.OutputObject
+    >;
+    SessionPaused: TypedContractEvent<
+      SessionPausedEvent.InputTuple,
+      SessionPausedEvent.OutputTuple,
+      SessionPausedEvent.OutputObject
+    >;
+
+    "SessionResumed(uint256,address,uint256)": TypedContractEvent<
+      SessionResumedEvent.InputTuple,
+      SessionResumedEvent.OutputTuple,
+      SessionResumedEvent.OutputObject
+    >;
+    SessionResumed: TypedContractEvent<
+      SessionResumedEvent.InputTuple,
+      SessionResumedEvent.OutputTuple,
+      SessionResumedEvent.OutputObject
+    >;
+
+    "SessionStarted(uint256,address,uint256)": TypedContractEvent<
+      SessionStartedEvent.InputTuple,
+      SessionStartedEvent.OutputTuple,
+      SessionStartedEvent.OutputObject
+    >;
+    SessionStarted: TypedContractEvent<
+      SessionStartedEvent.InputTuple,
+      SessionStartedEvent.OutputTuple,
+      SessionStartedEvent.OutputObject
+    >;
+
+    "TrustedForwarderSet(address,address)": TypedContractEvent<
+      TrustedForwarderSetEvent.InputTuple,
+      TrustedForwarderSetEvent.OutputTuple,
+      TrustedForwarderSetEvent.OutputObject
+    >;
+    TrustedForwarderSet: TypedContractEvent<
+      TrustedForwarderSetEvent.InputTuple,
+      TrustedForwarderSetEvent.OutputTuple,
+      TrustedForwarderSetEvent.OutputObject
+    >;
+
+    "Unpaused(address)": TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+    Unpaused: TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,526 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace StatusDecryptions {
+  export type StatusHandlesStruct = {
+    progress: BytesLike;
+    puzzleState1: BytesLike;
+    puzzleState2: BytesLike;
+    hintEligibility: BytesLike;
+  };
+
+  export type StatusHandlesStructOutput = [
+    progress: string,
+    puzzleState1: string,
+    puzzleState2: string,
+    hintEligibility: string
+  ] & {
+    progress: string;
+    puzzleState1: string;
+    puzzleState2: string;
+    hintEligibility: string;
+  };
+}
+
+export interface StatusDecryptionsInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "cancel"
+      | "decryptionContexts"
+      | "game"
+      | "getPendingRequests"
+      | "getStatusMasks"
+      | "protocolId"
+      | "request"
+      | "setTimeout"
+      | "statusCallback"
+      | "statusOf"
+      | "timeout"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "DecryptionCancelled"
+      | "DecryptionCompleted"
+      | "DecryptionFulfilled"
+      | "DecryptionRequested"
+      | "TimeoutSet"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "cancel",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "game", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "getPendingRequests",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getStatusMasks",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "request",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTimeout",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "statusCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "statusOf",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "timeout", values?: undefined): string;
+
+  decodeFunctionResult(functionFragment: "cancel", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "game", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getPendingRequests",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getStatusMasks",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "request", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "setTimeout", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "statusCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "statusOf", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "timeout", data: BytesLike): Result;
+}
+
+export namespace DecryptionCancelledEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    player: AddressLike,
+    canceller: AddressLike
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    player: string,
+    canceller: string
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    player: string;
+    canceller: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    player: AddressLike,
+    sessionId: BigNumberish,
+    maskedProgress: BigNumberish,
+    maskedPuzzleState1: BigNumberish,
+    maskedPuzzleState2: BigNumberish,
+    maskedHintEligibility: boolean,
+    stale: boolean
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    player: string,
+    sessionId: bigint,
+    maskedProgress: bigint,
+    maskedPuzzleState1: bigint,
+    maskedPuzzleState2: bigint,
+    maskedHintEligibility: boolean,
+    stale: boolean
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    player: string;
+    sessionId: bigint;
+    maskedProgress: bigint;
+    maskedPuzzleState1: bigint;
+    maskedPuzzleState2: bigint;
+    maskedHintEligibility: boolean;
+    stale: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    player: AddressLike,
+    sessionId: BigNumberish,
+    stateHash: BytesLike
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    player: string,
+    sessionId: bigint,
+    stateHash: string
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    player: string;
+    sessionId: bigint;
+    stateHash: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TimeoutSetEvent {
+  export type InputTuple = [oldTimeout: BigNumberish, newTimeout: BigNumberish];
+  export type OutputTuple = [oldTimeout: bigint, newTimeout: bigint];
+  export interface OutputObject {
+    oldTimeout: bigint;
+    newTimeout: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface StatusDecryptions extends BaseContract {
+  connect(runner?: ContractRunner | null): StatusDecryptions;
+  waitForDeployment(): Promise<this>;
+
+  interface: StatusDecryptionsInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  cancel: TypedContractMethod<[requestId: BigNumberish], [void], "nonpayable">;
+
+  decryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        string,
+        bigint,
+        bigint,
+        string,
+        StatusDecryptions.StatusHandlesStructOutput
+      ] & {
+        sessionId: bigint;
+        requester: string;
+        requestedAt: bigint;
+        status: bigint;
+        stateHash: string;
+        snapshot: StatusDecryptions.StatusHandlesStructOutput;
+      }
+    ],
+    "view"
+  >;
+
+  game: TypedContractMethod<[], [string], "view">;
+
+  getPendingRequests: TypedContractMethod<
+    [player: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  getStatusMasks: TypedContractMethod<
+    [requestId: BigNumberish],
+    [
+      [string, string, string, string] & {
+        progress: string;
+        puzzleState1: string;
+        puzzleState2: string;
+        hintEligibility: string;
+      }
+    ],
+    "view"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  request: TypedContractMethod<
+    [player: AddressLike, sessionId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  setTimeout: TypedContractMethod<
+    [newTimeout: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  statusCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  statusOf: TypedContractMethod<[requestId: BigNumberish], [bigint], "view">;
+
+  timeout: TypedContractMethod<[], [bigint], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "cancel"
+  ): TypedContractMethod<[requestId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "decryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        string,
+        bigint,
+        bigint,
+        string,
+        StatusDecryptions.StatusHandlesStructOutput
+      ] & {
+        sessionId: bigint;
+        requester: string;
+        requestedAt: bigint;
+        status: bigint;
+        stateHash: string;
+        snapshot: StatusDecryptions.StatusHandlesStructOutput;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "game"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "getPendingRequests"
+  ): TypedContractMethod<[player: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getStatusMasks"
+  ): TypedContractMethod<
+    [requestId: BigNumberish],
+    [
+      [string, string, string, string] & {
+        progress: string;
+        puzzleState1: string;
+        puzzleState2: string;
+        hintEligibility: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "request"
+  ): TypedContractMethod<
+    [player: AddressLike, sessionId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setTimeout"
+  ): TypedContractMethod<[newTimeout: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "statusCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "statusOf"
+  ): TypedContractMethod<[requestId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "timeout"
+  ): TypedContractMethod<[], [bigint], "view">;
+
+  getEvent(
+    key: "DecryptionCancelled"
+  ): TypedContractEvent<
+    DecryptionCancelledEvent.InputTuple,
+    DecryptionCancelledEvent.OutputTuple,
+    DecryptionCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionCompleted"
+  ): TypedContractEvent<
+    DecryptionCompletedEvent.InputTuple,
+    DecryptionCompletedEvent.OutputTuple,
+    DecryptionCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TimeoutSet"
+  ): TypedContractEvent<
+    TimeoutSetEvent.InputTuple,
+    TimeoutSetEvent.OutputTuple,
+    TimeoutSetEvent.OutputObject
+  >;
+
+  filters: {
+    "DecryptionCancelled(uint256,address,address)": TypedContractEvent<
+      DecryptionCancelledEvent.InputTuple,
+      DecryptionCancelledEvent.OutputTuple,
+      DecryptionCancelledEvent.OutputObject
+    >;
+    DecryptionCancelled: TypedContractEvent<
+      DecryptionCancelledEvent.InputTuple,
+      DecryptionCancelledEvent.OutputTuple,
+      DecryptionCancelledEvent.OutputObject
+    >;
+
+    "DecryptionCompleted(uint256,address,uint256,uint256,uint256,uint256,bool,bool)": TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+    DecryptionCompleted: TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DecryptionRequested(uint256,address,uint256,bytes32)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "TimeoutSet(uint256,uint256)": TypedContractEvent<
+      TimeoutSetEvent.InputTuple,
+      TimeoutSetEvent.OutputTuple,
+      TimeoutSetEvent.OutputObject
+    >;
+    TimeoutSet: TypedContractEvent<
+      TimeoutSetEvent.InputTuple,
+      TimeoutSetEvent.OutputTuple,
+      TimeoutSetEvent.OutputObject
+    >;
+  };
+}
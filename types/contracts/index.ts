@@ -1,4 +1,9 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { UniversalAdapter } from "./UniversalAdapter";
+import type * as aiEscapeFheSol from "./AI_Escape_FHE.sol";
+export type { aiEscapeFheSol };
+export type { EscapeLeaderboard } from "./EscapeLeaderboard";
+export type { EscapeRoles } from "./EscapeRoles";
+export type { PlayerActionForwarder } from "./PlayerActionForwarder";
+export type { StatusDecryptions } from "./StatusDecryptions";
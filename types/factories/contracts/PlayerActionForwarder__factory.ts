@@ -0,0 +1,706 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  PlayerActionForwarder,
+  PlayerActionForwarderInterface,
+} from "../../contracts/PlayerActionForwarder";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract AIEscapeFHE",
+        name: "_game",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "ExpiredAction",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidNonce",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidSignature",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotRelayer",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "relayer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "enum PlayerActionForwarder.Operation",
+        name: "operation",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "nonce",
+        type: "uint256",
+      },
+    ],
+    name: "GameCallRelayed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "relayer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "nonce",
+        type: "uint256",
+      },
+    ],
+    name: "GuessRelayed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "nonce",
+        type: "uint256",
+      },
+    ],
+    name: "NonceInvalidated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "relayer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "nonce",
+        type: "uint256",
+      },
+    ],
+    name: "PlayerActionRelayed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "relayer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "nonce",
+        type: "uint256",
+      },
+    ],
+    name: "StatusRequestRelayed",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "GAME_CALL_TYPEHASH",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "GUESS_ACTION_TYPEHASH",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PLAYER_ACTION_TYPEHASH",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "STATUS_REQUEST_TYPEHASH",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "domainSeparator",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "game",
+    outputs: [
+      {
+        internalType: "contract AIEscapeFHE",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "player",
+            type: "address",
+          },
+          {
+            internalType: "enum PlayerActionForwarder.Operation",
+            name: "operation",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "nonce",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "deadline",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct PlayerActionForwarder.GameCall",
+        name: "call",
+        type: "tuple",
+      },
+    ],
+    name: "hashGameCall",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "player",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "puzzleId",
+            type: "uint256",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "guess",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint256",
+            name: "nonce",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "deadline",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct PlayerActionForwarder.GuessAction",
+        name: "action",
+        type: "tuple",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "hashGuessAction",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "player",
+            type: "address",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "actionType",
+            type: "bytes32",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "actionTarget",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint256",
+            name: "nonce",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "deadline",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct PlayerActionForwarder.PlayerAction",
+        name: "action",
+        type: "tuple",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "hashPlayerAction",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "player",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "nonce",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "deadline",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct PlayerActionForwarder.StatusRequest",
+        name: "request",
+        type: "tuple",
+      },
+    ],
+    name: "hashStatusRequest",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "invalidateNonce",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "nonces",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "player",
+            type: "address",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "actionType",
+            type: "bytes32",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "actionTarget",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint256",
+            name: "nonce",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "deadline",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct PlayerActionForwarder.PlayerAction",
+        name: "action",
+        type: "tuple",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "signature",
+        type: "bytes",
+      },
+    ],
+    name: "relay",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "player",
+            type: "address",
+          },
+          {
+            internalType: "enum PlayerActionForwarder.Operation",
+            name: "operation",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "nonce",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "deadline",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct PlayerActionForwarder.GameCall",
+        name: "call",
+        type: "tuple",
+      },
+      {
+        internalType: "bytes",
+        name: "signature",
+        type: "bytes",
+      },
+    ],
+    name: "relayGameCall",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "player",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "puzzleId",
+            type: "uint256",
+          },
+          {
+            internalType: "externalEuint32",
+            name: "guess",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint256",
+            name: "nonce",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "deadline",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct PlayerActionForwarder.GuessAction",
+        name: "action",
+        type: "tuple",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "signature",
+        type: "bytes",
+      },
+    ],
+    name: "relayGuess",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "player",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "nonce",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "deadline",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct PlayerActionForwarder.StatusRequest",
+        name: "request",
+        type: "tuple",
+      },
+      {
+        internalType: "bytes",
+        name: "signature",
+        type: "bytes",
+      },
+    ],
+    name: "relayStatusRequest",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a03461008d57601f6113f438819003918201601f19168301916001600160401b038311848410176100915780849260209460405283398101031261008d57516001600160a01b038116810361008d5760805260405161134e90816100a682396080518181816102ea0152818161043c0152818161061201528181610660015281816108270152610e660152f35b5f80fd5b634e487b7160e01b5f52604160045260245ffdfe60806040526004361015610011575f80fd5b5f3560e01c8063053aa3f0146101145780633084f88a1461010f578063497ef34a1461010a5780635a57b46f1461010557806376253648146101005780637ecebe00146100fb5780638b9283c5146100f6578063a04b4e9e146100f1578063af6864fe146100ec578063c3fe3e28146100e7578063c891fb00146100e2578063d7fa7826146100dd578063e4f90410146100d8578063ebfb0d34146100d3578063f698da25146100ce5763fe5e853f146100c9575f80fd5b61090c565b6108f2565b610862565b61076b565b610731565b61068f565b61064b565b61055a565b6104ee565b6104b4565b61047a565b610275565b610216565b6101fd565b61015a565b61012e565b606090600319011261012a57600490565b5f80fd5b3461012a57606036600319011261012a57602061015261014d36610119565b6109e3565b604051908152f35b3461012a575f36600319011261012a5760206040517f5348551240c33bce36052aa8b17438d21c4171f272d555f6db9ff59ba2507bea8152f35b9181601f8401121561012a5782359167ffffffffffffffff831161012a576020838186019501011161012a57565b90600319820160c0811261012a5760a01361012a5760049160a4359067ffffffffffffffff821161012a576101f991600401610194565b9091565b3461012a576020610152610210366101c2565b91610ab5565b3461012a575f36600319011261012a57335f525f60205260405f208054905f198214610270576001820190556040519081527f1800cd2301fbc20790ed94f3d55a28ef2306a9c31cd3c72b5b71b6e4cf5c624160203392a2005b610b49565b3461012a576102af610286366101c2565b61029283949293610946565b926060850135936102a286610c8d565b9085608088013591610e3d565b602082019160086102bf84610b7b565b6102c881610b5d565b036103eb5760405163348a7e0b60e01b81526001600160a01b036020826004817f000000000000000000000000000000000000000000000000000000000000000085165afa9081156103e6577f76f1c3a118c883fbe97514acc3d0eebc49d6bb1bb8b908386c5a6d18ace7f518936103896103949361038e936103b0965f926103b5575b50604080516340e58ee560e01b6020820152908501356024808301919091528152906103796044836109c1565b61038285610946565b921661118b565b610946565b94610b7b565b60405133956001600160a01b0316949092839290919083610bb5565b0390a3005b6103d891925060203d6020116103df575b6103d081836109c1565b810190610b88565b905f61034c565b503d6103c6565b610b9d565b6103b061039461038e7f76f1c3a118c883fbe97514acc3d0eebc49d6bb1bb8b908386c5a6d18ace7f5189361038961043061042589610b7b565b604084013590610fdc565b61043983610946565b907f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031661118b565b6001600160a01b0381160361012a57565b3461012a57602036600319011261012a5760043561049781610469565b60018060a01b03165f525f602052602060405f2054604051908152f35b3461012a575f36600319011261012a5760206040517f618e5bbd89d2f84a6be505a08e94a79aa07b66d551ee9448bc980e3146c3f6628152f35b3461012a576020610152610501366101c2565b91610bce565b90600319820160e0811261012a5760a01361012a5760049167ffffffffffffffff9160a43583811161012a578261054091600401610194565b9390939260c43591821161012a576101f991600401610194565b3461012a576103896105c37f4ad6d5921f817b3edc554c6e0457e2c052b057f5dc5545496bc5787c8c5073136103b061063761059536610507565b6105a4859a949a999299610946565b986060860135996105b6858d89610bce565b908b608089013591610e3d565b61060560018060a01b03986105f760405193849263b70577e960e01b60208501526040880135602089013560248601610c5b565b03601f1981018352826109c1565b61060e83610946565b90887f00000000000000000000000000000000000000000000000000000000000000001661118b565b604051938452339416929081906020820190565b3461012a575f36600319011261012a576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b3461012a5760a036600319011261012a576004356106ac81610469565b602435600981101561012a576020916101529161070460405191858301937f618e5bbd89d2f84a6be505a08e94a79aa07b66d551ee9448bc980e3146c3f662855260018060a01b031660408401526060830190610ba8565b604435608082015260643560a082015260843560c082015260c08152610729816109a5565b519020610dc0565b3461012a575f36600319011261012a5760206040517f6cefb9953632e28cda6c76e9c097e81d10de0ff397a2e341c87979a2856034a18152f35b3461012a57608036600319011261012a5761078536610119565b6064359067ffffffffffffffff821161012a576107a96107d1923690600401610194565b823593916107b685610469565b60208401359360406107c7826109e3565b9101358587610e3d565b7f07278f1aec32fee0455286a4cf77a56606a20214ed134c6f793ca6a55650081b602060018060a01b0361084c8560405163e476ae2760e01b858201526004815261081b81610967565b61082482610469565b837f00000000000000000000000000000000000000000000000000000000000000001661118b565b61085585610469565b60405193845233941692a3005b3461012a576103896108be7f28eef173fe6c60b4d0bafc828b73be3f2829a668be161d65ca31eb5397fe23556103b061063761089d36610507565b6108ac859a949a999299610946565b986060860135996105b6858d89610ab5565b61060560018060a01b03986105f76040519384926339dbacc360e21b60208501526040880135602089013560248601610c5b565b3461012a575f36600319011261012a576020610152610d19565b3461012a575f36600319011261012a5760206040517f7444032525770c9418552a2ca9fc713190624543bde96eb0a2b276845338da0f8152f35b3561095081610469565b90565b634e487b7160e01b5f52604160045260245ffd5b6040810190811067ffffffffffffffff82111761098357604052565b610953565b610100810190811067ffffffffffffffff82111761098357604052565b60e0810190811067ffffffffffffffff82111761098357604052565b90601f8019910116810190811067ffffffffffffffff82111761098357604052565b80356109ee81610469565b604080519260208401927f7444032525770c9418552a2ca9fc713190624543bde96eb0a2b276845338da0f845260018060a01b03168285015260208101356060850152013560808301526080825260a082019180831067ffffffffffffffff8411176109835761095092604052519020610dc0565b67ffffffffffffffff811161098357601f01601f191660200190565b929192610a8b82610a63565b91610a9960405193846109c1565b82948184528183011161012a578281602093845f960137010152565b6080610ad26109509493833594610acb86610469565b3691610a7f565b60208151910120916040519260208401947f5348551240c33bce36052aa8b17438d21c4171f272d555f6db9ff59ba2507bea865260018060a01b031660408501526020820135606085015260408201358385015260a0840152606081013560c0840152013560e082015260e0815261072981610988565b634e487b7160e01b5f52601160045260245ffd5b60091115610b6757565b634e487b7160e01b5f52602160045260245ffd5b35600981101561012a5790565b9081602091031261012a575161095081610469565b6040513d5f823e3d90fd5b906009821015610b675752565b60209093929193610bca816040810196610ba8565b0152565b6080610be46109509493833594610acb86610469565b60208151910120916040519260208401947f6cefb9953632e28cda6c76e9c097e81d10de0ff397a2e341c87979a2856034a1865260018060a01b031660408501526020820135606085015260408201358385015260a0840152606081013560c0840152013560e082015260e0815261072981610988565b928492608095928552602085015260606040850152816060850152848401375f828201840152601f01601f1916010190565b61095090803590610c9d82610469565b6080610cab60208301610b7b565b91610cf26040519360208501957f618e5bbd89d2f84a6be505a08e94a79aa07b66d551ee9448bc980e3146c3f662875260018060a01b031660408601526060850190610ba8565b604081013582840152606081013560a0840152013560c082015260c08152610729816109a5565b60405160208101907f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f82527f2f8c2511319ee4c97b426212bcf1b42b549ee1135282ed71a3d7ce429c82ce3e60408201527fc89efdaa54c0f20c7adf612882df0950f5a951637e0307cdcb4c672f298b8bc660608201524660808201523060a082015260a0815260c0810181811067ffffffffffffffff8211176109835760405251902090565b610dc8610d19565b9060405190602082019261190160f01b845260228301526042820152604281526080810181811067ffffffffffffffff8211176109835760405251902090565b9081602091031261012a575190565b9081602091031261012a5751801515810361012a5790565b906001820180921161027057565b6040805163568ef78f60e11b81529196929560049591946001600160a01b0394939192916020907f000000000000000000000000000000000000000000000000000000000000000087169082818b81855afa9081156103e657610ecc9284928c925f91610faf575b508b51632474521560e21b8152928301908152336020820152919384928391829160400190565b03915afa9182156103e6575f92610f82575b505015610f72574211610f62576001600160a01b0388165f908152602081905260409020548703610f525790610f14929161126b565b858216911603610f45575050610f2c610f4291610e2f565b9160018060a01b03165f525f60205260405f2090565b55565b51638baa579f60e01b8152fd5b8451633ab3447f60e11b81528690fd5b8451630236f31360e11b81528690fd5b855163c64891a560e01b81528790fd5b610fa19250803d10610fa8575b610f9981836109c1565b810190610e17565b5f80610ede565b503d610f8f565b610fcf9150843d8611610fd5575b610fc781836109c1565b810190610e08565b5f610ea5565b503d610fbd565b610fe581610b5d565b801561113657610ff481610b5d565b600181146111175761100581610b5d565b600281146110f85761101681610b5d565b600381146110d95761102781610b5d565b600481146110ba5761103881610b5d565b60058114611094578061104c600692610b5d565b1461106f5750604051636dde561b60e01b60208201526004815261095081610967565b6040516390adebb560e01b6020820152602481019190915261095081604481016105f7565b506040516303664a2760e51b6020820152602481019190915261095081604481016105f7565b50506040516322ec85e560e21b60208201526004815261095081610967565b505060405163b61c330360e01b60208201526004815261095081610967565b5050604051632604aa6f60e21b60208201526004815261095081610967565b505060405163c515f99360e01b60208201526004815261095081610967565b50604051633b893b0960e11b6020820152602481019190915261095081604481016105f7565b3d15611186573d9061116d82610a63565b9161117b60405193846109c1565b82523d5f602084013e565b606090565b60405182516020949193855f5b8381106111f957505050916111d760348580945f9796889701906bffffffffffffffffffffffff199060601b16898201520360148101855201836109c1565b828583519301915af1906111e961115c565b91156111f3575050565b81519101fd5b818184010151828289010152018690611198565b9060201161012a5790602090565b9060401161012a5760200190602090565b35906020811061123a575090565b5f199060200360031b1b1690565b90604010156112575760400190565b634e487b7160e01b5f52603260045260245ffd5b6041830361132f576112b76112b16112a361128f611289878761120d565b9061122c565b9561129d611289828861121b565b95611248565b356001600160f81b03191690565b60f81c90565b907f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a0831161132f5761130d5f93602095604051948594859094939260ff6060936080840197845216602083015260408201520152565b838052039060015afa156103e6575f516001600160a01b0381161561132f5790565b604051638baa579f60e01b8152600490fdfea164736f6c6343000818000a";
+
+type PlayerActionForwarderConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: PlayerActionForwarderConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class PlayerActionForwarder__factory extends ContractFactory {
+  constructor(...args: PlayerActionForwarderConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    _game: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(_game, overrides || {});
+  }
+  override deploy(
+    _game: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(_game, overrides || {}) as Promise<
+      PlayerActionForwarder & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): PlayerActionForwarder__factory {
+    return super.connect(runner) as PlayerActionForwarder__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): PlayerActionForwarderInterface {
+    return new Interface(_abi) as PlayerActionForwarderInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): PlayerActionForwarder {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as PlayerActionForwarder;
+  }
+}
@@ -1,4 +1,8 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
+export * as aiEscapeFheSol from "./AI_Escape_FHE.sol";
+export { EscapeLeaderboard__factory } from "./EscapeLeaderboard__factory";
+export { EscapeRoles__factory } from "./EscapeRoles__factory";
+export { PlayerActionForwarder__factory } from "./PlayerActionForwarder__factory";
+export { StatusDecryptions__factory } from "./StatusDecryptions__factory";
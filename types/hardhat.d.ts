@@ -46,9 +46,25 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.IInputVerifier__factory>;
     getContractFactory(
-      name: "UniversalAdapter",
+      name: "AIEscapeFHE",
       signerOrOptions?: ethers.Signer | FactoryOptions
-    ): Promise<Contracts.UniversalAdapter__factory>;
+    ): Promise<Contracts.AIEscapeFHE__factory>;
+    getContractFactory(
+      name: "EscapeLeaderboard",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.EscapeLeaderboard__factory>;
+    getContractFactory(
+      name: "EscapeRoles",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.EscapeRoles__factory>;
+    getContractFactory(
+      name: "PlayerActionForwarder",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.PlayerActionForwarder__factory>;
+    getContractFactory(
+      name: "StatusDecryptions",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.StatusDecryptions__factory>;
 
     getContractAt(
       name: "EthereumConfig",
@@ -91,10 +107,30 @@ declare module "hardhat/types/runtime" {
       signer?: ethers.Signer
     ): Promise<Contracts.IInputVerifier>;
     getContractAt(
-      name: "UniversalAdapter",
+      name: "AIEscapeFHE",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.AIEscapeFHE>;
+    getContractAt(
+      name: "EscapeLeaderboard",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.EscapeLeaderboard>;
+    getContractAt(
+      name: "EscapeRoles",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.EscapeRoles>;
+    getContractAt(
+      name: "PlayerActionForwarder",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.PlayerActionForwarder>;
+    getContractAt(
+      name: "StatusDecryptions",
       address: string | ethers.Addressable,
       signer?: ethers.Signer
-    ): Promise<Contracts.UniversalAdapter>;
+    ): Promise<Contracts.StatusDecryptions>;
 
     deployContract(
       name: "EthereumConfig",
@@ -129,9 +165,25 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
     deployContract(
-      name: "UniversalAdapter",
+      name: "AIEscapeFHE",
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.UniversalAdapter>;
+    ): Promise<Contracts.AIEscapeFHE>;
+    deployContract(
+      name: "EscapeLeaderboard",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.EscapeLeaderboard>;
+    deployContract(
+      name: "EscapeRoles",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.EscapeRoles>;
+    deployContract(
+      name: "PlayerActionForwarder",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.PlayerActionForwarder>;
+    deployContract(
+      name: "StatusDecryptions",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.StatusDecryptions>;
 
     deployContract(
       name: "EthereumConfig",
@@ -174,10 +226,30 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
     deployContract(
-      name: "UniversalAdapter",
+      name: "AIEscapeFHE",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.AIEscapeFHE>;
+    deployContract(
+      name: "EscapeLeaderboard",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.EscapeLeaderboard>;
+    deployContract(
+      name: "EscapeRoles",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.EscapeRoles>;
+    deployContract(
+      name: "PlayerActionForwarder",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.PlayerActionForwarder>;
+    deployContract(
+      name: "StatusDecryptions",
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.UniversalAdapter>;
+    ): Promise<Contracts.StatusDecryptions>;
 
     // default types
     getContractFactory(
@@ -22,5 +22,13 @@ export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecut
 export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
 export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
-export type { UniversalAdapter } from "./contracts/UniversalAdapter";
-export { UniversalAdapter__factory } from "./factories/contracts/UniversalAdapter__factory";
+export type { AIEscapeFHE } from "./contracts/AI_Escape_FHE.sol/AIEscapeFHE";
+export { AIEscapeFHE__factory } from "./factories/contracts/AI_Escape_FHE.sol/AIEscapeFHE__factory";
+export type { EscapeLeaderboard } from "./contracts/EscapeLeaderboard";
+export { EscapeLeaderboard__factory } from "./factories/contracts/EscapeLeaderboard__factory";
+export type { EscapeRoles } from "./contracts/EscapeRoles";
+export { EscapeRoles__factory } from "./factories/contracts/EscapeRoles__factory";
+export type { PlayerActionForwarder } from "./contracts/PlayerActionForwarder";
+export { PlayerActionForwarder__factory } from "./factories/contracts/PlayerActionForwarder__factory";
+export type { StatusDecryptions } from "./contracts/StatusDecryptions";
+export { StatusDecryptions__factory } from "./factories/contracts/StatusDecryptions__factory";